@@ -19,14 +19,22 @@ import {
 import { CSS } from '@dnd-kit/utilities';
 import { useCombat } from '../../context/CombatContext';
 import { useSettings } from '../../context/SettingsContext';
-import { Vehicle, VehicleTemplate, Position, ScaleName, Creature, CrewAssignment, ElevationZone } from '../../types';
+import { Vehicle, VehicleTemplate, Position, ScaleName, Creature, CrewAssignment, ElevationZone, WindStrength, Tether } from '../../types';
 import { SCALES, formatDistance, formatDistanceWithUnit, getScaleForDistance, calculateMovementPerRound } from '../../data/scaleConfig';
 import { getVehicleElevation } from '../../utils/elevationCalculator';
 import { resolveZone } from '../../data/vehicleTemplates';
+import { getVehicleSizeInFeet } from '../../utils/boardingCalculator';
+import { TETHER_SOURCES } from '../../utils/tetherCalculator';
+import { hasActedThisRound } from '../../utils/actionEconomy';
 import { useBroadcastSource } from '../../hooks/useBroadcastChannel';
 import { renderShipIcon } from './shipIcons';
-import { getPropulsionSpeedCap, isWeaponDestroyed, canVehicleTurn } from '../../utils/vehicleComponents';
+import { WindCompass } from './WindCompass';
+import { CurrentZoneOverlay, CurrentZonesPanel } from './CurrentZones';
+import { getEffectiveVehicleSpeed, isWeaponDestroyed, canVehicleTurn } from '../../utils/vehicleComponents';
 import { featureFlags } from '../../config/featureFlags';
+import { WIND_STRENGTHS, WIND_STRENGTH_INFO, formatCompassPoint } from '../../utils/windCalculator';
+import { isDead as isCreatureDead } from '../../utils/deathSaves';
+import { isLairTurn } from '../../utils/legendaryActions';
 
 interface BattlefieldMapProps {
   height?: number;
@@ -37,6 +45,8 @@ export function BattlefieldMap({ height = 600 }: BattlefieldMapProps) {
   const [activeId, setActiveId] = useState<string | null>(null);
   const [showBackgroundControls, setShowBackgroundControls] = useState(false);
   const [showLayersPanel, setShowLayersPanel] = useState(false);
+  const [showWindPanel, setShowWindPanel] = useState(false);
+  const [showCurrentsPanel, setShowCurrentsPanel] = useState(false);
   const [bgPanelTab, setBgPanelTab] = useState<'background' | 'elevation'>('background');
   const [showElevationControls, setShowElevationControls] = useState(false);
   const [selectedZoneId, setSelectedZoneId] = useState<string | null>(null);
@@ -118,8 +128,9 @@ export function BattlefieldMap({ height = 600 }: BattlefieldMapProps) {
     const lastMove = moveHistory[moveHistory.length - 1];
 
     if (lastMove.type === 'vehicle') {
-      // Restore vehicle position
+      // Restore vehicle position, and any vehicle it dragged along on a tether
       updateVehiclePosition(lastMove.id, lastMove.previousPosition);
+      if (lastMove.dragged) updateVehiclePosition(lastMove.dragged.id, lastMove.dragged.previousPosition);
 
       // Restore movement used
       dispatch({
@@ -133,7 +144,7 @@ export function BattlefieldMap({ height = 600 }: BattlefieldMapProps) {
         type: 'LOG_ACTION',
         payload: {
           type: 'movement',
-          action: `Undid ${vehicle?.name || 'vehicle'} movement`,
+          action: `Undid ${vehicle?.name || 'vehicle'} ${lastMove.isDrift ? 'drift' : 'movement'}`,
         },
       });
     } else {
@@ -155,7 +166,7 @@ export function BattlefieldMap({ height = 600 }: BattlefieldMapProps) {
         type: 'LOG_ACTION',
         payload: {
           type: 'movement',
-          action: `Undid ${creature?.name || 'creature'} movement`,
+          action: `Undid ${creature?.name || 'creature'} ${lastMove.isDrift ? 'drift' : 'movement'}`,
         },
       });
     }
@@ -165,6 +176,7 @@ export function BattlefieldMap({ height = 600 }: BattlefieldMapProps) {
   };
 
   const currentScale = SCALES[state.scale];
+  const wind = state.environment.wind;
 
   // Track vehicle IDs to detect when encounter is loaded
   const vehicleIdsRef = useRef<string>('');
@@ -290,23 +302,6 @@ export function BattlefieldMap({ height = 600 }: BattlefieldMapProps) {
     y: delta.y / pixelsPerFoot,
   });
 
-  // Calculate effective speed accounting for mishap effects
-  const getEffectiveSpeed = (vehicle: Vehicle): number => {
-    let speed = vehicle.currentSpeed;
-
-    // Apply speed reductions from active mishaps
-    for (const mishap of vehicle.activeMishaps) {
-      if (mishap.mechanicalEffect?.speedReduction) {
-        speed -= mishap.mechanicalEffect.speedReduction;
-      }
-    }
-
-    // Component combat: propulsion loss caps speed (0 if all movement components are destroyed).
-    speed = Math.min(speed, getPropulsionSpeedCap(vehicle));
-
-    return Math.max(0, speed);
-  };
-
   // Get the minimum engagement distance between any party and enemy vehicle
   // This determines movement scale for ALL vehicles (once engaged, everyone is committed)
   // Also considers creatures on the battlefield (ejected crew, etc.)
@@ -383,7 +378,7 @@ export function BattlefieldMap({ height = 600 }: BattlefieldMapProps) {
   // Get max movement for a vehicle this round
   // Uses movementScale (based on closest engagement) not visual state.scale
   const getMaxMovement = (vehicle: Vehicle): number => {
-    return calculateMovementPerRound(getEffectiveSpeed(vehicle), movementScale);
+    return calculateMovementPerRound(getEffectiveVehicleSpeed(vehicle, state.crewAssignments, wind), movementScale);
   };
 
   // Get remaining movement for a vehicle
@@ -1376,6 +1371,18 @@ export function BattlefieldMap({ height = 600 }: BattlefieldMapProps) {
     }
   };
 
+  // Initiative order for the player view, with who has acted this round
+  const { initiativeOrder, currentTurnIndex, vehicles, creatures, crewAssignments, turnActions } = state;
+  const turnOrder = useMemo(
+    () =>
+      initiativeOrder.map((id) => ({
+        id,
+        name: isLairTurn(id) ? 'Lair' : vehicles.find((v) => v.id === id)?.name ?? creatures.find((c) => c.id === id)?.name ?? 'Unknown',
+        acted: hasActedThisRound({ initiativeOrder, currentTurnIndex, crewAssignments, movementUsed, turnActions }, id),
+      })),
+    [initiativeOrder, currentTurnIndex, vehicles, creatures, crewAssignments, movementUsed, turnActions]
+  );
+
   // Broadcast state to player view
   useEffect(() => {
     broadcast({
@@ -1385,10 +1392,14 @@ export function BattlefieldMap({ height = 600 }: BattlefieldMapProps) {
       scale: state.scale,
       backgroundImage: state.battlefield.backgroundImage,
       elevationZones: state.elevationZones,
+      currentZones: state.currentZones,
+      wind,
       zoom,
       panOffset,
       round: state.round,
       phase: state.phase,
+      turnOrder,
+      currentTurnId: state.initiativeOrder[state.currentTurnIndex],
       dmViewport: { width, height },
       showVehicleHealth: state.playerViewSettings?.showVehicleHealth ?? true,
       unitSystem,
@@ -1404,9 +1415,14 @@ export function BattlefieldMap({ height = 600 }: BattlefieldMapProps) {
     state.scale,
     state.battlefield.backgroundImage,
     state.elevationZones,
+    state.currentZones,
+    wind,
     state.round,
     state.phase,
     state.playerViewSettings,
+    state.initiativeOrder,
+    state.currentTurnIndex,
+    turnOrder,
     zoom,
     panOffset,
     broadcast,
@@ -1551,6 +1567,123 @@ export function BattlefieldMap({ height = 600 }: BattlefieldMapProps) {
             )}
           </div>
 
+          {/* Wind Controls - dropdown */}
+          <div className="flex items-center gap-sm" style={{ position: 'relative' }}>
+            <button
+              className={`btn btn-secondary text-xs ${wind ? 'btn-active' : ''}`}
+              onClick={() => setShowWindPanel(!showWindPanel)}
+              title="Battlefield wind (drives sail speed)"
+            >
+              Wind
+            </button>
+            {showWindPanel && (
+              <div
+                style={{
+                  position: 'absolute',
+                  top: '100%',
+                  right: 0,
+                  zIndex: 100,
+                  background: 'var(--color-bg-secondary)',
+                  border: '1px solid var(--color-border)',
+                  borderRadius: 'var(--radius-sm)',
+                  minWidth: '200px',
+                  marginTop: '4px',
+                  padding: 'var(--spacing-sm)',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  gap: 'var(--spacing-xs)',
+                }}
+              >
+                <label style={{ display: 'flex', alignItems: 'center', gap: 6, cursor: 'pointer', fontSize: 12 }}>
+                  <input
+                    type="checkbox"
+                    checked={!!wind}
+                    onChange={() =>
+                      dispatch({
+                        type: 'SET_WIND',
+                        payload: wind ? null : { direction: 0, strength: 'moderate', shiftEachRound: false },
+                      })
+                    }
+                  />
+                  <span className="font-bold">Wind</span>
+                </label>
+                {wind ? (
+                  <>
+                    <label className="text-xs" style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 6 }}>
+                      From
+                      <select
+                        className="input text-xs"
+                        value={Math.round(wind.direction / 45) * 45 % 360}
+                        onChange={(e) => dispatch({ type: 'SET_WIND', payload: { ...wind, direction: Number(e.target.value) } })}
+                      >
+                        {[0, 45, 90, 135, 180, 225, 270, 315].map((deg) => (
+                          <option key={deg} value={deg}>{formatCompassPoint(deg)}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="text-xs" style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 6 }}>
+                      Strength
+                      <select
+                        className="input text-xs"
+                        value={wind.strength}
+                        onChange={(e) => dispatch({ type: 'SET_WIND', payload: { ...wind, strength: e.target.value as WindStrength } })}
+                      >
+                        {WIND_STRENGTHS.map((strength) => (
+                          <option key={strength} value={strength}>{WIND_STRENGTH_INFO[strength].label}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <div className="text-xs text-muted">{WIND_STRENGTH_INFO[wind.strength].description}</div>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 6, cursor: 'pointer', fontSize: 12 }}>
+                      <input
+                        type="checkbox"
+                        checked={wind.shiftEachRound}
+                        onChange={() => dispatch({ type: 'SET_WIND', payload: { ...wind, shiftEachRound: !wind.shiftEachRound } })}
+                      />
+                      Shift each round
+                    </label>
+                    <div className="text-xs text-muted" style={{ marginTop: 2 }}>
+                      Sails run faster with the wind and slower into it
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-xs text-muted">
+                    No wind — sails use their flat speed
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Current Zones - dropdown */}
+          <div className="flex items-center gap-sm" style={{ position: 'relative' }}>
+            <button
+              className={`btn btn-secondary text-xs ${state.currentZones.length > 0 ? 'btn-active' : ''}`}
+              onClick={() => setShowCurrentsPanel(!showCurrentsPanel)}
+              title="Water currents (drift ships and swimmers each round)"
+            >
+              Currents {state.currentZones.length > 0 && `(${state.currentZones.length})`}
+            </button>
+            {showCurrentsPanel && (
+              <div
+                style={{
+                  position: 'absolute',
+                  top: '100%',
+                  right: 0,
+                  zIndex: 100,
+                  background: 'var(--color-bg-secondary)',
+                  border: '1px solid var(--color-border)',
+                  borderRadius: 'var(--radius-sm)',
+                  minWidth: '220px',
+                  marginTop: '4px',
+                  padding: 'var(--spacing-sm)',
+                }}
+              >
+                <CurrentZonesPanel />
+              </div>
+            )}
+          </div>
+
           {/* Player View Button */}
           <button
             className="btn btn-primary text-xs"
@@ -2028,6 +2161,17 @@ export function BattlefieldMap({ height = 600 }: BattlefieldMapProps) {
             />
           )}
 
+          {/* Current Zones */}
+          {state.currentZones.map((zone) => (
+            <CurrentZoneOverlay
+              key={zone.id}
+              zone={zone}
+              screenPosition={worldToScreen(zone.position)}
+              width={zone.size.width * pixelsPerFoot}
+              height={zone.size.height * pixelsPerFoot}
+            />
+          ))}
+
           {/* Elevation Zones */}
           {featureFlags.elevationZones && state.elevationZones.map((zone) => {
             const screenPos = worldToScreen(zone.position);
@@ -2068,6 +2212,9 @@ export function BattlefieldMap({ height = 600 }: BattlefieldMapProps) {
             unitSystem={unitSystem}
           />
 
+          {/* Tethers - harpoon chains, grappling claws and Grasping Rounds holding vehicles together */}
+          <TetherLines vehicles={state.vehicles} tethers={state.tethers} worldToScreen={worldToScreen} />
+
           {/* Movement Range Indicator - shows remaining movement for current turn vehicle */}
           {state.phase === 'combat' && currentTurnVehicle && (
             <MovementRangeIndicator
@@ -2163,6 +2310,9 @@ export function BattlefieldMap({ height = 600 }: BattlefieldMapProps) {
             ) : null}
           </DragOverlay>
 
+          {/* Wind Compass */}
+          {wind && <WindCompass wind={wind} />}
+
           {/* Empty State */}
           {state.vehicles.length === 0 && (
             <div
@@ -3665,6 +3815,59 @@ function DistanceLines({ vehicles, distances, worldToScreen, unitSystem }: Dista
   );
 }
 
+// ==========================================
+// Tether Lines
+// ==========================================
+
+interface TetherLinesProps {
+  vehicles: Vehicle[];
+  tethers: Tether[];
+  worldToScreen: (pos: Position) => Position;
+}
+
+function TetherLines({ vehicles, tethers, worldToScreen }: TetherLinesProps) {
+  if (tethers.length === 0) return null;
+
+  return (
+    <svg
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        width: '100%',
+        height: '100%',
+        pointerEvents: 'none',
+        zIndex: 0,
+      }}
+    >
+      {tethers.map((tether) => {
+        const holder = vehicles.find((v) => v.id === tether.sourceVehicleId);
+        const target = vehicles.find((v) => v.id === tether.targetVehicleId);
+        if (!holder || !target) return null;
+
+        const fromScreen = worldToScreen(holder.position);
+        const toScreen = worldToScreen(target.position);
+
+        return (
+          <g key={tether.id}>
+            <title>{`${TETHER_SOURCES[tether.source].name}: ${tether.length} ft, escape DC ${tether.escapeDC}`}</title>
+            <line
+              x1={fromScreen.x}
+              y1={fromScreen.y}
+              x2={toScreen.x}
+              y2={toScreen.y}
+              stroke="var(--color-warning)"
+              strokeWidth="3"
+              strokeLinecap="round"
+            />
+            <circle cx={toScreen.x} cy={toScreen.y} r={5} fill="var(--color-warning)" />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
 // ==========================================
 // Movement Range Indicator
 // ==========================================
@@ -3904,8 +4107,8 @@ function CreatureToken({ creature, screenPosition, pixelsPerFoot, remainingMovem
   const hpPercent = (creature.currentHp / creature.statblock.maxHp) * 100;
   const isAlive = creature.currentHp > 0;
   const isPC = creature.statblock.type === 'pc';
-  const isDead = !isPC && creature.currentHp === 0; // NPCs at 0 HP are dead
-  const isInDeathSaves = isPC && creature.currentHp === 0; // PCs at 0 HP are making death saves
+  const isDead = isCreatureDead(creature); // NPCs at 0 HP, or PCs that failed their death saves
+  const isInDeathSaves = isPC && creature.currentHp === 0 && !isDead; // PCs at 0 HP are making death saves
 
   // z-index priority: dragging > current turn > default
   // Current turn token must be clickable even when overlapping with other tokens
@@ -4084,35 +4287,6 @@ function CreatureToken({ creature, screenPosition, pixelsPerFoot, remainingMovem
 // Utilities
 // ==========================================
 
-/**
- * Get vehicle size in FEET based on template ID or size category
- * Based on real-world vehicle equivalents for visual accuracy
- */
-function getVehicleSizeInFeet(size: string, templateId?: string): number {
-  // Specific vehicle dimensions based on real-world equivalents
-  // Template IDs use underscores (e.g., 'demon_grinder')
-  if (templateId) {
-    const templateSizes: Record<string, number> = {
-      'demon_grinder': 45,  // Tour bus (~40-45 ft) - Gargantuan
-      'scavenger': 35,      // Salvage truck (~35 ft) - Huge
-      'tormentor': 22,      // APC/dune buggy (~20-25 ft) - Huge
-      'buzz_killer': 15,    // Motor trike (~15 ft) - Large
-      'devils_ride': 8,     // Infernal motorcycle (~8 ft) - Large
-    };
-    if (templateSizes[templateId]) {
-      return templateSizes[templateId];
-    }
-  }
-
-  // Fallback to D&D size category (space controlled in feet)
-  const sizes: Record<string, number> = {
-    large: 10,      // 10x10 ft space
-    huge: 15,       // 15x15 ft space
-    gargantuan: 20, // 20x20 ft space
-  };
-  return sizes[size] || 10;
-}
-
 // Longest a ship is drawn relative to its width. Book hulls are 5:1–6.5:1, which
 // render as unreadable slivers, so we cap the drawn aspect to keep them boat-shaped
 // and clickable while still scaling length by real feet (a galley dwarfs a rowboat).
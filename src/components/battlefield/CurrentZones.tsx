@@ -0,0 +1,256 @@
+/**
+ * Water current zones — map overlay and DM editor.
+ *
+ * CurrentZoneOverlay is shared by the DM battlefield and the player view; it
+ * draws the region tinted with an arrow pointing the way the water flows.
+ * CurrentZonesPanel is the toolbar dropdown body for adding/editing zones.
+ * The drift itself is applied by the reducer on NEXT_ROUND.
+ */
+import { useState } from 'react';
+import type { CSSProperties } from 'react';
+import { useCombat } from '../../context/CombatContext';
+import type { CurrentZone, Position } from '../../types';
+import { formatCompassPoint } from '../../utils/windCalculator';
+
+const CURRENT_COLOR = '#22d3ee';
+const BEARINGS = [0, 45, 90, 135, 180, 225, 270, 315];
+
+interface CurrentZoneOverlayProps {
+  zone: CurrentZone;
+  screenPosition: Position;
+  width: number;
+  height: number;
+}
+
+export function CurrentZoneOverlay({ zone, screenPosition, width, height }: CurrentZoneOverlayProps) {
+  const color = zone.color || CURRENT_COLOR;
+  const arrowSize = Math.max(16, Math.min(48, Math.min(width, height) * 0.4));
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: screenPosition.x,
+        top: screenPosition.y,
+        width,
+        height,
+        backgroundColor: `${color}1a`,
+        border: `2px dotted ${color}`,
+        borderRadius: 4,
+        pointerEvents: 'none',
+        zIndex: 1,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+      }}
+    >
+      <svg
+        width={arrowSize}
+        height={arrowSize}
+        viewBox="0 0 24 24"
+        style={{ transform: `rotate(${zone.direction}deg)`, opacity: 0.7 }}
+      >
+        <line x1="12" y1="21" x2="12" y2="6" stroke={color} strokeWidth="2.5" />
+        <polygon points="12,2 7,9 17,9" fill={color} />
+      </svg>
+      <div
+        style={{
+          position: 'absolute',
+          bottom: 4,
+          left: 4,
+          backgroundColor: `${color}cc`,
+          color: '#000',
+          padding: '2px 6px',
+          borderRadius: 3,
+          fontSize: 11,
+          fontWeight: 600,
+          whiteSpace: 'nowrap',
+        }}
+      >
+        {zone.name}: {zone.strength} ft/rd {formatCompassPoint(zone.direction)}
+      </div>
+    </div>
+  );
+}
+
+const inputStyle: CSSProperties = {
+  padding: '3px 6px',
+  fontSize: 11,
+  border: '1px solid var(--color-border)',
+  borderRadius: 'var(--radius-sm)',
+  backgroundColor: 'var(--color-bg-primary)',
+  color: 'inherit',
+};
+
+export function CurrentZonesPanel() {
+  const { state, dispatch } = useCombat();
+  const [editingZone, setEditingZone] = useState<CurrentZone | null>(null);
+
+  return (
+    <>
+      <div className="text-xs text-muted" style={{ marginBottom: 'var(--spacing-xs)' }}>
+        Ships and swimmers inside a current drift with it at the start of each round.
+      </div>
+
+      <button
+        className="btn btn-secondary text-xs mb-sm"
+        style={{ width: '100%' }}
+        onClick={() => {
+          const newZone: CurrentZone = {
+            id: `current-${Date.now()}`,
+            name: `Current ${state.currentZones.length + 1}`,
+            direction: 90,
+            strength: 10,
+            position: { x: 0, y: 0 },
+            size: { width: 60, height: 30 },
+          };
+          dispatch({ type: 'ADD_CURRENT_ZONE', payload: newZone });
+          setEditingZone(newZone);
+        }}
+      >
+        + Add Current
+      </button>
+
+      {state.currentZones.length === 0 ? (
+        <div className="text-xs text-muted">No currents defined.</div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--spacing-xs)', maxHeight: '300px', overflowY: 'auto' }}>
+          {state.currentZones.map((zone) => (
+            <div
+              key={zone.id}
+              style={{
+                padding: 'var(--spacing-xs)',
+                border: '1px solid var(--color-border)',
+                borderRadius: 'var(--radius-sm)',
+                backgroundColor: editingZone?.id === zone.id ? 'var(--color-bg-tertiary)' : 'transparent',
+              }}
+            >
+              {editingZone?.id === zone.id ? (
+                // Editing mode
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                  <input
+                    type="text"
+                    value={editingZone.name}
+                    onChange={(e) => setEditingZone({ ...editingZone, name: e.target.value })}
+                    placeholder="Current name"
+                    style={inputStyle}
+                  />
+                  <div className="flex items-center gap-xs">
+                    <label className="text-xs" style={{ width: 50, fontSize: 10 }}>Flow:</label>
+                    <select
+                      value={Math.round(editingZone.direction / 45) * 45 % 360}
+                      onChange={(e) => setEditingZone({ ...editingZone, direction: Number(e.target.value) })}
+                      style={{ ...inputStyle, flex: 1 }}
+                      title="Direction the water flows toward"
+                    >
+                      {BEARINGS.map((deg) => (
+                        <option key={deg} value={deg}>toward {formatCompassPoint(deg)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex items-center gap-xs">
+                    <label className="text-xs" style={{ width: 50, fontSize: 10 }}>Drift:</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={5}
+                      value={editingZone.strength}
+                      onChange={(e) => setEditingZone({ ...editingZone, strength: Math.max(0, parseInt(e.target.value) || 0) })}
+                      style={{ ...inputStyle, flex: 1 }}
+                    />
+                    <span style={{ fontSize: 10 }}>ft/rd</span>
+                  </div>
+                  <div className="flex items-center gap-xs">
+                    <label className="text-xs" style={{ width: 50, fontSize: 10 }}>Pos:</label>
+                    <input
+                      type="number"
+                      value={Math.round(editingZone.position.x)}
+                      onChange={(e) => setEditingZone({ ...editingZone, position: { ...editingZone.position, x: parseInt(e.target.value) || 0 } })}
+                      style={{ ...inputStyle, width: 50 }}
+                      title="X position (feet)"
+                    />
+                    <input
+                      type="number"
+                      value={Math.round(editingZone.position.y)}
+                      onChange={(e) => setEditingZone({ ...editingZone, position: { ...editingZone.position, y: parseInt(e.target.value) || 0 } })}
+                      style={{ ...inputStyle, width: 50 }}
+                      title="Y position (feet)"
+                    />
+                  </div>
+                  <div className="flex items-center gap-xs">
+                    <label className="text-xs" style={{ width: 50, fontSize: 10 }}>Size:</label>
+                    <input
+                      type="number"
+                      value={editingZone.size.width}
+                      onChange={(e) => setEditingZone({ ...editingZone, size: { ...editingZone.size, width: parseInt(e.target.value) || 10 } })}
+                      style={{ ...inputStyle, width: 50 }}
+                      title="Width (feet)"
+                    />
+                    <span style={{ fontSize: 10 }}>×</span>
+                    <input
+                      type="number"
+                      value={editingZone.size.height}
+                      onChange={(e) => setEditingZone({ ...editingZone, size: { ...editingZone.size, height: parseInt(e.target.value) || 10 } })}
+                      style={{ ...inputStyle, width: 50 }}
+                      title="Height (feet)"
+                    />
+                  </div>
+                  <div className="flex gap-xs">
+                    <button
+                      className="btn btn-primary"
+                      style={{ flex: 1, padding: '3px 6px', fontSize: 10 }}
+                      onClick={() => {
+                        dispatch({
+                          type: 'UPDATE_CURRENT_ZONE',
+                          payload: { id: editingZone.id, updates: editingZone },
+                        });
+                        setEditingZone(null);
+                      }}
+                    >
+                      Save
+                    </button>
+                    <button
+                      className="btn btn-secondary"
+                      style={{ flex: 1, padding: '3px 6px', fontSize: 10 }}
+                      onClick={() => setEditingZone(null)}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                // Display mode
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div style={{ fontSize: 11, fontWeight: 500 }}>{zone.name}</div>
+                    <div style={{ fontSize: 10, color: 'var(--color-text-muted)' }}>
+                      {zone.strength} ft/rd toward {formatCompassPoint(zone.direction)} · {zone.size.width}×{zone.size.height}
+                    </div>
+                  </div>
+                  <div className="flex gap-xs">
+                    <button
+                      className="btn btn-secondary"
+                      style={{ padding: '2px 5px', fontSize: 10 }}
+                      onClick={() => setEditingZone(zone)}
+                      title="Edit current"
+                    >
+                      ✎
+                    </button>
+                    <button
+                      className="btn btn-danger"
+                      style={{ padding: '2px 5px', fontSize: 10 }}
+                      onClick={() => dispatch({ type: 'REMOVE_CURRENT_ZONE', payload: zone.id })}
+                      title="Delete current"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
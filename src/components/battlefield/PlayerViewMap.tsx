@@ -10,6 +10,9 @@ import { Vehicle, Creature, Position, VehicleWeapon, CrewAssignment, ElevationZo
 import { featureFlags } from '../../config/featureFlags';
 import { resolveZone } from '../../data/vehicleTemplates';
 import { renderShipIcon } from './shipIcons';
+import { WindCompass } from './WindCompass';
+import { CurrentZoneOverlay } from './CurrentZones';
+import { DEATH_SAVES_NEEDED, isDead as isCreatureDead, isPlayerCharacter } from '../../utils/deathSaves';
 
 export function PlayerViewMap() {
   const { state, isConnected } = useBroadcastReceiver();
@@ -146,6 +149,39 @@ export function PlayerViewMap() {
         {state.phase === 'combat' && (
           <span className="badge badge-fire">Round {state.round}</span>
         )}
+        {/* Initiative order: who has acted this round, and whose turn it is */}
+        {state.phase === 'combat' && state.turnOrder && state.turnOrder.length > 0 && (
+          <div className="player-view-turns">
+            {state.turnOrder.map((turn) => (
+              <span
+                key={turn.id}
+                className={`player-view-turn${turn.id === state.currentTurnId ? ' current' : ''}${turn.acted ? ' acted' : ''}`}
+              >
+                {turn.acted && turn.id !== state.currentTurnId ? '✓ ' : ''}{turn.name}
+              </span>
+            ))}
+          </div>
+        )}
+        {/* Death saves of PCs at 0 HP, aboard a vehicle or not */}
+        {state.creatures
+          .filter((c) => isPlayerCharacter(c) && c.currentHp === 0 && !isCreatureDead(c))
+          .map((creature) => (
+            <span key={creature.id} className="player-view-death-saves">
+              {creature.name}
+              {creature.deathSaves?.stable ? (
+                <span className="stable">stable</span>
+              ) : (
+                <>
+                  {Array.from({ length: DEATH_SAVES_NEEDED }, (_, i) => (
+                    <span key={`s${i}`} className={`pip success${i < (creature.deathSaves?.successes ?? 0) ? ' filled' : ''}`} />
+                  ))}
+                  {Array.from({ length: DEATH_SAVES_NEEDED }, (_, i) => (
+                    <span key={`f${i}`} className={`pip failure${i < (creature.deathSaves?.failures ?? 0) ? ' filled' : ''}`} />
+                  ))}
+                </>
+              )}
+            </span>
+          ))}
       </div>
 
       {/* Map */}
@@ -172,6 +208,20 @@ export function PlayerViewMap() {
           />
         )}
 
+        {/* Current Zones */}
+        {state.currentZones?.map((zone) => (
+          <CurrentZoneOverlay
+            key={zone.id}
+            zone={zone}
+            screenPosition={{
+              x: mapCenter.x + zone.position.x * pixelsPerFoot,
+              y: mapCenter.y + zone.position.y * pixelsPerFoot,
+            }}
+            width={zone.size.width * pixelsPerFoot}
+            height={zone.size.height * pixelsPerFoot}
+          />
+        ))}
+
         {/* Elevation Zones */}
         {featureFlags.elevationZones && state.elevationZones?.map((zone: ElevationZone) => {
           const screenPos = {
@@ -336,8 +386,8 @@ export function PlayerViewMap() {
             // Min 20px for visibility, no max to scale properly with vehicles
             const tokenSize = Math.max(20, scaledSize);
             const isPC = creature.statblock.type === 'pc';
-            const isDead = !isPC && creature.currentHp === 0;
-            const isInDeathSaves = isPC && creature.currentHp === 0;
+            const isDead = isCreatureDead(creature);
+            const isInDeathSaves = isPC && creature.currentHp === 0 && !isDead;
 
             return (
               <div
@@ -398,6 +448,9 @@ export function PlayerViewMap() {
               </div>
             );
           })}
+
+        {/* Wind Compass */}
+        {state.wind && <WindCompass wind={state.wind} size={72} />}
       </div>
     </div>
   );
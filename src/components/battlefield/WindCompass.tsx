@@ -0,0 +1,59 @@
+/**
+ * Wind compass overlay for the battlefield.
+ *
+ * Shared by the DM battlefield and the player view. The arrow points the way the
+ * wind is blowing (downwind), i.e. opposite to the bearing it blows FROM; the
+ * label reads the nautical way ("Moderate wind from the NE").
+ */
+import type { Wind } from '../../types';
+import { describeWind } from '../../utils/windCalculator';
+
+interface WindCompassProps {
+  wind: Wind;
+  size?: number;
+}
+
+export function WindCompass({ wind, size = 56 }: WindCompassProps) {
+  const isCalm = wind.strength === 'calm';
+  const downwind = wind.direction + 180;
+
+  return (
+    <div
+      title={describeWind(wind)}
+      style={{
+        position: 'absolute',
+        top: 8,
+        left: 8,
+        zIndex: 40,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        gap: 2,
+        padding: 4,
+        background: 'rgba(0, 0, 0, 0.6)',
+        border: '1px solid var(--color-border)',
+        borderRadius: 'var(--radius-sm)',
+        pointerEvents: 'none',
+      }}
+    >
+      <svg width={size} height={size} viewBox="0 0 48 48">
+        <circle cx="24" cy="24" r="20" fill="none" stroke="#888" strokeWidth="1" />
+        <text x="24" y="9" textAnchor="middle" fontSize="7" fill="#ccc">N</text>
+        <text x="24" y="45" textAnchor="middle" fontSize="7" fill="#888">S</text>
+        <text x="42" y="26.5" textAnchor="middle" fontSize="7" fill="#888">E</text>
+        <text x="6" y="26.5" textAnchor="middle" fontSize="7" fill="#888">W</text>
+        {isCalm ? (
+          <circle cx="24" cy="24" r="3" fill="#7ec8e3" />
+        ) : (
+          <g transform={`rotate(${downwind} 24 24)`}>
+            <line x1="24" y1="36" x2="24" y2="14" stroke="#7ec8e3" strokeWidth="2.5" />
+            <polygon points="24,10 19,17 29,17" fill="#7ec8e3" />
+          </g>
+        )}
+      </svg>
+      <span style={{ fontSize: 10, color: '#ddd', whiteSpace: 'nowrap' }}>
+        {describeWind(wind)}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * Boarding Links Panel
+ * Planks and grappling lines lashing this vehicle to others: lay a new one to a vehicle
+ * within reach, or cut one loose. Crew cross them with the Board Vehicle action.
+ */
+
+import { useState } from 'react';
+import { BoardingLinkKind, Vehicle } from '../../types';
+import { useCombat } from '../../context/CombatContext';
+import { BOARDING_LINKS, getHullGap } from '../../utils/boardingCalculator';
+
+interface BoardingLinksPanelProps {
+  vehicle: Vehicle;
+  nearbyVehicles: Vehicle[]; // Vehicles close enough to board
+}
+
+export function BoardingLinksPanel({ vehicle, nearbyVehicles }: BoardingLinksPanelProps) {
+  const { state, dispatch } = useCombat();
+  const [targetId, setTargetId] = useState('');
+
+  const links = state.boardingLinks.filter((l) => l.vehicleIds.includes(vehicle.id));
+  if (links.length === 0 && nearbyVehicles.length === 0) return null;
+
+  const target = nearbyVehicles.find((v) => v.id === targetId);
+  const gap = target ? getHullGap(vehicle, target) : undefined;
+
+  const addLink = (kind: BoardingLinkKind) => {
+    if (!target) return;
+    dispatch({ type: 'ADD_BOARDING_LINK', payload: { kind, vehicleIds: [vehicle.id, target.id] } });
+    setTargetId('');
+  };
+
+  return (
+    <div className="card mb-md" style={{ padding: 'var(--spacing-sm)' }}>
+      <div className="text-xs font-bold mb-sm">Boarding Links</div>
+
+      {links.map((link) => {
+        const otherId = link.vehicleIds.find((id) => id !== vehicle.id);
+        const other = state.vehicles.find((v) => v.id === otherId);
+        return (
+          <div key={link.id} className="flex justify-between items-center text-xs mb-sm">
+            <span title={BOARDING_LINKS[link.kind].description}>
+              {BOARDING_LINKS[link.kind].name} to <strong>{other?.name ?? 'a vehicle'}</strong>
+              {other && ` (${getHullGap(vehicle, other)} ft, reach ${BOARDING_LINKS[link.kind].reach} ft)`}
+            </span>
+            <button
+              className="btn btn-secondary text-xs"
+              onClick={() => dispatch({ type: 'REMOVE_BOARDING_LINK', payload: { linkId: link.id, reason: `Cut loose by ${vehicle.name}` } })}
+            >
+              Cut
+            </button>
+          </div>
+        );
+      })}
+
+      {nearbyVehicles.length > 0 && (
+        <div className="flex gap-sm items-center">
+          <select className="input" value={targetId} onChange={(e) => setTargetId(e.target.value)} style={{ fontSize: '0.75rem' }}>
+            <option value="">-- Lash to --</option>
+            {nearbyVehicles.map((v) => (
+              <option key={v.id} value={v.id}>
+                {v.name} ({getHullGap(vehicle, v)} ft)
+              </option>
+            ))}
+          </select>
+          {(Object.keys(BOARDING_LINKS) as BoardingLinkKind[]).map((kind) => (
+            <button
+              key={kind}
+              className="btn btn-secondary text-xs"
+              disabled={gap === undefined || gap > BOARDING_LINKS[kind].reach}
+              title={`${BOARDING_LINKS[kind].description}; reaches ${BOARDING_LINKS[kind].reach} ft`}
+              onClick={() => addLink(kind)}
+            >
+              {BOARDING_LINKS[kind].name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
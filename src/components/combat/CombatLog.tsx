@@ -25,6 +25,7 @@ import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import DataObjectIcon from '@mui/icons-material/DataObject';
 import DownloadIcon from '@mui/icons-material/Download';
 import { useCombat } from '../../context/CombatContext';
+import { formatRollResult } from '../../utils/diceEngine';
 import {
   formatLogAsMarkdown,
   formatLogAsJson,
@@ -187,6 +188,11 @@ export function CombatLog() {
                           {entry.details}
                         </Typography>
                       )}
+                      {entry.rolls?.map((roll, i) => (
+                        <Typography key={i} variant="caption" color="text.secondary" fontFamily="monospace" sx={{ display: 'block' }}>
+                          {formatRollResult(roll)}
+                        </Typography>
+                      ))}
                     </Box>
                     <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, flexShrink: 0 }}>
                       <Typography variant="caption" color="text.disabled" sx={{ whiteSpace: 'nowrap' }}>
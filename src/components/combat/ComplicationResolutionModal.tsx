@@ -3,6 +3,7 @@
  *
  * Displays a complication and allows resolving saves for all affected vehicles.
  * Supports both in-app dice rolling and manual roll entry.
+ * Naval hazards replace the driver's save with a per-ship officer + crew group check.
  */
 
 import { useState } from 'react';
@@ -31,8 +32,10 @@ import WarningAmberIcon from '@mui/icons-material/WarningAmber';
 import DirectionsCarIcon from '@mui/icons-material/DirectionsCar';
 import PersonIcon from '@mui/icons-material/Person';
 import { useCombat } from '../../context/CombatContext';
-import { ActiveBattlefieldComplication, Vehicle, ComplicationResolutionStatus } from '../../types';
+import { ActiveBattlefieldComplication, Vehicle, ComplicationResolutionStatus, HazardCheckRoll } from '../../types';
 import { withOpacity, factionColors } from '../../theme/customColors';
+import { getNavalHazard, HAZARD_OUTCOME_LABELS, NavalHazard } from '../../data/navalHazards';
+import { getCrewQuality, getOfficerCheckModifier, getOfficerRoleName, getShipOfficer } from '../../data/shipCrew';
 
 interface ComplicationResolutionModalProps {
   open: boolean;
@@ -48,7 +51,9 @@ export function ComplicationResolutionModal({
   const { state, resolveVehicleComplication, applyComplicationEffects, getDriverDexSave } = useCombat();
   const [manualRolls, setManualRolls] = useState<Record<string, string>>({});
 
-  const dc = complication.complication.mechanicalEffect?.skillCheck?.dc || 10;
+  const navalHazard = complication.complication.navalHazard;
+  const hazard = navalHazard ? getNavalHazard(navalHazard.hazardId) : undefined;
+  const dc = navalHazard?.dc || complication.complication.mechanicalEffect?.skillCheck?.dc || 10;
   const skillName = complication.complication.mechanicalEffect?.skillCheck?.skill || 'Dexterity Save';
 
   // Get vehicle info for each resolution
@@ -133,6 +138,23 @@ export function ComplicationResolutionModal({
                   )}
                 </Box>
               )}
+              {hazard && (
+                <Box sx={{ mt: 2, p: 1.5, bgcolor: 'background.default', borderRadius: 1 }}>
+                  <Typography variant="body2" fontWeight={600} color="warning.main">
+                    Group Check DC {dc} — at least half the rolls must succeed
+                  </Typography>
+                  {(['total_success', 'success', 'failure', 'total_failure'] as const).map((outcome) => (
+                    <Typography
+                      key={outcome}
+                      variant="body2"
+                      color={outcome === 'total_success' || outcome === 'success' ? 'success.main' : 'error.main'}
+                      sx={{ mt: 0.5 }}
+                    >
+                      <strong>{HAZARD_OUTCOME_LABELS[outcome]}:</strong> {hazard.outcomes[outcome].summary}
+                    </Typography>
+                  ))}
+                </Box>
+              )}
             </CardContent>
           </Card>
 
@@ -142,7 +164,7 @@ export function ComplicationResolutionModal({
               Affected Vehicles ({vehicleResolutions.length})
             </Typography>
             <Stack spacing={2}>
-              {vehicleResolutions.map(({ vehicleId, status, rollResult, modifier, total, vehicle, dexSaveInfo }) => (
+              {vehicleResolutions.map(({ vehicleId, status, rollResult, modifier, total, vehicle, dexSaveInfo, hazardChecks, hazardOutcome }) => (
                 <Paper
                   key={vehicleId}
                   sx={{
@@ -176,24 +198,37 @@ export function ComplicationResolutionModal({
                           }}
                         />
                       </Box>
-                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                        <PersonIcon fontSize="small" color="action" />
-                        <Typography variant="body2" color="text.secondary">
-                          Driver: {dexSaveInfo?.driverName || 'No Driver'}
-                        </Typography>
-                        {dexSaveInfo && (
-                          <Chip
-                            label={`DEX Save: ${dexSaveInfo.modifier >= 0 ? '+' : ''}${dexSaveInfo.modifier}`}
-                            size="small"
-                            variant="outlined"
-                          />
-                        )}
-                      </Box>
+                      {!hazardChecks && (
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <PersonIcon fontSize="small" color="action" />
+                          <Typography variant="body2" color="text.secondary">
+                            Driver: {dexSaveInfo?.driverName || 'No Driver'}
+                          </Typography>
+                          {dexSaveInfo && (
+                            <Chip
+                              label={`DEX Save: ${dexSaveInfo.modifier >= 0 ? '+' : ''}${dexSaveInfo.modifier}`}
+                              size="small"
+                              variant="outlined"
+                            />
+                          )}
+                        </Box>
+                      )}
                     </Box>
 
                     {/* Resolution Status/Controls */}
                     <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
-                      {status === 'pending' && dexSaveInfo ? (
+                      {hazardChecks ? (
+                        hazardOutcome ? (
+                          <Chip
+                            label={HAZARD_OUTCOME_LABELS[hazardOutcome]}
+                            color={status === 'passed' ? 'success' : 'error'}
+                          />
+                        ) : status === 'skipped' ? (
+                          <Typography variant="body2" color="text.secondary">
+                            Skipped
+                          </Typography>
+                        ) : null
+                      ) : status === 'pending' && dexSaveInfo ? (
                         <>
                           {/* Manual Roll Input */}
                           <TextField
@@ -283,6 +318,9 @@ export function ComplicationResolutionModal({
                       )}
                     </Box>
                   </Box>
+                  {hazardChecks && vehicle && (
+                    <NavalHazardChecks vehicle={vehicle} checks={hazardChecks} dc={dc} hazard={hazard} />
+                  )}
                 </Paper>
               ))}
             </Stack>
@@ -341,3 +379,127 @@ export function ComplicationResolutionModal({
     </Dialog>
   );
 }
+
+interface NavalHazardChecksProps {
+  vehicle: Vehicle;
+  checks: HazardCheckRoll[];
+  dc: number;
+  hazard?: NavalHazard;
+}
+
+/**
+ * One ship's hazard group check — a row per officer check plus the crew roll.
+ * The crew's modifier is its quality score; officer modifiers come from the statblock
+ * of whoever holds the post (editable, and 0 for a vacant post).
+ */
+function NavalHazardChecks({ vehicle, checks, dc, hazard }: NavalHazardChecksProps) {
+  const { state, resolveHazardCheck } = useCombat();
+  const [manualRolls, setManualRolls] = useState<Record<number, string>>({});
+  const [modifiers, setModifiers] = useState<Record<number, string>>({});
+
+  const getOfficer = (check: HazardCheckRoll) =>
+    check.role === 'crew' ? undefined : getShipOfficer(vehicle.id, check.role, state.crewAssignments, state.creatures);
+
+  const getModifier = (index: number, check: HazardCheckRoll): number => {
+    if (modifiers[index] !== undefined) return parseInt(modifiers[index], 10) || 0;
+    if (check.role === 'crew') return getCrewQuality(vehicle);
+    const officer = getOfficer(check);
+    const officerCheck = hazard?.officerChecks.find((c) => c.role === check.role);
+    return officer && officerCheck ? getOfficerCheckModifier(officer, officerCheck.ability, officerCheck.proficiency) : 0;
+  };
+
+  const resolve = (index: number, roll: number, modifier: number) => {
+    const total = roll + modifier;
+    resolveHazardCheck(vehicle.id, index, total >= dc ? 'passed' : 'failed', roll, modifier, total);
+  };
+
+  const handleManualRoll = (index: number, modifier: number) => {
+    const roll = parseInt(manualRolls[index], 10);
+    if (isNaN(roll) || roll < 1 || roll > 20) {
+      alert('Please enter a valid d20 roll (1-20)');
+      return;
+    }
+    resolve(index, roll, modifier);
+  };
+
+  return (
+    <Stack spacing={1} sx={{ mt: 1.5 }}>
+      {checks.map((check, index) => {
+        const modifier = getModifier(index, check);
+        const officer = getOfficer(check);
+        return (
+          <Box key={index} sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <PersonIcon fontSize="small" color="action" />
+              <Typography variant="body2" fontWeight={600}>
+                {check.role === 'crew' ? 'Crew' : getOfficerRoleName(check.role)}
+              </Typography>
+              {check.role !== 'crew' && (
+                <Typography variant="body2" color={officer ? 'text.primary' : 'text.disabled'}>
+                  {officer ? officer.name : '(vacant)'}
+                </Typography>
+              )}
+              <Typography variant="body2" color="text.secondary">
+                {check.check}
+              </Typography>
+            </Box>
+            {check.status === 'pending' ? (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <TextField
+                  size="small"
+                  label="Mod"
+                  type="number"
+                  value={modifiers[index] ?? String(modifier)}
+                  onChange={(e) => setModifiers({ ...modifiers, [index]: e.target.value })}
+                  sx={{ width: 65 }}
+                />
+                <TextField
+                  size="small"
+                  label="d20"
+                  type="number"
+                  inputProps={{ min: 1, max: 20 }}
+                  value={manualRolls[index] || ''}
+                  onChange={(e) => setManualRolls({ ...manualRolls, [index]: e.target.value })}
+                  sx={{ width: 65 }}
+                />
+                <Button
+                  size="small"
+                  variant="outlined"
+                  onClick={() => handleManualRoll(index, modifier)}
+                  disabled={!manualRolls[index]}
+                >
+                  Apply
+                </Button>
+                <Tooltip title="Roll in app">
+                  <IconButton
+                    color="primary"
+                    size="small"
+                    onClick={() => resolve(index, Math.floor(Math.random() * 20) + 1, modifier)}
+                  >
+                    <CasinoIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Skip (position vacant)">
+                  <IconButton size="small" onClick={() => resolveHazardCheck(vehicle.id, index, 'skipped')}>
+                    <CancelIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            ) : check.status === 'skipped' ? (
+              <Typography variant="body2" color="text.secondary">
+                Skipped
+              </Typography>
+            ) : (
+              <Chip
+                icon={check.status === 'passed' ? <CheckCircleIcon /> : <CancelIcon />}
+                label={`${check.rollResult}${(check.modifier ?? 0) >= 0 ? '+' : ''}${check.modifier ?? 0} = ${check.total}`}
+                size="small"
+                color={check.status === 'passed' ? 'success' : 'error'}
+              />
+            )}
+          </Box>
+        );
+      })}
+    </Stack>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Concentration Save Prompts
+ * Concentrating creatures that took damage: roll the Con save to keep the spell, or skip it.
+ */
+
+import { Box, Button, Paper, Typography } from '@mui/material';
+import { useCombat } from '../../context/CombatContext';
+import { getTargetSaveModifier } from '../../utils/attackResolver';
+import { getSaveRollMode } from '../../utils/conditionEffects';
+import { rollD20 } from '../../utils/diceEngine';
+import { withOpacity } from '../../theme/customColors';
+
+const PROMPT_COLOR = '#a78bfa';
+
+export function ConcentrationSavePrompts() {
+  const { state, dispatch } = useCombat();
+  if (state.concentrationSavePrompts.length === 0) return null;
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      {state.concentrationSavePrompts.map((prompt) => {
+        const creature = state.creatures.find((c) => c.id === prompt.creatureId);
+        if (!creature) return null;
+        const modifier = getTargetSaveModifier(creature, 'con') ?? 0;
+        const mode = getSaveRollMode(creature, 'con');
+        return (
+          <Paper key={prompt.id} sx={{ p: 1.5, mb: 1, bgcolor: withOpacity(PROMPT_COLOR, 0.1), border: 1, borderColor: PROMPT_COLOR }}>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+              Concentration: took {prompt.damage} damage
+            </Typography>
+            <Typography variant="body2" fontWeight={600} sx={{ color: PROMPT_COLOR }}>
+              {creature.name} ({prompt.spell}): DC {prompt.dc} CON ({modifier >= 0 ? '+' : ''}
+              {modifier})
+            </Typography>
+            {mode.notes.length > 0 && (
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                {mode.notes.join(', ')}
+              </Typography>
+            )}
+            <Box sx={{ display: 'flex', gap: 0.5, mt: 1 }}>
+              <Button
+                size="small"
+                variant="contained"
+                onClick={() =>
+                  dispatch({
+                    type: 'RESOLVE_CONCENTRATION_SAVE',
+                    payload: { promptId: prompt.id, roll: rollD20(modifier, mode.advantage, mode.disadvantage) },
+                  })
+                }
+                sx={{ fontSize: '0.7rem', py: 0.25 }}
+              >
+                Roll Save
+              </Button>
+              <Button
+                size="small"
+                onClick={() => dispatch({ type: 'RESOLVE_CONCENTRATION_SAVE', payload: { promptId: prompt.id } })}
+                sx={{ fontSize: '0.7rem', py: 0.25 }}
+              >
+                Skip
+              </Button>
+            </Box>
+          </Paper>
+        );
+      })}
+    </Box>
+  );
+}
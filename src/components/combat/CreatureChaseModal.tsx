@@ -37,8 +37,10 @@ import AddIcon from '@mui/icons-material/Add';
 import WarningAmberIcon from '@mui/icons-material/WarningAmber';
 import PetsIcon from '@mui/icons-material/Pets';
 import { useCombat } from '../../context/CombatContext';
-import { Creature, Statblock, ChaseComplication } from '../../types';
+import { Creature, Statblock, StatblockAction, ChaseComplication } from '../../types';
 import { withOpacity } from '../../theme/customColors';
+import { parseLegendaryActionsPerRound } from '../../utils/legendaryActions';
+import { parseRecharge } from '../../utils/recharge';
 
 // ==========================================
 // Open5e Types & API
@@ -97,6 +99,7 @@ interface Open5eMonster {
   reactions?: Open5eAction[];
   legendary_actions?: Open5eAction[];
   legendary_desc?: string;
+  lair_actions?: Open5eAction[];
   special_abilities?: Open5eAction[];
   document__title: string;
 }
@@ -136,12 +139,13 @@ function mapOpen5eSize(size: string): 'tiny' | 'small' | 'medium' | 'large' | 'h
   return sizeMap[size] || 'medium';
 }
 
-function convertOpen5eAction(action: Open5eAction): { name: string; description: string; attackBonus?: number; damage?: string } {
+function convertOpen5eAction(action: Open5eAction): StatblockAction {
   return {
     name: action.name,
     description: action.desc,
     attackBonus: action.attack_bonus,
     damage: action.damage_dice ? `${action.damage_dice}${action.damage_bonus ? `+${action.damage_bonus}` : ''}` : undefined,
+    recharge: parseRecharge(action.name),
   };
 }
 
@@ -200,6 +204,8 @@ function convertOpen5eToCreature(monster: Open5eMonster, position: { x: number;
     bonusActions: monster.bonus_actions?.map(convertOpen5eAction),
     reactions: monster.reactions?.map(convertOpen5eAction),
     legendaryActions: monster.legendary_actions?.map(convertOpen5eAction),
+    legendaryActionsPerRound: parseLegendaryActionsPerRound(monster.legendary_desc),
+    lairActions: monster.lair_actions?.map(convertOpen5eAction),
   };
 
   const dexMod = Math.floor((monster.dexterity - 10) / 2);
@@ -0,0 +1,240 @@
+/**
+ * Creature Conditions
+ * A creature's conditions and concentration as chips, and compact forms to add a condition
+ * (its duration, when it ticks, the save that ends it, the spell holding it) or start
+ * concentrating on a spell.
+ */
+
+import { useState } from 'react';
+import { Box, Button, Chip, IconButton, MenuItem, TextField, Tooltip } from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import { useCombat } from '../../context/CombatContext';
+import type { AbilityName, Condition, ConditionName, ConditionTick, Creature } from '../../types';
+import { CONDITION_NAMES, MAX_EXHAUSTION, formatCondition } from '../../utils/conditionEffects';
+import { withOpacity } from '../../theme/customColors';
+
+const ABILITIES: AbilityName[] = ['str', 'dex', 'con', 'int', 'wis', 'cha'];
+
+const fieldSx = { '& .MuiInputBase-input': { py: '3px', fontSize: '0.7rem' }, '& .MuiInputLabel-root': { fontSize: '0.7rem' } };
+
+interface ConditionDraft {
+  name: ConditionName;
+  duration: string;
+  tickAt: ConditionTick;
+  saveDc: string;
+  saveAbility: AbilityName;
+  level: string;
+  heldBy: string; // Id of the concentrating caster whose spell this is, or ''
+}
+
+const EMPTY_DRAFT: ConditionDraft = { name: 'prone', duration: '', tickAt: 'end_of_turn', saveDc: '', saveAbility: 'con', level: '1', heldBy: '' };
+
+const CONCENTRATION_COLOR = '#a78bfa';
+
+export function CreatureConditions({ creature }: { creature: Creature }) {
+  const { state, dispatch } = useCombat();
+  const [draft, setDraft] = useState<ConditionDraft | null>(null);
+  const [spellDraft, setSpellDraft] = useState<string | null>(null);
+  const casters = state.creatures.filter((c) => c.concentrating);
+
+  const startConcentration = () => {
+    if (!spellDraft?.trim()) return;
+    dispatch({ type: 'START_CONCENTRATION', payload: { creatureId: creature.id, spell: spellDraft } });
+    setSpellDraft(null);
+  };
+
+  const addCondition = () => {
+    if (!draft) return;
+    const duration = parseInt(draft.duration, 10);
+    const saveDc = parseInt(draft.saveDc, 10);
+    const caster = casters.find((c) => c.id === draft.heldBy);
+    const condition: Condition = {
+      name: draft.name,
+      source: caster ? `${caster.name}'s ${caster.concentrating}` : 'DM',
+      ...(caster && { concentrationOf: caster.id }),
+      ...(duration > 0 && { duration, tickAt: draft.tickAt }),
+      ...(saveDc > 0 && { saveEnds: { dc: saveDc, ability: draft.saveAbility } }),
+      ...(draft.name === 'exhaustion' && { level: Math.min(MAX_EXHAUSTION, Math.max(1, parseInt(draft.level, 10) || 1)) }),
+    };
+    dispatch({ type: 'ADD_CONDITION', payload: { creatureId: creature.id, condition } });
+    setDraft(null);
+  };
+
+  return (
+    <Box sx={{ mt: 0.5 }}>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 0.5 }}>
+        {creature.conditions.map((condition) => (
+          <Tooltip key={condition.name} title={formatCondition(condition)} arrow>
+            <Chip
+              label={
+                condition.name === 'exhaustion'
+                  ? `exhaustion ${condition.level ?? 1}`
+                  : `${condition.name}${condition.duration !== undefined ? ` ${condition.duration}` : ''}`
+              }
+              size="small"
+              onDelete={() =>
+                dispatch({ type: 'REMOVE_CONDITION', payload: { creatureId: creature.id, name: condition.name, reason: 'Removed by the DM' } })
+              }
+              sx={{ height: 18, fontSize: '0.6rem', bgcolor: '#3a2a1a', color: '#f59e0b' }}
+            />
+          </Tooltip>
+        ))}
+        {creature.concentrating && (
+          <Tooltip title={`Concentrating on ${creature.concentrating}`} arrow>
+            <Chip
+              label={creature.concentrating}
+              size="small"
+              onDelete={() => dispatch({ type: 'END_CONCENTRATION', payload: { creatureId: creature.id, reason: 'Ended by the DM' } })}
+              sx={{ height: 18, fontSize: '0.6rem', bgcolor: withOpacity(CONCENTRATION_COLOR, 0.2), color: CONCENTRATION_COLOR }}
+            />
+          </Tooltip>
+        )}
+        {!draft && (
+          <IconButton size="small" onClick={() => setDraft(EMPTY_DRAFT)} title="Add condition" sx={{ p: 0.25 }}>
+            <AddIcon sx={{ fontSize: 14 }} />
+          </IconButton>
+        )}
+        {spellDraft === null && (
+          <Button size="small" onClick={() => setSpellDraft('')} sx={{ fontSize: '0.6rem', py: 0, minWidth: 0, color: CONCENTRATION_COLOR }}>
+            Concentrate
+          </Button>
+        )}
+      </Box>
+
+      {spellDraft !== null && (
+        <Box sx={{ display: 'flex', gap: 0.5, mt: 0.5 }}>
+          <TextField
+            size="small"
+            label="Spell"
+            value={spellDraft}
+            onChange={(e) => setSpellDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') startConcentration();
+            }}
+            sx={{ ...fieldSx, width: 120 }}
+          />
+          <Button
+            size="small"
+            variant="contained"
+            onClick={startConcentration}
+            disabled={!spellDraft.trim()}
+            sx={{ fontSize: '0.65rem', py: 0, minWidth: 0 }}
+          >
+            Start
+          </Button>
+          <Button size="small" onClick={() => setSpellDraft(null)} sx={{ fontSize: '0.65rem', py: 0, minWidth: 0 }}>
+            Cancel
+          </Button>
+        </Box>
+      )}
+
+      {draft && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
+          <TextField
+            select
+            size="small"
+            label="Condition"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value as ConditionName })}
+            sx={{ ...fieldSx, width: 110 }}
+          >
+            {CONDITION_NAMES.map((name) => (
+              <MenuItem key={name} value={name} sx={{ fontSize: '0.75rem' }}>
+                {name}
+              </MenuItem>
+            ))}
+          </TextField>
+          {draft.name === 'exhaustion' && (
+            <TextField
+              type="number"
+              size="small"
+              label="Level"
+              value={draft.level}
+              onChange={(e) => setDraft({ ...draft, level: e.target.value })}
+              inputProps={{ min: 1, max: MAX_EXHAUSTION }}
+              sx={{ ...fieldSx, width: 55 }}
+            />
+          )}
+          <TextField
+            type="number"
+            size="small"
+            label="Rounds"
+            value={draft.duration}
+            onChange={(e) => setDraft({ ...draft, duration: e.target.value })}
+            placeholder="∞"
+            inputProps={{ min: 1 }}
+            sx={{ ...fieldSx, width: 60 }}
+          />
+          {draft.duration && (
+            <TextField
+              select
+              size="small"
+              label="Ticks at"
+              value={draft.tickAt}
+              onChange={(e) => setDraft({ ...draft, tickAt: e.target.value as ConditionTick })}
+              sx={{ ...fieldSx, width: 95 }}
+            >
+              <MenuItem value="start_of_turn" sx={{ fontSize: '0.75rem' }}>
+                Turn start
+              </MenuItem>
+              <MenuItem value="end_of_turn" sx={{ fontSize: '0.75rem' }}>
+                Turn end
+              </MenuItem>
+            </TextField>
+          )}
+          <TextField
+            type="number"
+            size="small"
+            label="Save DC"
+            value={draft.saveDc}
+            onChange={(e) => setDraft({ ...draft, saveDc: e.target.value })}
+            placeholder="—"
+            inputProps={{ min: 1 }}
+            sx={{ ...fieldSx, width: 65 }}
+          />
+          {draft.saveDc && (
+            <TextField
+              select
+              size="small"
+              label="Save"
+              value={draft.saveAbility}
+              onChange={(e) => setDraft({ ...draft, saveAbility: e.target.value as AbilityName })}
+              sx={{ ...fieldSx, width: 65 }}
+            >
+              {ABILITIES.map((ability) => (
+                <MenuItem key={ability} value={ability} sx={{ fontSize: '0.75rem' }}>
+                  {ability.toUpperCase()}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+          {casters.length > 0 && (
+            <TextField
+              select
+              size="small"
+              label="Spell"
+              value={draft.heldBy}
+              onChange={(e) => setDraft({ ...draft, heldBy: e.target.value })}
+              sx={{ ...fieldSx, width: 120 }}
+            >
+              <MenuItem value="" sx={{ fontSize: '0.75rem' }}>
+                None
+              </MenuItem>
+              {casters.map((caster) => (
+                <MenuItem key={caster.id} value={caster.id} sx={{ fontSize: '0.75rem' }}>
+                  {caster.concentrating} ({caster.name})
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+          <Button size="small" variant="contained" onClick={addCondition} sx={{ fontSize: '0.65rem', py: 0, minWidth: 0 }}>
+            Add
+          </Button>
+          <Button size="small" onClick={() => setDraft(null)} sx={{ fontSize: '0.65rem', py: 0, minWidth: 0 }}>
+            Cancel
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+}
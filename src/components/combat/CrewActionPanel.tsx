@@ -2,13 +2,36 @@
  * Crew Action Panel Component
  * Allows declaring and resolving actions for all crew members on a vehicle's turn
  * Per Avernus rules: All crew declare simultaneously, then all actions resolve together
+ * Ship's officers also get their post's actions (Bosun repair, Surgeon heal, Captain rally)
  */
 
 import { useState } from 'react';
-import { Vehicle, Creature, VehicleZone } from '../../types';
+import { Vehicle, Creature, VehicleZone, VehicleWeapon, OfficerRole, ReadyTrigger, TurnActions } from '../../types';
 import { resolveZone } from '../../data/vehicleTemplates';
 import { useCombat } from '../../context/CombatContext';
 import { RollableText } from '../common/RollableText';
+import {
+  getOfficerActions,
+  getOfficerCheckModifier,
+  getOfficerRoleName,
+  OfficerAction,
+  getCrewQuality,
+  RALLY_DC,
+  REPAIR_DC,
+} from '../../data/shipCrew';
+import { rollD20, rollDie } from '../../utils/diceEngine';
+import { getComponentHp } from '../../utils/vehicleComponents';
+import { getNavalWeaponBonuses, getUpgradedWeaponDamage } from '../../data/navalUpgrades';
+import { getDamageTotal, rollDamageParts } from '../../utils/damageCalculator';
+import { getMishapRollEffects, isVehicleProne, RIGHT_VEHICLE_CHECK, RIGHT_VEHICLE_DC } from '../../data/mishapTable';
+import { getRamDamageDice, getRamGap, RAM_CONTACT_RANGE } from '../../utils/ramCalculator';
+import { getBoardingCheck, getHullGap, MAX_BOARDING_GAP } from '../../utils/boardingCalculator';
+import { getAmmunitionCapacity, getResupplyAmount, getSiegeStage, isOutOfAmmunition } from '../../utils/weaponAmmo';
+import { decodeAttackTarget, describeWeaponAttack, encodeAttackTarget, getWeaponAttack } from '../../utils/attackResolver';
+import { READY_ACTION_NAME, READY_TRIGGERS } from '../../utils/readiedActions';
+import { getCheckRollMode } from '../../utils/conditionEffects';
+import { BoardingLinksPanel } from './BoardingLinksPanel';
+import { TethersPanel } from './TethersPanel';
 import {
   calculateCoverWithElevation,
   getArcDisplayName,
@@ -27,20 +50,11 @@ interface CrewActionPanelProps {
   driver: Creature | undefined;
 }
 
-interface CrewMemberAction {
-  creatureId: string;
-  action: string | null;
-  bonusAction: string | null;
-  movement: string | null;
-  target: string | null; // Target creature ID for attacks
-  targetCover: ElevationCoverResult | null;
-  resolved: boolean;
-}
-
 // Actions available at Helm station
+const RAM_ACTION_NAME = 'Ram';
 const HELM_ACTIONS = [
   { id: 'drive', name: 'Drive', description: 'Move vehicle up to its speed' },
-  { id: 'ram', name: 'Ram', description: 'Crash into target (1d6/10ft moved, max 20d6)' },
+  { id: 'ram', name: RAM_ACTION_NAME, description: 'Crash into target (1d6/10ft moved, max 20d6)' },
 ];
 
 const HELM_BONUS_ACTIONS = [
@@ -58,15 +72,35 @@ const WEAPON_STATION_BASE_ACTIONS = [
   { id: 'ranged_attack', name: 'Personal Ranged Attack', description: 'Make a ranged weapon attack (bow, crossbow, etc.)' },
   { id: 'cast_spell', name: 'Cast Spell', description: 'Cast a spell instead of using station weapon' },
   { id: 'help', name: 'Help', description: 'Give an ally advantage on their next attack' },
-  { id: 'ready', name: 'Ready', description: 'Prepare an action with a trigger' },
+  { id: 'ready', name: READY_ACTION_NAME, description: 'Prepare an action with a trigger' },
 ];
 
+// Station weapon actions: fire it, work a siege weapon's load/aim sequence, or restock it from the cargo
+const fireActionName = (weapon: VehicleWeapon) => `Fire ${weapon.name}`;
+const loadActionName = (weapon: VehicleWeapon) => `Load ${weapon.name}`;
+const aimActionName = (weapon: VehicleWeapon) => `Aim ${weapon.name}`;
+const restockActionName = (weapon: VehicleWeapon) => `Restock ${weapon.name}`;
+
+// Any creature aboard a flipped vehicle can spend its action trying to right it
+const RIGHT_VEHICLE_ACTION = {
+  id: 'right_vehicle',
+  name: 'Right the Vehicle',
+  description: `Str (Athletics) check, DC ${RIGHT_VEHICLE_DC}: on a success the vehicle is back upright and can move again`,
+};
+
+// Any crew member can cross to a vehicle close enough to board
+const BOARD_ACTION = {
+  id: 'board',
+  name: 'Board Vehicle',
+  description: 'Jump to another vehicle (Athletics or Acrobatics), or cross a plank or grappling line',
+};
+
 // Actions available to Passengers
 const PASSENGER_ACTIONS = [
   { id: 'attack', name: 'Attack', description: 'Make a weapon attack' },
   { id: 'cast_spell', name: 'Cast Spell', description: 'Cast a spell' },
   { id: 'help', name: 'Help', description: 'Give an ally advantage' },
-  { id: 'ready', name: 'Ready', description: 'Prepare an action with a trigger' },
+  { id: 'ready', name: READY_ACTION_NAME, description: 'Prepare an action with a trigger' },
   { id: 'dodge', name: 'Dodge', description: 'Attacks against you have disadvantage' },
   { id: 'other', name: 'Other Action', description: 'Custom action' },
 ];
@@ -101,24 +135,11 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
     }))
     .filter((c) => c.creature);
 
-  // Track actions for each crew member
-  const [crewActions, setCrewActions] = useState<Record<string, CrewMemberAction>>(() => {
-    const initial: Record<string, CrewMemberAction> = {};
-    vehicleCrew.forEach(({ creature }) => {
-      if (creature) {
-        initial[creature.id] = {
-          creatureId: creature.id,
-          action: null,
-          bonusAction: null,
-          movement: null,
-          target: null,
-          targetCover: null,
-          resolved: false,
-        };
-      }
-    });
-    return initial;
-  });
+  // Each crew member's declared actions live in the combat state, so they survive re-renders
+  // and reset when the vehicle's next turn starts
+  const crewActions = state.turnActions;
+  const declare = (creatureId: string, actions: Partial<TurnActions>) =>
+    dispatch({ type: 'DECLARE_TURN_ACTIONS', payload: { creatureId, actions } });
 
   // Get all potential targets (creatures on other vehicles or unassigned)
   const getPotentialTargets = (attackerCreatureId: string) => {
@@ -180,6 +201,31 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
     return targets;
   };
 
+  // Ram targets: other vehicles still in the fight, and creatures on foot, with how far off they are
+  const ramTargets = [
+    ...state.vehicles
+      .filter((v) => v.id !== vehicle.id && !v.isInoperative)
+      .map((v) => ({ id: v.id, name: v.name, gap: getRamGap(vehicle, v) })),
+    ...state.creatures
+      .filter((c) => c.position && c.currentHp > 0 && !state.crewAssignments.some((a) => a.creatureId === c.id))
+      .map((c) => ({ id: c.id, name: `${c.name} (on foot)`, gap: getRamGap(vehicle, c) })),
+  ];
+  const distanceMoved = state.movementUsed[vehicle.id] || 0;
+  const ramDice = getRamDamageDice(vehicle, distanceMoved);
+
+  // Station weapon targets: other vehicles (and their components), and creatures not aboard this vehicle
+  const weaponTargetVehicles = state.vehicles.filter((v) => v.id !== vehicle.id && !v.isInoperative);
+  const weaponTargetCreatures = state.creatures.filter((c) => {
+    if (c.currentHp <= 0) return false;
+    const assignment = state.crewAssignments.find((a) => a.creatureId === c.id);
+    return assignment ? assignment.vehicleId !== vehicle.id : !!c.position;
+  });
+
+  // Vehicles close enough to board, hull to hull
+  const boardableVehicles = state.vehicles.filter(
+    (v) => v.id !== vehicle.id && !v.isInoperative && getHullGap(vehicle, v) <= MAX_BOARDING_GAP
+  );
+
   // Check if this is a driver zone
   const isDriverZone = (zoneId: string) => {
     const driverPatterns = ['helm', 'rider', 'driver', 'pilot'];
@@ -194,8 +240,17 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
     );
   };
 
-  // Get available actions for a crew member based on their station
-  const getAvailableActions = (zone: VehicleZone | undefined) => {
+  const isProne = isVehicleProne(vehicle);
+
+  // Get available actions for a crew member based on their station (officers add their post's actions)
+  const getAvailableActions = (zone: VehicleZone | undefined, officerRole?: OfficerRole) => {
+    const { actions, bonusActions } = getStationActions(zone);
+    const rightVehicle = isProne ? [RIGHT_VEHICLE_ACTION] : [];
+    const board = boardableVehicles.length > 0 ? [BOARD_ACTION] : [];
+    return { actions: [...rightVehicle, ...getOfficerActions(officerRole), ...actions, ...board], bonusActions };
+  };
+
+  const getStationActions = (zone: VehicleZone | undefined) => {
     if (!zone) return { actions: PASSENGER_ACTIONS, bonusActions: PASSENGER_BONUS_ACTIONS };
 
     if (isDriverZone(zone.id)) {
@@ -205,70 +260,175 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
     if (isWeaponZone(zone)) {
       // Find the weapon at this station
       const weapon = vehicle.weapons.find((w) => w.zoneId === zone.id);
-      const weaponActions = weapon
-        ? [
-            { id: 'station_weapon', name: `Fire ${weapon.name}`, description: `Station weapon: ${weapon.damage}, ${weapon.range || 'melee'}` },
-            ...WEAPON_STATION_BASE_ACTIONS,
-          ]
-        : WEAPON_STATION_BASE_ACTIONS;
+      const weaponActions = weapon ? [...getWeaponActions(weapon), ...WEAPON_STATION_BASE_ACTIONS] : WEAPON_STATION_BASE_ACTIONS;
       return { actions: weaponActions, bonusActions: PASSENGER_BONUS_ACTIONS };
     }
 
     return { actions: PASSENGER_ACTIONS, bonusActions: PASSENGER_BONUS_ACTIONS };
   };
 
-  const setAction = (creatureId: string, actionType: 'action' | 'bonusAction' | 'movement', value: string | null) => {
-    setCrewActions((prev) => ({
-      ...prev,
-      [creatureId]: {
-        ...prev[creatureId],
-        [actionType]: value,
-        // Clear target when action changes
-        ...(actionType === 'action' ? { target: null, targetCover: null } : {}),
-      },
-    }));
+  // Fire when loaded, aimed and stocked; otherwise the next step of the load/aim sequence
+  const getWeaponActions = (weapon: VehicleWeapon) => {
+    const stage = getSiegeStage(weapon);
+    const weaponActions: { id: string; name: string; description: string }[] = [];
+    if (!isOutOfAmmunition(weapon)) {
+      if (stage?.step === 'load') {
+        weaponActions.push({ id: 'load_weapon', name: loadActionName(weapon), description: `Load the ${weapon.name} (${stage.done}/${stage.needed} actions)` });
+      } else if (stage?.step === 'aim') {
+        weaponActions.push({ id: 'aim_weapon', name: aimActionName(weapon), description: `Aim the ${weapon.name} (${stage.done}/${stage.needed} actions)` });
+      } else {
+        weaponActions.push({ id: 'station_weapon', name: fireActionName(weapon), description: `Station weapon: ${weapon.damage}, ${weapon.range || 'melee'}` });
+      }
+    }
+    if (getResupplyAmount(weapon, vehicle.ammunitionStores ?? 0) > 0) {
+      weaponActions.push({ id: 'restock_weapon', name: restockActionName(weapon), description: 'Refill from the spare ammunition in the cargo' });
+    }
+    return weaponActions;
+  };
+
+  const setAction = (creatureId: string, actionType: 'action' | 'bonusAction', value: string | undefined) =>
+    declare(creatureId, {
+      [actionType]: value,
+      // Clear target when action changes
+      ...(actionType === 'action' ? { target: undefined, boardZoneId: undefined, attackTarget: undefined } : {}),
+    });
+
+  const setTarget = (creatureId: string, targetId: string | undefined) => declare(creatureId, { target: targetId });
+
+  // Cover of the declared target creature, from the attacker's station
+  const getTargetCover = (creatureId: string): ElevationCoverResult | null => {
+    const targetId = crewActions[creatureId]?.target;
+    if (!targetId) return null;
+    return getPotentialTargets(creatureId).find((t) => t.creatureId === targetId)?.cover ?? null;
+  };
+
+  // Officer action declared by name, if the crew member holds the post for it
+  const findOfficerAction = (officerRole: OfficerRole | undefined, action: string | undefined) =>
+    getOfficerActions(officerRole).find((a) => a.name === action);
+
+  // Heal targets: wounded creatures aboard this vehicle
+  const woundedAboard = vehicleCrew
+    .map(({ creature }) => creature!)
+    .filter((c) => c.currentHp < c.statblock.maxHp);
+
+  // Vehicle-wide mishap effects on rolls (Damaged Axle, Locked Steering)
+  const vehicleRollEffects = getMishapRollEffects(vehicle);
+
+  // Checks also roll with disadvantage from the creature's own conditions (poisoned, exhaustion…)
+  const hasCheckDisadvantage = (creature: Creature) =>
+    vehicleRollEffects.checkDisadvantage || getCheckRollMode(creature).disadvantage;
+
+  // Roll and apply an officer action's effect
+  const resolveOfficerAction = (officer: Creature, officerAction: OfficerAction, targetId: string | null) => {
+    const modifier = getOfficerCheckModifier(officer, officerAction.ability, officerAction.proficiency);
+    const source = `${officer.name} (${getOfficerRoleName(officerAction.role)})`;
+    const checkDisadvantage = hasCheckDisadvantage(officer);
+    const rollNote = checkDisadvantage ? ' (disadvantage)' : '';
+
+    if (officerAction.id === 'bosun_repair') {
+      const check = rollD20(modifier, false, checkDisadvantage);
+      const damaged = (vehicle.template.components || []).filter((c) => getComponentHp(vehicle, c) < c.maxHp);
+      if (check.total < REPAIR_DC || damaged.length === 0) {
+        dispatch({
+          type: 'LOG_ACTION',
+          payload: {
+            type: 'ability',
+            action: damaged.length === 0 ? `${vehicle.name} has nothing to repair` : `${officer.name} fails to repair ${vehicle.name}`,
+            details: `Carpenter's tools ${check.total}${rollNote} vs DC ${REPAIR_DC}`,
+          },
+        });
+        return;
+      }
+      const crewQuality = getCrewQuality(vehicle);
+      damaged.forEach((c) => {
+        dispatch({
+          type: 'REPAIR_VEHICLE_COMPONENT',
+          payload: {
+            vehicleId: vehicle.id,
+            componentId: c.id,
+            amount: Math.max(1, rollDie(6) + crewQuality),
+            source: `${source}: ${check.total}${rollNote} vs DC ${REPAIR_DC}`,
+          },
+        });
+      });
+    } else if (officerAction.id === 'surgeon_heal' && targetId) {
+      const die = rollDie(8);
+      dispatch({ type: 'HEAL_CREATURE', payload: { creatureId: targetId, amount: Math.max(1, die + modifier) } });
+    } else if (officerAction.id === 'captain_rally') {
+      const check = rollD20(modifier, false, checkDisadvantage);
+      if (check.total >= RALLY_DC) {
+        dispatch({
+          type: 'ADJUST_CREW_QUALITY',
+          payload: { vehicleId: vehicle.id, delta: 1, reason: `${source} rallies the crew (${check.total}${rollNote} vs DC ${RALLY_DC})` },
+        });
+      } else {
+        dispatch({
+          type: 'LOG_ACTION',
+          payload: {
+            type: 'ability',
+            action: `${officer.name} fails to rally the crew of ${vehicle.name}`,
+            details: `Persuasion ${check.total}${rollNote} vs DC ${RALLY_DC}`,
+          },
+        });
+      }
+    }
+  };
+
+  // Try to right a flipped vehicle: Str (Athletics), with disadvantage under Damaged Axle
+  const rightVehicle = (creature: Creature) => {
+    const modifier = getOfficerCheckModifier(creature, RIGHT_VEHICLE_CHECK.ability, RIGHT_VEHICLE_CHECK.proficiency);
+    const roll = rollD20(modifier, false, hasCheckDisadvantage(creature));
+    dispatch({ type: 'RIGHT_VEHICLE', payload: { vehicleId: vehicle.id, creatureId: creature.id, roll } });
+  };
+
+  // Jump or cross to another vehicle; the check is skipped for a plank
+  const boardVehicle = (creature: Creature, targetVehicleId: string, zoneId: string) => {
+    const to = state.vehicles.find((v) => v.id === targetVehicleId);
+    if (!to) return;
+    const check = getBoardingCheck(creature, vehicle, to, state.boardingLinks);
+    const roll = check.dc !== undefined ? rollD20(check.modifier, false, hasCheckDisadvantage(creature)) : undefined;
+    dispatch({ type: 'BOARD_VEHICLE', payload: { creatureId: creature.id, vehicleId: to.id, zoneId, roll } });
   };
 
-  const setTarget = (creatureId: string, targetId: string | null, cover: ElevationCoverResult | null) => {
-    setCrewActions((prev) => ({
-      ...prev,
-      [creatureId]: {
-        ...prev[creatureId],
-        target: targetId,
-        targetCover: cover,
+  // Ship upgrades (Arcane Artillery, Explosive Rounds…) apply to every weapon aboard
+  const weaponBonuses = getNavalWeaponBonuses(vehicle);
+
+  const rollWeaponDamage = (weaponName: string, damage: string) => {
+    const parts = rollDamageParts(damage);
+    dispatch({
+      type: 'LOG_ACTION',
+      payload: {
+        type: 'damage',
+        action: `${vehicle.name} · ${weaponName} rolls ${getDamageTotal(parts)} damage`,
+        details: `${damage}: ${parts.map((p) => (p.type ? `${p.amount} ${p.type}` : p.amount)).join(' + ')}`,
       },
-    }));
+    });
   };
 
   // Check if an action requires a target
-  const actionRequiresTarget = (action: string | null) => {
+  const actionRequiresTarget = (action: string | undefined) => {
     if (!action) return false;
     const targetActions = ['attack', 'aim', 'cast spell', 'help'];
     return targetActions.some((a) => action.toLowerCase().includes(a));
   };
 
   const markResolved = (creatureId: string) => {
-    setCrewActions((prev) => ({
-      ...prev,
-      [creatureId]: {
-        ...prev[creatureId],
-        resolved: true,
-      },
-    }));
+    dispatch({ type: 'RESOLVE_TURN_ACTIONS', payload: { creatureId } });
 
     // Log the action
     const crew = vehicleCrew.find((c) => c.creature?.id === creatureId);
     if (crew?.creature) {
-      const actions = crewActions[creatureId];
+      const actions = crewActions[creatureId] ?? {};
+      const targetCover = getTargetCover(creatureId);
 
       // Build action text with target info
       let actionText = actions.action || 'No action';
-      if (actions.target && actions.targetCover) {
+      if (actions.target && targetCover) {
         const targetCreature = state.creatures.find((c) => c.id === actions.target);
         if (targetCreature) {
           actionText += ` vs ${targetCreature.name}`;
-          if (actions.targetCover.acBonus > 0) {
-            actionText += ` (${actions.targetCover.effectiveCover} cover, +${actions.targetCover.acBonus} AC)`;
+          if (targetCover.acBonus > 0) {
+            actionText += ` (${targetCover.effectiveCover} cover, +${targetCover.acBonus} AC)`;
           }
         }
       }
@@ -288,13 +448,43 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
           details: `On ${vehicle.name} at ${crew.zone?.name || 'Unknown Station'}`,
         },
       });
+
+      const officerAction = findOfficerAction(crew.assignment.officerRole, actions.action);
+      const stationWeapon = crew.zone ? vehicle.weapons.find((w) => w.zoneId === crew.zone?.id) : undefined;
+      if (officerAction) {
+        resolveOfficerAction(crew.creature, officerAction, actions.target ?? null);
+      } else if (isProne && actions.action === RIGHT_VEHICLE_ACTION.name) {
+        rightVehicle(crew.creature);
+      } else if (actions.action === RAM_ACTION_NAME && actions.target) {
+        dispatch({ type: 'RAM', payload: { vehicleId: vehicle.id, targetId: actions.target } });
+      } else if (actions.action === BOARD_ACTION.name && actions.target && actions.boardZoneId) {
+        boardVehicle(crew.creature, actions.target, actions.boardZoneId);
+      } else if (actions.action === READY_ACTION_NAME && actions.readied?.action) {
+        dispatch({ type: 'READY_ACTION', payload: { creatureId, ...actions.readied } });
+      } else if (stationWeapon) {
+        const payload = { vehicleId: vehicle.id, weaponId: stationWeapon.id, creatureId };
+        if (actions.action === fireActionName(stationWeapon)) {
+          // With a target the shot is resolved in full; the attack roll is made here like other checks
+          const target = decodeAttackTarget(actions.attackTarget);
+          const attack = target ? getWeaponAttack(vehicle, stationWeapon, target, state, crew.creature) : null;
+          const attackRoll =
+            attack && !attack.blocked && attack.attackBonus !== undefined
+              ? rollD20(attack.attackBonus, attack.advantage, attack.disadvantage)
+              : undefined;
+          dispatch({ type: 'FIRE_VEHICLE_WEAPON', payload: { ...payload, target, attackRoll } });
+        } else if (actions.action === loadActionName(stationWeapon) || actions.action === aimActionName(stationWeapon)) {
+          dispatch({ type: 'WORK_SIEGE_WEAPON', payload });
+        } else if (actions.action === restockActionName(stationWeapon)) {
+          dispatch({ type: 'RESUPPLY_WEAPON', payload });
+        }
+      }
     }
   };
 
   const resolveAllActions = () => {
-    Object.keys(crewActions).forEach((creatureId) => {
-      if (!crewActions[creatureId].resolved) {
-        markResolved(creatureId);
+    vehicleCrew.forEach(({ creature }) => {
+      if (creature && !crewActions[creature.id]?.resolved) {
+        markResolved(creature.id);
       }
     });
   };
@@ -325,6 +515,24 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
         )}
       </div>
 
+      {isProne && (
+        <div className="text-xs mb-md" style={{ color: 'var(--color-fire)' }}>
+          The vehicle has flipped and can't move until it is righted (Right the Vehicle, DC {RIGHT_VEHICLE_DC})
+        </div>
+      )}
+
+      {/* Mishaps that change the vehicle's own rolls */}
+      {(vehicleRollEffects.vehicleAutoFailDex || vehicleRollEffects.vehicleDexDisadvantage) && (
+        <div className="text-xs mb-md" style={{ color: 'var(--color-fire)' }}>
+          {vehicleRollEffects.vehicleAutoFailDex
+            ? 'The vehicle automatically fails Dex checks and saves (Locked Steering)'
+            : 'The vehicle has disadvantage on Dex checks (Damaged Axle)'}
+        </div>
+      )}
+
+      <BoardingLinksPanel vehicle={vehicle} nearbyVehicles={boardableVehicles} />
+      <TethersPanel vehicle={vehicle} />
+
       {/* Phase Indicator */}
       <div className="flex gap-sm mb-md">
         <span className={`badge ${!allDeclared ? 'badge-fire' : ''}`}>
@@ -337,14 +545,33 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
 
       {/* Crew Action Cards */}
       <div className="flex flex-col gap-md">
-        {vehicleCrew.map(({ creature, zone }) => {
+        {vehicleCrew.map(({ creature, zone, assignment }) => {
           if (!creature) return null;
 
-          const { actions, bonusActions } = getAvailableActions(zone);
+          const { actions, bonusActions } = getAvailableActions(zone, assignment.officerRole);
           const crewAction = crewActions[creature.id];
+          const officerAction = findOfficerAction(assignment.officerRole, crewAction?.action);
+          const targetCover = getTargetCover(creature.id);
+          const readied = crewAction?.readied;
+          const readiedDraft = {
+            action: readied?.action ?? '',
+            trigger: readied?.trigger ?? 'vehicle_in_range',
+            triggerText: readied?.triggerText ?? '',
+            range: readied?.range,
+          };
           const isDriver = zone && isDriverZone(zone.id);
           const isExpanded = expandedIds.has(creature.id);
           const stationWeapon = zone ? vehicle.weapons.find((w) => w.zoneId === zone.id) : undefined;
+          const siegeStage = stationWeapon ? getSiegeStage(stationWeapon) : undefined;
+          const weaponTarget = decodeAttackTarget(crewAction?.attackTarget);
+          const weaponAttack = stationWeapon && weaponTarget ? getWeaponAttack(vehicle, stationWeapon, weaponTarget, state, creature) : null;
+          const weaponAttackBonus = stationWeapon?.attackBonus !== undefined ? stationWeapon.attackBonus + weaponBonuses.attackBonus : undefined;
+          const weaponDamage = stationWeapon ? getUpgradedWeaponDamage(stationWeapon, weaponBonuses) : '';
+          const rollEffects = getMishapRollEffects(vehicle, zone?.id);
+          // Attacks roll with disadvantage when the attacker can't see (smoke, Damaged Axle) or the target is obscured
+          const attackDisadvantage = rollEffects.attackDisadvantage || !!targetCover?.heavilyObscured;
+          const boardTo = crewAction?.action === BOARD_ACTION.name ? boardableVehicles.find((v) => v.id === crewAction.target) : undefined;
+          const boardCheck = boardTo ? getBoardingCheck(creature, vehicle, boardTo, state.boardingLinks) : undefined;
 
           return (
             <div
@@ -365,6 +592,11 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
                   <span className="text-muted" style={{ marginRight: 4 }}>{isExpanded ? '▾' : '▸'}</span>
                   <span className="font-bold">{creature.name}</span>
                   {isDriver && <span className="badge badge-fire ml-sm" style={{ fontSize: '0.6rem' }}>DRIVER</span>}
+                  {assignment.officerRole && (
+                    <span className="badge ml-sm" style={{ fontSize: '0.6rem' }}>
+                      {getOfficerRoleName(assignment.officerRole).toUpperCase()}
+                    </span>
+                  )}
                 </div>
                 <div className="text-xs text-muted">{zone?.name || 'Passenger'}</div>
               </div>
@@ -372,8 +604,16 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
               {/* HP Display */}
               <div className="text-xs text-muted mb-sm">
                 HP: {creature.currentHp}/{creature.statblock.maxHp} | AC: {creature.statblock.ac}
+                {crewAction?.reaction && ` | Reaction used: ${crewAction.reaction}`}
               </div>
 
+              {/* Mishaps affecting this crew member's rolls */}
+              {rollEffects.notes.map((note) => (
+                <div key={note} className="text-xs mb-sm" style={{ color: 'var(--color-fire)' }}>
+                  {note}
+                </div>
+              ))}
+
               {/* Collapsed summary of the declared action */}
               {!isExpanded && (crewAction?.action || crewAction?.bonusAction || crewAction?.resolved) && (
                 <div className="text-xs" style={{ color: crewAction?.resolved ? 'var(--color-health)' : 'var(--color-text-muted)' }}>
@@ -388,13 +628,42 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
                     <div className="mb-sm" style={{ padding: 'var(--spacing-sm)', background: 'rgba(255,255,255,0.04)', borderRadius: 'var(--radius-sm)' }}>
                       <div className="flex justify-between items-center">
                         <span className="font-bold text-sm">{stationWeapon.name}</span>
-                        <span className="text-sm"><RollableText text={stationWeapon.damage} source={`${vehicle.name} · ${stationWeapon.name}`} /></span>
+                        <span className="text-sm">
+                          <RollableText text={weaponDamage} source={`${vehicle.name} · ${stationWeapon.name}`} />
+                          <button
+                            className="btn btn-secondary text-xs ml-sm"
+                            style={{ padding: '2px 6px' }}
+                            onClick={() => rollWeaponDamage(stationWeapon.name, weaponDamage)}
+                            title="Roll all of this weapon's damage"
+                          >
+                            Roll
+                          </button>
+                        </span>
                       </div>
                       <div className="text-xs text-muted mt-sm">
-                        {stationWeapon.attackBonus ? <><RollableText text={`1d20${stationWeapon.attackBonus >= 0 ? '+' : ''}${stationWeapon.attackBonus}`} source={`${vehicle.name} · ${stationWeapon.name} to hit`} /> to hit</> : null}
-                        {stationWeapon.range ? `${stationWeapon.attackBonus ? ' · ' : ''}Range ${stationWeapon.range}` : ''}
+                        {weaponAttackBonus ? <><RollableText text={`1d20${weaponAttackBonus >= 0 ? '+' : ''}${weaponAttackBonus}${attackDisadvantage ? ' dis' : ''}`} source={`${vehicle.name} · ${stationWeapon.name} to hit`} /> to hit</> : null}
+                        {stationWeapon.range ? `${weaponAttackBonus ? ' · ' : ''}Range ${stationWeapon.range}` : ''}
                         {stationWeapon.crewRequired ? ` · ${stationWeapon.crewRequired} crew` : ''}
+                        {stationWeapon.currentAmmunition !== undefined
+                          ? ` · Ammo ${stationWeapon.currentAmmunition}/${getAmmunitionCapacity(stationWeapon) ?? stationWeapon.currentAmmunition}`
+                          : ''}
                       </div>
+                      {isOutOfAmmunition(stationWeapon) ? (
+                        <div className="text-xs mt-sm" style={{ color: 'var(--color-fire)' }}>
+                          Out of ammunition{vehicle.ammunitionStores ? ` · ${vehicle.ammunitionStores} spare in the cargo` : ' · no spares in the cargo'}
+                        </div>
+                      ) : siegeStage && (
+                        <div className="text-xs mt-sm" style={{ color: siegeStage.step === 'fire' ? 'var(--color-health)' : 'var(--color-warning)' }}>
+                          {siegeStage.step === 'fire'
+                            ? 'Loaded and aimed: ready to fire'
+                            : `${siegeStage.step === 'load' ? 'Loading' : 'Aiming'}: ${siegeStage.done}/${siegeStage.needed} actions`}
+                        </div>
+                      )}
+                      {weaponBonuses.sources.length > 0 && (
+                        <div className="text-xs mt-sm" style={{ color: '#38bdf8' }}>
+                          Upgrades: {weaponBonuses.sources.join(', ')}
+                        </div>
+                      )}
                       {stationWeapon.specialEffect && (
                         <div className="text-xs text-muted mt-sm"><RollableText text={stationWeapon.specialEffect} /></div>
                       )}
@@ -405,10 +674,10 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
                 /* Resolved State */
                 <div className="text-sm" style={{ color: 'var(--color-health)' }}>
                   ✓ {crewAction.action || 'No action'}
-                  {crewAction.target && crewAction.targetCover && (
+                  {crewAction.target && targetCover && (
                     <span className="text-muted">
                       {' '}vs {state.creatures.find((c) => c.id === crewAction.target)?.name}
-                      {crewAction.targetCover.acBonus > 0 && ` (+${crewAction.targetCover.acBonus} AC)`}
+                      {targetCover.acBonus > 0 && ` (+${targetCover.acBonus} AC)`}
                     </span>
                   )}
                   {crewAction.bonusAction && ` + ${crewAction.bonusAction}`}
@@ -422,7 +691,7 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
                     <select
                       className="input"
                       value={crewAction?.action || ''}
-                      onChange={(e) => setAction(creature.id, 'action', e.target.value || null)}
+                      onChange={(e) => setAction(creature.id, 'action', e.target.value || undefined)}
                       style={{ fontSize: '0.8rem' }}
                     >
                       <option value="">-- Select Action --</option>
@@ -434,6 +703,125 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
                     </select>
                   </div>
 
+                  {/* Ram target and crash damage from this round's movement */}
+                  {crewAction?.action === RAM_ACTION_NAME && (
+                    <div className="mb-sm">
+                      <label className="label">Ram Target</label>
+                      <select
+                        className="input"
+                        value={crewAction.target || ''}
+                        onChange={(e) => setTarget(creature.id, e.target.value || undefined)}
+                        style={{ fontSize: '0.8rem' }}
+                      >
+                        <option value="">-- Select Target --</option>
+                        {ramTargets.map((target) => (
+                          <option key={target.id} value={target.id}>
+                            {target.name} ({target.gap} ft)
+                          </option>
+                        ))}
+                      </select>
+                      <div className="text-xs text-muted mt-sm">
+                        {(ramTargets.find((t) => t.id === crewAction.target)?.gap ?? 0) > RAM_CONTACT_RANGE &&
+                          `Out of reach — end the move within ${RAM_CONTACT_RANGE} ft of the target. `}
+                        {ramDice
+                          ? `Moved ${distanceMoved} ft this round: ${ramDice.target} to the target${ramDice.navalRam ? `, ${ramDice.rammer} to the ${ramDice.navalRam.name}` : `, ${ramDice.rammer} back if it's a vehicle`}`
+                          : `Moved ${distanceMoved} ft this round — move at least 10 ft before ramming`}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Station weapon: target and the odds of the shot */}
+                  {stationWeapon && crewAction?.action === fireActionName(stationWeapon) && (
+                    <div className="mb-sm">
+                      <label className="label">Fire At</label>
+                      <select
+                        className="input"
+                        value={crewAction.attackTarget || ''}
+                        onChange={(e) => declare(creature.id, { attackTarget: e.target.value || undefined })}
+                        style={{ fontSize: '0.8rem' }}
+                      >
+                        <option value="">-- Roll it yourself --</option>
+                        {weaponTargetVehicles.length > 0 && (
+                          <optgroup label="Vehicles">
+                            {weaponTargetVehicles.flatMap((v) => [
+                              <option key={v.id} value={encodeAttackTarget({ kind: 'vehicle', vehicleId: v.id })}>
+                                {v.name}
+                              </option>,
+                              ...(v.template.components || [])
+                                .filter((c) => c.kind !== 'hull')
+                                .map((c) => (
+                                  <option key={`${v.id}-${c.id}`} value={encodeAttackTarget({ kind: 'component', vehicleId: v.id, componentId: c.id })}>
+                                    {v.name} · {c.name}
+                                  </option>
+                                )),
+                            ])}
+                          </optgroup>
+                        )}
+                        {weaponTargetCreatures.length > 0 && (
+                          <optgroup label="Creatures">
+                            {weaponTargetCreatures.map((c) => (
+                              <option key={c.id} value={encodeAttackTarget({ kind: 'creature', creatureId: c.id })}>
+                                {c.name}
+                              </option>
+                            ))}
+                          </optgroup>
+                        )}
+                      </select>
+                      {weaponAttack && (
+                        <div className="text-xs text-muted mt-sm">
+                          {describeWeaponAttack(weaponAttack)} · {weaponAttack.damage}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Boarding: vehicle, landing zone and what the crossing takes */}
+                  {crewAction?.action === BOARD_ACTION.name && (
+                    <div className="mb-sm">
+                      <label className="label">Board</label>
+                      <div className="flex gap-sm">
+                        <select
+                          className="input"
+                          value={crewAction.target || ''}
+                          onChange={(e) => declare(creature.id, { target: e.target.value || undefined, boardZoneId: undefined })}
+                          style={{ fontSize: '0.8rem' }}
+                        >
+                          <option value="">-- Select Vehicle --</option>
+                          {boardableVehicles.map((v) => (
+                            <option key={v.id} value={v.id}>
+                              {v.name} ({getHullGap(vehicle, v)} ft)
+                            </option>
+                          ))}
+                        </select>
+                        {boardTo && (
+                          <select
+                            className="input"
+                            value={crewAction.boardZoneId || ''}
+                            onChange={(e) => declare(creature.id, { boardZoneId: e.target.value || undefined })}
+                            style={{ fontSize: '0.8rem' }}
+                          >
+                            <option value="">-- Land In --</option>
+                            {boardTo.template.zones.map((z) => (
+                              <option key={z.id} value={z.id}>
+                                {z.name}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                      {boardCheck && (
+                        <div className="text-xs text-muted mt-sm">
+                          {boardCheck.tooFar
+                            ? `${boardCheck.gap} ft between the hulls — too far to jump`
+                            : boardCheck.link
+                              ? `Linked${boardCheck.dc !== undefined ? `: ${boardCheck.skill} DC ${boardCheck.dc}` : ': no check needed'}`
+                              : `${boardCheck.gap} ft jump: ${boardCheck.skill} ${boardCheck.modifier >= 0 ? '+' : ''}${boardCheck.modifier} vs DC ${boardCheck.dc}`}
+                          {boardCheck.brokenLink && ' (the boarding link has pulled loose)'}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Target Selection (for attack actions) */}
                   {actionRequiresTarget(crewAction?.action) && (
                     <div className="mb-sm">
@@ -441,12 +829,7 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
                       <select
                         className="input"
                         value={crewAction?.target || ''}
-                        onChange={(e) => {
-                          const targetId = e.target.value || null;
-                          const targets = getPotentialTargets(creature.id);
-                          const targetInfo = targets.find((t) => t.creatureId === targetId);
-                          setTarget(creature.id, targetId, targetInfo?.cover || null);
-                        }}
+                        onChange={(e) => setTarget(creature.id, e.target.value || undefined)}
                         style={{ fontSize: '0.8rem' }}
                       >
                         <option value="">-- Select Target --</option>
@@ -458,18 +841,19 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
                             {target.cover && !target.cover.isVisible && ' [NO LOS]'}
                             {target.cover && target.cover.isVisible && target.cover.acBonus > 0 && ` [+${target.cover.acBonus} AC]`}
                             {target.cover && target.cover.isVisible && target.cover.acBonus === 0 && ' [Exposed]'}
+                            {target.cover?.heavilyObscured && ' [Obscured]'}
                             {target.cover && target.cover.elevationAttackModifier !== 0 && ` [${target.cover.elevationAttackModifier > 0 ? '+' : ''}${target.cover.elevationAttackModifier} elev]`}
                           </option>
                         ))}
                       </select>
 
                       {/* Cover Details */}
-                      {crewAction?.targetCover && (
+                      {targetCover && (
                         <div
                           className="mt-sm"
                           style={{
                             padding: 'var(--spacing-sm)',
-                            background: crewAction.targetCover.isVisible
+                            background: targetCover.isVisible
                               ? 'rgba(34, 197, 94, 0.1)'
                               : 'rgba(239, 68, 68, 0.1)',
                             borderRadius: 'var(--radius-sm)',
@@ -478,13 +862,13 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
                         >
                           <div className="flex justify-between items-center">
                             <span>
-                              Attacking from <strong>{getArcDisplayName(crewAction.targetCover.attackArc)}</strong>
+                              Attacking from <strong>{getArcDisplayName(targetCover.attackArc)}</strong>
                             </span>
-                            {crewAction.targetCover.isVisible ? (
+                            {targetCover.isVisible ? (
                               <span className="badge" style={{ fontSize: '0.65rem' }}>
-                                {crewAction.targetCover.effectiveCover === 'none'
+                                {targetCover.effectiveCover === 'none'
                                   ? 'No Cover'
-                                  : `+${crewAction.targetCover.acBonus} AC`}
+                                  : `+${targetCover.acBonus} AC`}
                               </span>
                             ) : (
                               <span className="badge badge-danger" style={{ fontSize: '0.65rem' }}>
@@ -493,41 +877,41 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
                             )}
                           </div>
                           <div className="text-muted mt-sm">
-                            {crewAction.targetCover.reason}
+                            {targetCover.reason}
                           </div>
 
                           {/* Elevation Info */}
-                          {crewAction.targetCover.elevationDiff !== 0 && (
+                          {targetCover.elevationDiff !== 0 && (
                             <div
                               className="mt-sm"
                               style={{
                                 padding: '4px 8px',
-                                background: crewAction.targetCover.elevationDiff > 0
+                                background: targetCover.elevationDiff > 0
                                   ? 'rgba(59, 130, 246, 0.15)'
                                   : 'rgba(239, 68, 68, 0.15)',
                                 borderRadius: 'var(--radius-sm)',
-                                border: `1px solid ${crewAction.targetCover.elevationDiff > 0 ? 'rgba(59, 130, 246, 0.3)' : 'rgba(239, 68, 68, 0.3)'}`,
+                                border: `1px solid ${targetCover.elevationDiff > 0 ? 'rgba(59, 130, 246, 0.3)' : 'rgba(239, 68, 68, 0.3)'}`,
                               }}
                             >
                               <div className="flex justify-between items-center">
                                 <span>
-                                  {crewAction.targetCover.elevationDiff > 0 ? '⬇️' : '⬆️'} {crewAction.targetCover.elevationDisplayText}
+                                  {targetCover.elevationDiff > 0 ? '⬇️' : '⬆️'} {targetCover.elevationDisplayText}
                                 </span>
-                                {crewAction.targetCover.elevationAttackModifier !== 0 && (
+                                {targetCover.elevationAttackModifier !== 0 && (
                                   <span
                                     className="badge"
                                     style={{
                                       fontSize: '0.65rem',
-                                      background: crewAction.targetCover.elevationAttackModifier > 0
+                                      background: targetCover.elevationAttackModifier > 0
                                         ? 'rgba(59, 130, 246, 0.3)'
                                         : 'rgba(239, 68, 68, 0.3)',
                                     }}
                                   >
-                                    {crewAction.targetCover.elevationAttackModifier > 0 ? '+' : ''}{crewAction.targetCover.elevationAttackModifier} to hit
+                                    {targetCover.elevationAttackModifier > 0 ? '+' : ''}{targetCover.elevationAttackModifier} to hit
                                   </span>
                                 )}
                               </div>
-                              {crewAction.targetCover.coverUpgradedByElevation && (
+                              {targetCover.coverUpgradedByElevation && (
                                 <div className="text-muted mt-sm" style={{ fontSize: '0.7rem' }}>
                                   Target's cover upgraded due to high ground
                                 </div>
@@ -535,7 +919,7 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
                             </div>
                           )}
 
-                          {!crewAction.targetCover.isVisible && (
+                          {!targetCover.isVisible && (
                             <div style={{ color: 'var(--color-fire)', marginTop: '4px' }}>
                               Cannot target - no line of sight!
                             </div>
@@ -545,13 +929,86 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
                     </div>
                   )}
 
+                  {/* Officer action: patient to heal, and what the roll does */}
+                  {officerAction?.id === 'surgeon_heal' && (
+                    <div className="mb-sm">
+                      <label className="label">Patient</label>
+                      <select
+                        className="input"
+                        value={crewAction?.target || ''}
+                        onChange={(e) => setTarget(creature.id, e.target.value || undefined)}
+                        style={{ fontSize: '0.8rem' }}
+                      >
+                        <option value="">-- Select --</option>
+                        {woundedAboard.map((c) => (
+                          <option key={c.id} value={c.id}>
+                            {c.name} ({c.currentHp}/{c.statblock.maxHp})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  {officerAction && (
+                    <div className="text-xs text-muted mb-sm">{officerAction.description}</div>
+                  )}
+
+                  {/* Ready: the held action and what sets it off */}
+                  {crewAction?.action === READY_ACTION_NAME && (
+                    <div className="mb-sm">
+                      <label className="label">Readied Action</label>
+                      <input
+                        className="input"
+                        value={readiedDraft.action}
+                        placeholder="e.g. Fire the harpoon"
+                        onChange={(e) => declare(creature.id, { readied: { ...readiedDraft, action: e.target.value } })}
+                        style={{ fontSize: '0.8rem' }}
+                      />
+                      <div className="flex gap-sm mt-sm">
+                        <select
+                          className="input"
+                          value={readiedDraft.trigger}
+                          onChange={(e) => declare(creature.id, { readied: { ...readiedDraft, trigger: e.target.value as ReadyTrigger } })}
+                          style={{ fontSize: '0.8rem' }}
+                        >
+                          {(Object.keys(READY_TRIGGERS) as ReadyTrigger[]).map((trigger) => (
+                            <option key={trigger} value={trigger} title={READY_TRIGGERS[trigger].description}>
+                              {READY_TRIGGERS[trigger].name}
+                            </option>
+                          ))}
+                        </select>
+                        {readiedDraft.trigger === 'vehicle_in_range' && (
+                          <input
+                            className="input"
+                            type="number"
+                            min={0}
+                            step={5}
+                            value={readiedDraft.range ?? ''}
+                            placeholder="ft"
+                            onChange={(e) => declare(creature.id, { readied: { ...readiedDraft, range: e.target.value ? Number(e.target.value) : undefined } })}
+                            style={{ fontSize: '0.8rem', width: 70 }}
+                          />
+                        )}
+                      </div>
+                      <input
+                        className="input mt-sm"
+                        value={readiedDraft.triggerText}
+                        placeholder="Trigger, e.g. when the Tormentor comes within 60 ft"
+                        onChange={(e) => declare(creature.id, { readied: { ...readiedDraft, triggerText: e.target.value } })}
+                        style={{ fontSize: '0.8rem' }}
+                      />
+                      <div className="text-xs text-muted mt-sm">
+                        Taking it when the trigger happens uses {creature.name}'s reaction
+                      </div>
+                    </div>
+                  )}
+
                   {/* Bonus Action Selection */}
                   <div className="mb-sm">
                     <label className="label">Bonus Action</label>
                     <select
                       className="input"
                       value={crewAction?.bonusAction || ''}
-                      onChange={(e) => setAction(creature.id, 'bonusAction', e.target.value || null)}
+                      onChange={(e) => setAction(creature.id, 'bonusAction', e.target.value || undefined)}
                       style={{ fontSize: '0.8rem' }}
                     >
                       <option value="">-- None --</option>
@@ -568,7 +1025,11 @@ export function CrewActionPanel({ vehicle, driver }: CrewActionPanelProps) {
                     <button
                       className="btn btn-secondary text-xs"
                       onClick={() => markResolved(creature.id)}
-                      disabled={!!(actionRequiresTarget(crewAction?.action) && crewAction?.targetCover && !crewAction.targetCover.isVisible)}
+                      disabled={
+                        !!(actionRequiresTarget(crewAction?.action) && targetCover && !targetCover.isVisible) ||
+                        !!(officerAction?.id === 'surgeon_heal' && !crewAction?.target) ||
+                        !!(crewAction?.action === READY_ACTION_NAME && !readied?.action)
+                      }
                     >
                       Resolve {creature.name}'s Actions
                     </button>
@@ -0,0 +1,58 @@
+/**
+ * Death Save Prompts
+ * Dying PCs whose turn has started: roll the death save, or skip it.
+ */
+
+import { Box, Button, Paper, Typography } from '@mui/material';
+import { useCombat } from '../../context/CombatContext';
+import { DEATH_SAVES_NEEDED } from '../../utils/deathSaves';
+import { rollD20 } from '../../utils/diceEngine';
+import { withOpacity } from '../../theme/customColors';
+
+const PROMPT_COLOR = '#dc2626';
+
+export function DeathSavePrompts() {
+  const { state, dispatch } = useCombat();
+  if (state.deathSavePrompts.length === 0) return null;
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      {state.deathSavePrompts.map((prompt) => {
+        const creature = state.creatures.find((c) => c.id === prompt.creatureId);
+        if (!creature) return null;
+        const saves = creature.deathSaves;
+        return (
+          <Paper key={prompt.id} sx={{ p: 1.5, mb: 1, bgcolor: withOpacity(PROMPT_COLOR, 0.1), border: 1, borderColor: PROMPT_COLOR }}>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+              Start of turn at 0 HP
+            </Typography>
+            <Typography variant="body2" fontWeight={600} sx={{ color: PROMPT_COLOR }}>
+              {creature.name}: death save
+            </Typography>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+              {saves?.successes ?? 0}/{DEATH_SAVES_NEEDED} successes · {saves?.failures ?? 0}/{DEATH_SAVES_NEEDED} failures
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 0.5, mt: 1 }}>
+              <Button
+                size="small"
+                variant="contained"
+                color="error"
+                onClick={() => dispatch({ type: 'RESOLVE_DEATH_SAVE', payload: { promptId: prompt.id, roll: rollD20() } })}
+                sx={{ fontSize: '0.7rem', py: 0.25 }}
+              >
+                Roll Death Save
+              </Button>
+              <Button
+                size="small"
+                onClick={() => dispatch({ type: 'RESOLVE_DEATH_SAVE', payload: { promptId: prompt.id } })}
+                sx={{ fontSize: '0.7rem', py: 0.25 }}
+              >
+                Skip
+              </Button>
+            </Box>
+          </Paper>
+        );
+      })}
+    </Box>
+  );
+}
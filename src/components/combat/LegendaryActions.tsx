@@ -0,0 +1,142 @@
+/**
+ * Legendary Actions
+ * Legendary creatures that can act at the end of the last turn, with what each option costs
+ * and what's left in their pool, and on initiative count 20 the lair's action for the round.
+ */
+
+import { useState } from 'react';
+import { Box, Button, Paper, TextField, Tooltip, Typography } from '@mui/material';
+import { useCombat } from '../../context/CombatContext';
+import {
+  LAIR_INITIATIVE,
+  LAIR_TURN_ID,
+  getLairCreatures,
+  getLegendaryActionCost,
+  getLegendaryActionsPerRound,
+  getLegendaryActionsRemaining,
+  isLairTurn,
+} from '../../utils/legendaryActions';
+import { withOpacity } from '../../theme/customColors';
+
+const LEGENDARY_COLOR = '#eab308';
+
+export function LegendaryActions() {
+  const { state, dispatch } = useCombat();
+  const [otherLairAction, setOtherLairAction] = useState('');
+  const offer = state.legendaryOffer;
+  const isLair = isLairTurn(state.initiativeOrder[state.currentTurnIndex]);
+  if (!offer && !isLair) return null;
+
+  const lairAction = state.turnActions[LAIR_TURN_ID]?.resolved ? state.turnActions[LAIR_TURN_ID]?.action : undefined;
+  const offered = offer ? state.creatures.filter((c) => offer.creatureIds.includes(c.id)) : [];
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      {isLair && (
+        <Paper sx={{ p: 1.5, mb: 1, bgcolor: withOpacity(LEGENDARY_COLOR, 0.1), border: 1, borderColor: LEGENDARY_COLOR }}>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+            Initiative {LAIR_INITIATIVE}
+          </Typography>
+          <Typography variant="body2" fontWeight={600} sx={{ color: LEGENDARY_COLOR }}>
+            {lairAction ? `Lair action taken: ${lairAction}` : 'Lair action'}
+          </Typography>
+          {!lairAction && (
+            <>
+              {getLairCreatures(state.creatures).map((creature) => (
+                <Box key={creature.id} sx={{ mt: 0.5 }}>
+                  <Typography variant="caption" color="text.secondary">
+                    {creature.name}'s lair
+                  </Typography>
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                    {creature.statblock.lairActions?.map((option) => (
+                      <Tooltip key={option.name} title={option.description} arrow>
+                        <Button
+                          size="small"
+                          variant="outlined"
+                          onClick={() =>
+                            dispatch({
+                              type: 'USE_LAIR_ACTION',
+                              payload: { creatureId: creature.id, name: option.name, description: option.description },
+                            })
+                          }
+                          sx={{ fontSize: '0.65rem', py: 0 }}
+                        >
+                          {option.name}
+                        </Button>
+                      </Tooltip>
+                    ))}
+                  </Box>
+                </Box>
+              ))}
+              <Box sx={{ display: 'flex', gap: 0.5, mt: 1 }}>
+                <TextField
+                  size="small"
+                  placeholder="Other lair action"
+                  value={otherLairAction}
+                  onChange={(e) => setOtherLairAction(e.target.value)}
+                  sx={{ flex: 1, '& .MuiInputBase-input': { py: '3px', fontSize: '0.75rem' } }}
+                />
+                <Button
+                  size="small"
+                  variant="contained"
+                  disabled={!otherLairAction.trim()}
+                  onClick={() => {
+                    dispatch({ type: 'USE_LAIR_ACTION', payload: { name: otherLairAction } });
+                    setOtherLairAction('');
+                  }}
+                  sx={{ fontSize: '0.7rem', py: 0.25 }}
+                >
+                  Use
+                </Button>
+              </Box>
+            </>
+          )}
+        </Paper>
+      )}
+
+      {offer && offered.length > 0 && (
+        <Paper sx={{ p: 1.5, bgcolor: withOpacity(LEGENDARY_COLOR, 0.1), border: 1, borderColor: LEGENDARY_COLOR }}>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+            End of {offer.turnName}'s turn
+          </Typography>
+          {offered.map((creature) => {
+            const remaining = getLegendaryActionsRemaining(creature);
+            return (
+              <Box key={creature.id} sx={{ mt: 0.5 }}>
+                <Typography variant="body2" fontWeight={600} sx={{ color: LEGENDARY_COLOR }}>
+                  {creature.name}: {remaining}/{getLegendaryActionsPerRound(creature)} legendary actions
+                </Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 0.5 }}>
+                  {creature.statblock.legendaryActions?.map((option) => {
+                    const cost = getLegendaryActionCost(option);
+                    return (
+                      <Tooltip key={option.name} title={option.description} arrow>
+                        <span>
+                          <Button
+                            size="small"
+                            variant="outlined"
+                            disabled={cost > remaining}
+                            onClick={() =>
+                              dispatch({ type: 'USE_LEGENDARY_ACTION', payload: { creatureId: creature.id, actionName: option.name } })
+                            }
+                            sx={{ fontSize: '0.65rem', py: 0 }}
+                          >
+                            {option.name.replace(/\s*\(costs?\s+\d\s+actions?\)/i, '')}
+                            {cost > 1 && ` (${cost})`}
+                          </Button>
+                        </span>
+                      </Tooltip>
+                    );
+                  })}
+                </Box>
+              </Box>
+            );
+          })}
+          <Button size="small" onClick={() => dispatch({ type: 'PASS_LEGENDARY_ACTIONS' })} sx={{ fontSize: '0.7rem', py: 0.25, mt: 1 }}>
+            Pass
+          </Button>
+        </Paper>
+      )}
+    </Box>
+  );
+}
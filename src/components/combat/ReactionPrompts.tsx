@@ -0,0 +1,90 @@
+/**
+ * Reaction Prompts
+ * Triggers that have happened — a readied action's or a vehicle's Juke — waiting for the DM
+ * to take the reaction or let it pass, and the readied actions still waiting for theirs.
+ */
+
+import { Box, Button, Paper, Typography } from '@mui/material';
+import { useCombat } from '../../context/CombatContext';
+import { READY_TRIGGERS } from '../../utils/readiedActions';
+import { withOpacity } from '../../theme/customColors';
+
+const PROMPT_COLOR = '#38bdf8';
+
+export function ReactionPrompts() {
+  const { state, dispatch } = useCombat();
+  if (state.reactionPrompts.length === 0 && state.readiedActions.length === 0) return null;
+
+  const nameOf = (creatureId: string) => state.creatures.find((c) => c.id === creatureId)?.name ?? 'Unknown';
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      {state.reactionPrompts.map((prompt) => {
+        const vehicle = prompt.vehicleId ? state.vehicles.find((v) => v.id === prompt.vehicleId) : undefined;
+        return (
+          <Paper key={prompt.id} sx={{ p: 1.5, mb: 1, bgcolor: withOpacity(PROMPT_COLOR, 0.1), border: 1, borderColor: PROMPT_COLOR }}>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+              Reaction! {prompt.event}
+            </Typography>
+            <Typography variant="body2" fontWeight={600} sx={{ color: PROMPT_COLOR }}>
+              {nameOf(prompt.creatureId)}: {vehicle ? `${vehicle.name}'s ${prompt.reaction}` : prompt.reaction}
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 0.5, mt: 1 }}>
+              <Button
+                size="small"
+                variant="contained"
+                onClick={() => dispatch({ type: 'RESOLVE_REACTION_PROMPT', payload: { promptId: prompt.id, use: true } })}
+                sx={{ fontSize: '0.7rem', py: 0.25 }}
+              >
+                Use Reaction
+              </Button>
+              <Button
+                size="small"
+                onClick={() => dispatch({ type: 'RESOLVE_REACTION_PROMPT', payload: { promptId: prompt.id, use: false } })}
+                sx={{ fontSize: '0.7rem', py: 0.25 }}
+              >
+                Let It Pass
+              </Button>
+            </Box>
+          </Paper>
+        );
+      })}
+
+      {state.readiedActions.length > 0 && (
+        <Paper sx={{ p: 1.5, bgcolor: '#242424' }}>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
+            Readied Actions
+          </Typography>
+          {state.readiedActions.map((readied) => (
+            <Box key={readied.id} sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 0.5 }}>
+              <Typography variant="caption" sx={{ flex: 1 }}>
+                <strong>{nameOf(readied.creatureId)}</strong>: {readied.action}
+                <Box component="span" sx={{ color: 'text.secondary' }}>
+                  {' '}— {readied.triggerText || READY_TRIGGERS[readied.trigger].name}
+                  {readied.range !== undefined && ` (${readied.range} ft)`}
+                </Box>
+              </Typography>
+              <Button
+                size="small"
+                variant="outlined"
+                onClick={() =>
+                  dispatch({ type: 'TRIGGER_READIED_ACTION', payload: { readiedActionId: readied.id, event: 'Triggered by the DM' } })
+                }
+                sx={{ fontSize: '0.65rem', py: 0, minWidth: 0 }}
+              >
+                Trigger
+              </Button>
+              <Button
+                size="small"
+                onClick={() => dispatch({ type: 'CANCEL_READIED_ACTION', payload: { readiedActionId: readied.id } })}
+                sx={{ fontSize: '0.65rem', py: 0, minWidth: 0 }}
+              >
+                Cancel
+              </Button>
+            </Box>
+          ))}
+        </Paper>
+      )}
+    </Box>
+  );
+}
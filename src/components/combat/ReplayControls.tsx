@@ -0,0 +1,88 @@
+/**
+ * Replay Controls
+ * Scrubber for replaying an archived combat on the map, one recorded action at a time,
+ * with play/pause and a way back to the live encounter.
+ */
+
+import { useEffect, useState } from 'react';
+import { Box, Button, IconButton, Paper, Slider, Tooltip, Typography } from '@mui/material';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import PauseIcon from '@mui/icons-material/Pause';
+import SkipPreviousIcon from '@mui/icons-material/SkipPrevious';
+import SkipNextIcon from '@mui/icons-material/SkipNext';
+import { useCombat } from '../../context/CombatContext';
+import { withOpacity } from '../../theme/customColors';
+
+const REPLAY_COLOR = '#8b5cf6';
+const PLAY_INTERVAL_MS = 1000;
+
+export function ReplayControls() {
+  const { state, replay, setReplayStep, stopReplay } = useCombat();
+  const [playing, setPlaying] = useState(false);
+  const step = replay?.step ?? 0;
+  const stepCount = replay?.stepCount ?? 0;
+  const atEnd = step >= stepCount;
+
+  useEffect(() => {
+    if (!playing || atEnd) return;
+    const timer = setTimeout(() => setReplayStep(step + 1), PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, atEnd, step, setReplayStep]);
+
+  if (!replay) return null;
+
+  return (
+    <Paper sx={{ p: 1.5, mb: 2, bgcolor: withOpacity(REPLAY_COLOR, 0.1), border: 1, borderColor: REPLAY_COLOR }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="body2" fontWeight={600} sx={{ color: REPLAY_COLOR, whiteSpace: 'nowrap' }}>
+          Replay
+        </Typography>
+        <Tooltip title="Previous action" arrow>
+          <span>
+            <IconButton size="small" onClick={() => setReplayStep(step - 1)} disabled={step === 0}>
+              <SkipPreviousIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title={playing && !atEnd ? 'Pause' : 'Play'} arrow>
+          <span>
+            <IconButton
+              size="small"
+              onClick={() => {
+                if (atEnd) setReplayStep(0);
+                setPlaying(!playing || atEnd);
+              }}
+              disabled={stepCount === 0}
+            >
+              {playing && !atEnd ? <PauseIcon fontSize="small" /> : <PlayArrowIcon fontSize="small" />}
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Next action" arrow>
+          <span>
+            <IconButton size="small" onClick={() => setReplayStep(step + 1)} disabled={atEnd}>
+              <SkipNextIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Slider
+          size="small"
+          min={0}
+          max={stepCount}
+          value={step}
+          onChange={(_, value) => {
+            setPlaying(false);
+            setReplayStep(value as number);
+          }}
+          sx={{ mx: 1, color: REPLAY_COLOR }}
+        />
+        <Button size="small" variant="outlined" onClick={stopReplay} sx={{ whiteSpace: 'nowrap', fontSize: '0.7rem' }}>
+          Exit Replay
+        </Button>
+      </Box>
+      <Typography variant="caption" color="text.secondary">
+        Step {step}/{stepCount} · Round {state.round} · {replay.label}
+      </Typography>
+    </Paper>
+  );
+}
@@ -19,6 +19,7 @@ import { useSettings } from '../../context/SettingsContext';
 import { Vehicle, Creature, VehicleZone, Position, VehicleWeapon } from '../../types';
 import { resolveZone } from '../../data/vehicleTemplates';
 import { hasComponents, getComponentHp } from '../../utils/vehicleComponents';
+import { DAMAGE_INPUT_HINT, parseDamageInput } from '../../utils/damageCalculator';
 import {
   calculateCoverWithElevation,
   calculateCoverFromPositionWithElevation,
@@ -79,9 +80,9 @@ export function TargetCoverPanel({ attackerVehicle, attackerCreature, attackerFa
 
   // Whole-vehicle damage (used for war machines, which have no component list).
   const applyVehicleDamage = (vehicleId: string) => {
-    const n = parseInt(vehicleDmg[vehicleId] ?? '', 10);
-    if (!Number.isFinite(n) || n <= 0) return;
-    dispatch({ type: 'DEAL_DAMAGE_TO_VEHICLE', payload: { vehicleId, amount: n } });
+    const parts = parseDamageInput(vehicleDmg[vehicleId] ?? '');
+    if (!parts) return;
+    dispatch({ type: 'DEAL_DAMAGE_TO_VEHICLE', payload: { vehicleId, parts } });
     setVehicleDmg((s) => ({ ...s, [vehicleId]: '' }));
   };
 
@@ -193,15 +194,15 @@ export function TargetCoverPanel({ attackerVehicle, attackerCreature, attackerFa
               {!hasComponents(vehicle) && (
                 <Box sx={{ display: 'flex', gap: 0.5, alignItems: 'center', mt: 0.75 }}>
                   <TextField
-                    type="number"
                     size="small"
                     placeholder="Dmg"
+                    title={DAMAGE_INPUT_HINT}
                     value={vehicleDmg[vehicle.id] ?? ''}
                     onChange={(e) => setVehicleDmg((s) => ({ ...s, [vehicle.id]: e.target.value }))}
                     onKeyDown={(e) => { if (e.key === 'Enter') applyVehicleDamage(vehicle.id); }}
                     sx={{ width: 66, '& input': { py: 0.25, fontSize: '0.75rem' } }}
                   />
-                  <Button size="small" color="error" variant="outlined" onClick={() => applyVehicleDamage(vehicle.id)} disabled={!vehicleDmg[vehicle.id] || parseInt(vehicleDmg[vehicle.id], 10) <= 0} sx={{ minWidth: 0, px: 1, fontSize: '0.65rem' }}>
+                  <Button size="small" color="error" variant="outlined" onClick={() => applyVehicleDamage(vehicle.id)} disabled={!vehicleDmg[vehicle.id]?.trim()} sx={{ minWidth: 0, px: 1, fontSize: '0.65rem' }}>
                     Damage
                   </Button>
                 </Box>
@@ -262,9 +263,9 @@ function TargetStatusCard({ creature, zone, cover, distance, baseRange, extended
   const { dispatch } = useCombat();
   const [dmg, setDmg] = useState('');
   const applyDamage = () => {
-    const n = parseInt(dmg, 10);
-    if (!Number.isFinite(n) || n <= 0) return;
-    dispatch({ type: 'UPDATE_CREATURE', payload: { id: creature.id, updates: { currentHp: Math.max(0, creature.currentHp - n) } } });
+    const parts = parseDamageInput(dmg);
+    if (!parts) return;
+    dispatch({ type: 'DEAL_DAMAGE_TO_CREATURE', payload: { creatureId: creature.id, parts } });
     setDmg('');
   };
 
@@ -429,15 +430,15 @@ function TargetStatusCard({ creature, zone, cover, distance, baseRange, extended
       {/* Quick damage */}
       <Box sx={{ display: 'flex', gap: 0.5, alignItems: 'center', mt: 0.75 }}>
         <TextField
-          type="number"
           size="small"
           placeholder="Dmg"
+          title={DAMAGE_INPUT_HINT}
           value={dmg}
           onChange={(e) => setDmg(e.target.value)}
           onKeyDown={(e) => { if (e.key === 'Enter') applyDamage(); }}
           sx={{ width: 66, '& input': { py: 0.25, fontSize: '0.75rem' } }}
         />
-        <Button size="small" color="error" variant="outlined" onClick={applyDamage} disabled={!dmg || parseInt(dmg, 10) <= 0} sx={{ minWidth: 0, px: 1, fontSize: '0.65rem' }}>
+        <Button size="small" color="error" variant="outlined" onClick={applyDamage} disabled={!dmg.trim()} sx={{ minWidth: 0, px: 1, fontSize: '0.65rem' }}>
           Damage
         </Button>
       </Box>
@@ -462,9 +463,9 @@ function ComponentTargetList({ vehicle }: { vehicle: Vehicle }) {
         const barColor = pct > 50 ? '#10b981' : pct > 25 ? '#f59e0b' : '#ef4444';
         const amt = amounts[comp.id] ?? '';
         const applyDamage = () => {
-          const n = parseInt(amt, 10);
-          if (!Number.isFinite(n) || n <= 0) return;
-          damageVehicleComponent(vehicle.id, comp.id, n);
+          const parts = parseDamageInput(amt);
+          if (!parts) return;
+          damageVehicleComponent(vehicle.id, comp.id, parts);
           setAmounts((s) => ({ ...s, [comp.id]: '' }));
         };
         return (
@@ -489,15 +490,15 @@ function ComponentTargetList({ vehicle }: { vehicle: Vehicle }) {
             />
             <Box sx={{ display: 'flex', gap: 0.5, alignItems: 'center' }}>
               <TextField
-                type="number"
                 size="small"
                 placeholder="Dmg"
+                title={DAMAGE_INPUT_HINT}
                 value={amt}
                 onChange={(e) => setAmounts((s) => ({ ...s, [comp.id]: e.target.value }))}
                 onKeyDown={(e) => { if (e.key === 'Enter') applyDamage(); }}
                 sx={{ width: 66, '& input': { py: 0.25, fontSize: '0.75rem' } }}
               />
-              <Button size="small" color="error" variant="outlined" onClick={applyDamage} disabled={!amt || parseInt(amt, 10) <= 0} sx={{ minWidth: 0, px: 1, fontSize: '0.65rem' }}>
+              <Button size="small" color="error" variant="outlined" onClick={applyDamage} disabled={!amt.trim()} sx={{ minWidth: 0, px: 1, fontSize: '0.65rem' }}>
                 Hit
               </Button>
             </Box>
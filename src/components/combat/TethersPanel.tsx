@@ -0,0 +1,155 @@
+/**
+ * Tethers Panel
+ * Harpoons, grappling claws and Grasping Rounds between this vehicle and others: attach one
+ * after a hit, let go of what this vehicle holds, or spend a crew member's action to break
+ * free of what holds it.
+ */
+
+import { useState } from 'react';
+import { Creature, Vehicle } from '../../types';
+import { useCombat } from '../../context/CombatContext';
+import { rollD20 } from '../../utils/diceEngine';
+import { getHullGap } from '../../utils/boardingCalculator';
+import { hasSpentAction } from '../../utils/actionEconomy';
+import {
+  getBreakFreeModifier,
+  getTetherReach,
+  getTetheringWeapons,
+  TETHER_SOURCES,
+} from '../../utils/tetherCalculator';
+
+interface TethersPanelProps {
+  vehicle: Vehicle;
+}
+
+export function TethersPanel({ vehicle }: TethersPanelProps) {
+  const { state, dispatch } = useCombat();
+  const [weaponIndex, setWeaponIndex] = useState(0);
+  const [targetId, setTargetId] = useState('');
+  const [crewId, setCrewId] = useState('');
+
+  const held = state.tethers.filter((t) => t.sourceVehicleId === vehicle.id);
+  const holding = state.tethers.filter((t) => t.targetVehicleId === vehicle.id);
+  const tetheringWeapons = getTetheringWeapons(vehicle);
+  if (held.length === 0 && holding.length === 0 && tetheringWeapons.length === 0) return null;
+
+  const crew = state.crewAssignments
+    .filter((a) => a.vehicleId === vehicle.id)
+    .map((a) => state.creatures.find((c) => c.id === a.creatureId))
+    .filter((c): c is Creature => c !== undefined && c.currentHp > 0);
+  const canAct = crew.filter((c) => !hasSpentAction(state.turnActions[c.id]));
+  const breaker = canAct.find((c) => c.id === crewId) ?? canAct[0];
+
+  const selected = tetheringWeapons[weaponIndex] ?? tetheringWeapons[0];
+  const reach = selected ? getTetherReach(selected.source, selected.weapon) : 0;
+  const inReach = state.vehicles.filter(
+    (v) => v.id !== vehicle.id && !v.isInoperative && getHullGap(vehicle, v) <= reach
+  );
+  const target = inReach.find((v) => v.id === targetId);
+
+  const attach = () => {
+    if (!selected || !target) return;
+    const spec = TETHER_SOURCES[selected.source];
+    const save = spec.saveToResist ? rollD20(getBreakFreeModifier(target)) : undefined;
+    dispatch({
+      type: 'ATTACH_TETHER',
+      payload: {
+        source: selected.source,
+        sourceVehicleId: vehicle.id,
+        targetVehicleId: target.id,
+        weaponName: selected.weapon.name,
+        length: spec.length ?? getHullGap(vehicle, target),
+        save,
+      },
+    });
+    setTargetId('');
+  };
+
+  return (
+    <div className="card mb-md" style={{ padding: 'var(--spacing-sm)' }}>
+      <div className="text-xs font-bold mb-sm">Tethers</div>
+
+      {held.map((tether) => {
+        const other = state.vehicles.find((v) => v.id === tether.targetVehicleId);
+        return (
+          <div key={tether.id} className="flex justify-between items-center text-xs mb-sm">
+            <span title={TETHER_SOURCES[tether.source].description}>
+              {tether.weaponName} holds <strong>{other?.name ?? 'a vehicle'}</strong> ({tether.length} ft line)
+            </span>
+            <button
+              className="btn btn-secondary text-xs"
+              onClick={() => dispatch({ type: 'RELEASE_TETHER', payload: { tetherId: tether.id, reason: `Released by ${vehicle.name}` } })}
+            >
+              Release
+            </button>
+          </div>
+        );
+      })}
+
+      {holding.map((tether) => {
+        const other = state.vehicles.find((v) => v.id === tether.sourceVehicleId);
+        const spec = TETHER_SOURCES[tether.source];
+        const modifier = getBreakFreeModifier(vehicle);
+        const breakFree = () => {
+          if (!breaker) return;
+          const roll = spec.endsWithAction ? undefined : rollD20(modifier);
+          dispatch({ type: 'BREAK_TETHER', payload: { tetherId: tether.id, creatureId: breaker.id, roll } });
+        };
+        return (
+          <div key={tether.id} className="text-xs mb-sm">
+            <div style={{ color: 'var(--color-fire)' }} title={spec.description}>
+              Held by {other?.name ?? 'a vehicle'}'s {tether.weaponName} ({tether.length} ft line)
+            </div>
+            <div className="flex gap-sm items-center mt-sm">
+              <select className="input" value={breaker?.id ?? ''} onChange={(e) => setCrewId(e.target.value)} style={{ fontSize: '0.75rem' }}>
+                {crew.map((c) => (
+                  <option key={c.id} value={c.id} disabled={!canAct.includes(c)}>
+                    {c.name}{canAct.includes(c) ? '' : ' (action spent)'}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="btn btn-secondary text-xs"
+                disabled={!breaker}
+                title={spec.endsWithAction ? 'Takes an action, no check' : `Str check ${modifier >= 0 ? '+' : ''}${modifier} vs DC ${tether.escapeDC}`}
+                onClick={breakFree}
+              >
+                Break Free{spec.endsWithAction ? '' : ` (DC ${tether.escapeDC})`}
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      {tetheringWeapons.length > 0 && inReach.length > 0 && (
+        <div className="flex gap-sm items-center">
+          {tetheringWeapons.length > 1 && (
+            <select className="input" value={weaponIndex} onChange={(e) => setWeaponIndex(Number(e.target.value))} style={{ fontSize: '0.75rem' }}>
+              {tetheringWeapons.map((t, i) => (
+                <option key={`${t.weapon.zoneId}-${t.source}`} value={i}>
+                  {t.weapon.name}{t.source === 'grasping_rounds' ? ' (Grasping Rounds)' : ''}
+                </option>
+              ))}
+            </select>
+          )}
+          <select className="input" value={targetId} onChange={(e) => setTargetId(e.target.value)} style={{ fontSize: '0.75rem' }}>
+            <option value="">-- Hit with {selected?.weapon.name} --</option>
+            {inReach.map((v) => (
+              <option key={v.id} value={v.id}>
+                {v.name} ({getHullGap(vehicle, v)} ft)
+              </option>
+            ))}
+          </select>
+          <button
+            className="btn btn-secondary text-xs"
+            disabled={!target}
+            title={selected ? TETHER_SOURCES[selected.source].description : undefined}
+            onClick={attach}
+          >
+            Attach
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -21,35 +21,18 @@ import ExpandLessIcon from '@mui/icons-material/ExpandLess';
 import { useCombat } from '../../context/CombatContext';
 import { Vehicle, Mishap, Creature, VehicleZone } from '../../types';
 import { resolveZone } from '../../data/vehicleTemplates';
-import { getMishapResult, getMishapSeverity, checkMishapFromDamage, canRepairMishap, getRepairDescription, rollMishapForVehicle } from '../../data/mishapTable';
+import { getMishapResult, getMishapSeverity, canRepairMishap, getRepairDescription, rollMishapForVehicle, getEffectiveDamageThreshold, getVehicleMishapState } from '../../data/mishapTable';
 import { v4 as uuid } from 'uuid';
 import { factionColors, withOpacity } from '../../theme/customColors';
+import { isNavalVehicle } from '../../data/navalUpgrades';
+import { getEffectiveVehicleSpeed } from '../../utils/vehicleComponents';
+import { CrewMoraleGauge } from '../vehicles/CrewMoraleGauge';
+import { PendingMishapPrompt } from '../vehicles/PendingMishapPrompt';
+import { DAMAGE_INPUT_HINT, applyDamageDefenses, getVehicleDefenses, parseDamageInput } from '../../utils/damageCalculator';
 import IconButton from '@mui/material/IconButton';
 import RemoveIcon from '@mui/icons-material/Remove';
 import AddIcon from '@mui/icons-material/Add';
 
-// Calculate effective speed accounting for mishap effects
-function getEffectiveSpeed(vehicle: Vehicle): number {
-  let speed = vehicle.currentSpeed;
-  for (const mishap of vehicle.activeMishaps) {
-    if (mishap.mechanicalEffect?.speedReduction) {
-      speed -= mishap.mechanicalEffect.speedReduction;
-    }
-  }
-  return Math.max(0, speed);
-}
-
-// Calculate effective damage threshold accounting for mishap effects (e.g., Shedding Armor)
-function getEffectiveDamageThreshold(vehicle: Vehicle): number {
-  let threshold = vehicle.template.damageThreshold;
-  for (const mishap of vehicle.activeMishaps) {
-    if (mishap.mechanicalEffect?.damageThresholdReduction) {
-      threshold -= mishap.mechanicalEffect.damageThresholdReduction;
-    }
-  }
-  return Math.max(0, threshold);
-}
-
 // Crew member row with damage controls
 interface CrewMemberRowProps {
   creature: Creature;
@@ -161,6 +144,7 @@ export function VehicleStatsPanel({ vehicle, expanded, onToggle }: VehicleStatsP
   const [lastMishapResult, setLastMishapResult] = useState<{ roll: number; mishap: Mishap } | null>(null);
   const [showMishapResult, setShowMishapResult] = useState(false);
   const [damageError, setDamageError] = useState<string | null>(null);
+  const effectiveSpeed = getEffectiveVehicleSpeed(vehicle, state.crewAssignments, state.environment.wind);
 
   const vehicleCrew = state.crewAssignments
     .filter((a) => a.vehicleId === vehicle.id)
@@ -193,63 +177,27 @@ export function VehicleStatsPanel({ vehicle, expanded, onToggle }: VehicleStatsP
   };
 
   const handleDealDamage = () => {
-    const damage = parseInt(damageAmount, 10);
-    if (isNaN(damage) || damage <= 0) return;
-
-    const effectiveThreshold = getEffectiveDamageThreshold(vehicle);
-    if (damage < effectiveThreshold) {
-      setDamageError(`Damage (${damage}) is below the damage threshold (${effectiveThreshold}). No damage dealt.`);
-      dispatch({ type: 'LOG_ACTION', payload: { type: 'system', action: `${vehicle.name} ignores ${damage} damage`, details: `Below damage threshold of ${effectiveThreshold}` } });
-      setDamageAmount('');
+    const parts = parseDamageInput(damageAmount);
+    if (!parts) {
+      setDamageError(`Couldn't read "${damageAmount}" — ${DAMAGE_INPUT_HINT.toLowerCase()}.`);
       return;
     }
-
-    setDamageError(null);
-    const newHp = Math.max(0, vehicle.currentHp - damage);
-    dispatch({ type: 'UPDATE_VEHICLE', payload: { id: vehicle.id, updates: { currentHp: newHp } } });
-    dispatch({ type: 'LOG_ACTION', payload: { type: 'damage', action: `${vehicle.name} takes ${damage} damage`, details: `HP: ${vehicle.currentHp} → ${newHp}` } });
-
-    if (checkMishapFromDamage(damage, vehicle.template.mishapThreshold)) {
-      // Roll for mishap, rerolling if the result is already active or would have no effect
-      const vehicleMishapState = {
-        currentSpeed: vehicle.currentSpeed,
-        damageThreshold: vehicle.template.damageThreshold,
-        weaponCount: vehicle.weapons.length,
-        activeMishaps: vehicle.activeMishaps,
-      };
-      const mishapRoll = rollMishapForVehicle(vehicleMishapState);
-
-      if (mishapRoll === null) {
-        // All mishaps are already active or maxed out - no new mishap can occur
-        dispatch({ type: 'LOG_ACTION', payload: { type: 'mishap', action: `Mishap triggered but no valid mishaps available for ${vehicle.name}`, details: 'All mishaps active or at maximum effect' } });
-      } else {
-        const { roll, mishap, rerollCount } = mishapRoll;
-        const mishapInstance: Mishap = { ...mishap, id: uuid(), roundsRemaining: mishap.roundsRemaining };
-
-        setLastMishapResult({ roll, mishap: mishapInstance });
-        setShowMishapResult(true);
-
-        if (mishap.duration !== 'instant') {
-          applyMishap(vehicle.id, mishapInstance);
-        }
-
-        const rerollNote = rerollCount > 0 ? ` (rerolled ${rerollCount}x to find valid mishap)` : '';
-        dispatch({ type: 'LOG_ACTION', payload: { type: 'mishap', action: `Mishap! ${damage} damage >= ${vehicle.template.mishapThreshold} threshold`, details: `Rolled ${roll}: ${mishap.name}${rerollNote}` } });
-      }
-    }
-
+    // The reducer enforces the threshold and rolls any mishap (held for confirmation below);
+    // this only explains why nothing happened
+    const damage = applyDamageDefenses(parts, getVehicleDefenses(vehicle)).total;
+    const effectiveThreshold = getEffectiveDamageThreshold(vehicle);
+    setDamageError(
+      damage < effectiveThreshold
+        ? `Damage (${damage}) is below the damage threshold (${effectiveThreshold}). No damage dealt.`
+        : null
+    );
+    dispatch({ type: 'DEAL_DAMAGE_TO_VEHICLE', payload: { vehicleId: vehicle.id, parts } });
     setDamageAmount('');
   };
 
   const handleManualMishapRoll = () => {
     // Roll for mishap, rerolling if the result is already active or would have no effect
-    const vehicleMishapState = {
-      currentSpeed: vehicle.currentSpeed,
-      damageThreshold: vehicle.template.damageThreshold,
-      weaponCount: vehicle.weapons.length,
-      activeMishaps: vehicle.activeMishaps,
-    };
-    const mishapRoll = rollMishapForVehicle(vehicleMishapState);
+    const mishapRoll = rollMishapForVehicle(getVehicleMishapState(vehicle));
 
     if (mishapRoll === null) {
       // All mishaps are already active or maxed out - no new mishap can occur
@@ -362,7 +310,7 @@ export function VehicleStatsPanel({ vehicle, expanded, onToggle }: VehicleStatsP
         <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
             <Typography variant="body2">Speed:</Typography>
-            {getEffectiveSpeed(vehicle) < vehicle.currentSpeed && (
+            {effectiveSpeed < vehicle.currentSpeed && (
               <Typography
                 variant="caption"
                 sx={{
@@ -373,7 +321,7 @@ export function VehicleStatsPanel({ vehicle, expanded, onToggle }: VehicleStatsP
                   borderRadius: 0.5,
                 }}
               >
-                {getEffectiveSpeed(vehicle)} ft effective
+                {effectiveSpeed} ft effective
               </Typography>
             )}
           </Box>
@@ -386,8 +334,8 @@ export function VehicleStatsPanel({ vehicle, expanded, onToggle }: VehicleStatsP
               sx={{
                 width: 72,
                 '& input': {
-                  textDecoration: getEffectiveSpeed(vehicle) < vehicle.currentSpeed ? 'line-through' : 'none',
-                  color: getEffectiveSpeed(vehicle) < vehicle.currentSpeed ? 'text.disabled' : 'inherit',
+                  textDecoration: effectiveSpeed < vehicle.currentSpeed ? 'line-through' : 'none',
+                  color: effectiveSpeed < vehicle.currentSpeed ? 'text.disabled' : 'inherit',
                 },
               }}
               inputProps={{ min: 0, step: 10, style: { textAlign: 'center' } }}
@@ -420,6 +368,13 @@ export function VehicleStatsPanel({ vehicle, expanded, onToggle }: VehicleStatsP
         </Box>
       </Stack>
 
+      {/* Crew Morale (naval vehicles) */}
+      {isNavalVehicle(vehicle.template) && (
+        <Paper sx={{ p: 1.5, bgcolor: '#242424', mb: 2 }}>
+          <CrewMoraleGauge vehicle={vehicle} />
+        </Paper>
+      )}
+
       {/* Deal Damage Section */}
       <Paper sx={{ p: 1.5, bgcolor: '#242424', mb: 2 }}>
         <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
@@ -427,16 +382,15 @@ export function VehicleStatsPanel({ vehicle, expanded, onToggle }: VehicleStatsP
         </Typography>
         <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
           <TextField
-            type="number"
             size="small"
             value={damageAmount}
             onChange={(e) => { setDamageAmount(e.target.value); setDamageError(null); }}
-            placeholder="Damage"
+            placeholder="Damage, e.g. 18 fire"
+            title={DAMAGE_INPUT_HINT}
             fullWidth
-            inputProps={{ min: 1 }}
             onKeyDown={(e) => e.key === 'Enter' && handleDealDamage()}
           />
-          <Button variant="contained" color="error" onClick={handleDealDamage} disabled={!damageAmount || parseInt(damageAmount, 10) <= 0}>
+          <Button variant="contained" color="error" onClick={handleDealDamage} disabled={!damageAmount.trim()}>
             Deal
           </Button>
         </Stack>
@@ -450,6 +404,9 @@ export function VehicleStatsPanel({ vehicle, expanded, onToggle }: VehicleStatsP
         </Button>
       </Paper>
 
+      {/* Mishap rolled from damage, awaiting confirmation */}
+      <PendingMishapPrompt vehicle={vehicle} />
+
       {/* Mishap Result Display */}
       {showMishapResult && lastMishapResult && (
         <Paper
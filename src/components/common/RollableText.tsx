@@ -1,6 +1,6 @@
 /**
  * RollableText — renders a string and turns any dice notation inside it
- * (e.g. "5d10", "2d10+8", "1d20-1") into a clickable element that rolls the dice
+ * (e.g. "5d10", "2d10+8", "1d20-1", "1d20+4 dis") into a clickable element that rolls the dice
  * via the shared dice engine, shows the result in a toast, and logs it to the
  * combat log. Non-dice text renders normally.
  *
@@ -12,7 +12,14 @@ import { Box, Snackbar } from '@mui/material';
 import { useCombat } from '../../context/CombatContext';
 import { roll as rollNotation, formatRollResult } from '../../utils/diceEngine';
 
-const DICE_RE = /\d+\s*d\s*\d+(?:\s*[+-]\s*\d+)?/gi;
+const DICE_RE = /\d+\s*d\s*\d+(?:\s*[+-]\s*\d+)?(?:\s+(?:adv|dis)\b)?/gi;
+
+// "1d20 + 4 dis" → "1d20+4 dis": the dice engine wants the notation unspaced, then the mode
+function toNotation(match: string): string {
+  const mode = match.match(/\s(adv|dis)$/i)?.[1];
+  const dice = match.replace(/\s+(adv|dis)$/i, '').replace(/\s+/g, '');
+  return mode ? `${dice} ${mode.toLowerCase()}` : dice;
+}
 
 interface RollableTextProps {
   text?: string;
@@ -32,7 +39,7 @@ export function RollableText({ text, source }: RollableTextProps) {
   for (const m of text.matchAll(DICE_RE)) {
     const idx = m.index ?? 0;
     if (idx > last) parts.push({ text: text.slice(last, idx) });
-    parts.push({ text: m[0], dice: m[0].replace(/\s+/g, '') });
+    parts.push({ text: m[0], dice: toNotation(m[0]) });
     last = idx + m[0].length;
   }
   if (last < text.length) parts.push({ text: text.slice(last) });
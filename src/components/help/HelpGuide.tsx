@@ -85,6 +85,13 @@ export function HelpGuide({ open, onClose }: HelpGuideProps) {
               The card adapts to the vehicle type — war machines show armor upgrades, magical gadgets, and mishaps;
               ships show their components and Ship Upgrades. Both offer HP/damage controls, crew management, and weapons.
             </Typography>
+            <Typography variant="body2" paragraph>
+              Damage below a vehicle's (or component's) damage threshold is ignored. A war machine hit for its
+              mishap threshold or more rolls a mishap automatically — apply it, reroll it or dismiss it from the card.
+              Active mishaps keep working: Engine Flare burns everyone aboard at the start of the vehicle's turn,
+              Blinding Smoke obscures the helm, and the Crew Actions panel rolls with disadvantage where a mishap calls for it.
+              A Flip stops the vehicle dead and rolls every crew member's save; the crew can try to right it from the Crew Actions panel.
+            </Typography>
             <Typography variant="body2">
               <strong>Tip:</strong> Any dice shown (weapon damage, to-hit, effects) is clickable — click it to roll,
               and the result is logged to the combat log.
@@ -119,10 +126,45 @@ export function HelpGuide({ open, onClose }: HelpGuideProps) {
               <strong> "New … here"</strong> to create a character directly in that seat.
             </Typography>
             <Typography variant="body2">
-              • The <strong>Helm</strong> is the driver (required to steer)<br />
-              • <strong>Weapon stations</strong> let a crew member fire that weapon<br />
+              • The <strong>Helm</strong> is the driver (required to steer). Its <strong>Ram</strong> action crashes
+                into a vehicle or a creature on foot within 5 ft for 1d6 per 10 ft moved this round, hurting both
+                vehicles (a naval ram takes the rammer's share), shoving the target and stopping the rammer<br />
+              • Any crew member can <strong>Board Vehicle</strong> when another vehicle is within 30 ft hull to hull:
+                a jump with Athletics or Acrobatics, or across a <strong>plank</strong> or <strong>grappling line</strong> laid
+                from the Boarding Links box. A miss drops them between the vehicles with falling damage<br />
+              • A <strong>harpoon</strong>, <strong>grappling claw</strong> or ship with <strong>Grasping Rounds</strong> can
+                tether what it hits from the Tethers box. The vehicles can't pull apart past the line unless the stronger
+                one drags the other; the held vehicle's crew break free with a Strength check<br />
+              • <strong>Weapon stations</strong> let a crew member fire that weapon. Each shot spends ammunition
+                where the weapon has limited rounds (harpoons), and siege weapons must be loaded and aimed first
+                (ballista 1 + 1 actions, mangonel 2 + 2). Crew restock an empty weapon from the <strong>spare ammo</strong> in the cargo.
+                Pick a vehicle, ship component or creature under <strong>Fire At</strong> and resolving rolls the whole attack —
+                to-hit with elevation against AC and cover, crits, or the target's save — and deals the damage<br />
+              • Declared actions stay put until the vehicle's next turn, and resolved crew are greyed out. Vehicle
+                reactions like the Devil's Ride's <strong>Juke</strong> are used from the vehicle card on any turn with
+                the driver's reaction<br />
+              • <strong>Ready</strong> holds an action for a trigger. When it happens — a vehicle comes within range,
+                someone boards, an attack is declared — a prompt asks whether to take it with the creature's reaction.
+                Juke is offered the same way when an attack calling for a Dex save is declared against the vehicle,
+                and gives advantage on that save<br />
+              • Add <strong>conditions</strong> from the + under a creature in the sidebar. A duration counts down at
+                the start or end of the creature's turn, a save-ends condition prompts its save at the end of the turn,
+                and conditions like poisoned, prone, restrained and exhaustion apply advantage or disadvantage to the rolls<br />
+              • <strong>Concentrate</strong> records the spell a creature is holding. Damage prompts a Con save (DC 10 or
+                half the damage); losing concentration ends any conditions added with that spell picked<br />
+              • A PC at 0 HP rolls a <strong>death save</strong> from the prompt at the start of their turn. Successes
+                and failures show as pips in the sidebar and player view; <strong>Stabilize</strong> ends the saves early<br />
+              • At the end of each turn, <strong>legendary actions</strong> are offered for any legendary creature with
+                actions left; the pool refills on its own turn. A <strong>Lair</strong> turn on initiative 20 takes one
+                lair action a round. Combat starts with it when a creature has lair actions (from Open5e, or typed into
+                the creature's edit form), and the Lair chip on the initiative tracker adds or removes it<br />
+              • Actions with a <strong>recharge</strong> or a limit per day show Ready or Spent in the statblock view, with
+                Use and Recharge buttons; spent recharge actions roll a d6 at the start of the creature's turn. Magical
+                gadgets on the vehicle card work once until recharged, and <strong>Reset Combat</strong> restores all of them<br />
               • Ships also have a <strong>Passengers</strong> zone for the party, plus a bulk
-                <strong> Deck Crew / Rowers</strong> station shown as a count
+                <strong> Deck Crew / Rowers</strong> station shown as a count. Its unnamed crew take
+                casualties (<strong>Hit Crew</strong> with the damage and how many are caught), and a ship
+                short of the hands its sails or oars need slows down
             </Typography>
           </AccordionDetails>
         </Accordion>
@@ -285,6 +327,21 @@ export function HelpGuide({ open, onClose }: HelpGuideProps) {
               <strong>Auto-save:</strong> Your current encounter is automatically saved locally
               as you make changes.
             </Typography>
+            <Typography variant="body2" paragraph>
+              <strong>Undo &amp; Redo:</strong> The arrows in the header (or <strong>Ctrl+Z</strong> and{' '}
+              <strong>Ctrl+Shift+Z</strong>) undo and redo any change, such as damage, a mishap or a crew
+              assignment. The history button lists the last 50 changes to jump back to. The player view
+              follows along, and the restored state is saved straight away.
+            </Typography>
+            <Typography variant="body2" paragraph>
+              <strong>Combat Replay:</strong> Everything done from the start of combat is recorded along
+              with its dice rolls. After <strong>"Finish Combat"</strong>, click <strong>"Replay on Map"</strong>{' '}
+              in the summary to step through the fight with the scrubber above the map, or press play. The
+              map, HP and mishaps show each moment as it was; <strong>"Exit Replay"</strong> returns to the
+              live encounter. Earlier fights are under menu (☰) → <strong>"Past Combats"</strong>; on this
+              device the three most recent keep their replay. Reloading the page mid-combat restarts the
+              recording from that point, and a replay holds up to 1,000 actions; the combat log notes both.
+            </Typography>
             <Typography variant="body2" paragraph>
               <strong>Save to Cloud:</strong> Use the menu (☰) → <strong>"Save"</strong> to save
               your encounter to the cloud. This allows you to access it from any device.
@@ -35,6 +35,8 @@ import MenuIcon from '@mui/icons-material/Menu';
 import SaveIcon from '@mui/icons-material/Save';
 import SaveAsIcon from '@mui/icons-material/SaveAs';
 import FolderOpenIcon from '@mui/icons-material/FolderOpen';
+import HistoryIcon from '@mui/icons-material/History';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
 import AddIcon from '@mui/icons-material/Add';
 import StopIcon from '@mui/icons-material/Stop';
 import RefreshIcon from '@mui/icons-material/Refresh';
@@ -46,6 +48,7 @@ import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
 import { useCombat } from '../../context/CombatContext';
 import { SCALES } from '../../data/scaleConfig';
 import { rollComplication, getComplicationRollRange } from '../../data/chaseComplications';
+import { isNavalVehicle } from '../../data/navalUpgrades';
 import { storageService, SavedEncounter, CombatArchive } from '../../services/storageService';
 import { CombatState, ChaseComplication } from '../../types';
 import { scaleColors, withOpacity } from '../../theme/customColors';
@@ -60,19 +63,22 @@ import SettingsIcon from '@mui/icons-material/Settings';
 import NewReleasesIcon from '@mui/icons-material/NewReleases';
 import { UserMenu } from '../auth/UserMenu';
 import { isAuthEnabled } from '../../context/AuthContext';
+import { UndoControls } from './UndoControls';
 import { HelpGuide } from '../help/HelpGuide';
 import { SettingsDialog } from '../settings/SettingsDialog';
 import { ChangelogDialog } from '../settings/ChangelogDialog';
 import { logAnalyticsEvent } from '../../firebase';
 
 export function Header() {
-  const { state, dispatch, startCombat, returnToSetup, resetCombat, nextRound, nextTurn, loadEncounter, newEncounter, lastSaved, forceSave, markAsSaved, setEncounterName, toggleAutoRollComplications, logComplication, startComplicationResolution, clearComplication } = useCombat();
+  const { state, dispatch, startCombat, returnToSetup, resetCombat, nextRound, nextTurn, loadEncounter, newEncounter, lastSaved, forceSave, markAsSaved, setEncounterName, toggleAutoRollComplications, logComplication, startComplicationResolution, clearComplication, startReplay } = useCombat();
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [showLoadModal, setShowLoadModal] = useState(false);
   const [showSummaryModal, setShowSummaryModal] = useState(false);
   const [currentArchive, setCurrentArchive] = useState<CombatArchive | null>(null);
   const [saveName, setSaveName] = useState(state.name);
   const [savedEncounters, setSavedEncounters] = useState<SavedEncounter[]>([]);
+  const [showArchivesModal, setShowArchivesModal] = useState(false);
+  const [combatArchives, setCombatArchives] = useState<CombatArchive[]>([]);
   const [menuAnchor, setMenuAnchor] = useState<null | HTMLElement>(null);
   const [complicationMenuAnchor, setComplicationMenuAnchor] = useState<null | HTMLElement>(null);
   const [showComplicationModal, setShowComplicationModal] = useState(false);
@@ -139,6 +145,12 @@ export function Header() {
     };
   }, [state.creatures, state.crewAssignments, state.vehicles]);
 
+  // With ships on the battlefield, complications come from the Saltmarsh naval hazard table
+  const isNavalEncounter = state.vehicles.some((v) => isNavalVehicle(v.template));
+  const noComplicationText = isNavalEncounter
+    ? 'The sea poses no additional threats this round.'
+    : 'The hellish terrain poses no additional threats this round.';
+
   // Helper to check if a complication is "Creature Chase" (roll 1-2)
   const isCreatureChaseComplication = (complication: ChaseComplication | null, roll: number): boolean => {
     return roll <= 2 && complication?.name === 'Creature Chase';
@@ -150,14 +162,14 @@ export function Header() {
     if (state.round > prevRound && state.phase === 'combat' && state.autoRollComplications) {
       // Roll for complication
       const roll = Math.floor(Math.random() * 20) + 1;
-      const complication = rollComplication(roll, state.scale);
-      const rollRange = getComplicationRollRange(roll);
+      const complication = rollComplication(roll, state.scale, isNavalEncounter);
+      const rollRange = getComplicationRollRange(roll, isNavalEncounter);
 
       // Log to combat log
       logComplication(
         roll,
         complication?.name || null,
-        complication ? complication.effect : 'The hellish terrain poses no additional threats this round.'
+        complication ? complication.effect : noComplicationText
       );
 
       // Store the result for modals
@@ -167,8 +179,8 @@ export function Header() {
       if (isCreatureChaseComplication(complication, roll)) {
         // Creature Chase - show creature selection modal
         setShowCreatureChaseModal(true);
-      } else if (complication && complication.mechanicalEffect?.skillCheck) {
-        // Skill check complication - start resolution process
+      } else if (complication && (complication.mechanicalEffect?.skillCheck || complication.navalHazard)) {
+        // Skill check complication or naval hazard group check - start resolution process
         startComplicationResolution(complication, roll, rollRange);
         setShowResolutionModal(true);
       } else {
@@ -177,7 +189,7 @@ export function Header() {
       }
     }
     setPrevRound(state.round);
-  }, [state.round, state.phase, state.autoRollComplications, state.scale, prevRound, logComplication, startComplicationResolution]);
+  }, [state.round, state.phase, state.autoRollComplications, state.scale, prevRound, logComplication, startComplicationResolution, isNavalEncounter, noComplicationText]);
 
   const handleSave = async () => {
     try {
@@ -186,7 +198,7 @@ export function Header() {
       // Mark as saved to enable auto-save
       markAsSaved();
       // Save to named encounters list
-      await storageService.saveEncounter(state.id, saveName, { ...state, name: saveName, hasBeenSaved: true });
+      await storageService.saveEncounter(state.id, saveName, { ...state, replay: undefined, name: saveName, hasBeenSaved: true });
       // Force immediate auto-save
       setTimeout(() => forceSave(), 100);
       setShowSaveModal(false);
@@ -203,7 +215,7 @@ export function Header() {
   const handleQuickSave = async () => {
     try {
       // Save to named encounters list with current state
-      await storageService.saveEncounter(state.id, state.name, state);
+      await storageService.saveEncounter(state.id, state.name, { ...state, replay: undefined });
       // Force immediate auto-save
       forceSave();
       setSnackbar({ open: true, message: 'Encounter saved!', severity: 'success' });
@@ -242,6 +254,26 @@ export function Header() {
     }
   };
 
+  const handleOpenArchives = async () => {
+    try {
+      setCombatArchives(await storageService.listCombatArchives());
+      setShowArchivesModal(true);
+    } catch (error) {
+      console.error('Failed to load combat archives:', error);
+      setSnackbar({ open: true, message: 'Failed to load past combats. Please try again.', severity: 'error' });
+    }
+  };
+
+  const handleDeleteArchive = async (id: string) => {
+    try {
+      await storageService.deleteCombatArchive(id);
+      setCombatArchives(await storageService.listCombatArchives());
+    } catch (error) {
+      console.error('Failed to delete combat archive:', error);
+      setSnackbar({ open: true, message: 'Failed to delete combat. Please try again.', severity: 'error' });
+    }
+  };
+
   const handleNew = () => {
     if (confirm('Create a new encounter? Any unsaved changes will be lost.')) {
       newEncounter('New Encounter');
@@ -276,6 +308,7 @@ export function Header() {
           .map((c) => c.name),
       },
       actionLog: state.actionLog,
+      replay: state.replay,
     };
 
     // Save to archives
@@ -298,14 +331,14 @@ export function Header() {
 
   const handleRollComplication = () => {
     const roll = Math.floor(Math.random() * 20) + 1;
-    const complication = rollComplication(roll, state.scale);
-    const rollRange = getComplicationRollRange(roll);
+    const complication = rollComplication(roll, state.scale, isNavalEncounter);
+    const rollRange = getComplicationRollRange(roll, isNavalEncounter);
 
     // Log to combat log
     logComplication(
       roll,
       complication?.name || null,
-      complication ? complication.effect : 'The hellish terrain poses no additional threats this round.'
+      complication ? complication.effect : noComplicationText
     );
 
     // Store the result for modals
@@ -315,8 +348,8 @@ export function Header() {
     if (isCreatureChaseComplication(complication, roll)) {
       // Creature Chase - show creature selection modal
       setShowCreatureChaseModal(true);
-    } else if (complication && complication.mechanicalEffect?.skillCheck) {
-      // Skill check complication - start resolution process
+    } else if (complication && (complication.mechanicalEffect?.skillCheck || complication.navalHazard)) {
+      // Skill check complication or naval hazard group check - start resolution process
       startComplicationResolution(complication, roll, rollRange);
       setShowResolutionModal(true);
     } else {
@@ -525,6 +558,8 @@ export function Header() {
 
             <Divider orientation="vertical" flexItem />
 
+            <UndoControls />
+
             {/* File Menu - Far Right */}
             <IconButton
               size="small"
@@ -568,6 +603,10 @@ export function Header() {
                 <ListItemIcon><FolderOpenIcon fontSize="small" /></ListItemIcon>
                 <ListItemText>Load Encounter</ListItemText>
               </MenuItem>
+              <MenuItem onClick={() => { handleOpenArchives(); setMenuAnchor(null); }}>
+                <ListItemIcon><HistoryIcon fontSize="small" /></ListItemIcon>
+                <ListItemText>Past Combats</ListItemText>
+              </MenuItem>
               <Divider />
               {state.phase === 'combat' && (
                 <MenuItem onClick={() => { handleFinishCombat(); setMenuAnchor(null); }}>
@@ -687,6 +726,70 @@ export function Header() {
         </DialogActions>
       </Dialog>
 
+      {/* Past Combats Dialog */}
+      <Dialog
+        open={showArchivesModal}
+        onClose={() => setShowArchivesModal(false)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Past Combats</DialogTitle>
+        <DialogContent>
+          {combatArchives.length === 0 ? (
+            <Typography color="text.secondary" align="center" sx={{ py: 4 }}>
+              No finished combats yet.
+            </Typography>
+          ) : (
+            <Stack spacing={1} sx={{ mt: 1 }}>
+              {combatArchives.map((archive) => (
+                <Card key={archive.id} variant="outlined">
+                  <CardContent sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <Box>
+                      <Typography fontWeight={600}>{archive.encounterName}</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {new Date(archive.completedAt).toLocaleString()} · {archive.totalRounds} rounds
+                        {!archive.replay && ' · no replay'}
+                      </Typography>
+                    </Box>
+                    <Box sx={{ display: 'flex', gap: 0.5 }}>
+                      {archive.replay && (
+                        <Button
+                          size="small"
+                          startIcon={<PlayArrowIcon />}
+                          onClick={() => {
+                            if (archive.replay) startReplay(archive.replay);
+                            setShowArchivesModal(false);
+                          }}
+                        >
+                          Replay on Map
+                        </Button>
+                      )}
+                      <IconButton
+                        color="error"
+                        size="small"
+                        onClick={() => {
+                          if (confirm('Delete this combat?')) {
+                            handleDeleteArchive(archive.id);
+                          }
+                        }}
+                        title="Delete"
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </Box>
+                  </CardContent>
+                </Card>
+              ))}
+            </Stack>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button fullWidth onClick={() => setShowArchivesModal(false)}>
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Combat Summary Dialog */}
       <Dialog
         open={showSummaryModal}
@@ -705,6 +808,16 @@ export function Header() {
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setShowSummaryModal(false)}>Close</Button>
+          {currentArchive?.replay && (
+            <Button
+              onClick={() => {
+                if (currentArchive.replay) startReplay(currentArchive.replay);
+                setShowSummaryModal(false);
+              }}
+            >
+              Replay on Map
+            </Button>
+          )}
           <Button
             variant="contained"
             onClick={() => {
@@ -45,10 +45,12 @@ import { VehicleTemplateEditor } from '../vehicles/VehicleTemplateEditor';
 import { ScaleIndicator } from '../combat/ScaleIndicator';
 import { BattlefieldMap } from '../battlefield/BattlefieldMap';
 import { CombatLog } from '../combat/CombatLog';
+import { ReplayControls } from '../combat/ReplayControls';
 import { getBuiltInTemplates, resolveTemplate, setPersonalTemplates } from '../../data/templateRegistry';
 import { Vehicle, VehicleWeapon, VehicleTemplate, Creature, CrewAssignment } from '../../types';
 import { factionColors, scaleColors, withOpacity } from '../../theme/customColors';
 import { storageService, PartyPreset } from '../../services/storageService';
+import { getStartingAmmunition } from '../../utils/weaponAmmo';
 
 type ViewMode = 'battlefield' | 'cards';
 
@@ -196,7 +198,7 @@ export function MainPanel() {
           ...w,
           zoneId,
           visibleFromArcs: arcs,
-          currentAmmunition: w.properties?.includes('ammunition') ? 10 : undefined,
+          ...getStartingAmmunition(w),
           // Mark port/starboard weapons as swappable weapon stations
           isSwappableStation: w.id.includes('harpoon') || w.id.includes('port') || w.id.includes('starboard'),
         };
@@ -382,6 +384,8 @@ export function MainPanel() {
           </Stack>
         </Box>
 
+        <ReplayControls />
+
         {/* Battlefield View - Map and Combat Log */}
         {viewMode === 'battlefield' && (
           <>
@@ -17,6 +17,12 @@ import { useCombat } from '../../context/CombatContext';
 import { RollableText } from '../common/RollableText';
 import { resolveZone } from '../../data/vehicleTemplates';
 import { TargetCoverPanel } from '../combat/TargetCoverPanel';
+import { CrewActionPanel } from '../combat/CrewActionPanel';
+import { ReactionPrompts } from '../combat/ReactionPrompts';
+import { ConditionSavePrompts } from '../combat/ConditionSavePrompts';
+import { ConcentrationSavePrompts } from '../combat/ConcentrationSavePrompts';
+import { DeathSavePrompts } from '../combat/DeathSavePrompts';
+import { LegendaryActions } from '../combat/LegendaryActions';
 import { factionColors, coverColors, withOpacity } from '../../theme/customColors';
 import {
   getVehicleElevation,
@@ -24,9 +30,12 @@ import {
   getElevationAttackModifier,
   parseWeaponRange,
 } from '../../utils/elevationCalculator';
+import { getEffectiveVehicleSpeed } from '../../utils/vehicleComponents';
+import { getPointOfSail, isSailComponent } from '../../utils/windCalculator';
+import { LAIR_INITIATIVE, isLairTurn } from '../../utils/legendaryActions';
 
 export function RightPanel() {
-  const { state, currentTurnVehicle, currentTurnCreature } = useCombat();
+  const { state, currentTurnVehicle, currentTurnCreature, currentTurnDriver } = useCombat();
 
   // For cover calculations, find the vehicle the current creature is on (if any)
   const currentCreatureAssignment = currentTurnCreature
@@ -91,6 +100,13 @@ export function RightPanel() {
         </Box>
       )}
 
+      {/* Reactions waiting on the DM, readied actions, and legendary and lair actions */}
+      {state.phase === 'combat' && <DeathSavePrompts />}
+      {state.phase === 'combat' && <ReactionPrompts />}
+      {state.phase === 'combat' && <ConditionSavePrompts />}
+      {state.phase === 'combat' && <ConcentrationSavePrompts />}
+      {state.phase === 'combat' && <LegendaryActions />}
+
       {/* Current Turn Info - Show during combat */}
       {state.phase === 'combat' && (
         <Card sx={{ mb: 2 }}>
@@ -103,6 +119,22 @@ export function RightPanel() {
         </Card>
       )}
 
+      {/* Crew Actions - declare and resolve each crew member's action on a vehicle's turn */}
+      {state.phase === 'combat' && currentTurnVehicle && (
+        <Card sx={{ mb: 2 }}>
+          <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+            <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+              Crew Actions
+            </Typography>
+            <CrewActionPanel
+              key={`${currentTurnVehicle.id}-${state.round}`}
+              vehicle={currentTurnVehicle}
+              driver={currentTurnDriver}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Target Status - Show during combat when attacker has a vehicle or is on foot with a position */}
       {state.phase === 'combat' && (attackerVehicle || creatureOnFoot) && (
         <Card>
@@ -127,19 +159,10 @@ export function RightPanel() {
   );
 }
 
-// Calculate effective speed accounting for mishap effects
-function getEffectiveSpeed(vehicle: { currentSpeed: number; activeMishaps: Array<{ mechanicalEffect?: { speedReduction?: number } }> }): number {
-  let speed = vehicle.currentSpeed;
-  for (const mishap of vehicle.activeMishaps) {
-    if (mishap.mechanicalEffect?.speedReduction) {
-      speed -= mishap.mechanicalEffect.speedReduction;
-    }
-  }
-  return Math.max(0, speed);
-}
+const POINT_OF_SAIL_LABELS = { with: 'with the wind', across: 'across the wind', into: 'into the wind' };
 
 function CurrentTurnInfo() {
-  const { state, currentTurnCreature, currentTurnVehicle, currentTurnDriver } = useCombat();
+  const { state, dispatch, currentTurnCreature, currentTurnVehicle, currentTurnDriver } = useCombat();
 
   // Which crew positions are expanded (click a manned station to open its weapon details).
   const [expanded, setExpanded] = useState<Set<string>>(new Set());
@@ -224,8 +247,10 @@ function CurrentTurnInfo() {
       .filter((c) => c.creature);
 
     const borderColor = currentTurnVehicle.type === 'party' ? factionColors.party : factionColors.enemy;
-    const effectiveSpeed = getEffectiveSpeed(currentTurnVehicle);
+    const wind = state.environment.wind;
+    const effectiveSpeed = getEffectiveVehicleSpeed(currentTurnVehicle, state.crewAssignments, wind);
     const hasSpeedReduction = effectiveSpeed < currentTurnVehicle.currentSpeed;
+    const isUnderSail = !!wind && currentTurnVehicle.template.components?.some(isSailComponent);
 
     return (
       <Box>
@@ -256,7 +281,12 @@ function CurrentTurnInfo() {
               </Typography>
             ) : (
               <Typography variant="caption" color="text.secondary">
-                Speed: {currentTurnVehicle.currentSpeed} ft
+                Speed: {effectiveSpeed} ft
+              </Typography>
+            )}
+            {isUnderSail && (
+              <Typography variant="caption" color="info.main">
+                Sailing {POINT_OF_SAIL_LABELS[getPointOfSail(currentTurnVehicle.facing, wind)]}
               </Typography>
             )}
           </Box>
@@ -516,6 +546,46 @@ function CurrentTurnInfo() {
             </Stack>
           </Box>
         )}
+
+        {/* Speed Modifiers (complications, hazards) - click × to clear */}
+        {currentTurnVehicle.speedModifiers && currentTurnVehicle.speedModifiers.length > 0 && (
+          <Box sx={{ mt: 2 }}>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
+              Speed Modifiers:
+            </Typography>
+            <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+              {currentTurnVehicle.speedModifiers.map((mod) => (
+                <Chip
+                  key={mod.id}
+                  label={`${mod.source} (×${mod.multiplier})`}
+                  size="small"
+                  color="warning"
+                  variant="outlined"
+                  onDelete={() =>
+                    dispatch({
+                      type: 'UPDATE_VEHICLE',
+                      payload: {
+                        id: currentTurnVehicle.id,
+                        updates: { speedModifiers: currentTurnVehicle.speedModifiers?.filter((m) => m.id !== mod.id) },
+                      },
+                    })
+                  }
+                />
+              ))}
+            </Stack>
+          </Box>
+        )}
+      </Box>
+    );
+  }
+
+  if (isLairTurn(state.initiativeOrder[state.currentTurnIndex])) {
+    return (
+      <Box>
+        <Typography variant="subtitle1" fontWeight={600}>Lair</Typography>
+        <Typography variant="caption" color="text.secondary">
+          Lair actions on initiative {LAIR_INITIATIVE}, losing ties
+        </Typography>
       </Box>
     );
   }
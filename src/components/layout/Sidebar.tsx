@@ -46,9 +46,22 @@ import CloseIcon from '@mui/icons-material/Close';
 import SkullIcon from '@mui/icons-material/Dangerous';
 import Tooltip from '@mui/material/Tooltip';
 import { useCombat } from '../../context/CombatContext';
-import { Creature, Statblock } from '../../types';
+import { Creature, Statblock, StatblockAction } from '../../types';
 import { resolveZone } from '../../data/vehicleTemplates';
 import { factionColors, withOpacity } from '../../theme/customColors';
+import { CreatureConditions } from '../combat/CreatureConditions';
+import { DEATH_SAVES_NEEDED, isDead as isCreatureDead } from '../../utils/deathSaves';
+import {
+  LAIR_INITIATIVE,
+  LAIR_TURN_ID,
+  formatLairActions,
+  getLegendaryActionsPerRound,
+  getLegendaryActionsRemaining,
+  isLairTurn,
+  parseLairActions,
+  parseLegendaryActionsPerRound,
+} from '../../utils/legendaryActions';
+import { formatAbilityLimit, getAbilityUses, isAbilityAvailable, isLimitedUse, parseRecharge } from '../../utils/recharge';
 
 // Quick presets for NPCs/Enemies
 const NPC_PRESETS: Partial<Statblock>[] = [
@@ -122,6 +135,7 @@ interface Open5eMonster {
   reactions?: Open5eAction[];
   legendary_actions?: Open5eAction[];
   legendary_desc?: string;
+  lair_actions?: Open5eAction[];
   special_abilities?: Open5eAction[];
   document__title: string;
 }
@@ -145,12 +159,13 @@ function mapOpen5eSize(size: string): 'tiny' | 'small' | 'medium' | 'large' | 'h
 }
 
 // Convert Open5e action to our StatblockAction type
-function convertOpen5eAction(action: Open5eAction): { name: string; description: string; attackBonus?: number; damage?: string } {
+function convertOpen5eAction(action: Open5eAction): StatblockAction {
   return {
     name: action.name,
     description: action.desc,
     attackBonus: action.attack_bonus,
     damage: action.damage_dice ? `${action.damage_dice}${action.damage_bonus ? `+${action.damage_bonus}` : ''}` : undefined,
+    recharge: parseRecharge(action.name),
   };
 }
 
@@ -212,6 +227,8 @@ function convertOpen5eToCreature(monster: Open5eMonster, position: { x: number;
     bonusActions: monster.bonus_actions?.map(convertOpen5eAction),
     reactions: monster.reactions?.map(convertOpen5eAction),
     legendaryActions: monster.legendary_actions?.map(convertOpen5eAction),
+    legendaryActionsPerRound: parseLegendaryActionsPerRound(monster.legendary_desc),
+    lairActions: monster.lair_actions?.map(convertOpen5eAction),
   };
 
   // Calculate initiative modifier from dexterity (but don't auto-roll)
@@ -276,6 +293,7 @@ export function Sidebar() {
   const [editSpeed, setEditSpeed] = useState(30);
   const [editDexSave, setEditDexSave] = useState(0); // DEX saving throw modifier
   const [editFaction, setEditFaction] = useState<'party' | 'enemy'>('enemy');
+  const [editLairActions, setEditLairActions] = useState('');
 
   // Open5e search state
   const [showOpen5eSearch, setShowOpen5eSearch] = useState(false);
@@ -469,6 +487,7 @@ export function Sidebar() {
       ?? Math.floor(((creature.statblock.abilities?.dex || 10) - 10) / 2);
     setEditDexSave(dexSave);
     setEditFaction(creature.faction || 'enemy');
+    setEditLairActions(formatLairActions(creature.statblock.lairActions));
   };
 
   const saveEdit = () => {
@@ -491,6 +510,7 @@ export function Sidebar() {
             ac: editAc,
             speed: { ...existingStatblock.speed, walk: editSpeed },
             savingThrows: { ...existingStatblock.savingThrows, dex: editDexSave },
+            lairActions: parseLairActions(editLairActions),
           },
         },
       },
@@ -584,12 +604,25 @@ export function Sidebar() {
                 if (vehicle) return !vehicle.isInoperative && vehicle.currentHp > 0;
                 return true; // Creatures are always counted
               }).length;
+              const hasLair = state.initiativeOrder.includes(LAIR_TURN_ID);
               return (
-                <Chip
-                  label={`Turn ${state.currentTurnIndex + 1}/${activeCount}`}
-                  size="small"
-                  sx={{ bgcolor: withOpacity('#ff4500', 0.2), color: 'primary.main' }}
-                />
+                <Box sx={{ display: 'flex', gap: 0.5 }}>
+                  <Tooltip title={hasLair ? 'Remove the lair turn' : `Add a lair turn on initiative ${LAIR_INITIATIVE}`} arrow>
+                    <Chip
+                      label="Lair"
+                      size="small"
+                      variant={hasLair ? 'filled' : 'outlined'}
+                      onClick={() => dispatch({ type: 'TOGGLE_LAIR_TURN' })}
+                      disabled={isLairTurn(state.initiativeOrder[state.currentTurnIndex])}
+                      sx={{ color: '#eab308', ...(hasLair && { bgcolor: withOpacity('#eab308', 0.2) }) }}
+                    />
+                  </Tooltip>
+                  <Chip
+                    label={`Turn ${state.currentTurnIndex + 1}/${activeCount}`}
+                    size="small"
+                    sx={{ bgcolor: withOpacity('#ff4500', 0.2), color: 'primary.main' }}
+                  />
+                </Box>
               );
             })()}
           </Box>
@@ -677,6 +710,25 @@ export function Sidebar() {
                   );
                 }
 
+                if (isLairTurn(entryId)) {
+                  return (
+                    <Paper
+                      key={entryId}
+                      sx={{ p: 1, bgcolor: isActive ? withOpacity('#eab308', 0.15) : '#242424', borderLeft: 3, borderColor: '#eab308' }}
+                    >
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <Typography variant="body2" fontFamily="monospace" sx={{ minWidth: 24 }}>
+                          {LAIR_INITIATIVE}
+                        </Typography>
+                        <Typography variant="body2" fontWeight={600}>Lair</Typography>
+                        {state.turnActions[LAIR_TURN_ID]?.resolved && (
+                          <Typography variant="caption" color="text.secondary">{state.turnActions[LAIR_TURN_ID]?.action}</Typography>
+                        )}
+                      </Box>
+                    </Paper>
+                  );
+                }
+
                 const creature = state.creatures.find((c) => c.id === entryId);
                 if (!creature) return null;
 
@@ -684,8 +736,8 @@ export function Sidebar() {
                 const assignedVehicle = assignment ? state.vehicles.find((v) => v.id === assignment.vehicleId) : null;
 
                 const isPC = creature.statblock.type === 'pc';
-                const isInDeathSaves = isPC && creature.currentHp === 0;
-                const isDead = !isPC && creature.currentHp === 0;
+                const isDead = isCreatureDead(creature);
+                const isInDeathSaves = isPC && creature.currentHp === 0 && !isDead;
                 const isDownOrDead = isInDeathSaves || isDead;
 
                 return (
@@ -733,9 +785,7 @@ export function Sidebar() {
                         )}
                       </Box>
                       {isInDeathSaves ? (
-                        <Typography variant="caption" sx={{ color: 'error.main', fontWeight: 600 }}>
-                          DYING
-                        </Typography>
+                        <DeathSaveStatus creature={creature} compact />
                       ) : isDead ? (
                         <Typography variant="caption" sx={{ color: 'error.main', fontWeight: 600 }}>
                           DEAD
@@ -829,7 +879,7 @@ export function Sidebar() {
                   creature={creature}
                   isPC={true}
                   isEditing={editingCreatureId === creature.id}
-                  editState={{ editName, setEditName, editHp, setEditHp, editMaxHp, setEditMaxHp, editAc, setEditAc, editInit, setEditInit, editSpeed, setEditSpeed, editDexSave, setEditDexSave, editFaction, setEditFaction }}
+                  editState={{ editName, setEditName, editHp, setEditHp, editMaxHp, setEditMaxHp, editAc, setEditAc, editInit, setEditInit, editSpeed, setEditSpeed, editDexSave, setEditDexSave, editFaction, setEditFaction, editLairActions, setEditLairActions }}
                   onStartEdit={() => startEdit(creature)}
                   onSaveEdit={saveEdit}
                   onCancelEdit={cancelEdit}
@@ -943,7 +993,7 @@ export function Sidebar() {
                   creature={creature}
                   isPC={false}
                   isEditing={editingCreatureId === creature.id}
-                  editState={{ editName, setEditName, editHp, setEditHp, editMaxHp, setEditMaxHp, editAc, setEditAc, editInit, setEditInit, editSpeed, setEditSpeed, editDexSave, setEditDexSave, editFaction, setEditFaction }}
+                  editState={{ editName, setEditName, editHp, setEditHp, editMaxHp, setEditMaxHp, editAc, setEditAc, editInit, setEditInit, editSpeed, setEditSpeed, editDexSave, setEditDexSave, editFaction, setEditFaction, editLairActions, setEditLairActions }}
                   onStartEdit={() => startEdit(creature)}
                   onSaveEdit={saveEdit}
                   onCancelEdit={cancelEdit}
@@ -1184,7 +1234,10 @@ export function Sidebar() {
               </Box>
             </DialogTitle>
             <DialogContent sx={{ pt: 2 }}>
-              <StatblockDisplay statblock={viewingCreature.statblock} />
+              <StatblockDisplay
+                statblock={viewingCreature.statblock}
+                creature={state.creatures.find((c) => c.id === viewingCreature.id)}
+              />
             </DialogContent>
           </>
         )}
@@ -1207,6 +1260,7 @@ interface CreatureEntryProps {
     editSpeed: number; setEditSpeed: (v: number) => void;
     editDexSave: number; setEditDexSave: (v: number) => void;
     editFaction: 'party' | 'enemy'; setEditFaction: (v: 'party' | 'enemy') => void;
+    editLairActions: string; setEditLairActions: (v: string) => void;
   };
   onStartEdit: () => void;
   onSaveEdit: () => void;
@@ -1352,6 +1406,17 @@ function CreatureEntry({ creature, isPC, isEditing, editState, onStartEdit, onSa
               </ToggleButton>
             </ToggleButtonGroup>
           </Stack>
+          {!isPC && (
+            <TextField
+              size="small"
+              label="Lair Actions"
+              multiline
+              minRows={2}
+              value={editState.editLairActions}
+              onChange={(e) => editState.setEditLairActions(e.target.value)}
+              helperText={`One per line, "Name: what happens". Taken on initiative ${LAIR_INITIATIVE}`}
+            />
+          )}
           <Stack direction="row" spacing={1}>
             <Button variant="contained" size="small" onClick={onSaveEdit} sx={{ flex: 1 }}>Save</Button>
             <Button variant="outlined" size="small" onClick={onCancelEdit} sx={{ flex: 1 }}>Cancel</Button>
@@ -1363,8 +1428,8 @@ function CreatureEntry({ creature, isPC, isEditing, editState, onStartEdit, onSa
 
   // Determine if Map button should be disabled (creature is assigned to a vehicle)
   const isAssignedToVehicle = !!assignment;
-  const isInDeathSaves = isPC && creature.currentHp === 0;
-  const isDead = !isPC && creature.currentHp === 0;
+  const isDead = isCreatureDead(creature);
+  const isInDeathSaves = isPC && creature.currentHp === 0 && !isDead;
   const isDownOrDead = isInDeathSaves || isDead;
 
   return (
@@ -1474,9 +1539,12 @@ function CreatureEntry({ creature, isPC, isEditing, editState, onStartEdit, onSa
           {getStatusIndicator()}
         </Typography>
         {isInDeathSaves ? (
-          <Typography variant="caption" sx={{ color: 'error.main', fontWeight: 600 }}>
-            DEATH SAVES | AC: {creature.statblock.ac} | Init: {creature.initiative}
-          </Typography>
+          <>
+            <Typography variant="caption" sx={{ color: 'error.main', fontWeight: 600 }}>
+              {creature.deathSaves?.stable ? 'STABLE' : 'DEATH SAVES'} | AC: {creature.statblock.ac} | Init: {creature.initiative}
+            </Typography>
+            {!creature.deathSaves?.stable && <DeathSaveStatus creature={creature} />}
+          </>
         ) : isDead ? (
           <Typography variant="caption" sx={{ color: 'error.main', fontWeight: 600 }}>
             DEAD | AC: {creature.statblock.ac} | Init: {creature.initiative}
@@ -1490,8 +1558,11 @@ function CreatureEntry({ creature, isPC, isEditing, editState, onStartEdit, onSa
                   ? (Math.floor((creature.statblock.abilities.dex - 10) / 2) >= 0 ? '+' : '') + Math.floor((creature.statblock.abilities.dex - 10) / 2)
                   : '—')
             }
+            {getLegendaryActionsPerRound(creature) > 0 &&
+              ` | Legendary: ${getLegendaryActionsRemaining(creature)}/${getLegendaryActionsPerRound(creature)}`}
           </Typography>
         )}
+        <CreatureConditions creature={creature} />
         {/* Damage/Heal controls for non-PCs */}
         {!isPC && onHpChange && (
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mt: 0.5 }}>
@@ -1534,6 +1605,46 @@ function CreatureEntry({ creature, isPC, isEditing, editState, onStartEdit, onSa
   );
 }
 
+// Death save pips for a PC at 0 HP, with a button to stabilize them
+function DeathSaveStatus({ creature, compact }: { creature: Creature; compact?: boolean }) {
+  const { dispatch } = useCombat();
+  const saves = creature.deathSaves;
+  if (saves?.stable) {
+    return (
+      <Typography variant="caption" sx={{ color: 'success.main', fontWeight: 600 }}>
+        STABLE
+      </Typography>
+    );
+  }
+  const pips = (count: number, color: string) =>
+    Array.from({ length: DEATH_SAVES_NEEDED }, (_, i) => (
+      <Box
+        key={i}
+        component="span"
+        sx={{ width: 7, height: 7, borderRadius: '50%', border: 1, borderColor: color, bgcolor: i < count ? color : 'transparent' }}
+      />
+    ));
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mt: compact ? 0 : 0.25 }}>
+      <Tooltip title="Successes" arrow>
+        <Box sx={{ display: 'flex', gap: 0.25 }}>{pips(saves?.successes ?? 0, '#4CAF50')}</Box>
+      </Tooltip>
+      <Tooltip title="Failures" arrow>
+        <Box sx={{ display: 'flex', gap: 0.25 }}>{pips(saves?.failures ?? 0, '#dc2626')}</Box>
+      </Tooltip>
+      {!compact && (
+        <Button
+          size="small"
+          onClick={() => dispatch({ type: 'STABILIZE_CREATURE', payload: { creatureId: creature.id, source: 'Stabilized by the DM' } })}
+          sx={{ fontSize: '0.6rem', py: 0, minWidth: 0, ml: 0.5 }}
+        >
+          Stabilize
+        </Button>
+      )}
+    </Box>
+  );
+}
+
 // HP Indicator Component
 function HPIndicator({ current, max }: { current: number; max: number }) {
   const percent = (current / max) * 100;
@@ -1555,7 +1666,37 @@ function getHPColor(current: number, max: number): 'success' | 'warning' | 'erro
 }
 
 // Statblock Display Component
-function StatblockDisplay({ statblock }: { statblock: Statblock }) {
+// Ready or spent, for a recharge or per-rest action of a creature in the encounter
+function AbilityLimit({ creature, action }: { creature: Creature; action: StatblockAction }) {
+  const { dispatch } = useCombat();
+  if (!isLimitedUse(action)) return null;
+  const available = isAbilityAvailable(creature, action);
+  const used = getAbilityUses(creature, action.name);
+  const payload = { creatureId: creature.id, actionName: action.name };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mt: 0.25 }}>
+      <Chip
+        label={`${formatAbilityLimit(action, used)} · ${available ? 'Ready' : 'Spent'}`}
+        size="small"
+        color={available ? 'success' : 'default'}
+        sx={{ height: 18, fontSize: '0.625rem' }}
+      />
+      {available && (
+        <Button size="small" variant="outlined" onClick={() => dispatch({ type: 'USE_CREATURE_ABILITY', payload })} sx={{ fontSize: '0.65rem', py: 0, minWidth: 0 }}>
+          Use
+        </Button>
+      )}
+      {used > 0 && (
+        <Button size="small" onClick={() => dispatch({ type: 'RECHARGE_CREATURE_ABILITY', payload })} sx={{ fontSize: '0.65rem', py: 0, minWidth: 0 }}>
+          Recharge
+        </Button>
+      )}
+    </Box>
+  );
+}
+
+function StatblockDisplay({ statblock, creature }: { statblock: Statblock; creature?: Creature }) {
   const abilityNames = ['str', 'dex', 'con', 'int', 'wis', 'cha'] as const;
 
   const getModifier = (score: number) => {
@@ -1700,6 +1841,7 @@ function StatblockDisplay({ statblock }: { statblock: Statblock }) {
                 <Typography variant="body2">
                   <strong><em>{action.name}.</em></strong> {action.description}
                 </Typography>
+                {creature && <AbilityLimit creature={creature} action={action} />}
               </Box>
             ))}
           </Stack>
@@ -1718,6 +1860,7 @@ function StatblockDisplay({ statblock }: { statblock: Statblock }) {
                 <Typography variant="body2">
                   <strong><em>{action.name}.</em></strong> {action.description}
                 </Typography>
+                {creature && <AbilityLimit creature={creature} action={action} />}
               </Box>
             ))}
           </Stack>
@@ -1736,6 +1879,7 @@ function StatblockDisplay({ statblock }: { statblock: Statblock }) {
                 <Typography variant="body2">
                   <strong><em>{action.name}.</em></strong> {action.description}
                 </Typography>
+                {creature && <AbilityLimit creature={creature} action={action} />}
               </Box>
             ))}
           </Stack>
@@ -1764,6 +1908,27 @@ function StatblockDisplay({ statblock }: { statblock: Statblock }) {
           </Stack>
         </Box>
       )}
+
+      {/* Lair Actions */}
+      {statblock.lairActions && statblock.lairActions.length > 0 && (
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="subtitle2" sx={{ color: 'primary.main', mb: 1, borderBottom: 1, borderColor: 'primary.main', pb: 0.5 }}>
+            Lair Actions
+          </Typography>
+          <Typography variant="body2" sx={{ mb: 1, fontStyle: 'italic' }}>
+            On initiative count {LAIR_INITIATIVE} (losing initiative ties), the creature takes a lair action.
+          </Typography>
+          <Stack spacing={1}>
+            {statblock.lairActions.map((action, i) => (
+              <Box key={i}>
+                <Typography variant="body2">
+                  <strong><em>{action.name}.</em></strong> {action.description}
+                </Typography>
+              </Box>
+            ))}
+          </Stack>
+        </Box>
+      )}
     </Box>
   );
 }
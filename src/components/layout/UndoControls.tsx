@@ -0,0 +1,90 @@
+/**
+ * Undo Controls
+ * Undo and redo buttons for the header, and a list of recent changes to undo back to.
+ */
+
+import { useState } from 'react';
+import { Box, Divider, IconButton, ListItemText, Menu, MenuItem, Tooltip, Typography } from '@mui/material';
+import UndoIcon from '@mui/icons-material/Undo';
+import RedoIcon from '@mui/icons-material/Redo';
+import HistoryIcon from '@mui/icons-material/History';
+import { useCombat } from '../../context/CombatContext';
+
+export function UndoControls() {
+  const { undo, redo, undoLabels, redoLabels } = useCombat();
+  const [historyAnchor, setHistoryAnchor] = useState<null | HTMLElement>(null);
+  const lastUndo = undoLabels[undoLabels.length - 1];
+  const nextRedo = redoLabels[0];
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center' }}>
+      <Tooltip title={lastUndo ? `Undo: ${lastUndo} (Ctrl+Z)` : 'Nothing to undo'} arrow>
+        <span>
+          <IconButton size="small" onClick={() => undo()} disabled={!lastUndo} sx={{ color: 'text.secondary' }}>
+            <UndoIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title={nextRedo ? `Redo: ${nextRedo} (Ctrl+Shift+Z)` : 'Nothing to redo'} arrow>
+        <span>
+          <IconButton size="small" onClick={() => redo()} disabled={!nextRedo} sx={{ color: 'text.secondary' }}>
+            <RedoIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title="Undo history" arrow>
+        <span>
+          <IconButton
+            size="small"
+            onClick={(e) => setHistoryAnchor(e.currentTarget)}
+            disabled={!lastUndo && !nextRedo}
+            sx={{ color: 'text.secondary' }}
+          >
+            <HistoryIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Menu
+        anchorEl={historyAnchor}
+        open={Boolean(historyAnchor)}
+        onClose={() => setHistoryAnchor(null)}
+        slotProps={{ paper: { sx: { maxHeight: 400, minWidth: 260 } } }}
+      >
+        {/* Redo steps above the current state, furthest first */}
+        {redoLabels
+          .map((label, i) => ({ label, steps: i + 1 }))
+          .reverse()
+          .map(({ label, steps }) => (
+            <MenuItem
+              key={`redo-${steps}`}
+              onClick={() => {
+                redo(steps);
+                setHistoryAnchor(null);
+              }}
+              sx={{ opacity: 0.5 }}
+            >
+              <ListItemText primary={label} primaryTypographyProps={{ variant: 'body2', sx: { fontStyle: 'italic' } }} />
+            </MenuItem>
+          ))}
+        {redoLabels.length > 0 && <Divider />}
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', px: 2, py: 0.5 }}>
+          Undo back to before…
+        </Typography>
+        {undoLabels
+          .map((label, i) => ({ label, steps: undoLabels.length - i }))
+          .reverse()
+          .map(({ label, steps }) => (
+            <MenuItem
+              key={`undo-${steps}`}
+              onClick={() => {
+                undo(steps);
+                setHistoryAnchor(null);
+              }}
+            >
+              <ListItemText primary={label} primaryTypographyProps={{ variant: 'body2' }} />
+            </MenuItem>
+          ))}
+      </Menu>
+    </Box>
+  );
+}
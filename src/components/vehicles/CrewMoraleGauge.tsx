@@ -0,0 +1,140 @@
+/**
+ * Crew Morale Gauge
+ * A ship's crew quality on the -10..+10 scale with its morale band, manual adjustment,
+ * the pending morale check (rolled by the captain) and the mutiny flag.
+ */
+
+import { Box, Button, Chip, IconButton, LinearProgress, Paper, Tooltip, Typography } from '@mui/material';
+import RemoveIcon from '@mui/icons-material/Remove';
+import AddIcon from '@mui/icons-material/Add';
+import { useCombat } from '../../context/CombatContext';
+import { Vehicle } from '../../types';
+import {
+  formatCrewQuality,
+  getCrewMoraleBand,
+  getCrewMoraleBandById,
+  getCrewQuality,
+  getOfficerCheckModifier,
+  getShipOfficer,
+  MAX_CREW_QUALITY,
+  MIN_CREW_QUALITY,
+  MORALE_CHECK,
+} from '../../data/shipCrew';
+import { rollD20 } from '../../utils/diceEngine';
+import { withOpacity } from '../../theme/customColors';
+
+interface CrewMoraleGaugeProps {
+  vehicle: Vehicle;
+}
+
+export function CrewMoraleGauge({ vehicle }: CrewMoraleGaugeProps) {
+  const { state, dispatch } = useCombat();
+  const quality = getCrewQuality(vehicle);
+  const band = getCrewMoraleBand(quality);
+  const percent = ((quality - MIN_CREW_QUALITY) / (MAX_CREW_QUALITY - MIN_CREW_QUALITY)) * 100;
+
+  const pending = vehicle.pendingMoraleCheck;
+  const pendingBand = pending ? getCrewMoraleBandById(pending.morale) : undefined;
+  const captain = getShipOfficer(vehicle.id, 'captain', state.crewAssignments, state.creatures);
+  // The captain steadies the crew; with no captain the crew rolls on its own quality
+  const checkModifier = captain
+    ? getOfficerCheckModifier(captain, MORALE_CHECK.ability, MORALE_CHECK.proficiency)
+    : quality;
+
+  const adjust = (delta: number) =>
+    dispatch({ type: 'ADJUST_CREW_QUALITY', payload: { vehicleId: vehicle.id, delta, reason: 'Adjusted by the DM' } });
+
+  const resolveCheck = (passed: boolean, total?: number) =>
+    dispatch({ type: 'RESOLVE_MORALE_CHECK', payload: { vehicleId: vehicle.id, passed, total } });
+
+  const rollCheck = () => {
+    if (!pending) return;
+    const result = rollD20(checkModifier);
+    resolveCheck(result.total >= pending.dc, result.total);
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <Typography variant="caption" color="text.secondary">
+            Crew Morale
+          </Typography>
+          <Tooltip title={band.description} arrow>
+            <Chip
+              label={band.label}
+              size="small"
+              sx={{ height: 18, fontSize: '0.625rem', bgcolor: withOpacity(band.color, 0.2), color: band.color }}
+            />
+          </Tooltip>
+          {vehicle.isMutinous && (
+            <Chip label="MUTINY" size="small" color="error" sx={{ height: 18, fontSize: '0.625rem', fontWeight: 700 }} />
+          )}
+        </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.25 }}>
+          <IconButton size="small" onClick={() => adjust(-1)} disabled={quality <= MIN_CREW_QUALITY} title="Lower crew quality" sx={{ p: 0.25 }}>
+            <RemoveIcon sx={{ fontSize: 14 }} />
+          </IconButton>
+          <Tooltip title="Crew quality: the crew's modifier in hazard group checks" arrow>
+            <Typography variant="body2" fontFamily="monospace" fontWeight={600} sx={{ minWidth: 24, textAlign: 'center' }}>
+              {formatCrewQuality(quality)}
+            </Typography>
+          </Tooltip>
+          <IconButton size="small" onClick={() => adjust(1)} disabled={quality >= MAX_CREW_QUALITY} title="Raise crew quality" sx={{ p: 0.25 }}>
+            <AddIcon sx={{ fontSize: 14 }} />
+          </IconButton>
+        </Box>
+      </Box>
+      <LinearProgress
+        variant="determinate"
+        value={percent}
+        sx={{
+          height: 6,
+          borderRadius: 1,
+          bgcolor: 'action.hover',
+          '& .MuiLinearProgress-bar': { bgcolor: band.color },
+        }}
+      />
+
+      {/* Pending morale check */}
+      {pending && pendingBand && (
+        <Paper sx={{ p: 1, mt: 1, bgcolor: withOpacity(pendingBand.color, 0.1), borderLeft: 2, borderColor: pendingBand.color }}>
+          <Typography variant="caption" fontWeight={600} sx={{ display: 'block' }}>
+            Morale check DC {pending.dc}
+          </Typography>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
+            {captain ? `${captain.name} (Captain) Cha (Persuasion) ${formatCrewQuality(checkModifier)}` : `No captain — crew rolls d20 ${formatCrewQuality(checkModifier)}`}
+            {' · '}{pending.reason}
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 0.5 }}>
+            <Button size="small" variant="contained" onClick={rollCheck} sx={{ fontSize: '0.7rem', py: 0.25 }}>
+              Roll
+            </Button>
+            <Button size="small" variant="outlined" color="success" onClick={() => resolveCheck(true)} sx={{ fontSize: '0.7rem', py: 0.25 }}>
+              Passed
+            </Button>
+            <Button size="small" variant="outlined" color="error" onClick={() => resolveCheck(false)} sx={{ fontSize: '0.7rem', py: 0.25 }}>
+              Failed
+            </Button>
+          </Box>
+        </Paper>
+      )}
+
+      {/* Mutiny */}
+      {vehicle.isMutinous && (
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 1 }}>
+          <Typography variant="caption" color="error.main">
+            The crew has turned on its officers.
+          </Typography>
+          <Button
+            size="small"
+            onClick={() => dispatch({ type: 'SET_MUTINY', payload: { vehicleId: vehicle.id, isMutinous: false } })}
+            sx={{ fontSize: '0.7rem', py: 0.25 }}
+          >
+            End Mutiny
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+}
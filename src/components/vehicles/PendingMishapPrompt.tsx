@@ -0,0 +1,83 @@
+/**
+ * Pending Mishap Prompt
+ * A mishap rolled automatically from damage at or above the mishap threshold,
+ * waiting for the DM to apply it, reroll it or dismiss it. For a Flip the DM also
+ * chooses whether creatures that fail their save are thrown clear of the vehicle.
+ */
+
+import { useState } from 'react';
+import { Box, Button, Checkbox, FormControlLabel, Paper, Typography } from '@mui/material';
+import { useCombat } from '../../context/CombatContext';
+import { Vehicle } from '../../types';
+import { canRepairMishap, getMishapSeverity, getRepairDescription } from '../../data/mishapTable';
+import { RollableText } from '../common/RollableText';
+import { withOpacity } from '../../theme/customColors';
+
+const severityColors: Record<string, string> = {
+  minor: '#22c55e',
+  moderate: '#eab308',
+  severe: '#ff4500',
+  catastrophic: '#dc2626',
+};
+
+interface PendingMishapPromptProps {
+  vehicle: Vehicle;
+}
+
+export function PendingMishapPrompt({ vehicle }: PendingMishapPromptProps) {
+  const { dispatch } = useCombat();
+  const [ejectOnFailedSave, setEjectOnFailedSave] = useState(false);
+  const pending = vehicle.pendingMishap;
+  if (!pending) return null;
+
+  const { roll, mishap } = pending;
+  const color = severityColors[getMishapSeverity(roll)];
+  const flipSave = mishap.mechanicalEffect?.crewSaveOnFlip;
+  const resolve = (apply: boolean) =>
+    dispatch({ type: 'RESOLVE_PENDING_MISHAP', payload: { vehicleId: vehicle.id, apply, ejectOnFailedSave } });
+
+  return (
+    <Paper sx={{ p: 1.5, mb: 2, bgcolor: withOpacity(color, 0.1), border: 1, borderColor: color }}>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+        Mishap! {pending.reason}
+      </Typography>
+      <Typography fontWeight={600} sx={{ color }}>
+        Roll {roll}: {mishap.name}
+      </Typography>
+      <Typography variant="caption" sx={{ display: 'block', mt: 0.5 }}>
+        <RollableText text={mishap.effect} />
+      </Typography>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+        Duration: {mishap.duration === 'instant' ? 'Instant' :
+          mishap.duration === 'until_repaired' ? 'Until Repaired' :
+          `${mishap.roundsRemaining} rounds`}
+        {canRepairMishap(mishap) && ` · Repair: ${getRepairDescription(mishap)}`}
+      </Typography>
+      {flipSave && (
+        <FormControlLabel
+          control={
+            <Checkbox size="small" checked={ejectOnFailedSave} onChange={(e) => setEjectOnFailedSave(e.target.checked)} sx={{ p: 0.5 }} />
+          }
+          label={<Typography variant="caption">Throw clear creatures who fail the DC {flipSave.dc} save</Typography>}
+          sx={{ mt: 0.5, ml: 0 }}
+        />
+      )}
+      <Box sx={{ display: 'flex', gap: 0.5, mt: 1 }}>
+        <Button size="small" variant="contained" color="warning" onClick={() => resolve(true)} sx={{ fontSize: '0.7rem', py: 0.25 }}>
+          Apply
+        </Button>
+        <Button
+          size="small"
+          variant="outlined"
+          onClick={() => dispatch({ type: 'REROLL_PENDING_MISHAP', payload: { vehicleId: vehicle.id } })}
+          sx={{ fontSize: '0.7rem', py: 0.25 }}
+        >
+          Reroll
+        </Button>
+        <Button size="small" onClick={() => resolve(false)} sx={{ fontSize: '0.7rem', py: 0.25 }}>
+          Dismiss
+        </Button>
+      </Box>
+    </Paper>
+  );
+}
@@ -38,14 +38,21 @@ import BuildIcon from '@mui/icons-material/Build';
 import RemoveIcon from '@mui/icons-material/Remove';
 import AddIcon from '@mui/icons-material/Add';
 import { Vehicle, VehicleZone, CrewAssignment, Mishap, VehicleWeapon, Creature, Statblock } from '../../types';
-import { getComponentHp, destroyedEffectLabel, hasComponents } from '../../utils/vehicleComponents';
+import { getComponentHp, destroyedEffectLabel, hasComponents, getComponentCrewShortfall, crewShortfallEffectLabel, getEffectiveVehicleSpeed } from '../../utils/vehicleComponents';
 import { RollableText } from '../common/RollableText';
 import { useCombat } from '../../context/CombatContext';
-import { getMishapResult, getMishapSeverity, canRepairMishap, getRepairDescription, checkMishapFromDamage, rollMishapForVehicle } from '../../data/mishapTable';
+import { getMishapResult, getMishapSeverity, canRepairMishap, getRepairDescription, rollMishapForVehicle, getEffectiveDamageThreshold, getVehicleMishapState } from '../../data/mishapTable';
 import { v4 as uuid } from 'uuid';
 import { SWAPPABLE_WEAPONS, ARMOR_UPGRADES, MAGICAL_GADGETS, getWeaponStationUpgrade, WEAPON_STATION_EXCLUDED_VEHICLES, resolveZone, isAvernusVehicle } from '../../data/vehicleTemplates';
-import { NAVAL_UPGRADES, NAVAL_UPGRADE_CATEGORIES, isNavalVehicle } from '../../data/navalUpgrades';
+import { NAVAL_UPGRADES, NAVAL_UPGRADE_CATEGORIES, isNavalVehicle, formatRechargeTime, getNavalUpgradeDamageType } from '../../data/navalUpgrades';
 import { factionColors, coverColors, withOpacity } from '../../theme/customColors';
+import { OFFICER_ROLES, getOfficerRoleName, getCrewPoolCount, getCrewPoolHp, getCrewPoolMaxHp } from '../../data/shipCrew';
+import { CrewMoraleGauge } from './CrewMoraleGauge';
+import { PendingMishapPrompt } from './PendingMishapPrompt';
+import { DAMAGE_INPUT_HINT, applyDamageDefenses, getVehicleDefenses, parseDamageInput } from '../../utils/damageCalculator';
+import { getAmmunitionCapacity, getSiegeStage, getStartingAmmunition } from '../../utils/weaponAmmo';
+import { hasSpentReaction } from '../../utils/actionEconomy';
+import { GADGET_USES_PER_REST, getGadgetUses, isGadgetAvailable } from '../../utils/recharge';
 
 interface VehicleCardProps {
   vehicle: Vehicle;
@@ -79,43 +86,6 @@ function getEffectiveAC(vehicle: Vehicle): { ac: number; isModified: boolean; to
   return { ac: baseAC, isModified: false, tooltip: 'Base AC' };
 }
 
-// Helper to get all defenses (immunities + resistances) from armor
-function getArmorDefenses(vehicle: Vehicle): { immunities: string[]; resistances: string[] } {
-  const armor = ARMOR_UPGRADES.find((a) => a.id === vehicle.armorUpgradeId);
-  const baseImmunities = vehicle.template.immunities || [];
-
-  if (!armor || armor.id === 'none') {
-    return { immunities: baseImmunities, resistances: [] };
-  }
-
-  const immunities = [...baseImmunities, ...(armor.additionalImmunities || [])];
-  const resistances = armor.resistances || [];
-
-  return { immunities, resistances };
-}
-
-// Calculate effective speed accounting for mishap effects
-function getEffectiveSpeed(vehicle: Vehicle): number {
-  let speed = vehicle.currentSpeed;
-  for (const mishap of vehicle.activeMishaps) {
-    if (mishap.mechanicalEffect?.speedReduction) {
-      speed -= mishap.mechanicalEffect.speedReduction;
-    }
-  }
-  return Math.max(0, speed);
-}
-
-// Calculate effective damage threshold accounting for mishap effects (e.g., Shedding Armor)
-function getEffectiveDamageThreshold(vehicle: Vehicle): number {
-  let threshold = vehicle.template.damageThreshold;
-  for (const mishap of vehicle.activeMishaps) {
-    if (mishap.mechanicalEffect?.damageThresholdReduction) {
-      threshold -= mishap.mechanicalEffect.damageThresholdReduction;
-    }
-  }
-  return Math.max(0, threshold);
-}
-
 export function VehicleCard({ vehicle }: VehicleCardProps) {
   const { state, applyMishap, dispatch, removeVehicle, swapVehicleWeapon, setVehicleArmor, toggleVehicleGadget, toggleNavalUpgrade, toggleWeaponStationUpgrade } = useCombat();
   const [damageAmount, setDamageAmount] = useState('');
@@ -128,7 +98,7 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
 
   // Calculate effective AC and defenses based on armor
   const effectiveAC = getEffectiveAC(vehicle);
-  const defenses = getArmorDefenses(vehicle);
+  const defenses = getVehicleDefenses(vehicle);
 
   const crewAssignments = state.crewAssignments.filter(
     (a) => a.vehicleId === vehicle.id
@@ -147,8 +117,12 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
         : null)
     : null;
 
+  // Vehicle reactions (Juke) are taken with the driver's reaction, on anyone's turn
+  const driverReaction = driver ? state.turnActions[driver.id]?.reaction : undefined;
+  const canReact = state.phase === 'combat' && !!driver && driver.currentHp > 0 && !hasSpentReaction(state.turnActions[driver.id]);
+
   // Calculate effective speed and damage threshold
-  const effectiveSpeed = getEffectiveSpeed(vehicle);
+  const effectiveSpeed = getEffectiveVehicleSpeed(vehicle, state.crewAssignments, state.environment.wind);
   const hasSpeedReduction = effectiveSpeed < vehicle.currentSpeed;
   const effectiveDamageThreshold = getEffectiveDamageThreshold(vehicle);
   const hasThresholdReduction = effectiveDamageThreshold < vehicle.template.damageThreshold;
@@ -176,62 +150,25 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
   };
 
   const handleDealDamage = () => {
-    const damage = parseInt(damageAmount, 10);
-    if (isNaN(damage) || damage <= 0) return;
-
-    if (damage < effectiveDamageThreshold) {
-      setDamageError(`Damage (${damage}) is below the damage threshold (${effectiveDamageThreshold}). No damage dealt.`);
-      dispatch({ type: 'LOG_ACTION', payload: { type: 'system', action: `${vehicle.name} ignores ${damage} damage`, details: `Below damage threshold of ${effectiveDamageThreshold}` } });
-      setDamageAmount('');
+    const parts = parseDamageInput(damageAmount);
+    if (!parts) {
+      setDamageError(`Couldn't read "${damageAmount}" — ${DAMAGE_INPUT_HINT.toLowerCase()}.`);
       return;
     }
-
-    setDamageError(null);
-    const newHp = Math.max(0, vehicle.currentHp - damage);
-    dispatch({ type: 'UPDATE_VEHICLE', payload: { id: vehicle.id, updates: { currentHp: newHp } } });
-    dispatch({ type: 'LOG_ACTION', payload: { type: 'damage', action: `${vehicle.name} takes ${damage} damage`, details: `HP: ${vehicle.currentHp} → ${newHp}` } });
-
-    // Mishaps are an Avernus war-machine mechanic; component vehicles (ships) model
-    // harm through their components instead and never roll mishaps.
-    if (!hasComponents(vehicle) && checkMishapFromDamage(damage, vehicle.template.mishapThreshold)) {
-      // Roll for mishap, rerolling if the result is already active or would have no effect
-      const vehicleMishapState = {
-        currentSpeed: vehicle.currentSpeed,
-        damageThreshold: vehicle.template.damageThreshold,
-        weaponCount: vehicle.weapons.length,
-        activeMishaps: vehicle.activeMishaps,
-      };
-      const mishapRoll = rollMishapForVehicle(vehicleMishapState);
-
-      if (mishapRoll === null) {
-        dispatch({ type: 'LOG_ACTION', payload: { type: 'mishap', action: `Mishap triggered but no valid mishaps available for ${vehicle.name}`, details: 'All mishaps active or at maximum effect' } });
-      } else {
-        const { roll, mishap, rerollCount } = mishapRoll;
-        const mishapInstance: Mishap = { ...mishap, id: uuid(), roundsRemaining: mishap.roundsRemaining };
-
-        setLastMishapResult({ roll, mishap: mishapInstance });
-        setShowMishapResult(true);
-
-        if (mishap.duration !== 'instant') {
-          applyMishap(vehicle.id, mishapInstance);
-        }
-
-        const rerollNote = rerollCount > 0 ? ` (rerolled ${rerollCount}x to find valid mishap)` : '';
-        dispatch({ type: 'LOG_ACTION', payload: { type: 'mishap', action: `Mishap! ${damage} damage >= ${vehicle.template.mishapThreshold} threshold`, details: `Rolled ${roll}: ${mishap.name}${rerollNote}` } });
-      }
-    }
-
+    // The reducer enforces the threshold and rolls any mishap (held for confirmation below);
+    // this only explains why nothing happened
+    const damage = applyDamageDefenses(parts, getVehicleDefenses(vehicle)).total;
+    setDamageError(
+      damage < effectiveDamageThreshold
+        ? `Damage (${damage}) is below the damage threshold (${effectiveDamageThreshold}). No damage dealt.`
+        : null
+    );
+    dispatch({ type: 'DEAL_DAMAGE_TO_VEHICLE', payload: { vehicleId: vehicle.id, parts } });
     setDamageAmount('');
   };
 
   const handleManualMishapRoll = () => {
-    const vehicleMishapState = {
-      currentSpeed: vehicle.currentSpeed,
-      damageThreshold: vehicle.template.damageThreshold,
-      weaponCount: vehicle.weapons.length,
-      activeMishaps: vehicle.activeMishaps,
-    };
-    const mishapRoll = rollMishapForVehicle(vehicleMishapState);
+    const mishapRoll = rollMishapForVehicle(getVehicleMishapState(vehicle));
 
     if (mishapRoll === null) {
       dispatch({ type: 'LOG_ACTION', payload: { type: 'mishap', action: `Manual mishap roll on ${vehicle.name} - no valid mishaps available`, details: 'All mishaps active or at maximum effect' } });
@@ -451,8 +388,8 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
           </Tooltip>
         </Stack>
 
-        {/* Defenses (Immunities & Resistances) */}
-        {(defenses.immunities.length > 0 || defenses.resistances.length > 0) && (
+        {/* Defenses (Immunities, Resistances & Vulnerabilities) */}
+        {(defenses.immunities.length > 0 || defenses.resistances.length > 0 || defenses.vulnerabilities.length > 0) && (
           <Box sx={{ mb: 2 }}>
             {defenses.immunities.length > 0 && (
               <Box sx={{ mb: defenses.resistances.length > 0 ? 1 : 0 }}>
@@ -480,7 +417,7 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
               </Box>
             )}
             {defenses.resistances.length > 0 && (
-              <Box>
+              <Box sx={{ mb: defenses.vulnerabilities.length > 0 ? 1 : 0 }}>
                 <Typography variant="caption" color="text.secondary" sx={{ mr: 1 }}>
                   Resist:
                 </Typography>
@@ -501,6 +438,28 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
                 ))}
               </Box>
             )}
+            {defenses.vulnerabilities.length > 0 && (
+              <Box>
+                <Typography variant="caption" color="text.secondary" sx={{ mr: 1 }}>
+                  Vulnerable:
+                </Typography>
+                {defenses.vulnerabilities.map((vulnerability) => (
+                  <Chip
+                    key={vulnerability}
+                    label={vulnerability}
+                    size="small"
+                    sx={{
+                      height: 20,
+                      fontSize: '0.625rem',
+                      mr: 0.5,
+                      mb: 0.5,
+                      bgcolor: withOpacity('#ef4444', 0.2),
+                      color: '#ef4444',
+                    }}
+                  />
+                ))}
+              </Box>
+            )}
           </Box>
         )}
 
@@ -552,6 +511,11 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
           </Stack>
         </Box>
 
+        {/* Ship's Officers (naval vehicles) */}
+        {isNavalVehicle(vehicle.template) && (
+          <ShipOfficersSection vehicle={vehicle} assignments={crewAssignments} />
+        )}
+
         {/* Crew HP Management */}
         {crewAssignments.length > 0 && (
           <CrewHPSection vehicleId={vehicle.id} assignments={crewAssignments} />
@@ -560,9 +524,31 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
         {/* Weapons */}
         {vehicle.weapons.length > 0 && (
           <Box sx={{ mb: 2 }}>
-            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
-              Weapons
-            </Typography>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+              <Typography variant="caption" color="text.secondary">
+                Weapons
+              </Typography>
+              {vehicle.weapons.some((w) => getAmmunitionCapacity(w) !== undefined) && (
+                <Tooltip title="Spare rounds in the cargo; crew restock a weapon with their action">
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Typography variant="caption" color="text.secondary">Spare ammo</Typography>
+                    <TextField
+                      type="number"
+                      size="small"
+                      value={vehicle.ammunitionStores ?? 0}
+                      onChange={(e) =>
+                        dispatch({
+                          type: 'UPDATE_VEHICLE',
+                          payload: { id: vehicle.id, updates: { ammunitionStores: Math.max(0, parseInt(e.target.value, 10) || 0) } },
+                        })
+                      }
+                      sx={{ width: 64 }}
+                      inputProps={{ min: 0, style: { textAlign: 'center', padding: '2px' } }}
+                    />
+                  </Box>
+                </Tooltip>
+              )}
+            </Box>
             <Stack spacing={0.5}>
               {vehicle.weapons.map((weapon) => (
                 <Paper key={weapon.id} sx={{ p: 1, bgcolor: '#242424' }}>
@@ -572,7 +558,7 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
                       <RollableText text={weapon.damage} source={`${vehicle.name} · ${weapon.name}`} />
                     </Typography>
                   </Box>
-                  {(weapon.attackBonus || weapon.range || weapon.crewRequired) && (
+                  {(weapon.attackBonus || weapon.range || weapon.crewRequired || weapon.currentAmmunition !== undefined) && (
                     <Stack direction="row" spacing={1.5} sx={{ mt: 0.25, flexWrap: 'wrap' }} useFlexGap>
                       {weapon.attackBonus ? (
                         <Typography variant="caption" color="text.secondary">
@@ -585,6 +571,16 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
                       {weapon.crewRequired ? (
                         <Typography variant="caption" color="text.secondary">{weapon.crewRequired} crew</Typography>
                       ) : null}
+                      {weapon.currentAmmunition !== undefined && (
+                        <Typography variant="caption" color={weapon.currentAmmunition > 0 ? 'text.secondary' : 'error'}>
+                          {weapon.currentAmmunition > 0
+                            ? `Ammo ${weapon.currentAmmunition}/${getAmmunitionCapacity(weapon) ?? weapon.currentAmmunition}`
+                            : 'Out of ammo'}
+                        </Typography>
+                      )}
+                      {getSiegeStage(weapon)?.step === 'fire' && (
+                        <Typography variant="caption" color="success.main">Loaded &amp; aimed</Typography>
+                      )}
                     </Stack>
                   )}
                   {weapon.specialEffect && (
@@ -617,6 +613,39 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
           </Box>
         )}
 
+        {/* Reactions */}
+        {vehicle.template.reactions && vehicle.template.reactions.length > 0 && (
+          <Box sx={{ mb: 2 }}>
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+              Reactions
+              {driverReaction && ` · ${driver?.name} has used their reaction (${driverReaction})`}
+            </Typography>
+            <Stack spacing={0.5}>
+              {vehicle.template.reactions.map((reaction) => (
+                <Paper key={reaction.name} sx={{ p: 1, bgcolor: '#242424', opacity: canReact || state.phase !== 'combat' ? 1 : 0.6 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+                    <Typography variant="body2" sx={{ flex: 1 }}>
+                      <Box component="span" fontWeight={600}>{reaction.name}.</Box>{' '}
+                      <Box component="span" sx={{ color: 'text.secondary' }}><RollableText text={reaction.description} /></Box>
+                    </Typography>
+                    {state.phase === 'combat' && (
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        disabled={!canReact}
+                        onClick={() => driver && dispatch({ type: 'USE_REACTION', payload: { creatureId: driver.id, reaction: reaction.name, vehicleId: vehicle.id } })}
+                        sx={{ fontSize: '0.7rem', py: 0.25 }}
+                      >
+                        Use
+                      </Button>
+                    )}
+                  </Box>
+                </Paper>
+              ))}
+            </Stack>
+          </Box>
+        )}
+
         {/* Vehicle Customization — Avernus war machines only (armor / gadgets / weapon stations) */}
         {isAvernusVehicle(vehicle.template) && (
         <Accordion
@@ -679,9 +708,7 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
                                 zoneId: weapon.zoneId,
                                 visibleFromArcs: weapon.visibleFromArcs,
                                 isSwappableStation: true,
-                                currentAmmunition: newTemplate.properties?.some((p) => p.toLowerCase().includes('ammunition'))
-                                  ? 10
-                                  : undefined,
+                                ...getStartingAmmunition(newTemplate),
                               };
                               swapVehicleWeapon(vehicle.id, index, newWeapon);
                             }
@@ -835,6 +862,41 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
                           <RollableText text={gadget.effect} />
                         </Typography>
                       )}
+                      {isInstalled && (
+                        <Box
+                          sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 0.5 }}
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <Chip
+                            label={
+                              isGadgetAvailable(vehicle, gadget.id)
+                                ? `Ready · ${GADGET_USES_PER_REST - getGadgetUses(vehicle, gadget.id)}/${GADGET_USES_PER_REST}`
+                                : `Used · recharges in ${gadget.recharge}`
+                            }
+                            size="small"
+                            color={isGadgetAvailable(vehicle, gadget.id) ? 'success' : 'default'}
+                            sx={{ height: 18, fontSize: '0.625rem' }}
+                          />
+                          {isGadgetAvailable(vehicle, gadget.id) ? (
+                            <Button
+                              size="small"
+                              variant="outlined"
+                              onClick={() => dispatch({ type: 'USE_GADGET', payload: { vehicleId: vehicle.id, gadgetId: gadget.id } })}
+                              sx={{ fontSize: '0.7rem', py: 0.25 }}
+                            >
+                              Use
+                            </Button>
+                          ) : (
+                            <Button
+                              size="small"
+                              onClick={() => dispatch({ type: 'RECHARGE_GADGET', payload: { vehicleId: vehicle.id, gadgetId: gadget.id } })}
+                              sx={{ fontSize: '0.7rem', py: 0.25 }}
+                            >
+                              Recharge
+                            </Button>
+                          )}
+                        </Box>
+                      )}
                     </Paper>
                   );
                 })}
@@ -876,6 +938,8 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
                     <Stack spacing={0.5}>
                       {upgrades.map((u) => {
                         const isInstalled = vehicle.navalUpgradeIds?.includes(u.id);
+                        const readyAt = vehicle.navalUpgradeRechargeAt?.[u.id];
+                        const isRecharging = readyAt !== undefined && readyAt > state.elapsedTime;
                         return (
                           <Paper
                             key={u.id}
@@ -908,6 +972,62 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
                                 <RollableText text={u.effect} />
                               </Typography>
                             )}
+                            {isInstalled && u.mechanics?.resistanceChoices && (
+                              <Box
+                                sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 0.5, mt: 0.5 }}
+                                onClick={(e) => e.stopPropagation()}
+                              >
+                                <Typography variant="caption" color="text.secondary">
+                                  Resists:
+                                </Typography>
+                                {u.mechanics.resistanceChoices.map((type) => (
+                                  <Chip
+                                    key={type}
+                                    label={type}
+                                    size="small"
+                                    color={getNavalUpgradeDamageType(vehicle, u) === type ? 'primary' : 'default'}
+                                    onClick={() =>
+                                      dispatch({
+                                        type: 'UPDATE_VEHICLE',
+                                        payload: { id: vehicle.id, updates: { navalUpgradeChoices: { ...vehicle.navalUpgradeChoices, [u.id]: type } } },
+                                      })
+                                    }
+                                    sx={{ height: 18, fontSize: '0.625rem' }}
+                                  />
+                                ))}
+                              </Box>
+                            )}
+                            {isInstalled && u.recharge && (
+                              <Box
+                                sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 0.5 }}
+                                onClick={(e) => e.stopPropagation()}
+                              >
+                                <Chip
+                                  label={isRecharging ? `Recharging · ${formatRechargeTime(readyAt - state.elapsedTime)}` : 'Ready'}
+                                  size="small"
+                                  color={isRecharging ? 'default' : 'success'}
+                                  sx={{ height: 18, fontSize: '0.625rem' }}
+                                />
+                                {isRecharging ? (
+                                  <Button
+                                    size="small"
+                                    onClick={() => dispatch({ type: 'RECHARGE_NAVAL_UPGRADE', payload: { vehicleId: vehicle.id, upgradeId: u.id } })}
+                                    sx={{ fontSize: '0.7rem', py: 0.25 }}
+                                  >
+                                    Recharge
+                                  </Button>
+                                ) : (
+                                  <Button
+                                    size="small"
+                                    variant="outlined"
+                                    onClick={() => dispatch({ type: 'USE_NAVAL_UPGRADE', payload: { vehicleId: vehicle.id, upgradeId: u.id } })}
+                                    sx={{ fontSize: '0.7rem', py: 0.25 }}
+                                  >
+                                    Use
+                                  </Button>
+                                )}
+                              </Box>
+                            )}
                           </Paper>
                         );
                       })}
@@ -980,16 +1100,15 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
           </Typography>
           <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
             <TextField
-              type="number"
               size="small"
               value={damageAmount}
               onChange={(e) => { setDamageAmount(e.target.value); setDamageError(null); }}
-              placeholder="Damage"
+              placeholder="Damage, e.g. 18 fire"
+              title={DAMAGE_INPUT_HINT}
               fullWidth
-              inputProps={{ min: 1 }}
               onKeyDown={(e) => e.key === 'Enter' && handleDealDamage()}
             />
-            <Button variant="contained" color="error" onClick={handleDealDamage} disabled={!damageAmount || parseInt(damageAmount, 10) <= 0}>
+            <Button variant="contained" color="error" onClick={handleDealDamage} disabled={!damageAmount.trim()}>
               Deal
             </Button>
           </Stack>
@@ -1010,6 +1129,9 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
           </Stack>
         </Paper>
 
+        {/* Mishap rolled from damage, awaiting confirmation */}
+        <PendingMishapPrompt vehicle={vehicle} />
+
         {/* Mishap Result Display */}
         {showMishapResult && lastMishapResult && (
           <Paper
@@ -1053,6 +1175,66 @@ export function VehicleCard({ vehicle }: VehicleCardProps) {
   );
 }
 
+// Ship's Officers Section Component (with the crew morale gauge)
+interface ShipOfficersSectionProps {
+  vehicle: Vehicle;
+  assignments: CrewAssignment[];
+}
+
+function ShipOfficersSection({ vehicle, assignments }: ShipOfficersSectionProps) {
+  const { state, setOfficerRole } = useCombat();
+
+  const aboard = assignments
+    .map((a) => ({ assignment: a, creature: state.creatures.find((c) => c.id === a.creatureId) }))
+    .filter((c) => c.creature);
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Box sx={{ mb: 1.5 }}>
+        <CrewMoraleGauge vehicle={vehicle} />
+      </Box>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+        Officers
+      </Typography>
+      <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 1 }}>
+        {OFFICER_ROLES.map((role) => {
+          const holder = aboard.find((c) => c.assignment.officerRole === role.id);
+          return (
+            <FormControl key={role.id} size="small" fullWidth>
+              <InputLabel>{role.name}</InputLabel>
+              <Select
+                label={role.name}
+                value={holder?.creature?.id ?? ''}
+                onChange={(e) => setOfficerRole(vehicle.id, role.id, e.target.value || null)}
+                sx={{ bgcolor: '#242424', fontSize: '0.8rem' }}
+              >
+                <MenuItem value="">
+                  <em>Vacant</em>
+                </MenuItem>
+                {aboard.map(({ creature, assignment }) => (
+                  <MenuItem key={creature!.id} value={creature!.id}>
+                    {creature!.name}
+                    {assignment.officerRole && assignment.officerRole !== role.id && (
+                      <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 0.5 }}>
+                        ({getOfficerRoleName(assignment.officerRole)})
+                      </Typography>
+                    )}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          );
+        })}
+      </Box>
+      {aboard.length === 0 && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5, fontStyle: 'italic' }}>
+          Assign crew to stations to appoint officers.
+        </Typography>
+      )}
+    </Box>
+  );
+}
+
 // Crew HP Section Component
 interface CrewHPSectionProps {
   vehicleId: string;
@@ -1071,10 +1253,10 @@ function CrewHPSection({ vehicleId, assignments }: CrewHPSectionProps) {
     });
   };
 
-  const handleDealDamage = (creatureId: string, maxHp: number, currentHp: number) => {
-    const damage = parseInt(damageInputs[creatureId] || '', 10);
-    if (isNaN(damage) || damage <= 0) return;
-    handleCreatureHpChange(creatureId, currentHp - damage, maxHp);
+  const handleDealDamage = (creatureId: string) => {
+    const parts = parseDamageInput(damageInputs[creatureId] || '');
+    if (!parts) return;
+    dispatch({ type: 'DEAL_DAMAGE_TO_CREATURE', payload: { creatureId, parts } });
     setDamageInputs((prev) => ({ ...prev, [creatureId]: '' }));
   };
 
@@ -1155,22 +1337,22 @@ function CrewHPSection({ vehicleId, assignments }: CrewHPSectionProps) {
               {/* Damage/Heal controls */}
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
                 <TextField
-                  type="number"
                   size="small"
                   value={damageInput}
                   onChange={(e) => setDamageInputs((prev) => ({ ...prev, [creature.id]: e.target.value }))}
                   placeholder="±HP"
+                  title={DAMAGE_INPUT_HINT}
                   sx={{ width: 60 }}
-                  inputProps={{ min: 1, style: { textAlign: 'center', padding: '4px', fontSize: '0.75rem' } }}
+                  inputProps={{ style: { textAlign: 'center', padding: '4px', fontSize: '0.75rem' } }}
                   onKeyDown={(e) => {
-                    if (e.key === 'Enter') handleDealDamage(creature.id, creature.statblock.maxHp, creature.currentHp);
+                    if (e.key === 'Enter') handleDealDamage(creature.id);
                   }}
                 />
                 <IconButton
                   size="small"
                   color="error"
-                  onClick={() => handleDealDamage(creature.id, creature.statblock.maxHp, creature.currentHp)}
-                  disabled={!damageInput || parseInt(damageInput, 10) <= 0}
+                  onClick={() => handleDealDamage(creature.id)}
+                  disabled={!damageInput.trim()}
                   title="Deal damage"
                   sx={{ p: 0.5 }}
                 >
@@ -1195,6 +1377,79 @@ function CrewHPSection({ vehicleId, assignments }: CrewHPSectionProps) {
   );
 }
 
+interface CrewPoolControlProps {
+  vehicle: Vehicle;
+  zone: VehicleZone;
+}
+
+// Unnamed deck crew / rowers: a headcount with an HP pool that area damage thins out
+function CrewPoolControl({ vehicle, zone }: CrewPoolControlProps) {
+  const { dispatch } = useCombat();
+  const [amount, setAmount] = useState('');
+  const [targets, setTargets] = useState('1');
+  const count = getCrewPoolCount(vehicle, zone);
+  const pct = (getCrewPoolHp(vehicle, zone) / getCrewPoolMaxHp(zone)) * 100;
+
+  const setCount = (next: number) =>
+    dispatch({ type: 'SET_CREW_POOL_COUNT', payload: { vehicleId: vehicle.id, zoneId: zone.id, count: next } });
+
+  const applyDamage = () => {
+    const n = parseInt(amount, 10);
+    const caught = parseInt(targets, 10);
+    if (!Number.isFinite(n) || n <= 0 || !Number.isFinite(caught) || caught <= 0) return;
+    dispatch({ type: 'DAMAGE_CREW_POOL', payload: { vehicleId: vehicle.id, zoneId: zone.id, amount: n, targets: caught } });
+    setAmount('');
+  };
+
+  return (
+    <Box sx={{ mb: 1 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 0.5 }}>
+        <Typography variant="caption" color="text.secondary">
+          Unnamed crew
+        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.25 }}>
+          <IconButton size="small" onClick={() => setCount(count - 1)} disabled={count <= 0} title="Remove a crew member" sx={{ p: 0.25 }}>
+            <RemoveIcon sx={{ fontSize: 14 }} />
+          </IconButton>
+          <Typography variant="body2" fontFamily="monospace" fontWeight={600} sx={{ minWidth: 40, textAlign: 'center' }}>
+            {count}/{zone.capacity}
+          </Typography>
+          <IconButton size="small" onClick={() => setCount(count + 1)} disabled={count >= zone.capacity} title="Add a crew member" sx={{ p: 0.25 }}>
+            <AddIcon sx={{ fontSize: 14 }} />
+          </IconButton>
+        </Box>
+      </Box>
+      <LinearProgress
+        variant="determinate"
+        value={Math.max(0, Math.min(100, pct))}
+        sx={{ height: 5, borderRadius: 1, mb: 0.75, bgcolor: '#111', '& .MuiLinearProgress-bar': { bgcolor: pct > 50 ? '#10b981' : pct > 25 ? '#f59e0b' : '#ef4444' } }}
+      />
+      <Box sx={{ display: 'flex', gap: 0.5, alignItems: 'center' }}>
+        <TextField
+          type="number"
+          size="small"
+          placeholder="Dmg"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && applyDamage()}
+          sx={{ width: 76 }}
+        />
+        <TextField
+          type="number"
+          size="small"
+          value={targets}
+          onChange={(e) => setTargets(e.target.value)}
+          title="Crew caught in the area — each takes the damage"
+          sx={{ width: 60 }}
+        />
+        <Button size="small" color="error" variant="outlined" onClick={applyDamage} disabled={!amount || parseInt(amount, 10) <= 0 || count === 0}>
+          Hit Crew
+        </Button>
+      </Box>
+    </Box>
+  );
+}
+
 interface CrewZoneProps {
   zone: VehicleZone;
   vehicleId: string;
@@ -1433,6 +1688,7 @@ function CrewZone({ zone, vehicleId, assignments }: CrewZoneProps) {
           }}
         />
       </Box>
+      {zone.crewPool && vehicle && <CrewPoolControl vehicle={vehicle} zone={zone} />}
       <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
         {visibleAssignments.map((assignment) => {
           const creature = state.creatures.find((c) => c.id === assignment.creatureId);
@@ -1629,7 +1885,7 @@ interface ComponentDamageSectionProps {
 }
 
 function ComponentDamageSection({ vehicle }: ComponentDamageSectionProps) {
-  const { damageVehicleComponent, setVehicleComponentHp } = useCombat();
+  const { state, damageVehicleComponent, setVehicleComponentHp } = useCombat();
   const [amounts, setAmounts] = useState<Record<string, string>>({});
   const components = vehicle.template.components ?? [];
   if (components.length === 0) return null;
@@ -1644,12 +1900,13 @@ function ComponentDamageSection({ vehicle }: ComponentDamageSectionProps) {
           const cur = getComponentHp(vehicle, comp);
           const pct = comp.maxHp > 0 ? (cur / comp.maxHp) * 100 : 0;
           const destroyed = cur <= 0;
+          const shortfall = getComponentCrewShortfall(vehicle, comp, state.crewAssignments);
           const barColor = pct > 50 ? '#10b981' : pct > 25 ? '#f59e0b' : '#ef4444';
           const amt = amounts[comp.id] ?? '';
           const applyDamage = () => {
-            const n = parseInt(amt, 10);
-            if (!Number.isFinite(n) || n <= 0) return;
-            damageVehicleComponent(vehicle.id, comp.id, n);
+            const parts = parseDamageInput(amt);
+            if (!parts) return;
+            damageVehicleComponent(vehicle.id, comp.id, parts);
             setAmounts((s) => ({ ...s, [comp.id]: '' }));
           };
           return (
@@ -1663,6 +1920,11 @@ function ComponentDamageSection({ vehicle }: ComponentDamageSectionProps) {
                   {destroyed && (
                     <Chip label={destroyedEffectLabel(comp)} size="small" color="error" sx={{ height: 16, fontSize: '0.55rem' }} />
                   )}
+                  {!destroyed && shortfall > 0 && (
+                    <Tooltip title={crewShortfallEffectLabel(comp)} arrow>
+                      <Chip label={`Short ${shortfall} crew`} size="small" color="warning" sx={{ height: 16, fontSize: '0.55rem' }} />
+                    </Tooltip>
+                  )}
                 </Box>
                 <Typography variant="caption" color="text.secondary" sx={{ fontVariantNumeric: 'tabular-nums', whiteSpace: 'nowrap' }}>
                   {cur}/{comp.maxHp}{comp.damageThreshold ? ` · DT ${comp.damageThreshold}` : ''}
@@ -1675,15 +1937,15 @@ function ComponentDamageSection({ vehicle }: ComponentDamageSectionProps) {
               />
               <Box sx={{ display: 'flex', gap: 0.5, alignItems: 'center' }}>
                 <TextField
-                  type="number"
                   size="small"
                   placeholder="Dmg"
+                  title={DAMAGE_INPUT_HINT}
                   value={amt}
                   onChange={(e) => setAmounts((s) => ({ ...s, [comp.id]: e.target.value }))}
                   onKeyDown={(e) => e.key === 'Enter' && applyDamage()}
                   sx={{ width: 76 }}
                 />
-                <Button size="small" color="error" variant="outlined" onClick={applyDamage} disabled={!amt || parseInt(amt, 10) <= 0}>
+                <Button size="small" color="error" variant="outlined" onClick={applyDamage} disabled={!amt.trim()}>
                   Damage
                 </Button>
                 {cur < comp.maxHp && (
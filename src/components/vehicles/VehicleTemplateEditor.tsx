@@ -218,7 +218,7 @@ export function VehicleTemplateEditor({ open, initial, onClose, onSave }: Vehicl
             title="Weapons"
             addLabel="Add weapon"
             onAdd={addWeapon}
-            hint="Damage as dice text, e.g. “3d10 piercing”."
+            hint="Damage as dice text, e.g. “3d10 piercing”. Load/Aim: actions a siege weapon needs before each shot."
           >
             {t.weapons.map((w, i) => (
               <Stack key={w.id} direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
@@ -227,6 +227,8 @@ export function VehicleTemplateEditor({ open, initial, onClose, onSave }: Vehicl
                 <TextField type="number" label="Atk Bonus" value={w.attackBonus ?? ''} onChange={(e) => updateWeapon(i, { attackBonus: optNum(e.target.value) })} sx={{ width: 110 }} size="small" />
                 <TextField label="Range" value={w.range ?? ''} onChange={(e) => updateWeapon(i, { range: e.target.value || undefined })} sx={{ width: 130 }} size="small" />
                 <TextField type="number" label="Crew" value={w.crewRequired ?? ''} onChange={(e) => updateWeapon(i, { crewRequired: optNum(e.target.value) })} sx={{ width: 80 }} size="small" />
+                <TextField type="number" label="Load" value={w.loadActions ?? ''} onChange={(e) => updateWeapon(i, { loadActions: optNum(e.target.value) })} sx={{ width: 80 }} size="small" title="Actions to load before each shot (siege weapons)" />
+                <TextField type="number" label="Aim" value={w.aimActions ?? ''} onChange={(e) => updateWeapon(i, { aimActions: optNum(e.target.value) })} sx={{ width: 80 }} size="small" title="Actions to aim once loaded (siege weapons)" />
                 <IconButton onClick={() => removeWeapon(i)} size="small" aria-label="remove weapon"><DeleteIcon fontSize="small" /></IconButton>
               </Stack>
             ))}
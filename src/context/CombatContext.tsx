@@ -2,17 +2,22 @@
  * Combat Context
  *
  * Central state management for vehicular combat encounters.
- * Uses useReducer for predictable state updates.
+ * Uses useReducer for predictable state updates, with an undo/redo history around the reducer.
  */
 
-import React, { createContext, useContext, useReducer, useCallback, ReactNode, useEffect, useState, useRef } from 'react';
+import React, { createContext, useContext, useReducer, useCallback, ReactNode, useEffect, useState, useRef, useMemo } from 'react';
 import {
   CombatState,
   Vehicle,
   VehicleWeapon,
+  VehicleZone,
   Creature,
+  AbilityName,
+  DamagePart,
+  DiceRollResult,
   CrewAssignment,
   Mishap,
+  PendingMishap,
   LogEntry,
   LogEntryType,
   ScaleName,
@@ -27,13 +32,144 @@ import {
   SpeedModifier,
   ComplicationResolutionStatus,
   ElevationZone,
+  CurrentZone,
   MoveHistoryEntry,
+  VehicleComponent,
+  HazardOutcome,
+  OfficerRole,
+  Wind,
+  BoardingLinkKind,
+  TetherSource,
+  TurnActions,
+  ReadiedAction,
+  ReactionPrompt,
+  Condition,
+  ConditionSavePrompt,
+  ConditionName,
+  ConditionTick,
+  LegendaryOffer,
+  CombatReplay,
+  ReplayEvent,
 } from '../types';
 import { getScaleForDistance, SCALES } from '../data/scaleConfig';
-import { getWeaponStationUpgrade, resolveZone } from '../data/vehicleTemplates';
+import { MAGICAL_GADGETS, getWeaponStationUpgrade, resolveZone } from '../data/vehicleTemplates';
 import { logAnalyticsEvent } from '../firebase';
-import { v4 as uuid } from 'uuid';
 import { loadCurrentEncounter } from '../hooks/useLocalStorage';
+import { describeWind, fillMissingSailSpeeds, formatCompassPoint, rollWindShift } from '../utils/windCalculator';
+import { applyDrift, getCurrentAtPosition, getDriftDistance } from '../utils/currentCalculator';
+import { roll as rollDice, rollSave } from '../utils/diceEngine';
+import { newId, random, recordRandomness, replayRandomness } from '../utils/randomTape';
+import {
+  AppliedDamage,
+  applyDamageDefenses,
+  formatDamageBreakdown,
+  getCreatureDefenses,
+  getDamageTotal,
+  getVehicleDefenses,
+  isTypedDamage,
+  rollDamageParts,
+} from '../utils/damageCalculator';
+import { formatCover } from '../utils/coverCalculator';
+import { createHazardChecks, getHazardOutcome, getNavalHazard, HAZARD_OUTCOME_LABELS, NavalHazardOutcomeEffect } from '../data/navalHazards';
+import {
+  applyNavalUpgradeStats,
+  formatRechargeTime,
+  getInstalledNavalUpgrades,
+  getMissingNavalUpgradeStats,
+  getNavalUpgrade,
+  isNavalVehicle,
+  rollRechargeSeconds,
+} from '../data/navalUpgrades';
+import {
+  clampCrewQuality,
+  CREW_MEMBER_HP,
+  DESERTION_PERCENT,
+  formatCrewQuality,
+  getCrewMoraleBand,
+  getCrewMoraleBandById,
+  getCrewPoolCount,
+  getCrewPoolHp,
+  getCrewPoolZones,
+  getCrewQuality,
+  getOfficerRoleName,
+} from '../data/shipCrew';
+import {
+  checkMishapFromDamage,
+  getEffectiveDamageThreshold,
+  getVehicleMishapState,
+  RIGHT_VEHICLE_DC,
+  rollMishapForVehicle,
+} from '../data/mishapTable';
+import { capComponentHp, getEffectiveVehicleSpeed, hasComponents } from '../utils/vehicleComponents';
+import {
+  getPushedPosition,
+  getRamDamageDice,
+  getRamGap,
+  isInRamContact,
+  RAM_CONTACT_RANGE,
+  RAM_PUSH_DISTANCE,
+  RAM_SAVE_DC,
+} from '../utils/ramCalculator';
+import { BOARDING_LINKS, getBoardingCheck, getBoardingFallDamage, getFallPosition } from '../utils/boardingCalculator';
+import { constrainTetheredMove, TETHER_SOURCES } from '../utils/tetherCalculator';
+import { getCreaturesActingOnTurn, hasSpentReaction, resetTurnActions } from '../utils/actionEconomy';
+import { formatCondition, getConditionTick, getSaveRollMode, hasCondition } from '../utils/conditionEffects';
+import { breaksConcentration, getConcentrationSaveDc } from '../utils/concentration';
+import {
+  LAIR_INITIATIVE,
+  LAIR_TURN_ID,
+  getLairCreatures,
+  getLegendaryActionCost,
+  getLegendaryActionsPerRound,
+  getLegendaryActionsRemaining,
+  getLegendaryCreaturesAfterTurn,
+  hasLegendaryActions,
+  isLairTurn,
+} from '../utils/legendaryActions';
+import {
+  formatAbilityLimit,
+  getAbilityUses,
+  getLimitedActions,
+  getSpentRechargeActions,
+  isAbilityAvailable,
+  isGadgetAvailable,
+  rollRecharge,
+} from '../utils/recharge';
+import {
+  DEATH_SAVES_NEEDED,
+  NEW_DEATH_SAVES,
+  addDeathSaveFailures,
+  applyDeathSave,
+  isDead,
+  isDying,
+  isPlayerCharacter,
+} from '../utils/deathSaves';
+import {
+  findAttackTriggers,
+  findBoardingTriggers,
+  findVehicleInRangeTriggers,
+  JUKE_REACTION_NAME,
+  ReactionTrigger,
+  READY_TRIGGERS,
+} from '../utils/readiedActions';
+import {
+  AttackTarget,
+  decodeAttackTarget,
+  getAttackTargetEntity,
+  getCriticalDamage,
+  getTargetSaveModifier,
+  getWeaponAttack,
+  getWeaponSave,
+} from '../utils/attackResolver';
+import {
+  getAmmunitionCapacity,
+  getMissingSiegeSteps,
+  getResupplyAmount,
+  getSiegeStage,
+  getStartingAmmunition,
+  isOutOfAmmunition,
+} from '../utils/weaponAmmo';
+import { resolveTemplate } from '../data/templateRegistry';
 
 const AUTO_SAVE_KEY = 'avernus-current-encounter';
 
@@ -59,6 +195,7 @@ export const initialCombatState: CombatState = {
   id: '',
   name: 'New Encounter',
   round: 0,
+  elapsedTime: 0,
   phase: 'setup',
   hasBeenSaved: false,
   vehicles: [],
@@ -70,6 +207,7 @@ export const initialCombatState: CombatState = {
   scale: 'tactical',
   battlefield: initialBattlefield,
   elevationZones: [],
+  currentZones: [],
   environment: initialEnvironment,
   actionLog: [],
   autoRollComplications: false,
@@ -78,6 +216,14 @@ export const initialCombatState: CombatState = {
   },
   movementUsed: {},
   moveHistory: [],
+  boardingLinks: [],
+  tethers: [],
+  turnActions: {},
+  readiedActions: [],
+  reactionPrompts: [],
+  conditionSavePrompts: [],
+  concentrationSavePrompts: [],
+  deathSavePrompts: [],
 };
 
 // ==========================================
@@ -98,6 +244,10 @@ type CombatAction =
   | { type: 'SET_VEHICLE_ARMOR'; payload: { vehicleId: string; armorUpgradeId: string } }
   | { type: 'TOGGLE_VEHICLE_GADGET'; payload: { vehicleId: string; gadgetId: string } }
   | { type: 'TOGGLE_NAVAL_UPGRADE'; payload: { vehicleId: string; upgradeId: string } }
+  | { type: 'USE_NAVAL_UPGRADE'; payload: { vehicleId: string; upgradeId: string } }
+  | { type: 'RECHARGE_NAVAL_UPGRADE'; payload: { vehicleId: string; upgradeId: string } }
+  | { type: 'USE_GADGET'; payload: { vehicleId: string; gadgetId: string } }
+  | { type: 'RECHARGE_GADGET'; payload: { vehicleId: string; gadgetId: string } }
   | { type: 'TOGGLE_WEAPON_STATION_UPGRADE'; payload: { vehicleId: string } }
   | { type: 'UPDATE_VEHICLE'; payload: { id: string; updates: Partial<Vehicle> } }
   | { type: 'ADD_CREATURE'; payload: Creature }
@@ -105,7 +255,23 @@ type CombatAction =
   | { type: 'UPDATE_CREATURE'; payload: { id: string; updates: Partial<Creature> } }
   | { type: 'ASSIGN_CREW'; payload: CrewAssignment }
   | { type: 'UNASSIGN_CREW'; payload: { creatureId: string } }
+  | { type: 'BOARD_VEHICLE'; payload: { creatureId: string; vehicleId: string; zoneId: string; roll?: DiceRollResult } }
+  | { type: 'ADD_BOARDING_LINK'; payload: { kind: BoardingLinkKind; vehicleIds: [string, string] } }
+  | { type: 'REMOVE_BOARDING_LINK'; payload: { linkId: string; reason?: string } }
+  | { type: 'ATTACH_TETHER'; payload: { source: TetherSource; sourceVehicleId: string; targetVehicleId: string; weaponName: string; length: number; save?: DiceRollResult } }
+  | { type: 'BREAK_TETHER'; payload: { tetherId: string; creatureId: string; roll?: DiceRollResult } }
+  | { type: 'RELEASE_TETHER'; payload: { tetherId: string; reason?: string } }
+  | { type: 'FIRE_VEHICLE_WEAPON'; payload: { vehicleId: string; weaponId: string; creatureId: string; target?: AttackTarget; attackRoll?: DiceRollResult } }
+  | { type: 'WORK_SIEGE_WEAPON'; payload: { vehicleId: string; weaponId: string; creatureId: string } }
+  | { type: 'RESUPPLY_WEAPON'; payload: { vehicleId: string; weaponId: string; creatureId: string } }
+  | { type: 'SET_OFFICER_ROLE'; payload: { vehicleId: string; role: OfficerRole; creatureId: string | null } }
+  | { type: 'ADJUST_CREW_QUALITY'; payload: { vehicleId: string; delta: number; reason: string } }
+  | { type: 'RESOLVE_MORALE_CHECK'; payload: { vehicleId: string; passed: boolean; total?: number } }
+  | { type: 'SET_MUTINY'; payload: { vehicleId: string; isMutinous: boolean } }
+  | { type: 'DAMAGE_CREW_POOL'; payload: { vehicleId: string; zoneId: string; amount: number; targets: number; source?: string } }
+  | { type: 'SET_CREW_POOL_COUNT'; payload: { vehicleId: string; zoneId: string; count: number } }
   | { type: 'SET_ENVIRONMENT'; payload: Partial<Environment> }
+  | { type: 'SET_WIND'; payload: Wind | null }
   | { type: 'SET_CHASE_MODE'; payload: { isChase: boolean; pursuerIds?: string[]; quarryIds?: string[] } }
   | { type: 'SET_BACKGROUND_IMAGE'; payload: BackgroundImageConfig | null }
 
@@ -122,19 +288,45 @@ type CombatAction =
   | { type: 'NEXT_ROUND' }
   | { type: 'END_COMBAT' }
   | { type: 'RESET_COMBAT' } // Reset HP, mishaps, turns but keep vehicles/creatures
+  | { type: 'DECLARE_TURN_ACTIONS'; payload: { creatureId: string; actions: Partial<TurnActions> } }
+  | { type: 'RESOLVE_TURN_ACTIONS'; payload: { creatureId: string } }
+  | { type: 'USE_REACTION'; payload: { creatureId: string; reaction: string; vehicleId?: string } }
+  | { type: 'READY_ACTION'; payload: Omit<ReadiedAction, 'id' | 'createdAtRound'> }
+  | { type: 'CANCEL_READIED_ACTION'; payload: { readiedActionId: string } }
+  | { type: 'TRIGGER_READIED_ACTION'; payload: { readiedActionId: string; event: string } }
+  | { type: 'RESOLVE_REACTION_PROMPT'; payload: { promptId: string; use: boolean } }
 
   // Damage & Healing
-  | { type: 'DEAL_DAMAGE_TO_VEHICLE'; payload: { vehicleId: string; amount: number; source?: string } }
-  | { type: 'DAMAGE_VEHICLE_COMPONENT'; payload: { vehicleId: string; componentId: string; amount: number } }
+  | { type: 'DEAL_DAMAGE_TO_VEHICLE'; payload: { vehicleId: string; parts: DamagePart[]; source?: string } }
+  | { type: 'DAMAGE_VEHICLE_COMPONENT'; payload: { vehicleId: string; componentId: string; parts: DamagePart[]; source?: string } }
   | { type: 'SET_VEHICLE_COMPONENT_HP'; payload: { vehicleId: string; componentId: string; hp: number } }
+  | { type: 'REPAIR_VEHICLE_COMPONENT'; payload: { vehicleId: string; componentId: string; amount: number; source?: string } }
   | { type: 'HEAL_VEHICLE'; payload: { vehicleId: string; amount: number } }
-  | { type: 'DEAL_DAMAGE_TO_CREATURE'; payload: { creatureId: string; amount: number; source?: string } }
+  | { type: 'DEAL_DAMAGE_TO_CREATURE'; payload: { creatureId: string; parts: DamagePart[]; source?: string; critical?: boolean } }
   | { type: 'HEAL_CREATURE'; payload: { creatureId: string; amount: number } }
+  | { type: 'ADD_CONDITION'; payload: { creatureId: string; condition: Condition } }
+  | { type: 'REMOVE_CONDITION'; payload: { creatureId: string; name: ConditionName; reason?: string } }
+  | { type: 'RESOLVE_CONDITION_SAVE'; payload: { promptId: string; roll?: DiceRollResult } } // No roll: skip it
+  | { type: 'START_CONCENTRATION'; payload: { creatureId: string; spell: string } }
+  | { type: 'END_CONCENTRATION'; payload: { creatureId: string; reason?: string } }
+  | { type: 'RESOLVE_CONCENTRATION_SAVE'; payload: { promptId: string; roll?: DiceRollResult } } // No roll: skip it
+  | { type: 'RESOLVE_DEATH_SAVE'; payload: { promptId: string; roll?: DiceRollResult } } // No roll: skip it
+  | { type: 'STABILIZE_CREATURE'; payload: { creatureId: string; source?: string } }
+  | { type: 'USE_LEGENDARY_ACTION'; payload: { creatureId: string; actionName: string } }
+  | { type: 'PASS_LEGENDARY_ACTIONS' }
+  | { type: 'USE_LAIR_ACTION'; payload: { name: string; description?: string; creatureId?: string } } // creatureId: whose lair, if from a statblock
+  | { type: 'TOGGLE_LAIR_TURN' }
+  | { type: 'USE_CREATURE_ABILITY'; payload: { creatureId: string; actionName: string } } // A recharge or per-rest action
+  | { type: 'RECHARGE_CREATURE_ABILITY'; payload: { creatureId: string; actionName: string } }
+  | { type: 'RAM'; payload: { vehicleId: string; targetId: string } }
 
   // Mishaps
-  | { type: 'APPLY_MISHAP'; payload: { vehicleId: string; mishap: Mishap } }
+  | { type: 'APPLY_MISHAP'; payload: { vehicleId: string; mishap: Mishap; ejectOnFailedSave?: boolean } }
   | { type: 'REPAIR_MISHAP'; payload: { vehicleId: string; mishapId: string } }
+  | { type: 'RESOLVE_PENDING_MISHAP'; payload: { vehicleId: string; apply: boolean; ejectOnFailedSave?: boolean } }
+  | { type: 'REROLL_PENDING_MISHAP'; payload: { vehicleId: string } }
   | { type: 'TICK_MISHAP_DURATION'; payload: { vehicleId: string; mishapId: string } }
+  | { type: 'RIGHT_VEHICLE'; payload: { vehicleId: string; creatureId: string; roll: DiceRollResult } }
 
   // Position & Scale
   | { type: 'UPDATE_VEHICLE_POSITION'; payload: { vehicleId: string; position: Position } }
@@ -147,6 +339,11 @@ type CombatAction =
   | { type: 'UPDATE_ELEVATION_ZONE'; payload: { id: string; updates: Partial<ElevationZone> } }
   | { type: 'REMOVE_ELEVATION_ZONE'; payload: string }
 
+  // Current Zones
+  | { type: 'ADD_CURRENT_ZONE'; payload: CurrentZone }
+  | { type: 'UPDATE_CURRENT_ZONE'; payload: { id: string; updates: Partial<CurrentZone> } }
+  | { type: 'REMOVE_CURRENT_ZONE'; payload: string }
+
   // Player View Settings
   | { type: 'SET_PLAYER_VIEW_SETTINGS'; payload: Partial<CombatState['playerViewSettings']> }
 
@@ -164,6 +361,7 @@ type CombatAction =
   | { type: 'TOGGLE_AUTO_ROLL_COMPLICATIONS' }
   | { type: 'START_COMPLICATION_RESOLUTION'; payload: { complication: ChaseComplication; roll: number; rollRange: string } }
   | { type: 'RESOLVE_VEHICLE_COMPLICATION'; payload: { vehicleId: string; status: ComplicationResolutionStatus; rollResult?: number; modifier?: number; total?: number } }
+  | { type: 'RESOLVE_HAZARD_CHECK'; payload: { vehicleId: string; checkIndex: number; status: ComplicationResolutionStatus; rollResult?: number; modifier?: number; total?: number } }
   | { type: 'APPLY_COMPLICATION_EFFECTS' }
   | { type: 'CLEAR_COMPLICATION' }
   | { type: 'CLEAR_EXPIRED_SPEED_MODIFIERS' };
@@ -182,10 +380,16 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         ...vehicle,
         // Mark as inoperative if at 0 HP but not already marked
         isInoperative: vehicle.isInoperative ?? (vehicle.currentHp === 0),
+        // Ships saved before sail speeds and upgrade stats were tracked
+        ...migrateShipTemplate(vehicle),
         weapons: vehicle.weapons.map((weapon) => ({
           ...weapon,
           // Mark harpoon weapons as swappable if not already set
           isSwappableStation: weapon.isSwappableStation ?? weapon.id.includes('harpoon') ?? weapon.name.toLowerCase().includes('harpoon'),
+          // Stock weapons saved before ammunition was tracked
+          ...(weapon.currentAmmunition === undefined ? getStartingAmmunition(weapon) : {}),
+          // Siege weapons saved before loading and aiming were tracked
+          ...getMissingSiegeSteps(weapon, resolveTemplate(vehicle.template.id)),
         })),
       }));
 
@@ -279,7 +483,7 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
       }
 
       // Merge with initial state to ensure all required fields exist
-      return {
+      return resumeReplayRecording({
         ...initialCombatState,
         ...action.payload,
         // Ensure nested objects have defaults
@@ -299,13 +503,21 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         actionLog: action.payload.actionLog || [],
         movementUsed: action.payload.movementUsed || {},
         moveHistory: action.payload.moveHistory || [],
-      };
+        boardingLinks: action.payload.boardingLinks || [],
+        tethers: action.payload.tethers || [],
+        turnActions: action.payload.turnActions || {},
+        readiedActions: action.payload.readiedActions || [],
+        reactionPrompts: action.payload.reactionPrompts || [],
+        conditionSavePrompts: action.payload.conditionSavePrompts || [],
+        concentrationSavePrompts: action.payload.concentrationSavePrompts || [],
+        deathSavePrompts: action.payload.deathSavePrompts || [],
+      });
     }
 
     case 'NEW_ENCOUNTER':
       return {
         ...initialCombatState,
-        id: uuid(),
+        id: newId(),
         name: action.payload.name,
       };
 
@@ -324,11 +536,11 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
 
       // Create new vehicles with fresh UUIDs
       const newVehicles = presetVehicles.map((v) => {
-        const newId = uuid();
-        vehicleIdMap.set(v.id, newId);
+        const id = newId();
+        vehicleIdMap.set(v.id, id);
         return {
           ...v,
-          id: newId,
+          id,
           // Reset position to party side
           position: { x: 200, y: 200 + vehicleIdMap.size * 100 },
         };
@@ -336,17 +548,17 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
 
       // Create new creatures with fresh UUIDs
       const newCreatures = presetCreatures.map((c) => {
-        const newId = uuid();
-        creatureIdMap.set(c.id, newId);
+        const id = newId();
+        creatureIdMap.set(c.id, id);
         return {
           ...c,
-          id: newId,
+          id,
           // Update vehicleId reference if assigned
           vehicleId: c.vehicleId ? vehicleIdMap.get(c.vehicleId) : undefined,
         };
       });
 
-      // Update crew assignments with new IDs
+      // Update crew assignments with new IDs (officer posts carry over with them)
       const newAssignments = presetAssignments
         .filter((a) => vehicleIdMap.has(a.vehicleId) && creatureIdMap.has(a.creatureId))
         .map((a) => ({
@@ -392,6 +604,8 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         crewAssignments: state.crewAssignments.filter(
           (a) => a.vehicleId !== removedVehicleId
         ),
+        boardingLinks: state.boardingLinks.filter((l) => !l.vehicleIds.includes(removedVehicleId)),
+        tethers: state.tethers.filter((t) => t.sourceVehicleId !== removedVehicleId && t.targetVehicleId !== removedVehicleId),
         initiativeOrder: newInitiativeOrder,
         currentTurnIndex: newTurnIndex,
       };
@@ -513,15 +727,56 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
           const currentGadgets = v.gadgetIds || [];
           const gadgetId = action.payload.gadgetId;
           const hasGadget = currentGadgets.includes(gadgetId);
+          const gadgetUses = { ...(v.gadgetUses || {}) };
+          delete gadgetUses[gadgetId];
           return {
             ...v,
             gadgetIds: hasGadget
               ? currentGadgets.filter((id) => id !== gadgetId)
               : [...currentGadgets, gadgetId],
+            gadgetUses,
           };
         }),
       };
 
+    case 'USE_GADGET': {
+      const { vehicleId, gadgetId } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      const gadget = MAGICAL_GADGETS.find((g) => g.id === gadgetId);
+      if (!vehicle || !gadget || !vehicle.gadgetIds?.includes(gadgetId) || !isGadgetAvailable(vehicle, gadgetId)) return state;
+
+      return {
+        ...state,
+        vehicles: state.vehicles.map((v) =>
+          v.id === vehicleId
+            ? { ...v, gadgetUses: { ...(v.gadgetUses || {}), [gadgetId]: (v.gadgetUses?.[gadgetId] ?? 0) + 1 } }
+            : v
+        ),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(state.round, 'ability', `${vehicle.name} uses its ${gadget.name}`, `Recharges in ${gadget.recharge}`),
+        ],
+      };
+    }
+
+    case 'RECHARGE_GADGET': {
+      const { vehicleId, gadgetId } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      const gadget = MAGICAL_GADGETS.find((g) => g.id === gadgetId);
+      if (!vehicle || !gadget) return state;
+
+      const gadgetUses = { ...(vehicle.gadgetUses || {}) };
+      delete gadgetUses[gadgetId];
+      return {
+        ...state,
+        vehicles: state.vehicles.map((v) => (v.id === vehicleId ? { ...v, gadgetUses } : v)),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(state.round, 'system', `${vehicle.name}'s ${gadget.name} is ready again`),
+        ],
+      };
+    }
+
     case 'TOGGLE_NAVAL_UPGRADE':
       return {
         ...state,
@@ -530,15 +785,66 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
           const current = v.navalUpgradeIds || [];
           const upgradeId = action.payload.upgradeId;
           const has = current.includes(upgradeId);
+          const upgrade = getNavalUpgrade(upgradeId);
+          const template = upgrade ? applyNavalUpgradeStats(v.template, upgrade, !has) : v.template;
+          // A bigger hull comes with the extra hit points; a smaller one caps them
+          const currentHp = has
+            ? Math.min(v.currentHp, template.maxHp)
+            : v.currentHp + (template.maxHp - v.template.maxHp);
+          const rechargeAt = { ...(v.navalUpgradeRechargeAt || {}) };
+          delete rechargeAt[upgradeId];
           return {
             ...v,
+            template,
+            currentHp,
+            componentHp: capComponentHp({ ...v, template }),
             navalUpgradeIds: has
               ? current.filter((id) => id !== upgradeId)
               : [...current, upgradeId],
+            navalUpgradeRechargeAt: rechargeAt,
           };
         }),
       };
 
+    case 'USE_NAVAL_UPGRADE': {
+      const { vehicleId, upgradeId } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      const upgrade = getNavalUpgrade(upgradeId);
+      if (!vehicle || !upgrade?.recharge) return state;
+
+      const seconds = rollRechargeSeconds(upgrade.recharge);
+      return {
+        ...state,
+        vehicles: state.vehicles.map((v) =>
+          v.id === vehicleId
+            ? { ...v, navalUpgradeRechargeAt: { ...(v.navalUpgradeRechargeAt || {}), [upgradeId]: state.elapsedTime + seconds } }
+            : v
+        ),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(state.round, 'ability', `${vehicle.name} uses its ${upgrade.name}`, `Recharges in ${formatRechargeTime(seconds)}`),
+        ],
+      };
+    }
+
+    case 'RECHARGE_NAVAL_UPGRADE': {
+      const { vehicleId, upgradeId } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      const upgrade = getNavalUpgrade(upgradeId);
+      if (!vehicle || !upgrade) return state;
+
+      const rechargeAt = { ...(vehicle.navalUpgradeRechargeAt || {}) };
+      delete rechargeAt[upgradeId];
+      return {
+        ...state,
+        vehicles: state.vehicles.map((v) => (v.id === vehicleId ? { ...v, navalUpgradeRechargeAt: rechargeAt } : v)),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(state.round, 'system', `${vehicle.name}'s ${upgrade.name} is ready again`),
+        ],
+      };
+    }
+
     case 'TOGGLE_WEAPON_STATION_UPGRADE':
       return {
         ...state,
@@ -561,7 +867,7 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
               zoneId: weaponStationConfig.zoneId,
               visibleFromArcs: weaponStationConfig.visibleFromArcs,
               isSwappableStation: true,
-              currentAmmunition: 10,
+              ...getStartingAmmunition(weaponStationConfig.defaultWeapon),
             };
             return {
               ...v,
@@ -579,9 +885,18 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         creatures: [...state.creatures, action.payload],
       };
 
-    case 'REMOVE_CREATURE':
+    case 'REMOVE_CREATURE': {
+      const turnActions = { ...state.turnActions };
+      delete turnActions[action.payload];
       return {
         ...state,
+        turnActions,
+        readiedActions: state.readiedActions.filter((r) => r.creatureId !== action.payload),
+        reactionPrompts: state.reactionPrompts.filter((p) => p.creatureId !== action.payload),
+        conditionSavePrompts: state.conditionSavePrompts.filter((p) => p.creatureId !== action.payload),
+        concentrationSavePrompts: state.concentrationSavePrompts.filter((p) => p.creatureId !== action.payload),
+        deathSavePrompts: state.deathSavePrompts.filter((p) => p.creatureId !== action.payload),
+        legendaryOffer: withoutLegendaryCreature(state.legendaryOffer, action.payload),
         creatures: state.creatures.filter((c) => c.id !== action.payload),
         crewAssignments: state.crewAssignments.filter(
           (a) => a.creatureId !== action.payload
@@ -590,6 +905,7 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
           (id) => id !== action.payload
         ),
       };
+    }
 
     case 'UPDATE_CREATURE': {
       const creature = state.creatures.find((c) => c.id === action.payload.id);
@@ -604,6 +920,7 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
 
       // If creature died while on a vehicle, log that station is unmanned
       // (Body stays at station - crew assignment remains, but weapon ranges won't show)
+      let updatedVehicles = state.vehicles;
       if (justDied) {
         const assignment = state.crewAssignments.find((a) => a.creatureId === creature.id);
         if (assignment) {
@@ -617,28 +934,190 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
               zone ? `${zone.name} on ${vehicle?.name} is now unmanned` : undefined
             )
           );
+          const casualty = applyCrewCasualty(state.vehicles, assignment.vehicleId, creature.name, state.round);
+          updatedVehicles = casualty.vehicles;
+          logEntries.push(...casualty.logEntries);
         }
       }
 
+      // Setting a PC's HP by hand starts or clears its death saves
+      const deathSaves = !isPlayerCharacter(creature) || updates.currentHp === undefined
+        ? {}
+        : { deathSaves: newHp > 0 ? undefined : justDied ? NEW_DEATH_SAVES : creature.deathSaves };
+
       return {
         ...state,
+        vehicles: updatedVehicles,
         creatures: state.creatures.map((c) =>
-          c.id === action.payload.id ? { ...c, ...updates } : c
+          c.id === action.payload.id ? { ...c, ...updates, ...deathSaves } : c
         ),
+        deathSavePrompts: newHp > 0 ? state.deathSavePrompts.filter((p) => p.creatureId !== creature.id) : state.deathSavePrompts,
         actionLog: logEntries.length > 0 ? [...state.actionLog, ...logEntries] : state.actionLog,
       };
     }
 
     // ========== Crew Assignments ==========
-    case 'ASSIGN_CREW':
+    case 'ASSIGN_CREW': {
       // Remove existing assignment for this creature
+      const existingAssignment = state.crewAssignments.find(
+        (a) => a.creatureId === action.payload.creatureId
+      );
       const filteredAssignments = state.crewAssignments.filter(
         (a) => a.creatureId !== action.payload.creatureId
       );
+      // Officers keep their post when moving between stations on the same ship
+      const officerRole =
+        action.payload.officerRole ??
+        (existingAssignment?.vehicleId === action.payload.vehicleId ? existingAssignment.officerRole : undefined);
+      return {
+        ...state,
+        crewAssignments: [...filteredAssignments, { ...action.payload, officerRole }],
+      };
+    }
+
+    case 'SET_OFFICER_ROLE': {
+      const { vehicleId, role, creatureId } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      if (!vehicle) return state;
+      // Only a creature aboard the ship can take a post, and appointing the holder again changes nothing
+      if (creatureId && !state.crewAssignments.some((a) => a.vehicleId === vehicleId && a.creatureId === creatureId)) return state;
+      const holder = state.crewAssignments.find((a) => a.vehicleId === vehicleId && a.officerRole === role);
+      if ((holder?.creatureId ?? null) === creatureId) return state;
+
+      // One creature per post: clear the role from whoever holds it, then give it to the new officer
+      const updatedAssignments = state.crewAssignments.map((a) => {
+        if (a.vehicleId !== vehicleId) return a;
+        if (a.creatureId === creatureId) return { ...a, officerRole: role };
+        return a.officerRole === role ? { ...a, officerRole: undefined } : a;
+      });
+
+      const officer = creatureId ? state.creatures.find((c) => c.id === creatureId) : undefined;
+      return {
+        ...state,
+        crewAssignments: updatedAssignments,
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(
+            state.round,
+            'system',
+            officer
+              ? `${officer.name} is now ${getOfficerRoleName(role)} of ${vehicle.name}`
+              : `${vehicle.name} has no ${getOfficerRoleName(role)}`
+          ),
+        ],
+      };
+    }
+
+    case 'ADJUST_CREW_QUALITY': {
+      const { vehicleId, delta, reason } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      if (!vehicle) return state;
+
+      const result = adjustCrewQuality(vehicle, delta, reason, state.round);
+      return {
+        ...state,
+        vehicles: state.vehicles.map((v) => (v.id === vehicleId ? result.vehicle : v)),
+        actionLog: [...state.actionLog, ...result.logEntries],
+      };
+    }
+
+    case 'RESOLVE_MORALE_CHECK': {
+      const { vehicleId, passed, total } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      if (!vehicle?.pendingMoraleCheck) return state;
+
+      const check = vehicle.pendingMoraleCheck;
+      const band = getCrewMoraleBandById(check.morale);
+      const rollText = total !== undefined ? `${total} vs DC ${check.dc}` : `DC ${check.dc}`;
+      const logEntries: LogEntry[] = [
+        createLogEntry(
+          state.round,
+          'system',
+          `${vehicle.name} morale check ${passed ? 'succeeds' : 'fails'} — the crew ${passed ? 'holds together' : 'breaks'}`,
+          `${band.label} crew, ${rollText} (${check.reason})`
+        ),
+      ];
+      let updated: Vehicle = { ...vehicle, pendingMoraleCheck: undefined };
+
+      if (!passed && band.failure === 'desertion') {
+        const result = removeCrewPercent(updated, DESERTION_PERCENT);
+        updated = result.vehicle;
+        logEntries.push(
+          createLogEntry(
+            state.round,
+            'system',
+            `${DESERTION_PERCENT}% of ${vehicle.name}'s crew deserts`,
+            result.lost > 0 ? `${result.lost} crew gone (${check.reason})` : check.reason
+          )
+        );
+      } else if (!passed && band.failure === 'mutiny') {
+        updated = { ...updated, isMutinous: true };
+        logEntries.push(createLogEntry(state.round, 'system', `The crew of ${vehicle.name} mutinies!`, check.reason));
+      }
+
+      return {
+        ...state,
+        vehicles: state.vehicles.map((v) => (v.id === vehicleId ? updated : v)),
+        actionLog: [...state.actionLog, ...logEntries],
+      };
+    }
+
+    case 'SET_MUTINY': {
+      const { vehicleId, isMutinous } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      if (!vehicle) return state;
+
+      return {
+        ...state,
+        vehicles: state.vehicles.map((v) => (v.id === vehicleId ? { ...v, isMutinous } : v)),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(
+            state.round,
+            'system',
+            isMutinous ? `The crew of ${vehicle.name} mutinies!` : `The mutiny aboard ${vehicle.name} is over`
+          ),
+        ],
+      };
+    }
+
+    case 'DAMAGE_CREW_POOL': {
+      const { vehicleId, zoneId, amount, targets, source } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      const zone = vehicle?.template.zones.find((z) => z.id === zoneId && z.crewPool);
+      if (!vehicle || !zone) return state;
+
+      const result = damageCrewPool(vehicle, zone, amount, targets, source, state.round);
+      return {
+        ...state,
+        vehicles: state.vehicles.map((v) => (v.id === vehicleId ? result.vehicle : v)),
+        actionLog: [...state.actionLog, ...result.logEntries],
+      };
+    }
+
+    case 'SET_CREW_POOL_COUNT': {
+      const { vehicleId, zoneId, count } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      const zone = vehicle?.template.zones.find((z) => z.id === zoneId && z.crewPool);
+      if (!vehicle || !zone) return state;
+
+      const before = getCrewPoolCount(vehicle, zone);
+      const after = Math.max(0, Math.min(zone.capacity, count));
+      if (after === before) return state;
+
       return {
         ...state,
-        crewAssignments: [...filteredAssignments, action.payload],
+        vehicles: state.vehicles.map((v) =>
+          v.id === vehicleId
+            ? { ...v, crewPoolHp: { ...(v.crewPoolHp || {}), [zoneId]: after * CREW_MEMBER_HP } }
+            : v
+        ),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(state.round, 'system', `${vehicle.name} ${zone.name}: ${before} → ${after} crew`),
+        ],
       };
+    }
 
     case 'UNASSIGN_CREW': {
       // Find the current assignment to get the vehicle
@@ -668,7 +1147,7 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
       }
 
       // Place creature 15ft from vehicle at a random angle
-      const angle = Math.random() * 2 * Math.PI;
+      const angle = random() * 2 * Math.PI;
       const offset = 15;
       const newPosition = {
         x: vehicle.position.x + Math.cos(angle) * offset,
@@ -719,59 +1198,426 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
       };
     }
 
-    // ========== Environment ==========
-    case 'SET_ENVIRONMENT':
+    case 'BOARD_VEHICLE': {
+      const { creatureId, vehicleId, zoneId, roll } = action.payload;
+      const creature = state.creatures.find((c) => c.id === creatureId);
+      const fromAssignment = state.crewAssignments.find((a) => a.creatureId === creatureId);
+      const from = state.vehicles.find((v) => v.id === fromAssignment?.vehicleId);
+      const to = state.vehicles.find((v) => v.id === vehicleId);
+      const zone = to ? resolveZone(to, zoneId) : undefined;
+      if (!creature || !from || !to || !zone || from.id === to.id) return state;
+
+      const check = getBoardingCheck(creature, from, to, state.boardingLinks);
+      const crossing = check.link ? BOARDING_LINKS[check.link.kind].name.toLowerCase() : `${check.gap} ft gap`;
+      if (check.tooFar) {
+        return {
+          ...state,
+          actionLog: [
+            ...state.actionLog,
+            createLogEntry(state.round, 'system', `${creature.name} can't reach ${to.name}`, `${check.gap} ft between the hulls`),
+          ],
+        };
+      }
+
+      let next = state;
+      if (check.brokenLink) {
+        next = combatReducer(next, {
+          type: 'REMOVE_BOARDING_LINK',
+          payload: { linkId: check.brokenLink.id, reason: `the vehicles are ${check.gap} ft apart` },
+        });
+      }
+
+      const passed = check.dc === undefined || (roll !== undefined && roll.total >= check.dc);
+      const rollText = check.dc === undefined ? 'no check needed' : `${check.skill} ${roll?.total ?? '—'} vs DC ${check.dc}`;
+      if (passed) {
+        next = combatReducer(next, { type: 'ASSIGN_CREW', payload: { creatureId, vehicleId: to.id, zoneId: zone.id } });
+        next = addReactionPrompts(next, findBoardingTriggers(next, creature, to.id));
+        return {
+          ...next,
+          actionLog: [
+            ...next.actionLog,
+            createLogEntry(
+              next.round,
+              'movement',
+              `${creature.name} boards ${to.name} from ${from.name}`,
+              `${check.link ? 'Across the' : 'Jumps the'} ${crossing} to ${zone.name} — ${rollText}`,
+              roll ? [roll] : undefined
+            ),
+          ],
+        };
+      }
+
+      // Missed: off the vehicle, onto the battlefield between the two, and into initiative
+      next = {
+        ...next,
+        actionLog: [
+          ...next.actionLog,
+          createLogEntry(
+            next.round,
+            'movement',
+            `${creature.name} falls trying to board ${to.name}`,
+            `${check.link ? 'Slips from the' : 'Misses the'} ${crossing} — ${rollText}`,
+            roll ? [roll] : undefined
+          ),
+        ],
+      };
+      next = combatReducer(next, { type: 'UNASSIGN_CREW', payload: { creatureId } });
+      next = {
+        ...next,
+        creatures: next.creatures.map((c) => (c.id === creatureId ? { ...c, position: getFallPosition(from, to) } : c)),
+      };
+      return combatReducer(next, {
+        type: 'DEAL_DAMAGE_TO_CREATURE',
+        payload: { creatureId, parts: rollDamageParts(getBoardingFallDamage(from)), source: `Fell between ${from.name} and ${to.name}` },
+      });
+    }
+
+    case 'ADD_BOARDING_LINK': {
+      const { kind, vehicleIds } = action.payload;
+      const [a, b] = vehicleIds.map((id) => state.vehicles.find((v) => v.id === id));
+      if (!a || !b || a.id === b.id) return state;
+
+      const link = { id: newId(), kind, vehicleIds, createdAtRound: state.round };
       return {
         ...state,
-        environment: { ...state.environment, ...action.payload },
+        // One link between any two vehicles; a new one replaces the old
+        boardingLinks: [
+          ...state.boardingLinks.filter((l) => !(l.vehicleIds.includes(a.id) && l.vehicleIds.includes(b.id))),
+          link,
+        ],
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(
+            state.round,
+            'system',
+            `${a.name} and ${b.name} are linked by a ${BOARDING_LINKS[kind].name.toLowerCase()}`,
+            BOARDING_LINKS[kind].description
+          ),
+        ],
       };
+    }
 
-    case 'SET_CHASE_MODE':
+    case 'REMOVE_BOARDING_LINK': {
+      const link = state.boardingLinks.find((l) => l.id === action.payload.linkId);
+      if (!link) return state;
+
+      const names = link.vehicleIds.map((id) => state.vehicles.find((v) => v.id === id)?.name ?? 'a vehicle');
       return {
         ...state,
-        isChase: action.payload.isChase,
-        pursuerIds: action.payload.pursuerIds,
-        quarryIds: action.payload.quarryIds,
+        boardingLinks: state.boardingLinks.filter((l) => l.id !== link.id),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(
+            state.round,
+            'system',
+            `The ${BOARDING_LINKS[link.kind].name.toLowerCase()} between ${names[0]} and ${names[1]} is gone`,
+            action.payload.reason
+          ),
+        ],
       };
+    }
 
-    case 'SET_BACKGROUND_IMAGE':
+    // ========== Environment ==========
+
+    case 'ATTACH_TETHER': {
+      const { source, sourceVehicleId, targetVehicleId, weaponName, length, save } = action.payload;
+      const holder = state.vehicles.find((v) => v.id === sourceVehicleId);
+      const target = state.vehicles.find((v) => v.id === targetVehicleId);
+      if (!holder || !target || holder.id === target.id) return state;
+
+      const spec = TETHER_SOURCES[source];
+      if (spec.saveToResist && save && save.total >= spec.escapeDC) {
+        return {
+          ...state,
+          actionLog: [
+            ...state.actionLog,
+            createLogEntry(
+              state.round,
+              'ability',
+              `${target.name} shrugs off ${holder.name}'s ${spec.name}`,
+              `Str save ${save.total} vs DC ${spec.escapeDC}`,
+              [save]
+            ),
+          ],
+        };
+      }
+
+      const tether = {
+        id: newId(),
+        source,
+        sourceVehicleId,
+        targetVehicleId,
+        weaponName,
+        length,
+        escapeDC: spec.escapeDC,
+        createdAtRound: state.round,
+      };
       return {
         ...state,
-        battlefield: {
-          ...state.battlefield,
-          backgroundImage: action.payload ?? undefined,
-        },
+        // The claw holds one target at a time; any weapon re-hitting the same target resets its line
+        tethers: [
+          ...state.tethers.filter(
+            (t) =>
+              !(t.sourceVehicleId === sourceVehicleId && t.source === source && (source === 'grappling_claw' || t.targetVehicleId === targetVehicleId))
+          ),
+          tether,
+        ],
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(
+            state.round,
+            'attack',
+            `${holder.name}'s ${weaponName} holds ${target.name}`,
+            `${spec.name}: ${length} ft line, escape DC ${spec.escapeDC}${save ? ` — Str save ${save.total} failed` : ''}`,
+            save ? [save] : undefined
+          ),
+        ],
       };
+    }
 
-    // ========== Initiative ==========
-    case 'SET_INITIATIVE':
+    case 'BREAK_TETHER': {
+      const { tetherId, creatureId, roll } = action.payload;
+      const tether = state.tethers.find((t) => t.id === tetherId);
+      const creature = state.creatures.find((c) => c.id === creatureId);
+      const target = state.vehicles.find((v) => v.id === tether?.targetVehicleId);
+      if (!tether || !creature || !target) return state;
+
+      const spec = TETHER_SOURCES[tether.source];
+      const passed = spec.endsWithAction || (roll !== undefined && roll.total >= tether.escapeDC);
+      const rollText = spec.endsWithAction ? 'an action ends it' : `Str check ${roll?.total ?? '—'} vs DC ${tether.escapeDC}`;
+      const logEntry = createLogEntry(
+        state.round,
+        'ability',
+        passed ? `${creature.name} frees ${target.name} from the ${spec.name.toLowerCase()}` : `${creature.name} fails to free ${target.name}`,
+        rollText,
+        roll ? [roll] : undefined
+      );
       return {
         ...state,
-        creatures: state.creatures.map((c) =>
-          c.id === action.payload.creatureId
-            ? { ...c, initiative: action.payload.initiative }
-            : c
-        ),
+        tethers: passed ? state.tethers.filter((t) => t.id !== tether.id) : state.tethers,
+        turnActions: {
+          ...state.turnActions,
+          [creature.id]: { ...state.turnActions[creature.id], action: `Break Free (${spec.name})`, resolved: true },
+        },
+        actionLog: [...state.actionLog, logEntry],
       };
+    }
 
-    case 'SET_INITIATIVE_ORDER':
+    case 'RELEASE_TETHER': {
+      const tether = state.tethers.find((t) => t.id === action.payload.tetherId);
+      if (!tether) return state;
+
+      const [holder, target] = [tether.sourceVehicleId, tether.targetVehicleId].map(
+        (id) => state.vehicles.find((v) => v.id === id)?.name ?? 'a vehicle'
+      );
       return {
         ...state,
-        initiativeOrder: action.payload,
+        tethers: state.tethers.filter((t) => t.id !== tether.id),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(state.round, 'system', `${holder}'s ${tether.weaponName} lets go of ${target}`, action.payload.reason),
+        ],
       };
+    }
 
-    case 'START_COMBAT': {
-      // Vehicle-Based Initiative (per Avernus rules):
-      // - Each VEHICLE rolls initiative using driver's DEX modifier
-      // - ALL crew acts on the vehicle's turn simultaneously
-      // - Vehicles without drivers act LAST
-      // - Only creatures NOT assigned to any vehicle act separately
+    case 'FIRE_VEHICLE_WEAPON': {
+      const { vehicleId, weaponId, creatureId, target, attackRoll } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      const weapon = vehicle?.weapons.find((w) => w.id === weaponId);
+      const creature = state.creatures.find((c) => c.id === creatureId);
+      if (!vehicle || !weapon || !creature) return state;
+
+      // Everything is checked before the shot spends ammunition or the siege weapon's load
+      const attack = target ? getWeaponAttack(vehicle, weapon, target, state) : undefined;
+      if (target && (!attack || !getAttackTargetEntity(state, target))) return state;
+      if (attack && !attack.blocked && !attack.save && !attackRoll) return state;
+
+      const stage = getSiegeStage(weapon);
+      const crewAtStation = state.crewAssignments.filter((a) => a.vehicleId === vehicle.id && a.zoneId === weapon.zoneId).length;
+      let problem: string | undefined;
+      if (isOutOfAmmunition(weapon)) problem = 'Out of ammunition';
+      else if (stage && stage.step !== 'fire') problem = stage.step === 'load' ? 'Not loaded' : 'Not aimed';
+      else if (crewAtStation < (weapon.crewRequired ?? 1)) problem = `Needs ${weapon.crewRequired} crew at the station`;
+      else if (attack?.blocked) problem = `No shot at ${attack.targetName}: ${attack.blocked}`;
+      if (problem) {
+        return {
+          ...state,
+          actionLog: [...state.actionLog, createLogEntry(state.round, 'system', `${creature.name} can't fire the ${weapon.name}`, problem)],
+        };
+      }
 
-      type InitiativeEntry = { id: string; type: 'creature' | 'vehicle'; initiative: number; name: string };
-      const initiativeEntries: InitiativeEntry[] = [];
+      const remaining = weapon.currentAmmunition !== undefined ? weapon.currentAmmunition - 1 : undefined;
+      const ammoNote = remaining !== undefined ? `${remaining} of ${getAmmunitionCapacity(weapon) ?? remaining} rounds left` : undefined;
+      const fired: CombatState = {
+        ...state,
+        vehicles: state.vehicles.map((v) =>
+          v.id === vehicle.id
+            ? {
+                ...v,
+                weapons: v.weapons.map((w) =>
+                  w.id === weapon.id ? { ...w, currentAmmunition: remaining, siegeActions: stage ? 0 : w.siegeActions } : w
+                ),
+              }
+            : v
+        ),
+      };
+      if (target) return resolveWeaponAttack(fired, vehicle, weapon, creature, target, attackRoll, ammoNote);
 
-      // Get all creature IDs that are assigned to ANY vehicle
-      const crewCreatureIds = new Set(state.crewAssignments.map((a) => a.creatureId));
+      return {
+        ...fired,
+        actionLog: [
+          ...fired.actionLog,
+          createLogEntry(fired.round, 'attack', `${creature.name} fires ${vehicle.name}'s ${weapon.name}`, ammoNote),
+        ],
+      };
+    }
+
+    case 'WORK_SIEGE_WEAPON': {
+      const { vehicleId, weaponId, creatureId } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      const weapon = vehicle?.weapons.find((w) => w.id === weaponId);
+      const creature = state.creatures.find((c) => c.id === creatureId);
+      const stage = weapon ? getSiegeStage(weapon) : undefined;
+      if (!vehicle || !weapon || !creature || !stage || stage.step === 'fire') return state;
+      if (stage.step === 'load' && isOutOfAmmunition(weapon)) {
+        return {
+          ...state,
+          actionLog: [...state.actionLog, createLogEntry(state.round, 'system', `${creature.name} can't load the ${weapon.name}`, 'Out of ammunition')],
+        };
+      }
+
+      const siegeActions = (weapon.siegeActions ?? 0) + 1;
+      const next = getSiegeStage({ ...weapon, siegeActions });
+      return {
+        ...state,
+        vehicles: state.vehicles.map((v) =>
+          v.id === vehicle.id
+            ? { ...v, weapons: v.weapons.map((w) => (w.id === weapon.id ? { ...w, siegeActions } : w)) }
+            : v
+        ),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(
+            state.round,
+            'ability',
+            `${creature.name} ${stage.step === 'load' ? 'loads' : 'aims'} the ${weapon.name}`,
+            next?.step === 'fire'
+              ? 'Ready to fire'
+              : `${next?.step === 'load' ? 'Loading' : 'Aiming'} ${next?.done ?? 0}/${next?.needed ?? 0} actions`
+          ),
+        ],
+      };
+    }
+
+    case 'RESUPPLY_WEAPON': {
+      const { vehicleId, weaponId, creatureId } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      const weapon = vehicle?.weapons.find((w) => w.id === weaponId);
+      const creature = state.creatures.find((c) => c.id === creatureId);
+      if (!vehicle || !weapon || !creature) return state;
+
+      const stores = vehicle.ammunitionStores ?? 0;
+      const amount = getResupplyAmount(weapon, stores);
+      if (amount === 0) {
+        return {
+          ...state,
+          actionLog: [
+            ...state.actionLog,
+            createLogEntry(state.round, 'system', `${creature.name} can't restock the ${weapon.name}`, stores === 0 ? 'No spare ammunition in the cargo' : 'Already fully stocked'),
+          ],
+        };
+      }
+
+      return {
+        ...state,
+        vehicles: state.vehicles.map((v) =>
+          v.id === vehicle.id
+            ? {
+                ...v,
+                ammunitionStores: stores - amount,
+                weapons: v.weapons.map((w) =>
+                  w.id === weapon.id ? { ...w, currentAmmunition: (w.currentAmmunition ?? 0) + amount } : w
+                ),
+              }
+            : v
+        ),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(
+            state.round,
+            'ability',
+            `${creature.name} restocks the ${weapon.name}`,
+            `${amount} from the cargo, ${stores - amount} spare left`
+          ),
+        ],
+      };
+    }
+    case 'SET_ENVIRONMENT':
+      return {
+        ...state,
+        environment: { ...state.environment, ...action.payload },
+      };
+
+    case 'SET_WIND':
+      return {
+        ...state,
+        environment: { ...state.environment, wind: action.payload ?? undefined },
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(
+            state.round,
+            'system',
+            action.payload ? `Wind set: ${describeWind(action.payload)}` : 'Wind cleared'
+          ),
+        ],
+      };
+
+    case 'SET_CHASE_MODE':
+      return {
+        ...state,
+        isChase: action.payload.isChase,
+        pursuerIds: action.payload.pursuerIds,
+        quarryIds: action.payload.quarryIds,
+      };
+
+    case 'SET_BACKGROUND_IMAGE':
+      return {
+        ...state,
+        battlefield: {
+          ...state.battlefield,
+          backgroundImage: action.payload ?? undefined,
+        },
+      };
+
+    // ========== Initiative ==========
+    case 'SET_INITIATIVE':
+      return {
+        ...state,
+        creatures: state.creatures.map((c) =>
+          c.id === action.payload.creatureId
+            ? { ...c, initiative: action.payload.initiative }
+            : c
+        ),
+      };
+
+    case 'SET_INITIATIVE_ORDER':
+      return {
+        ...state,
+        initiativeOrder: action.payload,
+      };
+
+    case 'START_COMBAT': {
+      // Vehicle-Based Initiative (per Avernus rules):
+      // - Each VEHICLE rolls initiative using driver's DEX modifier
+      // - ALL crew acts on the vehicle's turn simultaneously
+      // - Vehicles without drivers act LAST
+      // - Only creatures NOT assigned to any vehicle act separately
+
+      type InitiativeEntry = { id: string; type: 'creature' | 'vehicle' | 'lair'; initiative: number; name: string };
+      const initiativeEntries: InitiativeEntry[] = [];
+
+      // Get all creature IDs that are assigned to ANY vehicle
+      const crewCreatureIds = new Set(state.crewAssignments.map((a) => a.creatureId));
 
       // Add ALL vehicles to initiative
       state.vehicles.forEach((vehicle) => {
@@ -799,11 +1645,17 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         }
       });
 
-      // Sort by initiative (descending), then alphabetically for ties
+      // Lair actions take a turn of their own on initiative count 20
+      if (getLairCreatures(state.creatures).length > 0) {
+        initiativeEntries.push({ id: LAIR_TURN_ID, type: 'lair', initiative: LAIR_INITIATIVE, name: 'Lair' });
+      }
+
+      // Sort by initiative (descending), then alphabetically for ties; the lair loses ties
       initiativeEntries.sort((a, b) => {
         if (b.initiative !== a.initiative) {
           return b.initiative - a.initiative;
         }
+        if (a.type === 'lair' || b.type === 'lair') return a.type === 'lair' ? 1 : -1;
         return a.name.localeCompare(b.name);
       });
 
@@ -811,10 +1663,18 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         ...state,
         phase: 'combat',
         round: 1,
+        creatures: state.creatures.map((c) => (hasLegendaryActions(c) ? { ...c, legendaryActionsRemaining: getLegendaryActionsPerRound(c) } : c)),
         initiativeOrder: initiativeEntries.map((e) => e.id),
         currentTurnIndex: 0,
         movementUsed: {},
         moveHistory: [],
+        turnActions: {},
+        readiedActions: [],
+        reactionPrompts: [],
+        conditionSavePrompts: [],
+        concentrationSavePrompts: [],
+        deathSavePrompts: [],
+        legendaryOffer: undefined,
         actionLog: [
           ...state.actionLog,
           createLogEntry(1, 'round_start', 'Combat begins! Round 1'),
@@ -838,8 +1698,8 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
           continue;
         }
 
-        // Skip dead NPCs (but not PCs - they might need death saves)
-        if (candidateCreature && candidateCreature.currentHp === 0 && candidateCreature.statblock.type !== 'pc') {
+        // Skip the dead (but not dying PCs - they need death saves)
+        if (candidateCreature && isDead(candidateCreature)) {
           nextIndex++;
           continue;
         }
@@ -853,6 +1713,8 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         return state; // Handle via NEXT_ROUND
       }
 
+      // Conditions tick at the end of the outgoing turn, then at the start of the next
+      const ended = tickConditions(state, state.initiativeOrder[state.currentTurnIndex], 'end_of_turn');
       const nextId = state.initiativeOrder[nextIndex];
       const nextVehicle = state.vehicles.find((v) => v.id === nextId);
       const nextCreature = state.creatures.find((c) => c.id === nextId);
@@ -863,20 +1725,29 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         turnName = driver ? `${nextVehicle.name} (${driver.name})` : nextVehicle.name;
       } else if (nextCreature) {
         turnName = nextCreature.name;
+      } else if (isLairTurn(nextId)) {
+        turnName = 'Lair';
       }
 
-      return {
-        ...state,
-        currentTurnIndex: nextIndex,
-        actionLog: [
-          ...state.actionLog,
-          createLogEntry(
-            state.round,
-            'turn_start',
-            `${turnName}'s turn`
-          ),
-        ],
-      };
+      const started = tickConditions(
+        {
+          ...ended,
+          currentTurnIndex: nextIndex,
+          legendaryOffer: getLegendaryOffer(ended, state.initiativeOrder[state.currentTurnIndex], nextId),
+          ...startTurnEconomy(ended, nextId),
+          actionLog: [
+            ...ended.actionLog,
+            createLogEntry(
+              state.round,
+              'turn_start',
+              `${turnName}'s turn`
+            ),
+          ],
+        },
+        nextId,
+        'start_of_turn'
+      );
+      return applyTurnStartEffects(started, nextId);
     }
 
     case 'PREVIOUS_TURN': {
@@ -888,7 +1759,10 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
     }
 
     case 'NEXT_ROUND': {
+      // The last turn of the round ends before the new round starts
+      const ended = tickConditions(state, state.initiativeOrder[state.currentTurnIndex], 'end_of_turn');
       const newRound = state.round + 1;
+      const elapsedTime = state.elapsedTime + SCALES[state.scale].roundDuration;
       // Tick mishap durations and clear expired speed modifiers
       const updatedVehicles = state.vehicles.map((v) => {
         // Process mishaps
@@ -928,24 +1802,99 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         state.crewAssignments
       );
 
-      return {
-        ...state,
-        round: newRound,
-        currentTurnIndex: 0,
-        vehicles: updatedVehicles,
-        initiativeOrder: resortedInitiativeOrder,
-        movementUsed: {},
-        moveHistory: [],
-        actionLog: [
-          ...state.actionLog,
-          createLogEntry(newRound, 'round_start', `Round ${newRound} begins`),
-        ],
-      };
+      const logEntries: LogEntry[] = [createLogEntry(newRound, 'round_start', `Round ${newRound} begins`)];
+
+      // Currents drift water vehicles and swimming creatures; each drift is undoable
+      const driftHistory: MoveHistoryEntry[] = [];
+      const logDrift = (name: string, zone: CurrentZone) =>
+        logEntries.push(
+          createLogEntry(
+            newRound,
+            'movement',
+            `${name} drifts ${Math.round(getDriftDistance(zone, state.scale))} ft ${formatCompassPoint(zone.direction)}`,
+            zone.name
+          )
+        );
+
+      // Ship upgrades run on the combat clock: Living Vessel regrows, activated upgrades recharge
+      const tickedVehicles = updatedVehicles.map((v) => {
+        const result = tickNavalUpgrades(v, state.elapsedTime, elapsedTime, newRound);
+        logEntries.push(...result.logEntries);
+        return result.vehicle;
+      });
+
+      // Drifting is held to tethers like any other move, one vehicle at a time
+      let driftedVehicles = tickedVehicles;
+      for (const { id } of tickedVehicles) {
+        const v = driftedVehicles.find((d) => d.id === id);
+        if (!v || v.template.environment !== 'water') continue;
+        const zone = getCurrentAtPosition(v.position, state.currentZones);
+        if (!zone) continue;
+        const move = constrainTetheredMove(v, applyDrift(v.position, zone, state.scale), driftedVehicles, state.tethers);
+        const dragged = move.dragged && driftedVehicles.find((d) => d.id === move.dragged?.vehicleId);
+        driftHistory.push({
+          type: 'vehicle',
+          id: v.id,
+          previousPosition: v.position,
+          feetMoved: 0,
+          isDrift: true,
+          dragged: dragged ? { id: dragged.id, previousPosition: dragged.position } : undefined,
+        });
+        logDrift(v.name, zone);
+        driftedVehicles = driftedVehicles.map((d) => {
+          if (d.id === v.id) return { ...d, position: move.position };
+          if (move.dragged && d.id === move.dragged.vehicleId) return { ...d, position: move.dragged.position };
+          return d;
+        });
+      }
+
+      const assignedCreatureIds = new Set(state.crewAssignments.map((a) => a.creatureId));
+      const driftedCreatures = ended.creatures.map((c) => {
+        if (!c.position || assignedCreatureIds.has(c.id)) return c;
+        const zone = getCurrentAtPosition(c.position, state.currentZones);
+        if (!zone) return c;
+        driftHistory.push({ type: 'creature', id: c.id, previousPosition: c.position, feetMoved: 0, isDrift: true });
+        logDrift(c.name, zone);
+        return { ...c, position: applyDrift(c.position, zone, state.scale) };
+      });
+
+      // Optional per-round wind shift
+      let wind = state.environment.wind;
+      if (wind?.shiftEachRound) {
+        const shifted = rollWindShift(wind);
+        if (shifted.direction !== wind.direction || shifted.strength !== wind.strength) {
+          logEntries.push(createLogEntry(newRound, 'system', `Wind shifts: ${describeWind(shifted)}`));
+        }
+        wind = shifted;
+      }
+
+      const started = tickConditions(
+        {
+          ...ended,
+          round: newRound,
+          elapsedTime,
+          currentTurnIndex: 0,
+          vehicles: driftedVehicles,
+          creatures: driftedCreatures,
+          initiativeOrder: resortedInitiativeOrder,
+          legendaryOffer: getLegendaryOffer(ended, state.initiativeOrder[state.currentTurnIndex], resortedInitiativeOrder[0]),
+          environment: { ...state.environment, wind },
+          movementUsed: {},
+          moveHistory: driftHistory,
+          ...startTurnEconomy(ended, resortedInitiativeOrder[0]),
+          actionLog: [...ended.actionLog, ...logEntries],
+        },
+        resortedInitiativeOrder[0],
+        'start_of_turn'
+      );
+      return applyTurnStartEffects(started, resortedInitiativeOrder[0]);
     }
 
     case 'END_COMBAT':
+      // The replay has been archived by now
       return {
         ...state,
+        replay: undefined,
         phase: 'ended',
         actionLog: [
           ...state.actionLog,
@@ -957,24 +1906,43 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
       // Reset HP, mishaps, turns but keep vehicles/creatures/positions
       return {
         ...state,
+        replay: undefined,
         phase: 'setup',
         round: 0,
+        elapsedTime: 0,
         currentTurnIndex: 0,
         initiativeOrder: [],
         movementUsed: {},
         moveHistory: [],
+        boardingLinks: [],
+        tethers: [],
+        turnActions: {},
+        readiedActions: [],
+        reactionPrompts: [],
+        conditionSavePrompts: [],
+        concentrationSavePrompts: [],
+        deathSavePrompts: [],
+        legendaryOffer: undefined,
         vehicles: state.vehicles.map((v) => ({
           ...v,
           currentHp: v.template.maxHp,
           activeMishaps: [],
+          pendingMishap: undefined,
+          navalUpgradeRechargeAt: undefined,
+          gadgetUses: undefined,
+          isJuking: undefined,
+          weapons: v.weapons.map((w) => ({ ...w, currentAmmunition: getAmmunitionCapacity(w), siegeActions: undefined })),
         })),
         creatures: state.creatures.map((c) => ({
           ...c,
           currentHp: c.statblock.maxHp,
           initiative: 0,
+          deathSaves: undefined,
+          legendaryActionsRemaining: undefined,
+          abilityUses: undefined,
         })),
         actionLog: [
-          createLogEntry(0, 'system', 'Encounter reset - HP and mishaps restored'),
+          createLogEntry(0, 'system', 'Encounter reset - HP, mishaps, ammunition and limited-use abilities restored'),
         ],
       };
 
@@ -986,32 +1954,165 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         currentTurnIndex: 0,
         movementUsed: {},
         moveHistory: [],
+        turnActions: {},
+        readiedActions: [],
+        reactionPrompts: [],
+        conditionSavePrompts: [],
+        concentrationSavePrompts: [],
+        deathSavePrompts: [],
+        legendaryOffer: undefined,
         actionLog: [
           ...state.actionLog,
           createLogEntry(state.round, 'system', 'Returned to setup phase'),
         ],
       };
 
+    // ========== Action Economy ==========
+    case 'DECLARE_TURN_ACTIONS': {
+      const { creatureId, actions } = action.payload;
+      const current = state.turnActions[creatureId];
+      if (current?.resolved) return state;
+      const declared = { ...current, ...actions };
+      const next = { ...state, turnActions: { ...state.turnActions, [creatureId]: declared } };
+
+      // Declaring an attack can set off readied actions, and the target's Juke against a Dex save
+      const attacker = state.creatures.find((c) => c.id === creatureId);
+      const newTarget =
+        actions.attackTarget && actions.attackTarget !== current?.attackTarget
+          ? decodeAttackTarget(actions.attackTarget)
+          : actions.target && actions.target !== current?.target && isAttackAction(declared.action)
+            ? ({ kind: 'creature', creatureId: actions.target } as const)
+            : undefined;
+      if (!attacker || !newTarget) return next;
+      const station = state.crewAssignments.find((a) => a.creatureId === creatureId);
+      const stationWeapon = actions.attackTarget
+        ? state.vehicles.find((v) => v.id === station?.vehicleId)?.weapons.find((w) => w.zoneId === station?.zoneId)
+        : undefined;
+      const dexSave = !!stationWeapon && getWeaponSave(stationWeapon)?.ability === 'dex';
+      return addReactionPrompts(
+        next,
+        findAttackTriggers(next, attacker, newTarget, dexSave, (v) => findVehicleDriver(v, next.crewAssignments, next.creatures))
+      );
+    }
+
+    case 'RESOLVE_TURN_ACTIONS': {
+      const { creatureId } = action.payload;
+      return {
+        ...state,
+        turnActions: { ...state.turnActions, [creatureId]: { ...state.turnActions[creatureId], resolved: true } },
+      };
+    }
+
+    case 'READY_ACTION': {
+      const creature = state.creatures.find((c) => c.id === action.payload.creatureId);
+      if (!creature) return state;
+      const readied: ReadiedAction = { ...action.payload, id: newId(), createdAtRound: state.round };
+      return {
+        ...state,
+        // One readied action at a time
+        readiedActions: [...state.readiedActions.filter((r) => r.creatureId !== creature.id), readied],
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(
+            state.round,
+            'ability',
+            `${creature.name} readies: ${readied.action}`,
+            `Trigger: ${readied.triggerText || READY_TRIGGERS[readied.trigger].name}${readied.range !== undefined ? ` (${readied.range} ft)` : ''}`
+          ),
+        ],
+      };
+    }
+
+    case 'CANCEL_READIED_ACTION': {
+      const { readiedActionId } = action.payload;
+      return {
+        ...state,
+        readiedActions: state.readiedActions.filter((r) => r.id !== readiedActionId),
+        reactionPrompts: state.reactionPrompts.filter((p) => p.readiedActionId !== readiedActionId),
+      };
+    }
+
+    case 'TRIGGER_READIED_ACTION': {
+      const readied = state.readiedActions.find((r) => r.id === action.payload.readiedActionId);
+      if (!readied) return state;
+      return addReactionPrompts(state, [
+        { creatureId: readied.creatureId, reaction: readied.action, readiedActionId: readied.id, event: action.payload.event },
+      ]);
+    }
+
+    case 'RESOLVE_REACTION_PROMPT': {
+      const prompt = state.reactionPrompts.find((p) => p.id === action.payload.promptId);
+      if (!prompt) return state;
+      if (!action.payload.use) {
+        return { ...state, reactionPrompts: state.reactionPrompts.filter((p) => p.id !== prompt.id) };
+      }
+      const next = combatReducer(state, {
+        type: 'USE_REACTION',
+        payload: { creatureId: prompt.creatureId, reaction: prompt.reaction, vehicleId: prompt.vehicleId },
+      });
+      if (hasSpentReaction(state.turnActions[prompt.creatureId])) {
+        return { ...next, reactionPrompts: next.reactionPrompts.filter((p) => p.id !== prompt.id) };
+      }
+      // Taking a readied action uses it up
+      return { ...next, readiedActions: next.readiedActions.filter((r) => r.id !== prompt.readiedActionId) };
+    }
+
+    case 'USE_REACTION': {
+      const { creatureId, reaction, vehicleId } = action.payload;
+      const creature = state.creatures.find((c) => c.id === creatureId);
+      if (!creature) return state;
+      const current = state.turnActions[creatureId];
+      if (hasSpentReaction(current)) {
+        return {
+          ...state,
+          actionLog: [
+            ...state.actionLog,
+            createLogEntry(state.round, 'system', `${creature.name} has already used their reaction this round`, current?.reaction),
+          ],
+        };
+      }
+      const vehicle = vehicleId ? state.vehicles.find((v) => v.id === vehicleId) : undefined;
+      const juking = vehicle && reaction === JUKE_REACTION_NAME;
+      return {
+        ...state,
+        vehicles: juking ? state.vehicles.map((v) => (v.id === vehicle.id ? { ...v, isJuking: true } : v)) : state.vehicles,
+        turnActions: { ...state.turnActions, [creatureId]: { ...current, reaction } },
+        // Any other reaction the creature was being offered lapses
+        reactionPrompts: state.reactionPrompts.filter((p) => p.creatureId !== creatureId),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(
+            state.round,
+            'ability',
+            vehicle ? `${creature.name} uses ${vehicle.name}'s ${reaction}` : `${creature.name} uses their reaction: ${reaction}`,
+            'Reaction'
+          ),
+        ],
+      };
+    }
+
     // ========== Damage & Healing ==========
     case 'DAMAGE_VEHICLE_COMPONENT': {
-      const { vehicleId, componentId, amount } = action.payload;
+      const { vehicleId, componentId, parts, source } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      const component = vehicle?.template.components?.find((c) => c.id === componentId);
+      if (!vehicle || !component) return state;
+
+      const damage = applyDamageDefenses(parts, getVehicleDefenses(vehicle, component));
+      const result = applyComponentDamage(vehicle, component, damage.total);
+      const ignored = result.applied < damage.total;
       return {
         ...state,
-        vehicles: state.vehicles.map((v) => {
-          if (v.id !== vehicleId) return v;
-          const comp = v.template.components?.find((c) => c.id === componentId);
-          if (!comp) return v;
-          // A hit below the component's damage threshold is superficial (no damage).
-          const applied = amount < (comp.damageThreshold ?? 0) ? 0 : amount;
-          if (comp.kind === 'hull') {
-            const newHp = Math.max(0, v.currentHp - applied);
-            const shouldEject = newHp === 0 && !v.isInoperative;
-            return { ...v, currentHp: newHp, isInoperative: shouldEject ? true : v.isInoperative };
-          }
-          const cur = v.componentHp?.[componentId] ?? comp.maxHp;
-          const newHp = Math.max(0, cur - applied);
-          return { ...v, componentHp: { ...(v.componentHp || {}), [componentId]: newHp } };
-        }),
+        vehicles: state.vehicles.map((v) => (v.id === vehicleId ? result.vehicle : v)),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(
+            state.round,
+            ignored ? 'system' : 'damage',
+            `${vehicle.name} ${component.name} ${ignored ? 'ignores' : 'takes'} ${damage.total} damage`,
+            describeDamage(damage, source, ignored ? `below damage threshold of ${component.damageThreshold}` : undefined)
+          ),
+        ],
       };
     }
 
@@ -1033,11 +2134,50 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
       };
     }
 
+    case 'REPAIR_VEHICLE_COMPONENT': {
+      const { vehicleId, componentId, amount, source } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      const component = vehicle?.template.components?.find((c) => c.id === componentId);
+      if (!vehicle || !component) return state;
+
+      const { vehicle: repaired, restored } = applyComponentRepair(vehicle, component, amount);
+      return {
+        ...state,
+        vehicles: state.vehicles.map((v) => (v.id === vehicleId ? repaired : v)),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(
+            state.round,
+            'healing',
+            `${vehicle.name}'s ${component.name} is repaired for ${restored} HP`,
+            source
+          ),
+        ],
+      };
+    }
+
     case 'DEAL_DAMAGE_TO_VEHICLE': {
       const vehicle = state.vehicles.find((v) => v.id === action.payload.vehicleId);
       if (!vehicle) return state;
 
-      const newHp = Math.max(0, vehicle.currentHp - action.payload.amount);
+      const damage = applyDamageDefenses(action.payload.parts, getVehicleDefenses(vehicle));
+      const threshold = getEffectiveDamageThreshold(vehicle);
+      if (damage.total < threshold) {
+        return {
+          ...state,
+          actionLog: [
+            ...state.actionLog,
+            createLogEntry(
+              state.round,
+              'system',
+              `${vehicle.name} ignores ${damage.total} damage`,
+              describeDamage(damage, action.payload.source, `below damage threshold of ${threshold}`)
+            ),
+          ],
+        };
+      }
+
+      const newHp = Math.max(0, vehicle.currentHp - damage.total);
       // Eject crew if vehicle reaches 0 HP and not already marked inoperative
       const shouldEjectCrew = newHp === 0 && !vehicle.isInoperative;
 
@@ -1050,11 +2190,25 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         createLogEntry(
           state.round,
           'damage',
-          `${vehicle.name} takes ${action.payload.amount} damage`,
-          action.payload.source
+          `${vehicle.name} takes ${damage.total} damage`,
+          describeDamage(damage, action.payload.source)
         ),
       ];
-      const ejectedCreatures: Creature[] = [];
+
+      // Mishaps are an Avernus war-machine mechanic; component vehicles (ships) model
+      // harm through their components instead and never roll mishaps.
+      let pendingMishap = vehicle.pendingMishap;
+      if (newHp > 0 && !hasComponents(vehicle) && checkMishapFromDamage(damage.total, vehicle.template.mishapThreshold)) {
+        const reason = `${damage.total} damage >= ${vehicle.template.mishapThreshold} mishap threshold`;
+        if (pendingMishap) {
+          logEntries.push(
+            createLogEntry(state.round, 'mishap', `Mishap! ${vehicle.name}: ${reason}`, 'Another mishap is still awaiting confirmation — roll this one manually')
+          );
+        } else {
+          pendingMishap = rollPendingMishap(vehicle, reason);
+          logEntries.push(describePendingMishap(vehicle, reason, pendingMishap, state.round));
+        }
+      }
 
       if (shouldEjectCrew) {
         // Find all crew on this vehicle
@@ -1071,37 +2225,15 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         }
 
         if (vehicleCrew.length > 0) {
-          // Give each crew member a position near the vehicle (spread them out)
-          updatedCreatures = state.creatures.map((creature) => {
-            const assignment = vehicleCrew.find((a) => a.creatureId === creature.id);
-            if (!assignment) return creature;
-
-            // Spread creatures around the vehicle in a circle
-            const crewIndex = vehicleCrew.indexOf(assignment);
-            const angle = (crewIndex / vehicleCrew.length) * 2 * Math.PI;
-            const offset = 15; // 15 feet from vehicle center
-            const newPosition = {
-              x: vehicle.position.x + Math.cos(angle) * offset,
-              y: vehicle.position.y + Math.sin(angle) * offset,
-            };
-
-            const updatedCreature = { ...creature, position: newPosition };
-            ejectedCreatures.push(updatedCreature);
-            return updatedCreature;
-          });
-
-          // Remove all crew assignments for this vehicle
-          updatedCrewAssignments = state.crewAssignments.filter((a) => a.vehicleId !== vehicle.id);
-
-          // Add ejected creatures to initiative order (if in combat)
-          if (state.phase === 'combat' && ejectedCreatures.length > 0) {
-            updatedInitiativeOrder = insertCreaturesIntoInitiative(
-              updatedInitiativeOrder,
-              ejectedCreatures,
-              updatedCreatures,
-              state.vehicles
-            );
-          }
+          const ejected = ejectCrew(
+            { ...state, initiativeOrder: updatedInitiativeOrder },
+            vehicle,
+            vehicleCrew.map((a) => a.creatureId),
+            15 // 15 feet from vehicle center
+          );
+          updatedCreatures = ejected.creatures;
+          updatedCrewAssignments = ejected.crewAssignments;
+          updatedInitiativeOrder = ejected.initiativeOrder;
 
           // Add log entry for vehicle destruction
           logEntries.push(
@@ -1119,7 +2251,7 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         ...state,
         vehicles: state.vehicles.map((v) =>
           v.id === action.payload.vehicleId
-            ? { ...v, currentHp: newHp, isInoperative: shouldEjectCrew ? true : v.isInoperative }
+            ? { ...v, currentHp: newHp, isInoperative: shouldEjectCrew ? true : v.isInoperative, pendingMishap }
             : v
         ),
         creatures: updatedCreatures,
@@ -1155,7 +2287,8 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
       const creature = state.creatures.find((c) => c.id === action.payload.creatureId);
       if (!creature) return state;
 
-      let remaining = action.payload.amount;
+      const damage = applyDamageDefenses(action.payload.parts, getCreatureDefenses(creature));
+      let remaining = damage.total;
       let newTempHp = creature.tempHp;
       let newHp = creature.currentHp;
 
@@ -1173,13 +2306,37 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         createLogEntry(
           state.round,
           'damage',
-          `${creature.name} takes ${action.payload.amount} damage`,
-          action.payload.source
+          `${creature.name} takes ${damage.total} damage`,
+          describeDamage(damage, action.payload.source)
         ),
       ];
 
+      // A PC at 0 HP is dying: damage there costs death saves, and enough of it kills outright
+      let deathSaves = creature.deathSaves;
+      if (isPlayerCharacter(creature) && remaining > 0 && !creature.deathSaves?.dead) {
+        const overflow = remaining - creature.currentHp;
+        if (overflow >= creature.statblock.maxHp) {
+          deathSaves = { successes: 0, failures: DEATH_SAVES_NEEDED, dead: true };
+          logEntries.push(createLogEntry(state.round, 'system', `${creature.name} is killed outright`, `${overflow} damage past 0 HP`));
+        } else if (justDied) {
+          deathSaves = NEW_DEATH_SAVES;
+          logEntries.push(createLogEntry(state.round, 'system', `${creature.name} drops to 0 HP and is dying`));
+        } else if (creature.currentHp === 0) {
+          deathSaves = addDeathSaveFailures(creature.deathSaves, action.payload.critical ? 2 : 1);
+          logEntries.push(
+            createLogEntry(
+              state.round,
+              'system',
+              deathSaves.dead ? `${creature.name} dies` : `${creature.name} suffers ${action.payload.critical ? 'two death save failures' : 'a death save failure'}`,
+              `Damage at 0 HP (${deathSaves.failures}/${DEATH_SAVES_NEEDED} failures)`
+            )
+          );
+        }
+      }
+
       // If creature died while on a vehicle, log that station is unmanned
       // (Body stays at station - crew assignment remains, but weapon ranges won't show)
+      let updatedVehicles = state.vehicles;
       if (justDied) {
         const assignment = state.crewAssignments.find((a) => a.creatureId === creature.id);
         if (assignment) {
@@ -1193,18 +2350,40 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
               zone ? `${zone.name} on ${vehicle?.name} is now unmanned` : undefined
             )
           );
+          const casualty = applyCrewCasualty(state.vehicles, assignment.vehicleId, creature.name, state.round);
+          updatedVehicles = casualty.vehicles;
+          logEntries.push(...casualty.logEntries);
         }
       }
 
-      return {
+      const damaged: CombatState = {
         ...state,
+        vehicles: updatedVehicles,
         creatures: state.creatures.map((c) =>
           c.id === action.payload.creatureId
-            ? { ...c, currentHp: newHp, tempHp: newTempHp }
+            ? { ...c, currentHp: newHp, tempHp: newTempHp, deathSaves }
             : c
         ),
         actionLog: [...state.actionLog, ...logEntries],
       };
+
+      // Damage to a concentrating creature calls for a Con save; dropping to 0 HP ends it outright
+      if (!creature.concentrating || damage.total === 0) return damaged;
+      if (newHp === 0) return endConcentration(damaged, creature.id, 'Dropped to 0 HP');
+      return {
+        ...damaged,
+        concentrationSavePrompts: [
+          ...damaged.concentrationSavePrompts,
+          {
+            id: newId(),
+            creatureId: creature.id,
+            spell: creature.concentrating,
+            dc: getConcentrationSaveDc(damage.total),
+            damage: damage.total,
+            round: state.round,
+          },
+        ],
+      };
     }
 
     case 'HEAL_CREATURE': {
@@ -1215,11 +2394,13 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         creature.statblock.maxHp,
         creature.currentHp + action.payload.amount
       );
+      // Any healing brings a dying PC back and clears its death saves
       return {
         ...state,
         creatures: state.creatures.map((c) =>
-          c.id === action.payload.creatureId ? { ...c, currentHp: newHp } : c
+          c.id === action.payload.creatureId ? { ...c, currentHp: newHp, deathSaves: newHp > 0 ? undefined : c.deathSaves } : c
         ),
+        deathSavePrompts: newHp > 0 ? state.deathSavePrompts.filter((p) => p.creatureId !== creature.id) : state.deathSavePrompts,
         actionLog: [
           ...state.actionLog,
           createLogEntry(
@@ -1231,12 +2412,379 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
       };
     }
 
+    case 'ADD_CONDITION': {
+      const { creatureId, condition } = action.payload;
+      const creature = state.creatures.find((c) => c.id === creatureId);
+      if (!creature) return state;
+      // A creature has each condition once; adding it again replaces it (exhaustion sets the level)
+      const next: CombatState = {
+        ...state,
+        creatures: state.creatures.map((c) =>
+          c.id === creatureId ? { ...c, conditions: [...c.conditions.filter((cond) => cond.name !== condition.name), condition] } : c
+        ),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(state.round, 'condition', `${creature.name} is ${formatCondition(condition)}`),
+        ],
+      };
+      return creature.concentrating && breaksConcentration(condition)
+        ? endConcentration(next, creatureId, `Became ${condition.name}`)
+        : next;
+    }
+
+    case 'REMOVE_CONDITION': {
+      const { creatureId, name, reason } = action.payload;
+      const creature = state.creatures.find((c) => c.id === creatureId);
+      if (!creature || !hasCondition(creature, name)) return state;
+      return {
+        ...state,
+        creatures: state.creatures.map((c) =>
+          c.id === creatureId ? { ...c, conditions: c.conditions.filter((cond) => cond.name !== name) } : c
+        ),
+        conditionSavePrompts: state.conditionSavePrompts.filter((p) => p.creatureId !== creatureId || p.condition !== name),
+        actionLog: [...state.actionLog, createLogEntry(state.round, 'condition', `${creature.name} is no longer ${name}`, reason)],
+      };
+    }
+
+    case 'START_CONCENTRATION': {
+      const { creatureId, spell } = action.payload;
+      const creature = state.creatures.find((c) => c.id === creatureId);
+      if (!creature || !spell.trim()) return state;
+      // Concentrating on a new spell ends the old one
+      const next = creature.concentrating ? endConcentration(state, creatureId, `Concentrating on ${spell} instead`) : state;
+      return {
+        ...next,
+        creatures: next.creatures.map((c) => (c.id === creatureId ? { ...c, concentrating: spell.trim() } : c)),
+        actionLog: [...next.actionLog, createLogEntry(next.round, 'ability', `${creature.name} concentrates on ${spell.trim()}`)],
+      };
+    }
+
+    case 'END_CONCENTRATION':
+      return endConcentration(state, action.payload.creatureId, action.payload.reason);
+
+    case 'RESOLVE_CONCENTRATION_SAVE': {
+      const { promptId, roll } = action.payload;
+      const prompt = state.concentrationSavePrompts.find((p) => p.id === promptId);
+      if (!prompt) return state;
+      const next = { ...state, concentrationSavePrompts: state.concentrationSavePrompts.filter((p) => p.id !== prompt.id) };
+      const creature = next.creatures.find((c) => c.id === prompt.creatureId);
+      if (!roll || !creature || creature.concentrating !== prompt.spell) return next;
+
+      const saveText = `${roll.total} vs DC ${prompt.dc} CON (${prompt.damage} damage)`;
+      if (roll.total >= prompt.dc) {
+        return {
+          ...next,
+          actionLog: [
+            ...next.actionLog,
+            createLogEntry(next.round, 'ability', `${creature.name} keeps concentration on ${prompt.spell}`, saveText, [roll]),
+          ],
+        };
+      }
+      return endConcentration(next, creature.id, `Failed the save: ${saveText}`, [roll]);
+    }
+
+    case 'RESOLVE_DEATH_SAVE': {
+      const { promptId, roll } = action.payload;
+      const prompt = state.deathSavePrompts.find((p) => p.id === promptId);
+      if (!prompt) return state;
+      const next = { ...state, deathSavePrompts: state.deathSavePrompts.filter((p) => p.id !== prompt.id) };
+      const creature = next.creatures.find((c) => c.id === prompt.creatureId);
+      if (!roll || !creature || !isDying(creature)) return next;
+
+      const outcome = applyDeathSave(creature.deathSaves, roll);
+      return {
+        ...next,
+        creatures: next.creatures.map((c) =>
+          c.id === creature.id ? { ...c, currentHp: outcome.regainsHp ? 1 : c.currentHp, deathSaves: outcome.deathSaves } : c
+        ),
+        actionLog: [
+          ...next.actionLog,
+          createLogEntry(next.round, 'ability', `${creature.name} makes a death save: ${outcome.summary}`, `Rolled ${roll.total}`, [roll]),
+        ],
+      };
+    }
+
+    case 'STABILIZE_CREATURE': {
+      const creature = state.creatures.find((c) => c.id === action.payload.creatureId);
+      if (!creature || !isDying(creature)) return state;
+      return {
+        ...state,
+        creatures: state.creatures.map((c) =>
+          c.id === creature.id ? { ...c, deathSaves: { ...(c.deathSaves ?? NEW_DEATH_SAVES), stable: true } } : c
+        ),
+        deathSavePrompts: state.deathSavePrompts.filter((p) => p.creatureId !== creature.id),
+        actionLog: [...state.actionLog, createLogEntry(state.round, 'healing', `${creature.name} is stabilized`, action.payload.source)],
+      };
+    }
+
+    case 'USE_LEGENDARY_ACTION': {
+      const { creatureId, actionName } = action.payload;
+      const creature = state.creatures.find((c) => c.id === creatureId);
+      const option = creature?.statblock.legendaryActions?.find((a) => a.name === actionName);
+      if (!creature || !option) return state;
+      const remaining = getLegendaryActionsRemaining(creature) - getLegendaryActionCost(option);
+      if (remaining < 0) return state;
+      // One legendary action at the end of each turn
+      return {
+        ...state,
+        creatures: state.creatures.map((c) => (c.id === creatureId ? { ...c, legendaryActionsRemaining: remaining } : c)),
+        legendaryOffer: withoutLegendaryCreature(state.legendaryOffer, creatureId),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(
+            state.round,
+            'ability',
+            `${creature.name} uses ${option.name}`,
+            `Legendary action · ${remaining}/${getLegendaryActionsPerRound(creature)} left${option.description ? ` · ${option.description}` : ''}`
+          ),
+        ],
+      };
+    }
+
+    case 'PASS_LEGENDARY_ACTIONS':
+      return { ...state, legendaryOffer: undefined };
+
+    case 'USE_LAIR_ACTION': {
+      const { creatureId, name, description } = action.payload;
+      const creature = state.creatures.find((c) => c.id === creatureId);
+      // One lair action per round, on the lair's turn
+      if (!name.trim() || !isLairTurn(state.initiativeOrder[state.currentTurnIndex]) || state.turnActions[LAIR_TURN_ID]?.resolved) {
+        return state;
+      }
+      return {
+        ...state,
+        turnActions: { ...state.turnActions, [LAIR_TURN_ID]: { action: name.trim(), resolved: true } },
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(state.round, 'ability', `Lair action${creature ? ` (${creature.name})` : ''}: ${name.trim()}`, description),
+        ],
+      };
+    }
+
+    case 'TOGGLE_LAIR_TURN': {
+      if (state.phase !== 'combat') return state;
+      const index = state.initiativeOrder.indexOf(LAIR_TURN_ID);
+      if (index !== -1) {
+        if (index === state.currentTurnIndex) return state; // Finish the lair's turn first
+        return {
+          ...state,
+          initiativeOrder: state.initiativeOrder.filter((id) => id !== LAIR_TURN_ID),
+          currentTurnIndex: index < state.currentTurnIndex ? state.currentTurnIndex - 1 : state.currentTurnIndex,
+          actionLog: [...state.actionLog, createLogEntry(state.round, 'system', 'Lair actions removed from initiative')],
+        };
+      }
+      // Into the order after everyone on 20 or higher
+      const initiativeOf = (id: string) => {
+        const vehicle = state.vehicles.find((v) => v.id === id);
+        if (vehicle) return getVehicleInitiative(vehicle, state.crewAssignments, state.creatures);
+        return state.creatures.find((c) => c.id === id)?.initiative ?? 0;
+      };
+      const insertAt = state.initiativeOrder.findIndex((id) => initiativeOf(id) < LAIR_INITIATIVE);
+      const at = insertAt === -1 ? state.initiativeOrder.length : insertAt;
+      const initiativeOrder = [...state.initiativeOrder.slice(0, at), LAIR_TURN_ID, ...state.initiativeOrder.slice(at)];
+      return {
+        ...state,
+        initiativeOrder,
+        currentTurnIndex: at <= state.currentTurnIndex ? state.currentTurnIndex + 1 : state.currentTurnIndex,
+        actionLog: [...state.actionLog, createLogEntry(state.round, 'system', `Lair actions added on initiative ${LAIR_INITIATIVE}`)],
+      };
+    }
+
+    case 'USE_CREATURE_ABILITY': {
+      const { creatureId, actionName } = action.payload;
+      const creature = state.creatures.find((c) => c.id === creatureId);
+      const ability = creature && getLimitedActions(creature).find((a) => a.name === actionName);
+      if (!creature || !ability || !isAbilityAvailable(creature, ability)) return state;
+
+      const used = getAbilityUses(creature, actionName) + 1;
+      return {
+        ...state,
+        creatures: state.creatures.map((c) =>
+          c.id === creatureId ? { ...c, abilityUses: { ...(c.abilityUses || {}), [actionName]: used } } : c
+        ),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(state.round, 'ability', `${creature.name} uses ${actionName}`, formatAbilityLimit(ability, used)),
+        ],
+      };
+    }
+
+    case 'RECHARGE_CREATURE_ABILITY': {
+      const { creatureId, actionName } = action.payload;
+      const creature = state.creatures.find((c) => c.id === creatureId);
+      if (!creature || getAbilityUses(creature, actionName) === 0) return state;
+
+      const abilityUses = { ...(creature.abilityUses || {}) };
+      delete abilityUses[actionName];
+      return {
+        ...state,
+        creatures: state.creatures.map((c) => (c.id === creatureId ? { ...c, abilityUses } : c)),
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(state.round, 'system', `${creature.name}'s ${actionName} is ready again`),
+        ],
+      };
+    }
+
+    case 'RESOLVE_CONDITION_SAVE': {
+      const { promptId, roll } = action.payload;
+      const prompt = state.conditionSavePrompts.find((p) => p.id === promptId);
+      if (!prompt) return state;
+      const next = { ...state, conditionSavePrompts: state.conditionSavePrompts.filter((p) => p.id !== prompt.id) };
+      const creature = next.creatures.find((c) => c.id === prompt.creatureId);
+      if (!roll || !creature) return next;
+
+      // The roll comes from the UI with the creature's advantage/disadvantage; automatic failure is applied here
+      const { autoFail } = getSaveRollMode(creature, prompt.ability);
+      const saveText = `${roll.total} vs DC ${prompt.dc} ${prompt.ability.toUpperCase()}${autoFail ? ' (fails automatically)' : ''}`;
+      if (!autoFail && roll.total >= prompt.dc) {
+        return combatReducer(
+          { ...next, actionLog: [...next.actionLog, createLogEntry(next.round, 'ability', `${creature.name} saves against being ${prompt.condition}`, saveText, [roll])] },
+          { type: 'REMOVE_CONDITION', payload: { creatureId: creature.id, name: prompt.condition, reason: 'Saved' } }
+        );
+      }
+      return {
+        ...next,
+        actionLog: [...next.actionLog, createLogEntry(next.round, 'ability', `${creature.name} is still ${prompt.condition}`, saveText, [roll])],
+      };
+    }
+
+    case 'RAM': {
+      const { vehicleId, targetId } = action.payload;
+      const rammer = state.vehicles.find((v) => v.id === vehicleId);
+      const targetVehicle = state.vehicles.find((v) => v.id === targetId);
+      const targetCreature = state.creatures.find((c) => c.id === targetId);
+      const target = targetVehicle ?? targetCreature;
+      if (!rammer || !target) return state;
+      const targetName = target.name;
+
+      if (!isInRamContact(rammer, target)) {
+        const gap = getRamGap(rammer, target);
+        return {
+          ...state,
+          actionLog: [
+            ...state.actionLog,
+            createLogEntry(
+              state.round,
+              'system',
+              `${rammer.name} can't ram ${targetName}`,
+              `${gap === undefined ? 'Not on the map' : `${gap} ft away`} — end the move within ${RAM_CONTACT_RANGE} ft of the target`
+            ),
+          ],
+        };
+      }
+
+      const distanceMoved = state.movementUsed[vehicleId] || 0;
+      const dice = getRamDamageDice(rammer, distanceMoved);
+      if (!dice) {
+        return {
+          ...state,
+          actionLog: [
+            ...state.actionLog,
+            createLogEntry(
+              state.round,
+              'system',
+              `${rammer.name} can't ram ${targetName}`,
+              `Moved ${distanceMoved} ft this round — a ram needs at least 10 ft of momentum`
+            ),
+          ],
+        };
+      }
+
+      const source = `Rammed by ${rammer.name}`;
+      let next: CombatState = {
+        ...state,
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(
+            state.round,
+            'attack',
+            `${rammer.name} rams ${targetName}`,
+            `${distanceMoved} ft moved — ${dice.target}${dice.navalRam ? ` (${dice.navalRam.name})` : ''}`
+          ),
+        ],
+      };
+
+      if (targetVehicle) {
+        next = combatReducer(next, {
+          type: 'DEAL_DAMAGE_TO_VEHICLE',
+          payload: { vehicleId: targetVehicle.id, parts: rollDamageParts(dice.target), source },
+        });
+        // The rammer takes its share of the crash — on the naval ram if it has one
+        const rammerParts = rollDamageParts(dice.rammer);
+        const crashSource = `Ramming ${targetVehicle.name}`;
+        next = dice.navalRam
+          ? combatReducer(next, {
+              type: 'DAMAGE_VEHICLE_COMPONENT',
+              payload: { vehicleId, componentId: dice.navalRam.id, parts: rammerParts, source: crashSource },
+            })
+          : combatReducer(next, { type: 'DEAL_DAMAGE_TO_VEHICLE', payload: { vehicleId, parts: rammerParts, source: crashSource } });
+
+        next = {
+          ...next,
+          vehicles: next.vehicles.map((v) =>
+            v.id === targetVehicle.id && !v.isInoperative
+              ? { ...v, position: getPushedPosition(rammer.position, v.position, RAM_PUSH_DISTANCE) }
+              : v
+          ),
+        };
+      } else if (targetCreature) {
+        const { save, passed, note } = rollCreatureSave(targetCreature, 'dex', RAM_SAVE_DC);
+        const parts = rollDamageParts(dice.target).map((p) => (passed ? { ...p, amount: Math.floor(p.amount / 2) } : p));
+        next = {
+          ...next,
+          actionLog: [
+            ...next.actionLog,
+            createLogEntry(
+              next.round,
+              'ability',
+              `${targetCreature.name} ${passed ? 'succeeds on' : 'fails'} a DC ${RAM_SAVE_DC} Dex save`,
+              `${save.total} vs DC ${RAM_SAVE_DC}${note} — ${passed ? 'half damage' : `knocked prone and shoved ${RAM_PUSH_DISTANCE} ft`}`,
+              [save]
+            ),
+          ],
+        };
+        next = combatReducer(next, { type: 'DEAL_DAMAGE_TO_CREATURE', payload: { creatureId: targetCreature.id, parts, source } });
+        if (!passed) {
+          next = {
+            ...next,
+            creatures: next.creatures.map((c) =>
+              c.id === targetCreature.id
+                ? {
+                    ...c,
+                    position: c.position ? getPushedPosition(rammer.position, c.position, RAM_PUSH_DISTANCE) : c.position,
+                    conditions: c.conditions.some((cond) => cond.name === 'prone')
+                      ? c.conditions
+                      : [...c.conditions, { name: 'prone' as const, source }],
+                  }
+                : c
+            ),
+          };
+        }
+      }
+
+      // The crash stops the rammer dead for the rest of the round
+      const stop: SpeedModifier = {
+        id: newId(),
+        source: `Rammed ${targetName}`,
+        multiplier: 0,
+        duration: 'this_round',
+        appliedAtRound: state.round,
+      };
+      return {
+        ...next,
+        vehicles: next.vehicles.map((v) =>
+          v.id === vehicleId ? { ...v, speedModifiers: [...(v.speedModifiers || []), stop] } : v
+        ),
+      };
+    }
+
     // ========== Mishaps ==========
     case 'APPLY_MISHAP': {
       const vehicle = state.vehicles.find((v) => v.id === action.payload.vehicleId);
       if (!vehicle) return state;
 
-      return {
+      const next: CombatState = {
         ...state,
         vehicles: state.vehicles.map((v) =>
           v.id === action.payload.vehicleId
@@ -1253,6 +2801,7 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
           ),
         ],
       };
+      return applyFlipSaves(next, vehicle.id, action.payload.mishap, !!action.payload.ejectOnFailedSave);
     }
 
     case 'REPAIR_MISHAP':
@@ -1270,16 +2819,105 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         ),
       };
 
-    // ========== Position & Scale ==========
-    case 'UPDATE_VEHICLE_POSITION':
-      return {
+    case 'RESOLVE_PENDING_MISHAP': {
+      const vehicle = state.vehicles.find((v) => v.id === action.payload.vehicleId);
+      const pending = vehicle?.pendingMishap;
+      if (!vehicle || !pending) return state;
+
+      const { mishap } = pending;
+      // Instant mishaps happen and are done; the rest stay on the vehicle until they end or are repaired
+      const lasting = action.payload.apply && mishap.duration !== 'instant';
+      const next: CombatState = {
         ...state,
         vehicles: state.vehicles.map((v) =>
-          v.id === action.payload.vehicleId
-            ? { ...v, position: action.payload.position }
+          v.id === vehicle.id
+            ? { ...v, pendingMishap: undefined, activeMishaps: lasting ? [...v.activeMishaps, mishap] : v.activeMishaps }
             : v
         ),
+        actionLog: [
+          ...state.actionLog,
+          action.payload.apply
+            ? createLogEntry(state.round, 'mishap', `${vehicle.name}: ${mishap.name}`, mishap.effect)
+            : createLogEntry(state.round, 'mishap', `${vehicle.name}: ${mishap.name} dismissed`, 'Dismissed by the DM'),
+        ],
+      };
+      return action.payload.apply ? applyFlipSaves(next, vehicle.id, mishap, !!action.payload.ejectOnFailedSave) : next;
+    }
+
+    case 'REROLL_PENDING_MISHAP': {
+      const vehicle = state.vehicles.find((v) => v.id === action.payload.vehicleId);
+      if (!vehicle?.pendingMishap) return state;
+
+      const { reason } = vehicle.pendingMishap;
+      const pendingMishap = rollPendingMishap(vehicle, reason);
+      return {
+        ...state,
+        vehicles: state.vehicles.map((v) => (v.id === vehicle.id ? { ...v, pendingMishap } : v)),
+        actionLog: [...state.actionLog, describePendingMishap(vehicle, `rerolled (${reason})`, pendingMishap, state.round)],
+      };
+    }
+
+    case 'RIGHT_VEHICLE': {
+      const { vehicleId, creatureId, roll } = action.payload;
+      const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+      const creature = state.creatures.find((c) => c.id === creatureId);
+      if (!vehicle || !creature) return state;
+
+      const passed = roll.total >= RIGHT_VEHICLE_DC;
+      const details = `Athletics ${roll.total}${roll.disadvantage ? ' (disadvantage)' : ''} vs DC ${RIGHT_VEHICLE_DC}`;
+      return {
+        ...state,
+        vehicles: passed
+          ? state.vehicles.map((v) =>
+              v.id === vehicleId
+                ? { ...v, activeMishaps: v.activeMishaps.filter((m) => !m.mechanicalEffect?.vehicleProne) }
+                : v
+            )
+          : state.vehicles,
+        actionLog: [
+          ...state.actionLog,
+          createLogEntry(
+            state.round,
+            'ability',
+            passed ? `${creature.name} rights ${vehicle.name}` : `${creature.name} fails to right ${vehicle.name}`,
+            details,
+            [roll]
+          ),
+        ],
       };
+    }
+
+    // ========== Position & Scale ==========
+    case 'UPDATE_VEHICLE_POSITION': {
+      const mover = state.vehicles.find((v) => v.id === action.payload.vehicleId);
+      if (!mover) return state;
+
+      const move = constrainTetheredMove(mover, action.payload.position, state.vehicles, state.tethers);
+      const dragged = move.dragged && state.vehicles.find((v) => v.id === move.dragged?.vehicleId);
+      // The mover's move, just recorded for undo, puts the dragged vehicle back too
+      const lastMove = state.moveHistory[state.moveHistory.length - 1];
+      const recordsDrag = dragged && lastMove?.type === 'vehicle' && lastMove.id === mover.id && !lastMove.dragged;
+      const next: CombatState = {
+        ...state,
+        moveHistory: recordsDrag
+          ? [...state.moveHistory.slice(0, -1), { ...lastMove, dragged: { id: dragged.id, previousPosition: dragged.position } }]
+          : state.moveHistory,
+        vehicles: state.vehicles.map((v) => {
+          if (v.id === mover.id) return { ...v, position: move.position };
+          if (move.dragged && v.id === move.dragged.vehicleId) return { ...v, position: move.dragged.position };
+          return v;
+        }),
+        actionLog: dragged
+          ? [...state.actionLog, createLogEntry(state.round, 'movement', `${mover.name} drags ${dragged.name} along`, 'Pulled on the tether')]
+          : state.actionLog,
+      };
+      if (state.phase !== 'combat') return next;
+      const triggers = next.vehicles.flatMap((v) => {
+        const previous = state.vehicles.find((p) => p.id === v.id);
+        return previous && previous.position !== v.position ? findVehicleInRangeTriggers(next, previous, v) : [];
+      });
+      return addReactionPrompts(next, triggers);
+    }
 
     case 'UPDATE_VEHICLE_FACING':
       return {
@@ -1335,6 +2973,29 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         elevationZones: state.elevationZones.filter((zone) => zone.id !== action.payload),
       };
 
+    // ========== Current Zones ==========
+    case 'ADD_CURRENT_ZONE':
+      return {
+        ...state,
+        currentZones: [...state.currentZones, action.payload],
+      };
+
+    case 'UPDATE_CURRENT_ZONE':
+      return {
+        ...state,
+        currentZones: state.currentZones.map((zone) =>
+          zone.id === action.payload.id
+            ? { ...zone, ...action.payload.updates }
+            : zone
+        ),
+      };
+
+    case 'REMOVE_CURRENT_ZONE':
+      return {
+        ...state,
+        currentZones: state.currentZones.filter((zone) => zone.id !== action.payload),
+      };
+
     case 'SET_PLAYER_VIEW_SETTINGS':
       return {
         ...state,
@@ -1407,10 +3068,21 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
     case 'START_COMPLICATION_RESOLUTION': {
       const { complication, roll, rollRange } = action.payload;
 
+      // Naval hazards: every afloat ship makes an officer + crew group check
+      const hazard = complication.navalHazard && getNavalHazard(complication.navalHazard.hazardId);
+
       // Create resolution entries for all non-destroyed vehicles
       const resolutions: VehicleComplicationResolution[] = state.vehicles
         .filter((v) => !v.isInoperative && v.currentHp > 0)
+        .filter((v) => !hazard || isNavalVehicle(v.template))
         .map((vehicle) => {
+          if (hazard) {
+            return {
+              vehicleId: vehicle.id,
+              status: 'pending' as ComplicationResolutionStatus,
+              hazardChecks: createHazardChecks(hazard),
+            };
+          }
           // Find the driver for this vehicle
           const driver = findVehicleDriver(vehicle, state.crewAssignments, state.creatures);
           return {
@@ -1421,7 +3093,7 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
         });
 
       const activeBattlefieldComplication: ActiveBattlefieldComplication = {
-        id: uuid(),
+        id: newId(),
         complication,
         roll,
         rollRange,
@@ -1460,9 +3132,69 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
       };
     }
 
+    case 'RESOLVE_HAZARD_CHECK': {
+      if (!state.activeBattlefieldComplication) return state;
+
+      const { vehicleId, checkIndex, status, rollResult, modifier, total } = action.payload;
+
+      const updatedResolutions = state.activeBattlefieldComplication.resolutions.map((res) => {
+        if (res.vehicleId !== vehicleId || !res.hazardChecks) return res;
+        const hazardChecks = res.hazardChecks.map((check, i) =>
+          i === checkIndex ? { ...check, status, rollResult, modifier, total } : check
+        );
+        // Once every roll is in, the group check's tier decides pass/fail for the ship
+        const hazardOutcome = getHazardOutcome(hazardChecks);
+        const allRolled = hazardChecks.every((c) => c.status !== 'pending');
+        const vehicleStatus: ComplicationResolutionStatus = !allRolled
+          ? 'pending'
+          : !hazardOutcome
+          ? 'skipped'
+          : hazardOutcome === 'total_success' || hazardOutcome === 'success'
+          ? 'passed'
+          : 'failed';
+        return { ...res, hazardChecks, hazardOutcome, status: vehicleStatus };
+      });
+
+      return {
+        ...state,
+        activeBattlefieldComplication: {
+          ...state.activeBattlefieldComplication,
+          resolutions: updatedResolutions,
+          isResolved: updatedResolutions.every((res) => res.status !== 'pending'),
+        },
+      };
+    }
+
     case 'APPLY_COMPLICATION_EFFECTS': {
       if (!state.activeBattlefieldComplication) return state;
 
+      // Naval hazards apply their outcome tier to each ship's components and crew
+      const navalHazard = state.activeBattlefieldComplication.complication.navalHazard;
+      const hazard = navalHazard && getNavalHazard(navalHazard.hazardId);
+      if (hazard) {
+        const logEntries: LogEntry[] = [];
+        const updatedVehicles = state.vehicles.map((vehicle) => {
+          const resolution = state.activeBattlefieldComplication!.resolutions.find((r) => r.vehicleId === vehicle.id);
+          if (!resolution?.hazardOutcome) return vehicle;
+          const result = applyNavalHazardOutcome(
+            vehicle,
+            hazard.name,
+            resolution.hazardOutcome,
+            hazard.outcomes[resolution.hazardOutcome],
+            state.round
+          );
+          logEntries.push(...result.logEntries);
+          return result.vehicle;
+        });
+
+        return {
+          ...state,
+          vehicles: updatedVehicles,
+          activeBattlefieldComplication: undefined,
+          actionLog: [...state.actionLog, ...logEntries],
+        };
+      }
+
       const complication = state.activeBattlefieldComplication.complication;
       const failedVehicleIds = state.activeBattlefieldComplication.resolutions
         .filter((res) => res.status === 'failed')
@@ -1488,7 +3220,7 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
             if (!failedVehicleIds.includes(vehicle.id)) return vehicle;
 
             const newModifier: SpeedModifier = {
-              id: uuid(),
+              id: newId(),
               source: `${complication.name} complication`,
               multiplier: 0.5, // Half speed for difficult terrain
               duration: 'this_round',
@@ -1585,132 +3317,922 @@ function combatReducer(state: CombatState, action: CombatAction): CombatState {
   }
 }
 
-// ==========================================
-// Helper Functions
-// ==========================================
+// ==========================================
+// Helper Functions
+// ==========================================
+
+/**
+ * Insert creatures into the initiative order based on their initiative values.
+ * Maintains sorted order (highest first).
+ */
+function insertCreaturesIntoInitiative(
+  currentOrder: string[],
+  creaturesToAdd: Creature[],
+  allCreatures: Creature[],
+  allVehicles: Vehicle[]
+): string[] {
+  if (creaturesToAdd.length === 0) return currentOrder;
+
+  // Build a map of ID -> initiative for existing entries
+  const getInitiative = (id: string): number => {
+    const creature = allCreatures.find((c) => c.id === id);
+    if (creature) return creature.initiative || 0;
+    // The lair loses ties, so a creature on 20 goes before it
+    if (isLairTurn(id)) return LAIR_INITIATIVE - 0.5;
+    // For vehicles, we'd need driver initiative, but ejected creatures are creatures
+    return 0;
+  };
+
+  // Start with current order
+  const newOrder = [...currentOrder];
+
+  // Insert each creature at the correct position
+  for (const creature of creaturesToAdd) {
+    // Skip if already in the order
+    if (newOrder.includes(creature.id)) continue;
+
+    const creatureInit = creature.initiative || 0;
+
+    // Find the right position (after all entries with higher or equal initiative)
+    let insertIndex = newOrder.length;
+    for (let i = 0; i < newOrder.length; i++) {
+      const existingInit = getInitiative(newOrder[i]);
+      if (creatureInit > existingInit) {
+        insertIndex = i;
+        break;
+      }
+    }
+
+    newOrder.splice(insertIndex, 0, creature.id);
+  }
+
+  return newOrder;
+}
+
+/**
+ * Rebuild the initiative order from scratch, sorting all participants by initiative.
+ * Used at the start of each round to ensure proper turn order after mid-round changes.
+ * Filters out destroyed vehicles and dead NPCs.
+ */
+function rebuildInitiativeOrder(
+  currentOrder: string[],
+  vehicles: Vehicle[],
+  creatures: Creature[],
+  crewAssignments: CrewAssignment[]
+): string[] {
+  type InitiativeEntry = { id: string; initiative: number; name: string };
+  const initiativeEntries: InitiativeEntry[] = [];
+
+  // Get all creature IDs that are assigned to ANY vehicle (they act on vehicle's turn)
+  const crewCreatureIds = new Set(crewAssignments.map((a) => a.creatureId));
+
+  // Only include IDs that are in the current order (don't add new ones)
+  const currentOrderSet = new Set(currentOrder);
+
+  // Add vehicles that are in the current order (skip destroyed vehicles)
+  for (const vehicle of vehicles) {
+    if (!currentOrderSet.has(vehicle.id)) continue;
+    // Skip destroyed/inoperative vehicles
+    if (vehicle.isInoperative || vehicle.currentHp === 0) continue;
+
+    const driver = findVehicleDriver(vehicle, crewAssignments, creatures);
+    // Use driver's initiative, or -100 if no driver (acts last)
+    const initiative = driver ? driver.initiative : -100;
+
+    initiativeEntries.push({
+      id: vehicle.id,
+      initiative,
+      name: vehicle.name,
+    });
+  }
+
+  // Add creatures that are NOT assigned to any vehicle AND are in the current order
+  for (const creature of creatures) {
+    if (!currentOrderSet.has(creature.id)) continue;
+    if (crewCreatureIds.has(creature.id)) continue; // Skip crew members
+    // Skip the dead (but keep dying PCs for death saves)
+    if (isDead(creature)) continue;
+
+    initiativeEntries.push({
+      id: creature.id,
+      initiative: creature.initiative || 0,
+      name: creature.name,
+    });
+  }
+
+  // Keep the lair's turn until the DM takes it out
+  if (currentOrderSet.has(LAIR_TURN_ID)) {
+    initiativeEntries.push({ id: LAIR_TURN_ID, initiative: LAIR_INITIATIVE, name: 'Lair' });
+  }
+
+  // Sort by initiative (descending), then alphabetically for ties; the lair loses ties
+  initiativeEntries.sort((a, b) => {
+    if (b.initiative !== a.initiative) {
+      return b.initiative - a.initiative;
+    }
+    if (isLairTurn(a.id) || isLairTurn(b.id)) return isLairTurn(a.id) ? 1 : -1;
+    return a.name.localeCompare(b.name);
+  });
+
+  return initiativeEntries.map((e) => e.id);
+}
+
+function createLogEntry(
+  round: number,
+  type: LogEntryType,
+  action: string,
+  details?: string,
+  rolls?: DiceRollResult[]
+): LogEntry {
+  return {
+    id: newId(),
+    timestamp: new Date(),
+    round,
+    type,
+    action,
+    details,
+    ...(rolls ? { rolls } : {}),
+  };
+}
+
+/**
+ * Damage a single component. Hull damage comes off the vehicle's currentHp (a wrecked
+ * hull marks the ship inoperative); other components track HP in componentHp.
+ * A hit below the component's damage threshold is superficial (no damage).
+ */
+function applyComponentDamage(
+  vehicle: Vehicle,
+  component: VehicleComponent,
+  amount: number
+): { vehicle: Vehicle; applied: number } {
+  const applied = amount < (component.damageThreshold ?? 0) ? 0 : amount;
+  if (component.kind === 'hull') {
+    const newHp = Math.max(0, vehicle.currentHp - applied);
+    const shouldEject = newHp === 0 && !vehicle.isInoperative;
+    return {
+      vehicle: { ...vehicle, currentHp: newHp, isInoperative: shouldEject ? true : vehicle.isInoperative },
+      applied,
+    };
+  }
+  const cur = vehicle.componentHp?.[component.id] ?? component.maxHp;
+  const newHp = Math.max(0, cur - applied);
+  return {
+    vehicle: { ...vehicle, componentHp: { ...(vehicle.componentHp || {}), [component.id]: newHp } },
+    applied,
+  };
+}
+
+/**
+ * Action economy for the start of a turn: everyone acting on it gets their action, bonus
+ * action and reaction back, and their readied actions (and any prompts for them) lapse
+ */
+function startTurnEconomy(
+  state: CombatState,
+  turnId: string | undefined
+): Pick<CombatState, 'turnActions' | 'readiedActions' | 'reactionPrompts'> {
+  const acting = turnId ? getCreaturesActingOnTurn(turnId, state.crewAssignments) : [];
+  const lapsed = new Set(state.readiedActions.filter((r) => acting.includes(r.creatureId)).map((r) => r.id));
+  return {
+    turnActions: resetTurnActions(state.turnActions, turnId, state.crewAssignments),
+    readiedActions: state.readiedActions.filter((r) => !lapsed.has(r.id)),
+    reactionPrompts: state.reactionPrompts.filter((p) => !p.readiedActionId || !lapsed.has(p.readiedActionId)),
+  };
+}
+
+/**
+ * Queue prompts for triggers that have happened, skipping any already waiting on the DM
+ */
+function addReactionPrompts(state: CombatState, triggers: ReactionTrigger[]): CombatState {
+  const isQueued = (t: ReactionTrigger, queued: ReactionPrompt[]) =>
+    queued.some((p) => p.creatureId === t.creatureId && p.reaction === t.reaction && p.readiedActionId === t.readiedActionId);
+  const prompts = triggers.reduce<ReactionPrompt[]>(
+    (queued, t) => (isQueued(t, queued) ? queued : [...queued, { ...t, id: newId(), round: state.round }]),
+    state.reactionPrompts
+  );
+  return prompts.length === state.reactionPrompts.length ? state : { ...state, reactionPrompts: prompts };
+}
+
+/**
+ * End a creature's concentration, and with it the conditions and speed modifiers its spell
+ * was holding in place
+ */
+function endConcentration(state: CombatState, creatureId: string, reason?: string, rolls?: DiceRollResult[]): CombatState {
+  const caster = state.creatures.find((c) => c.id === creatureId);
+  if (!caster?.concentrating) return state;
+  const spell = caster.concentrating;
+  const logEntries = [createLogEntry(state.round, 'ability', `${caster.name} loses concentration on ${spell}`, reason, rolls)];
+  const ended: { creatureId: string; name: ConditionName }[] = [];
+
+  const creatures = state.creatures.map((c) => {
+    const kept = c.conditions.filter((cond) => cond.concentrationOf !== creatureId);
+    c.conditions
+      .filter((cond) => cond.concentrationOf === creatureId)
+      .forEach((cond) => {
+        ended.push({ creatureId: c.id, name: cond.name });
+        logEntries.push(createLogEntry(state.round, 'condition', `${c.name} is no longer ${cond.name}`, `${spell} ended`));
+      });
+    const updated = kept.length !== c.conditions.length ? { ...c, conditions: kept } : c;
+    return updated.id === creatureId ? { ...updated, concentrating: undefined } : updated;
+  });
+
+  const vehicles = state.vehicles.map((v) => {
+    const linked = (v.speedModifiers || []).filter((mod) => mod.concentrationOf === creatureId);
+    if (linked.length === 0) return v;
+    logEntries.push(createLogEntry(state.round, 'system', `${v.name}'s speed is no longer affected by ${spell}`));
+    const remaining = (v.speedModifiers || []).filter((mod) => mod.concentrationOf !== creatureId);
+    return { ...v, speedModifiers: remaining.length > 0 ? remaining : undefined };
+  });
+
+  return {
+    ...state,
+    creatures,
+    vehicles,
+    conditionSavePrompts: state.conditionSavePrompts.filter(
+      (p) => !ended.some((e) => e.creatureId === p.creatureId && e.name === p.condition)
+    ),
+    concentrationSavePrompts: state.concentrationSavePrompts.filter((p) => p.creatureId !== creatureId),
+    actionLog: [...state.actionLog, ...logEntries],
+  };
+}
+
+/**
+ * Count down the conditions of everyone acting on a turn at one of its boundaries, ending
+ * those that run out. At the end of the turn, save-ends conditions prompt their save.
+ */
+function tickConditions(state: CombatState, turnId: string | undefined, at: ConditionTick): CombatState {
+  if (!turnId) return state;
+  const acting = getCreaturesActingOnTurn(turnId, state.crewAssignments);
+  const logEntries: LogEntry[] = [];
+  const prompts: ConditionSavePrompt[] = [];
+
+  const creatures = state.creatures.map((creature) => {
+    if (!acting.includes(creature.id) || creature.conditions.length === 0) return creature;
+    const conditions = creature.conditions.flatMap((condition) => {
+      if (at === 'end_of_turn' && condition.saveEnds) {
+        const queued = state.conditionSavePrompts.some((p) => p.creatureId === creature.id && p.condition === condition.name);
+        if (!queued) prompts.push({ id: newId(), creatureId: creature.id, condition: condition.name, ...condition.saveEnds, round: state.round });
+      }
+      if (condition.duration === undefined || getConditionTick(condition) !== at) return [condition];
+      if (condition.duration > 1) return [{ ...condition, duration: condition.duration - 1 }];
+      logEntries.push(createLogEntry(state.round, 'condition', `${creature.name} is no longer ${condition.name}`, 'Duration ended'));
+      return [];
+    });
+    return { ...creature, conditions };
+  });
+
+  if (logEntries.length === 0 && prompts.length === 0 && creatures.every((c, i) => c === state.creatures[i])) return state;
+  return {
+    ...state,
+    creatures,
+    conditionSavePrompts: [...state.conditionSavePrompts, ...prompts],
+    actionLog: [...state.actionLog, ...logEntries],
+  };
+}
+
+// Declared actions that attack the chosen target
+function isAttackAction(action: string | undefined): boolean {
+  return action === 'Attack' || action === 'Personal Ranged Attack';
+}
+
+/**
+ * Start of a turn: legendary actions refill, spent recharge actions are rolled for and a downed
+ * PC is prompted for a death save. Start of a vehicle's turn (all its crew start their turns with it): each active mishap
+ * with recurring damage — Engine Flare's 3d6 fire — is rolled once and dealt to the vehicle
+ * and every creature aboard, through the usual defenses and damage threshold. Infernal war
+ * machines are immune to fire, so in practice only the crew burns.
+ */
+function applyTurnStartEffects(state: CombatState, turnId: string | undefined): CombatState {
+  const prompted = promptDeathSaves(rollRecharges(refreshLegendaryActions(state, turnId), turnId), turnId);
+  const vehicle = prompted.vehicles.find((v) => v.id === turnId);
+  if (!vehicle) return prompted;
+
+  // An unused Juke lapses with the driver's reaction
+  let next = vehicle.isJuking
+    ? { ...prompted, vehicles: prompted.vehicles.map((v) => (v.id === vehicle.id ? { ...v, isJuking: undefined } : v)) }
+    : prompted;
+  if (vehicle.isInoperative) return next;
+
+  for (const mishap of vehicle.activeMishaps) {
+    const recurringDamage = mishap.mechanicalEffect?.recurringDamage;
+    if (!recurringDamage) continue;
+
+    const parts = rollDamageParts(recurringDamage);
+    const source = `${mishap.name} (start of turn)`;
+    if (applyDamageDefenses(parts, getVehicleDefenses(vehicle)).total > 0) {
+      next = combatReducer(next, { type: 'DEAL_DAMAGE_TO_VEHICLE', payload: { vehicleId: vehicle.id, parts, source } });
+    }
+    // Crew thrown clear if that wrecked the vehicle are no longer aboard
+    const aboard = next.crewAssignments.filter((a) => a.vehicleId === vehicle.id);
+    for (const assignment of aboard) {
+      const creature = next.creatures.find((c) => c.id === assignment.creatureId);
+      if (!creature || creature.currentHp === 0) continue;
+      next = combatReducer(next, { type: 'DEAL_DAMAGE_TO_CREATURE', payload: { creatureId: creature.id, parts, source } });
+    }
+  }
+  return next;
+}
+
+/**
+ * Roll to recharge each spent recharge action of the creatures acting on this turn
+ */
+function rollRecharges(state: CombatState, turnId: string | undefined): CombatState {
+  if (!turnId || isLairTurn(turnId)) return state;
+  const acting = getCreaturesActingOnTurn(turnId, state.crewAssignments);
+  const logs: LogEntry[] = [];
+  const creatures = state.creatures.map((creature) => {
+    if (!acting.includes(creature.id) || creature.currentHp === 0) return creature;
+    const spent = getSpentRechargeActions(creature);
+    if (spent.length === 0) return creature;
+    const abilityUses = { ...(creature.abilityUses || {}) };
+    for (const ability of spent) {
+      const { roll, recharged } = rollRecharge(ability);
+      if (recharged) delete abilityUses[ability.name];
+      logs.push(
+        createLogEntry(
+          state.round,
+          'ability',
+          `${creature.name}'s ${ability.name} ${recharged ? 'recharges' : "doesn't recharge"}`,
+          formatAbilityLimit(ability, 1),
+          [roll]
+        )
+      );
+    }
+    return { ...creature, abilityUses };
+  });
+  if (logs.length === 0) return state;
+  return { ...state, creatures, actionLog: [...state.actionLog, ...logs] };
+}
+
+/**
+ * Legendary creatures' pools refill at the start of their own turn
+ */
+function refreshLegendaryActions(state: CombatState, turnId: string | undefined): CombatState {
+  if (!turnId || isLairTurn(turnId)) return state;
+  const acting = getCreaturesActingOnTurn(turnId, state.crewAssignments);
+  if (!state.creatures.some((c) => acting.includes(c.id) && hasLegendaryActions(c))) return state;
+  return {
+    ...state,
+    creatures: state.creatures.map((c) =>
+      acting.includes(c.id) && hasLegendaryActions(c) ? { ...c, legendaryActionsRemaining: getLegendaryActionsPerRound(c) } : c
+    ),
+  };
+}
+
+/**
+ * Legendary actions on offer at the end of a turn. A creature whose own turn comes next is
+ * left out, since its pool is about to refill.
+ */
+function getLegendaryOffer(state: CombatState, endedTurnId: string | undefined, nextTurnId: string | undefined): LegendaryOffer | undefined {
+  if (!endedTurnId) return undefined;
+  const upNext = nextTurnId && !isLairTurn(nextTurnId) ? getCreaturesActingOnTurn(nextTurnId, state.crewAssignments) : [];
+  const creatureIds = getLegendaryCreaturesAfterTurn(state, endedTurnId)
+    .map((c) => c.id)
+    .filter((id) => !upNext.includes(id));
+  if (creatureIds.length === 0) return undefined;
+  const turnName = isLairTurn(endedTurnId)
+    ? 'the lair'
+    : (state.vehicles.find((v) => v.id === endedTurnId)?.name ?? state.creatures.find((c) => c.id === endedTurnId)?.name ?? 'Unknown');
+  return { afterTurnId: endedTurnId, turnName, creatureIds, round: state.round };
+}
+
+function withoutLegendaryCreature(offer: LegendaryOffer | undefined, creatureId: string): LegendaryOffer | undefined {
+  if (!offer) return undefined;
+  const creatureIds = offer.creatureIds.filter((id) => id !== creatureId);
+  return creatureIds.length > 0 ? { ...offer, creatureIds } : undefined;
+}
+
+/**
+ * Prompt a death save for each dying PC acting on this turn
+ */
+function promptDeathSaves(state: CombatState, turnId: string | undefined): CombatState {
+  if (!turnId) return state;
+  const acting = getCreaturesActingOnTurn(turnId, state.crewAssignments);
+  const prompts = state.creatures
+    .filter((c) => acting.includes(c.id) && isDying(c) && !state.deathSavePrompts.some((p) => p.creatureId === c.id))
+    .map((c) => ({ id: newId(), creatureId: c.id, round: state.round }));
+  return prompts.length > 0 ? { ...state, deathSavePrompts: [...state.deathSavePrompts, ...prompts] } : state;
+}
+
+/**
+ * Move crew off a vehicle onto the battlefield, spread in a circle `distance` feet from its
+ * center. Their crew assignments are removed, and in combat they join the initiative order.
+ */
+function ejectCrew(
+  state: CombatState,
+  vehicle: Vehicle,
+  creatureIds: string[],
+  distance: number
+): { creatures: Creature[]; crewAssignments: CrewAssignment[]; initiativeOrder: string[] } {
+  const ejectedCreatures: Creature[] = [];
+  const creatures = state.creatures.map((creature) => {
+    const crewIndex = creatureIds.indexOf(creature.id);
+    if (crewIndex === -1) return creature;
+
+    const angle = (crewIndex / creatureIds.length) * 2 * Math.PI;
+    const position = {
+      x: vehicle.position.x + Math.cos(angle) * distance,
+      y: vehicle.position.y + Math.sin(angle) * distance,
+    };
+    const updatedCreature = { ...creature, position };
+    ejectedCreatures.push(updatedCreature);
+    return updatedCreature;
+  });
+
+  return {
+    creatures,
+    crewAssignments: state.crewAssignments.filter((a) => !creatureIds.includes(a.creatureId)),
+    initiativeOrder:
+      state.phase === 'combat' && ejectedCreatures.length > 0
+        ? insertCreaturesIntoInitiative(state.initiativeOrder, ejectedCreatures, creatures, state.vehicles)
+        : state.initiativeOrder,
+  };
+}
+
+/**
+ * A mishap that flips the vehicle (Flip): every creature aboard falls prone and makes the
+ * mishap's listed save, taking its damage on a failure. With ejectOnFailedSave, those who
+ * fail are also thrown clear, within 20 feet of the overturned vehicle.
+ */
+/**
+ * A creature's saving throw, with advantage, disadvantage or automatic failure from its
+ * conditions. `note` lists those conditions for the log, e.g. " (restrained (dis))".
+ */
+function rollCreatureSave(creature: Creature, ability: AbilityName, dc: number) {
+  const mode = getSaveRollMode(creature, ability);
+  const save = rollSave(getTargetSaveModifier(creature, ability) ?? 0, mode.advantage, mode.disadvantage);
+  return {
+    save,
+    passed: !mode.autoFail && save.total >= dc,
+    note: mode.notes.length > 0 ? ` (${mode.notes.join(', ')})` : '',
+  };
+}
+
+function applyFlipSaves(state: CombatState, vehicleId: string, mishap: Mishap, ejectOnFailedSave: boolean): CombatState {
+  const flipSave = mishap.mechanicalEffect?.crewSaveOnFlip;
+  const vehicle = state.vehicles.find((v) => v.id === vehicleId);
+  if (!flipSave || !vehicle) return state;
+
+  const abilityLabel = flipSave.ability.charAt(0).toUpperCase() + flipSave.ability.slice(1);
+  const prone = { name: 'prone' as const, source: mishap.name };
+  let next = state;
+  const failedIds: string[] = [];
+  for (const assignment of state.crewAssignments.filter((a) => a.vehicleId === vehicleId)) {
+    const creature = next.creatures.find((c) => c.id === assignment.creatureId);
+    if (!creature || creature.currentHp === 0) continue;
+
+    const { save, passed, note } = rollCreatureSave(creature, flipSave.ability, flipSave.dc);
+    next = {
+      ...next,
+      creatures: next.creatures.map((c) =>
+        c.id === creature.id && !c.conditions.some((cond) => cond.name === 'prone')
+          ? { ...c, conditions: [...c.conditions, prone] }
+          : c
+      ),
+      actionLog: [
+        ...next.actionLog,
+        createLogEntry(
+          next.round,
+          'ability',
+          `${creature.name} ${passed ? 'succeeds on' : 'fails'} a DC ${flipSave.dc} ${abilityLabel} save`,
+          `${save.total} vs DC ${flipSave.dc}${note} — ${passed ? 'falls prone' : `falls prone and takes ${flipSave.damage}`}`,
+          [save]
+        ),
+      ],
+    };
+    if (!passed) {
+      failedIds.push(creature.id);
+      next = combatReducer(next, {
+        type: 'DEAL_DAMAGE_TO_CREATURE',
+        payload: { creatureId: creature.id, parts: rollDamageParts(flipSave.damage), source: `${mishap.name} (failed save)` },
+      });
+    }
+  }
+
+  if (ejectOnFailedSave && failedIds.length > 0) {
+    next = { ...next, ...ejectCrew(next, vehicle, failedIds, 20) };
+    next = {
+      ...next,
+      actionLog: [
+        ...next.actionLog,
+        createLogEntry(
+          next.round,
+          'system',
+          `${failedIds.length} creature(s) thrown from ${vehicle.name}`,
+          'Placed on the battlefield within 20 feet of the overturned vehicle'
+        ),
+      ],
+    };
+  }
+  return next;
+}
+
+/**
+ * Resolve a shot at a target (see utils/attackResolver): the attack roll from the UI against
+ * AC and cover, or the target's save, then the weapon's typed damage through the usual
+ * damage pipeline. Logged as one attack entry with the dice. FIRE_VEHICLE_WEAPON has already
+ * checked the shot can be taken.
+ */
+function resolveWeaponAttack(
+  state: CombatState,
+  vehicle: Vehicle,
+  weapon: VehicleWeapon,
+  creature: Creature,
+  target: AttackTarget,
+  attackRoll: DiceRollResult | undefined,
+  ammoNote: string | undefined
+): CombatState {
+  const attack = getWeaponAttack(vehicle, weapon, target, state);
+  const entity = getAttackTargetEntity(state, target);
+  if (!attack || !entity) return state;
+
+  const firing = `${creature.name} fires ${vehicle.name}'s ${weapon.name} at ${attack.targetName}`;
+
+  let outcome: string;
+  let parts: DamagePart[] = [];
+  const details: string[] = [];
+  const rolls: DiceRollResult[] = [];
+  let juked = false;
+  if (attack.save) {
+    let save: DiceRollResult | undefined;
+    let saved = false;
+    let note = '';
+    if ('statblock' in entity) {
+      ({ save, passed: saved, note } = rollCreatureSave(entity, attack.save.ability, attack.save.dc));
+    } else {
+      const modifier = getTargetSaveModifier(entity, attack.save.ability);
+      // The driver's Juke is used up on this save
+      juked = attack.save.ability === 'dex' && !!entity.isJuking;
+      save = modifier !== undefined ? rollSave(modifier, juked) : undefined;
+      saved = save !== undefined && save.total >= attack.save.dc;
+      if (juked) note = ` (advantage from ${JUKE_REACTION_NAME})`;
+    }
+    parts = rollDamageParts(attack.damage).map((p) => (saved ? { ...p, amount: Math.floor(p.amount / 2) } : p));
+    outcome = saved ? 'saves for half' : 'fails the save';
+    details.push(`DC ${attack.save.dc} ${attack.save.ability.toUpperCase()} save: ${save ? save.total : 'automatic failure'}${note}`);
+    if (save) rolls.push(save);
+  } else {
+    if (!attackRoll) return state;
+    const targetAC = attack.ac + attack.coverBonus;
+    const hit = !attackRoll.criticalMiss && (!!attackRoll.criticalHit || attackRoll.total >= targetAC);
+    if (hit) parts = rollDamageParts(attackRoll.criticalHit ? getCriticalDamage(attack.damage) : attack.damage);
+    outcome = attackRoll.criticalHit ? 'critical hit' : attackRoll.criticalMiss ? 'natural 1, miss' : hit ? 'hit' : 'miss';
+    details.push(`${attackRoll.total} vs AC ${targetAC}${attack.coverBonus > 0 ? ` (${formatCover(attack.cover)})` : ''}`);
+    rolls.push(attackRoll);
+  }
+
+  if (attack.magical) parts = parts.map((p) => ({ ...p, magical: true }));
+  if (parts.length > 0) {
+    details.push(`${getDamageTotal(parts)} damage: ${parts.map((p) => (p.type ? `${p.amount} ${p.type}` : p.amount)).join(' + ')}`);
+  }
+  if (ammoNote) details.push(ammoNote);
+
+  const next: CombatState = {
+    ...state,
+    vehicles: juked ? state.vehicles.map((v) => (v.id === entity.id ? { ...v, isJuking: undefined } : v)) : state.vehicles,
+    actionLog: [...state.actionLog, createLogEntry(state.round, 'attack', `${firing}: ${outcome}`, details.join(' · '), rolls)],
+  };
+  if (getDamageTotal(parts) === 0) return next;
+
+  const source = `${vehicle.name}'s ${weapon.name}`;
+  if (target.kind === 'creature') {
+    return combatReducer(next, {
+      type: 'DEAL_DAMAGE_TO_CREATURE',
+      payload: { creatureId: target.creatureId, parts, source, critical: !!attackRoll?.criticalHit },
+    });
+  }
+  if (target.kind === 'component') {
+    return combatReducer(next, {
+      type: 'DAMAGE_VEHICLE_COMPONENT',
+      payload: { vehicleId: target.vehicleId, componentId: target.componentId, parts, source },
+    });
+  }
+  return combatReducer(next, { type: 'DEAL_DAMAGE_TO_VEHICLE', payload: { vehicleId: target.vehicleId, parts, source } });
+}
+
+/**
+ * Roll a mishap from damage and hold it for the DM to confirm. Mishaps that are already
+ * active or would have no effect are rerolled; undefined when none is left to roll.
+ */
+function rollPendingMishap(vehicle: Vehicle, reason: string): PendingMishap | undefined {
+  const result = rollMishapForVehicle(getVehicleMishapState(vehicle));
+  if (!result) return undefined;
+  return {
+    roll: result.roll,
+    mishap: { ...result.mishap, id: newId(), roundsRemaining: result.mishap.roundsRemaining },
+    rerollCount: result.rerollCount,
+    reason,
+  };
+}
+
+function describePendingMishap(
+  vehicle: Vehicle,
+  reason: string,
+  pending: PendingMishap | undefined,
+  round: number
+): LogEntry {
+  if (!pending) {
+    return createLogEntry(
+      round,
+      'mishap',
+      `Mishap triggered but no valid mishaps available for ${vehicle.name}`,
+      'All mishaps active or at maximum effect'
+    );
+  }
+  const rerollNote = pending.rerollCount > 0 ? ` (rerolled ${pending.rerollCount}x to find valid mishap)` : '';
+  return createLogEntry(
+    round,
+    'mishap',
+    `Mishap! ${vehicle.name}: ${reason}`,
+    `Rolled ${pending.roll}: ${pending.mishap.name}${rerollNote} — awaiting DM confirmation`
+  );
+}
+
+/**
+ * Log details for a hit: its source, and the per-type breakdown when the damage is typed
+ */
+function describeDamage(damage: AppliedDamage, source?: string, note?: string): string | undefined {
+  const breakdown = isTypedDamage(damage.parts) ? formatDamageBreakdown(damage) : undefined;
+  return [source, breakdown, note].filter(Boolean).join(' — ') || undefined;
+}
 
 /**
- * Insert creatures into the initiative order based on their initiative values.
- * Maintains sorted order (highest first).
+ * Change a ship's crew quality and log it. Falling into a worse morale band that calls for
+ * a morale check leaves a pending check on the vehicle for the DM to resolve.
  */
-function insertCreaturesIntoInitiative(
-  currentOrder: string[],
-  creaturesToAdd: Creature[],
-  allCreatures: Creature[],
-  allVehicles: Vehicle[]
-): string[] {
-  if (creaturesToAdd.length === 0) return currentOrder;
+function adjustCrewQuality(
+  vehicle: Vehicle,
+  delta: number,
+  reason: string,
+  round: number
+): { vehicle: Vehicle; logEntries: LogEntry[] } {
+  const before = getCrewQuality(vehicle);
+  const after = clampCrewQuality(before + delta);
+  if (after === before) return { vehicle, logEntries: [] };
+
+  const logEntries = [
+    createLogEntry(
+      round,
+      'system',
+      `${vehicle.name} crew quality ${formatCrewQuality(before)} → ${formatCrewQuality(after)}`,
+      reason
+    ),
+  ];
+  let updated: Vehicle = { ...vehicle, crewQuality: after };
+
+  const oldBand = getCrewMoraleBand(before);
+  const newBand = getCrewMoraleBand(after);
+  if (newBand.minQuality < oldBand.minQuality && newBand.checkDC) {
+    updated = { ...updated, pendingMoraleCheck: { morale: newBand.id, dc: newBand.checkDC, reason } };
+    logEntries.push(
+      createLogEntry(
+        round,
+        'system',
+        `${vehicle.name}'s crew is ${newBand.label.toLowerCase()} — morale check DC ${newBand.checkDC}`,
+        newBand.description
+      )
+    );
+  }
 
-  // Build a map of ID -> initiative for existing entries
-  const getInitiative = (id: string): number => {
-    const creature = allCreatures.find((c) => c.id === id);
-    if (creature) return creature.initiative || 0;
-    // For vehicles, we'd need driver initiative, but ejected creatures are creatures
-    return 0;
+  return { vehicle: updated, logEntries };
+}
+
+/**
+ * A crew member falling aboard a ship costs 1 crew quality
+ */
+function applyCrewCasualty(
+  vehicles: Vehicle[],
+  vehicleId: string,
+  creatureName: string,
+  round: number
+): { vehicles: Vehicle[]; logEntries: LogEntry[] } {
+  const vehicle = vehicles.find((v) => v.id === vehicleId);
+  if (!vehicle || !isNavalVehicle(vehicle.template)) return { vehicles, logEntries: [] };
+
+  const result = adjustCrewQuality(vehicle, -1, `${creatureName} fell at their station`, round);
+  return {
+    vehicles: vehicles.map((v) => (v.id === vehicleId ? result.vehicle : v)),
+    logEntries: result.logEntries,
   };
+}
 
-  // Start with current order
-  const newOrder = [...currentOrder];
+/**
+ * Damage a ship's crew pool: each of `targets` crew caught takes `amount` (at most one
+ * sailor's worth of HP each). Casualties cost 1 crew quality.
+ */
+function damageCrewPool(
+  vehicle: Vehicle,
+  zone: VehicleZone,
+  amount: number,
+  targets: number,
+  source: string | undefined,
+  round: number
+): { vehicle: Vehicle; logEntries: LogEntry[] } {
+  const countBefore = getCrewPoolCount(vehicle, zone);
+  const hp = Math.max(0, getCrewPoolHp(vehicle, zone) - Math.min(amount, CREW_MEMBER_HP) * Math.min(targets, countBefore));
+  let updated: Vehicle = { ...vehicle, crewPoolHp: { ...(vehicle.crewPoolHp || {}), [zone.id]: hp } };
+  const countAfter = getCrewPoolCount(updated, zone);
+  const casualties = countBefore - countAfter;
+
+  const logEntries = [
+    createLogEntry(
+      round,
+      'damage',
+      `${vehicle.name} ${zone.name} take ${amount} damage — ${casualties} killed, ${countAfter}/${zone.capacity} left`,
+      source
+    ),
+  ];
+  if (casualties > 0) {
+    const result = adjustCrewQuality(updated, -1, `${casualties} of the ${zone.name.toLowerCase()} killed`, round);
+    updated = result.vehicle;
+    logEntries.push(...result.logEntries);
+  }
+  return { vehicle: updated, logEntries };
+}
 
-  // Insert each creature at the correct position
-  for (const creature of creaturesToAdd) {
-    // Skip if already in the order
-    if (newOrder.includes(creature.id)) continue;
+/**
+ * Remove a share of the crew (washed overboard, deserted) from every crew pool, rounded up
+ */
+function removeCrewPercent(vehicle: Vehicle, percent: number): { vehicle: Vehicle; lost: number } {
+  let lost = 0;
+  const crewPoolHp = { ...(vehicle.crewPoolHp || {}) };
+  for (const zone of getCrewPoolZones(vehicle)) {
+    const removed = Math.ceil((getCrewPoolCount(vehicle, zone) * percent) / 100);
+    crewPoolHp[zone.id] = Math.max(0, getCrewPoolHp(vehicle, zone) - removed * CREW_MEMBER_HP);
+    lost += removed;
+  }
+  return lost > 0 ? { vehicle: { ...vehicle, crewPoolHp }, lost } : { vehicle, lost };
+}
 
-    const creatureInit = creature.initiative || 0;
+/**
+ * Advance a ship's upgrades from one combat clock reading to the next: regenerating
+ * hulls regain HP for each whole minute passed, and recharged upgrades become ready.
+ */
+function tickNavalUpgrades(
+  vehicle: Vehicle,
+  before: number,
+  after: number,
+  round: number
+): { vehicle: Vehicle; logEntries: LogEntry[] } {
+  const upgrades = getInstalledNavalUpgrades(vehicle);
+  if (upgrades.length === 0) return { vehicle, logEntries: [] };
+
+  const logEntries: LogEntry[] = [];
+  let updated = vehicle;
+
+  const minutes = Math.floor(after / 60) - Math.floor(before / 60);
+  for (const upgrade of upgrades) {
+    const regen = upgrade.mechanics?.hpRegenPerMinute;
+    if (!regen || minutes <= 0 || updated.currentHp <= 0 || updated.currentHp >= updated.template.maxHp) continue;
+    const newHp = Math.min(updated.template.maxHp, updated.currentHp + regen * minutes);
+    logEntries.push(createLogEntry(round, 'healing', `${vehicle.name} regains ${newHp - updated.currentHp} HP`, upgrade.name));
+    updated = { ...updated, currentHp: newHp };
+  }
 
-    // Find the right position (after all entries with higher or equal initiative)
-    let insertIndex = newOrder.length;
-    for (let i = 0; i < newOrder.length; i++) {
-      const existingInit = getInitiative(newOrder[i]);
-      if (creatureInit > existingInit) {
-        insertIndex = i;
-        break;
-      }
+  const rechargeAt = updated.navalUpgradeRechargeAt;
+  if (rechargeAt) {
+    const ready = Object.keys(rechargeAt).filter((id) => rechargeAt[id] <= after);
+    if (ready.length > 0) {
+      const remaining = { ...rechargeAt };
+      ready.forEach((id) => {
+        delete remaining[id];
+        logEntries.push(createLogEntry(round, 'system', `${vehicle.name}'s ${getNavalUpgrade(id)?.name ?? id} is ready again`));
+      });
+      updated = { ...updated, navalUpgradeRechargeAt: remaining };
     }
-
-    newOrder.splice(insertIndex, 0, creature.id);
   }
 
-  return newOrder;
+  return { vehicle: updated, logEntries };
 }
 
 /**
- * Rebuild the initiative order from scratch, sorting all participants by initiative.
- * Used at the start of each round to ensure proper turn order after mid-round changes.
- * Filters out destroyed vehicles and dead NPCs.
+ * Restore HP to a component (the hull restores the vehicle's HP), capped at its max
  */
-function rebuildInitiativeOrder(
-  currentOrder: string[],
-  vehicles: Vehicle[],
-  creatures: Creature[],
-  crewAssignments: CrewAssignment[]
-): string[] {
-  type InitiativeEntry = { id: string; initiative: number; name: string };
-  const initiativeEntries: InitiativeEntry[] = [];
+function applyComponentRepair(
+  vehicle: Vehicle,
+  component: VehicleComponent,
+  amount: number
+): { vehicle: Vehicle; restored: number } {
+  if (component.kind === 'hull') {
+    const newHp = Math.min(component.maxHp, vehicle.currentHp + amount);
+    return { vehicle: { ...vehicle, currentHp: newHp }, restored: newHp - vehicle.currentHp };
+  }
+  const cur = vehicle.componentHp?.[component.id] ?? component.maxHp;
+  const newHp = Math.min(component.maxHp, cur + amount);
+  return {
+    vehicle: { ...vehicle, componentHp: { ...(vehicle.componentHp || {}), [component.id]: newHp } },
+    restored: newHp - cur,
+  };
+}
 
-  // Get all creature IDs that are assigned to ANY vehicle (they act on vehicle's turn)
-  const crewCreatureIds = new Set(crewAssignments.map((a) => a.creatureId));
+/**
+ * Apply one ship's naval hazard outcome: component damage, crew quality, speed and heading.
+ */
+function applyNavalHazardOutcome(
+  vehicle: Vehicle,
+  hazardName: string,
+  outcome: HazardOutcome,
+  effect: NavalHazardOutcomeEffect,
+  round: number
+): { vehicle: Vehicle; logEntries: LogEntry[] } {
+  const logEntries: LogEntry[] = [
+    createLogEntry(round, 'complication', `${vehicle.name}: ${HAZARD_OUTCOME_LABELS[outcome]} — ${effect.summary}`, hazardName),
+  ];
+  let updated = vehicle;
+
+  if (effect.componentDamage) {
+    const { dice, damageType, targets, crewCaught } = effect.componentDamage;
+    const components = vehicle.template.components ?? [];
+    let struck: VehicleComponent[] = components;
+    if (targets === 'hull_and_random') {
+      // The hull plus 1d3 other components chosen at random
+      const others = components.filter((c) => c.kind !== 'hull').sort(() => random() - 0.5);
+      struck = [
+        ...components.filter((c) => c.kind === 'hull'),
+        ...others.slice(0, rollDice('1d3').total),
+      ];
+    }
 
-  // Only include IDs that are in the current order (don't add new ones)
-  const currentOrderSet = new Set(currentOrder);
+    if (struck.length === 0) {
+      // Single-HP vehicle: the damage comes off its hit points
+      const damage = applyDamageDefenses([{ amount: rollDice(dice).total, type: damageType }], getVehicleDefenses(updated));
+      const threshold = getEffectiveDamageThreshold(updated);
+      if (damage.total < threshold) {
+        logEntries.push(createLogEntry(round, 'system', `${vehicle.name} ignores ${damage.total} ${damageType} damage`, describeDamage(damage, hazardName, `below damage threshold of ${threshold}`)));
+      } else {
+        updated = { ...updated, currentHp: Math.max(0, updated.currentHp - damage.total) };
+        logEntries.push(createLogEntry(round, 'damage', `${vehicle.name} takes ${damage.total} ${damageType} damage`, describeDamage(damage, hazardName)));
+      }
+    }
+    for (const component of struck) {
+      const damage = applyDamageDefenses([{ amount: rollDice(dice).total, type: damageType }], getVehicleDefenses(updated, component));
+      const result = applyComponentDamage(updated, component, damage.total);
+      const ignored = result.applied < damage.total;
+      updated = result.vehicle;
+      logEntries.push(
+        createLogEntry(
+          round,
+          ignored ? 'system' : 'damage',
+          `${vehicle.name} ${component.name} ${ignored ? 'ignores' : 'takes'} ${damage.total} ${damageType} damage`,
+          describeDamage(damage, hazardName, ignored ? `below damage threshold of ${component.damageThreshold}` : undefined)
+        )
+      );
+    }
 
-  // Add vehicles that are in the current order (skip destroyed vehicles)
-  for (const vehicle of vehicles) {
-    if (!currentOrderSet.has(vehicle.id)) continue;
-    // Skip destroyed/inoperative vehicles
-    if (vehicle.isInoperative || vehicle.currentHp === 0) continue;
+    // Deck crew caught in it each take the damage
+    const deck = getCrewPoolZones(updated)[0];
+    if (crewCaught && deck) {
+      const result = damageCrewPool(updated, deck, rollDice(dice).total, rollDice(crewCaught).total, hazardName, round);
+      updated = result.vehicle;
+      logEntries.push(...result.logEntries);
+    }
+  }
 
-    const driver = findVehicleDriver(vehicle, crewAssignments, creatures);
-    // Use driver's initiative, or -100 if no driver (acts last)
-    const initiative = driver ? driver.initiative : -100;
+  if (effect.crewQualityChange) {
+    const result = adjustCrewQuality(updated, effect.crewQualityChange, `${hazardName} hazard`, round);
+    updated = result.vehicle;
+    logEntries.push(...result.logEntries);
+  }
 
-    initiativeEntries.push({
-      id: vehicle.id,
-      initiative,
-      name: vehicle.name,
-    });
+  if (effect.halfSpeed) {
+    const modifier: SpeedModifier = {
+      id: newId(),
+      source: `${hazardName} hazard`,
+      multiplier: 0.5,
+      duration: 'until_cleared',
+      appliedAtRound: round,
+    };
+    updated = { ...updated, speedModifiers: [...(updated.speedModifiers || []), modifier] };
   }
 
-  // Add creatures that are NOT assigned to any vehicle AND are in the current order
-  for (const creature of creatures) {
-    if (!currentOrderSet.has(creature.id)) continue;
-    if (crewCreatureIds.has(creature.id)) continue; // Skip crew members
-    // Skip dead NPCs (but keep PCs for death saves)
-    if (creature.currentHp === 0 && creature.statblock.type !== 'pc') continue;
+  if (effect.randomHeading) {
+    const facing = Math.floor(random() * 8) * 45;
+    updated = { ...updated, facing };
+    logEntries.push(createLogEntry(round, 'movement', `${vehicle.name} is driven off course (now facing ${facing}°)`, hazardName));
+  }
 
-    initiativeEntries.push({
-      id: creature.id,
-      initiative: creature.initiative || 0,
-      name: creature.name,
-    });
+  if (effect.crewLostPercent) {
+    const result = removeCrewPercent(updated, effect.crewLostPercent);
+    updated = result.vehicle;
+    logEntries.push(
+      createLogEntry(
+        round,
+        'complication',
+        `${effect.crewLostPercent}% of ${vehicle.name}'s crew is washed overboard and lost`,
+        result.lost > 0 ? `${hazardName} (${result.lost} crew lost)` : hazardName
+      )
+    );
   }
 
-  // Sort by initiative (descending), then alphabetically for ties
-  initiativeEntries.sort((a, b) => {
-    if (b.initiative !== a.initiative) {
-      return b.initiative - a.initiative;
-    }
-    return a.name.localeCompare(b.name);
-  });
+  if (effect.mutiny) {
+    updated = { ...updated, isMutinous: true };
+    logEntries.push(createLogEntry(round, 'complication', `The crew of ${vehicle.name} mutinies!`, hazardName));
+  }
 
-  return initiativeEntries.map((e) => e.id);
-}
+  if (effect.continues) {
+    logEntries.push(createLogEntry(round, 'complication', `${hazardName} continues aboard ${vehicle.name} — roll the group check again`, hazardName));
+  }
 
-function createLogEntry(
-  round: number,
-  type: LogEntryType,
-  action: string,
-  details?: string
-): LogEntry {
-  return {
-    id: uuid(),
-    timestamp: new Date(),
-    round,
-    type,
-    action,
-    details,
-  };
+  return { vehicle: updated, logEntries };
 }
 
 /**
@@ -1768,6 +4290,249 @@ function getVehicleInitiative(
   return driver ? driver.initiative : -1;
 }
 
+// ==========================================
+// Undo History
+// ==========================================
+
+const MAX_UNDO_STEPS = 50;
+
+// Saving bookkeeping, not a change to the encounter
+const UNRECORDED_ACTIONS: ReadonlySet<CombatAction['type']> = new Set(['MARK_AS_SAVED']);
+
+// Dispatched alongside a bigger change (a move pushes history and tracks movement), so a
+// later action in the same step names it instead
+const BOOKKEEPING_ACTIONS: ReadonlySet<CombatAction['type']> = new Set([
+  'PUSH_MOVE_HISTORY',
+  'TRACK_MOVEMENT',
+  'RESET_MOVEMENT_TRACKING',
+  'LOG_ACTION',
+  'CLEAR_EXPIRED_SPEED_MODIFIERS',
+]);
+
+interface ReplayView {
+  frames: CombatState[]; // Before combat, then after each event
+  events: ReplayEvent[];
+  step: number; // Index into frames
+  startLabel: string; // What the first frame shows
+}
+
+interface UndoStep {
+  state: CombatState; // Before the change (in past) or after it (in future)
+  label: string; // e.g. "Deal 24 damage to Tormentor"
+  bookkeeping: boolean; // Only bookkeeping actions so far, so the label can still be replaced
+  batch: number;
+}
+
+interface CombatHistory {
+  past: UndoStep[]; // Oldest first
+  present: CombatState;
+  future: UndoStep[]; // Next to redo first
+  restoreCount: number; // Bumped by every undo and redo, so the restored state gets saved
+}
+
+type CombatHistoryAction =
+  | { type: 'APPLY'; action: CombatAction; batch: number }
+  | { type: 'UNDO'; steps: number }
+  | { type: 'REDO'; steps: number };
+
+/**
+ * Wraps combatReducer with undo and redo. Everything dispatched in the same tick (one click
+ * or drag) is one step, so undo reverts the whole gesture.
+ */
+function combatHistoryReducer(history: CombatHistory, historyAction: CombatHistoryAction): CombatHistory {
+  switch (historyAction.type) {
+    case 'APPLY': {
+      const { action, batch } = historyAction;
+      const next = reduceAndRecord(history.present, action);
+      if (next === history.present) return history;
+      if (UNRECORDED_ACTIONS.has(action.type)) return { ...history, present: next };
+
+      const bookkeeping = BOOKKEEPING_ACTIONS.has(action.type);
+      const last = history.past[history.past.length - 1];
+      if (last?.batch === batch) {
+        const relabel = last.bookkeeping && !bookkeeping;
+        const step = relabel ? { ...last, label: describeCombatAction(action, history.present), bookkeeping: false } : last;
+        return { ...history, past: [...history.past.slice(0, -1), step], present: next, future: [] };
+      }
+      const step: UndoStep = { state: history.present, label: describeCombatAction(action, history.present), bookkeeping, batch };
+      return { ...history, past: [...history.past, step].slice(-MAX_UNDO_STEPS), present: next, future: [] };
+    }
+
+    case 'UNDO': {
+      const steps = Math.min(historyAction.steps, history.past.length);
+      if (steps === 0) return history;
+      const undone = history.past.slice(-steps);
+      const redo = undone.map((step, i) => ({ ...step, state: i + 1 < undone.length ? undone[i + 1].state : history.present }));
+      return {
+        past: history.past.slice(0, -steps),
+        present: keepSaveStatus(undone[0].state, history.present),
+        future: [...redo, ...history.future],
+        restoreCount: history.restoreCount + 1,
+      };
+    }
+
+    case 'REDO': {
+      const steps = Math.min(historyAction.steps, history.future.length);
+      if (steps === 0) return history;
+      const redone = history.future.slice(0, steps);
+      const undo = redone.map((step, i) => ({ ...step, state: i === 0 ? history.present : redone[i - 1].state }));
+      return {
+        past: [...history.past, ...undo].slice(-MAX_UNDO_STEPS),
+        present: keepSaveStatus(redone[steps - 1].state, history.present),
+        future: history.future.slice(steps),
+        restoreCount: history.restoreCount + 1,
+      };
+    }
+  }
+}
+
+// Not part of the replay: saving bookkeeping, the background image (kept out of the recording
+// for size), and actions that replace the encounter or end the recording
+const UNREPLAYED_ACTIONS: ReadonlySet<CombatAction['type']> = new Set([
+  'MARK_AS_SAVED',
+  'SET_BACKGROUND_IMAGE',
+  'LOAD_ENCOUNTER',
+  'NEW_ENCOUNTER',
+  'RESET_COMBAT',
+  'END_COMBAT',
+]);
+
+// Keeps an archived replay well under the storage limits; a longer combat replays its start
+const MAX_REPLAY_EVENTS = 1000;
+
+/**
+ * Run an action through the reducer. From the start of combat on, it's also added to the
+ * replay along with the rolls and ids it made, so replaying gives the same results.
+ */
+function reduceAndRecord(state: CombatState, action: CombatAction): CombatState {
+  const recording: CombatReplay | undefined =
+    state.replay ?? (action.type === 'START_COMBAT' ? { start: getReplayStart(state), events: [] } : undefined);
+  if (!recording || UNREPLAYED_ACTIONS.has(action.type) || recording.events.length >= MAX_REPLAY_EVENTS) {
+    return combatReducer(state, action);
+  }
+
+  const { result, tape } = recordRandomness(() => combatReducer(state, action));
+  if (result === state) return state;
+  const event: ReplayEvent = { action, tape, label: describeCombatAction(action, state), round: state.round };
+  const events = [...recording.events, event];
+  if (events.length < MAX_REPLAY_EVENTS) return { ...result, replay: { ...recording, events } };
+  return {
+    ...result,
+    replay: { ...recording, events },
+    actionLog: [
+      ...result.actionLog,
+      createLogEntry(result.round, 'system', 'Replay is full', `Only the first ${MAX_REPLAY_EVENTS} actions are recorded; the rest of this combat won't be in its replay`),
+    ],
+  };
+}
+
+/**
+ * A combat loaded mid-fight has no recording (it isn't saved with the encounter), so a new
+ * one starts here and the log says what the replay is missing
+ */
+function resumeReplayRecording(state: CombatState): CombatState {
+  if (state.phase !== 'combat' || state.replay) return state;
+  const logged: CombatState = {
+    ...state,
+    actionLog: [
+      ...state.actionLog,
+      createLogEntry(state.round, 'system', 'Replay recording restarted', 'The encounter was reloaded mid-combat; the replay starts here'),
+    ],
+  };
+  return { ...logged, replay: { start: getReplayStart(logged), events: [], resumedRound: state.round } };
+}
+
+function getReplayStart(state: CombatState): CombatState {
+  return { ...state, replay: undefined, battlefield: { ...state.battlefield, backgroundImage: undefined } };
+}
+
+/**
+ * The encounter just before combat, then after each recorded action, re-run with its rolls
+ */
+function buildReplayFrames(replay: CombatReplay): CombatState[] {
+  const frames = [replay.start];
+  for (const event of replay.events) {
+    const previous = frames[frames.length - 1];
+    frames.push(replayRandomness(event.tape, () => combatReducer(previous, event.action as CombatAction)));
+  }
+  return frames;
+}
+
+/**
+ * Undo doesn't take back saving the encounter
+ */
+function keepSaveStatus(restored: CombatState, current: CombatState): CombatState {
+  return restored.id === current.id ? { ...restored, hasBeenSaved: current.hasBeenSaved } : restored;
+}
+
+/**
+ * Human-readable name for an action in the undo list, using names from before it ran
+ */
+function describeCombatAction(action: CombatAction, state: CombatState): string {
+  const vehicleName = (id: string) => state.vehicles.find((v) => v.id === id)?.name ?? 'vehicle';
+  const creatureName = (id: string) => state.creatures.find((c) => c.id === id)?.name ?? 'creature';
+
+  switch (action.type) {
+    case 'ADD_VEHICLE':
+    case 'ADD_CREATURE':
+      return `Add ${action.payload.name}`;
+    case 'REMOVE_VEHICLE':
+      return `Remove ${vehicleName(action.payload)}`;
+    case 'REMOVE_CREATURE':
+      return `Remove ${creatureName(action.payload)}`;
+    case 'UPDATE_VEHICLE':
+      return `Edit ${vehicleName(action.payload.id)}`;
+    case 'UPDATE_CREATURE':
+      return `Edit ${creatureName(action.payload.id)}`;
+    case 'ASSIGN_CREW':
+      return `Assign ${creatureName(action.payload.creatureId)} to ${vehicleName(action.payload.vehicleId)}`;
+    case 'UNASSIGN_CREW':
+      return `Unassign ${creatureName(action.payload.creatureId)}`;
+    case 'BOARD_VEHICLE':
+      return `${creatureName(action.payload.creatureId)} boards ${vehicleName(action.payload.vehicleId)}`;
+    case 'FIRE_VEHICLE_WEAPON': {
+      const weapon = state.vehicles.find((v) => v.id === action.payload.vehicleId)?.weapons.find((w) => w.id === action.payload.weaponId);
+      return `${creatureName(action.payload.creatureId)} fires ${weapon?.name ?? 'a weapon'}`;
+    }
+    case 'DEAL_DAMAGE_TO_VEHICLE':
+      return `Deal ${getDamageTotal(action.payload.parts)} damage to ${vehicleName(action.payload.vehicleId)}`;
+    case 'DEAL_DAMAGE_TO_CREATURE':
+      return `Deal ${getDamageTotal(action.payload.parts)} damage to ${creatureName(action.payload.creatureId)}`;
+    case 'HEAL_VEHICLE':
+      return `Repair ${vehicleName(action.payload.vehicleId)} by ${action.payload.amount}`;
+    case 'HEAL_CREATURE':
+      return `Heal ${creatureName(action.payload.creatureId)} for ${action.payload.amount}`;
+    case 'ADD_CONDITION':
+      return `Add ${action.payload.condition.name} to ${creatureName(action.payload.creatureId)}`;
+    case 'REMOVE_CONDITION':
+      return `Remove ${action.payload.name} from ${creatureName(action.payload.creatureId)}`;
+    case 'APPLY_MISHAP':
+      return `Apply ${action.payload.mishap.name} to ${vehicleName(action.payload.vehicleId)}`;
+    case 'RAM': {
+      // The target can be a vehicle or a creature on foot
+      const { targetId } = action.payload;
+      const target = state.vehicles.find((v) => v.id === targetId)?.name ?? creatureName(targetId);
+      return `${vehicleName(action.payload.vehicleId)} rams ${target}`;
+    }
+    case 'UPDATE_VEHICLE_POSITION':
+      return `Move ${vehicleName(action.payload.vehicleId)}`;
+    case 'UPDATE_VEHICLE_FACING':
+      return `Turn ${vehicleName(action.payload.vehicleId)}`;
+    case 'SET_INITIATIVE':
+      return `Set ${creatureName(action.payload.creatureId)}'s initiative to ${action.payload.initiative}`;
+    case 'USE_LEGENDARY_ACTION':
+    case 'USE_CREATURE_ABILITY':
+      return `${creatureName(action.payload.creatureId)} uses ${action.payload.actionName}`;
+    case 'LOG_ACTION':
+      return `Log "${action.payload.action}"`;
+    default: {
+      // NEXT_TURN -> "Next turn"
+      const words = action.type.toLowerCase().replace(/_/g, ' ');
+      return words.charAt(0).toUpperCase() + words.slice(1);
+    }
+  }
+}
+
 // ==========================================
 // Context
 // ==========================================
@@ -1782,7 +4547,8 @@ interface CombatContextValue {
   addCreature: (creature: Creature) => void;
   removeCreature: (creatureId: string) => void;
   assignCrew: (assignment: CrewAssignment) => void;
-  dealDamage: (targetType: 'vehicle' | 'creature', targetId: string, amount: number, source?: string) => void;
+  setOfficerRole: (vehicleId: string, role: OfficerRole, creatureId: string | null) => void;
+  dealDamage: (targetType: 'vehicle' | 'creature', targetId: string, parts: DamagePart[], source?: string) => void;
   applyMishap: (vehicleId: string, mishap: Mishap) => void;
   updateVehiclePosition: (vehicleId: string, position: Position) => void;
   updateVehicleFacing: (vehicleId: string, facing: number) => void;
@@ -1803,7 +4569,7 @@ interface CombatContextValue {
   setVehicleArmor: (vehicleId: string, armorUpgradeId: string) => void;
   toggleVehicleGadget: (vehicleId: string, gadgetId: string) => void;
   toggleNavalUpgrade: (vehicleId: string, upgradeId: string) => void;
-  damageVehicleComponent: (vehicleId: string, componentId: string, amount: number) => void;
+  damageVehicleComponent: (vehicleId: string, componentId: string, parts: DamagePart[]) => void;
   setVehicleComponentHp: (vehicleId: string, componentId: string, hp: number) => void;
   toggleWeaponStationUpgrade: (vehicleId: string) => void;
   loadPartyPreset: (vehicles: Vehicle[], creatures: Creature[], crewAssignments: CrewAssignment[]) => void;
@@ -1811,12 +4577,21 @@ interface CombatContextValue {
   logComplication: (roll: number, complicationName: string | null, details?: string) => void;
   startComplicationResolution: (complication: ChaseComplication, roll: number, rollRange: string) => void;
   resolveVehicleComplication: (vehicleId: string, status: ComplicationResolutionStatus, rollResult?: number, modifier?: number, total?: number) => void;
+  resolveHazardCheck: (vehicleId: string, checkIndex: number, status: ComplicationResolutionStatus, rollResult?: number, modifier?: number, total?: number) => void;
   applyComplicationEffects: () => void;
   clearComplication: () => void;
   getDriverDexSave: (vehicle: Vehicle) => { modifier: number; driverName: string } | null;
   getEffectiveSpeed: (vehicle: Vehicle) => number;
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
+  startReplay: (replay: CombatReplay) => void;
+  setReplayStep: (step: number) => void; // 0 is before combat, n is after the nth action
+  stopReplay: () => void;
 
   // Computed values
+  undoLabels: string[]; // Oldest first
+  redoLabels: string[]; // Next to redo first
+  replay: { step: number; stepCount: number; label: string } | null; // Set while replaying a combat
   currentTurnCreature: Creature | undefined;
   currentTurnVehicle: Vehicle | undefined;
   currentTurnDriver: Creature | undefined;
@@ -1861,6 +4636,7 @@ function getInitialState(providedState?: CombatState): CombatState {
       // Migrate vehicles to fix weapon zones and add isSwappableStation flag
       const migratedVehicles = (loadedState.vehicles || []).map((vehicle) => ({
         ...vehicle,
+        ...migrateShipTemplate(vehicle),
         weapons: vehicle.weapons.map((weapon) => {
           let zoneId = weapon.zoneId;
 
@@ -1880,6 +4656,8 @@ function getInitialState(providedState?: CombatState): CombatState {
             zoneId,
             // Mark harpoon weapons as swappable if not already set
             isSwappableStation: weapon.isSwappableStation ?? weapon.id.includes('harpoon') ?? weapon.name?.toLowerCase().includes('harpoon'),
+            ...(weapon.currentAmmunition === undefined ? getStartingAmmunition(weapon) : {}),
+            ...getMissingSiegeSteps(weapon, resolveTemplate(vehicle.template.id)),
           };
         }),
       }));
@@ -1932,22 +4710,93 @@ function getInitialState(providedState?: CombatState): CombatState {
         initiativeOrderLength: restoredState.initiativeOrder.length,
       });
 
-      return restoredState;
+      return resumeReplayRecording(restoredState);
     }
   } catch (error) {
     console.warn('Failed to load saved encounter:', error);
   }
 
   // Return fresh state with new ID
-  return { ...initialCombatState, id: uuid() };
+  return { ...initialCombatState, id: newId() };
+}
+
+/**
+ * The encounter as saved. The replay in progress is left out: it's only kept until combat
+ * is finished and archived, and a reload mid-combat starts a new one (see resumeReplayRecording).
+ */
+function getSaveData(state: CombatState): CombatState {
+  return { ...state, replay: undefined };
+}
+
+/**
+ * Template for a ship saved before sail speeds and upgrade stats were tracked, with the
+ * extra hull HP an upgrade that's now applied brings
+ */
+function migrateShipTemplate(vehicle: Vehicle): Pick<Vehicle, 'template'> & Partial<Pick<Vehicle, 'currentHp'>> {
+  const source = resolveTemplate(vehicle.template.id);
+  const withSails = { ...vehicle, template: fillMissingSailSpeeds(vehicle.template, source) };
+  return { template: withSails.template, ...getMissingNavalUpgradeStats(withSails, source) };
+}
+
+function isTextInput(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 }
 
 export function CombatProvider({ children, initialState }: CombatProviderProps) {
-  const [state, dispatch] = useReducer(
-    combatReducer,
+  const [history, dispatchHistory] = useReducer(
+    combatHistoryReducer,
     initialState,
-    () => getInitialState(initialState)
+    (): CombatHistory => ({ past: [], present: getInitialState(initialState), future: [], restoreCount: 0 })
   );
+  const state = history.present;
+
+  // An archived combat replaying on the map: its frames and the one showing. The map and
+  // panels see that frame (on today's background image) and nothing can be changed meanwhile.
+  const [replayView, setReplayView] = useState<ReplayView | null>(null);
+  const replayingRef = useRef(false);
+  useEffect(() => {
+    replayingRef.current = !!replayView;
+  }, [replayView]);
+  const viewState = useMemo(() => {
+    if (!replayView) return state;
+    const frame = replayView.frames[replayView.step];
+    return { ...frame, battlefield: { ...frame.battlefield, backgroundImage: state.battlefield.backgroundImage } };
+  }, [replayView, state]);
+
+  // Everything dispatched before the current tick ends shares an undo step. The batch id
+  // travels on the action, so the history reducer stays pure.
+  const undoBatchRef = useRef({ id: 0, open: false });
+  const dispatch = useCallback((action: CombatAction) => {
+    if (replayingRef.current) return;
+    const undoBatch = undoBatchRef.current;
+    if (!undoBatch.open) {
+      undoBatch.open = true;
+      undoBatch.id += 1;
+      queueMicrotask(() => {
+        undoBatch.open = false;
+      });
+    }
+    dispatchHistory({ type: 'APPLY', action, batch: undoBatch.id });
+  }, []);
+  const undo = useCallback((steps = 1) => {
+    if (!replayingRef.current) dispatchHistory({ type: 'UNDO', steps });
+  }, []);
+  const redo = useCallback((steps = 1) => {
+    if (!replayingRef.current) dispatchHistory({ type: 'REDO', steps });
+  }, []);
+
+  const startReplay = useCallback((replay: CombatReplay) => {
+    setReplayView({
+      frames: buildReplayFrames(replay),
+      events: replay.events,
+      step: 0,
+      startLabel: replay.resumedRound !== undefined ? `Recording restarted in round ${replay.resumedRound}` : 'Before combat',
+    });
+  }, []);
+  const setReplayStep = useCallback((step: number) => {
+    setReplayView((view) => view && { ...view, step: Math.max(0, Math.min(view.frames.length - 1, step)) });
+  }, []);
+  const stopReplay = useCallback(() => setReplayView(null), []);
 
   // Track last saved time for UI feedback
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
@@ -1959,7 +4808,7 @@ export function CombatProvider({ children, initialState }: CombatProviderProps)
   // Direct save function using current state parameter
   const saveState = useCallback((stateToSave: CombatState) => {
     try {
-      const serialized = JSON.stringify(stateToSave);
+      const serialized = JSON.stringify(getSaveData(stateToSave));
       const sizeKB = Math.round(serialized.length / 1024);
       const sizeMB = (serialized.length / (1024 * 1024)).toFixed(2);
 
@@ -2027,6 +4876,32 @@ export function CombatProvider({ children, initialState }: CombatProviderProps)
     }
   }, [state.phase, state.round, state.currentTurnIndex, state.battlefield.backgroundImage, state.hasBeenSaved, state, saveState]);
 
+  // Save what undo or redo restored, so a reload doesn't bring back an undone change
+  const prevRestoreCountRef = useRef(history.restoreCount);
+  useEffect(() => {
+    if (prevRestoreCountRef.current === history.restoreCount) return;
+    prevRestoreCountRef.current = history.restoreCount;
+    saveState(state);
+  }, [history.restoreCount, state, saveState]);
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo, leaving text fields their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
   // Force save function for external use - always uses latest state via ref
   const forceSave = useCallback(() => {
     saveState(stateRef.current);
@@ -2046,7 +4921,7 @@ export function CombatProvider({ children, initialState }: CombatProviderProps)
   useEffect(() => {
     const handleBeforeUnload = () => {
       try {
-        const serialized = JSON.stringify(stateRef.current);
+        const serialized = JSON.stringify(getSaveData(stateRef.current));
         window.localStorage.setItem(AUTO_SAVE_KEY, serialized);
         console.log('Saved on page unload');
       } catch {
@@ -2061,62 +4936,68 @@ export function CombatProvider({ children, initialState }: CombatProviderProps)
   // Convenience methods
   const addVehicle = useCallback(
     (vehicle: Vehicle) => dispatch({ type: 'ADD_VEHICLE', payload: vehicle }),
-    []
+    [dispatch]
   );
 
   const removeVehicle = useCallback(
     (vehicleId: string) => dispatch({ type: 'REMOVE_VEHICLE', payload: vehicleId }),
-    []
+    [dispatch]
   );
 
   const addCreature = useCallback(
     (creature: Creature) => dispatch({ type: 'ADD_CREATURE', payload: creature }),
-    []
+    [dispatch]
   );
 
   const removeCreature = useCallback(
     (creatureId: string) => dispatch({ type: 'REMOVE_CREATURE', payload: creatureId }),
-    []
+    [dispatch]
   );
 
   const assignCrew = useCallback(
     (assignment: CrewAssignment) => dispatch({ type: 'ASSIGN_CREW', payload: assignment }),
-    []
+    [dispatch]
+  );
+
+  const setOfficerRole = useCallback(
+    (vehicleId: string, role: OfficerRole, creatureId: string | null) =>
+      dispatch({ type: 'SET_OFFICER_ROLE', payload: { vehicleId, role, creatureId } }),
+    [dispatch]
   );
 
   const dealDamage = useCallback(
-    (targetType: 'vehicle' | 'creature', targetId: string, amount: number, source?: string) => {
+    (targetType: 'vehicle' | 'creature', targetId: string, parts: DamagePart[], source?: string) => {
       if (targetType === 'vehicle') {
         dispatch({
           type: 'DEAL_DAMAGE_TO_VEHICLE',
-          payload: { vehicleId: targetId, amount, source },
+          payload: { vehicleId: targetId, parts, source },
         });
       } else {
         dispatch({
           type: 'DEAL_DAMAGE_TO_CREATURE',
-          payload: { creatureId: targetId, amount, source },
+          payload: { creatureId: targetId, parts, source },
         });
       }
     },
-    []
+    [dispatch]
   );
 
   const applyMishap = useCallback(
     (vehicleId: string, mishap: Mishap) =>
       dispatch({ type: 'APPLY_MISHAP', payload: { vehicleId, mishap } }),
-    []
+    [dispatch]
   );
 
   const updateVehiclePosition = useCallback(
     (vehicleId: string, position: Position) =>
       dispatch({ type: 'UPDATE_VEHICLE_POSITION', payload: { vehicleId, position } }),
-    []
+    [dispatch]
   );
 
   const updateVehicleFacing = useCallback(
     (vehicleId: string, facing: number) =>
       dispatch({ type: 'UPDATE_VEHICLE_FACING', payload: { vehicleId, facing } }),
-    []
+    [dispatch]
   );
 
   const startCombat = useCallback(() => {
@@ -2127,96 +5008,96 @@ export function CombatProvider({ children, initialState }: CombatProviderProps)
       creature_count: state.creatures.length,
       scale: state.scale,
     });
-  }, [state.vehicles.length, state.creatures.length, state.scale]);
+  }, [state.vehicles.length, state.creatures.length, state.scale, dispatch]);
 
   const returnToSetup = useCallback(() => {
     dispatch({ type: 'RETURN_TO_SETUP' });
-  }, []);
+  }, [dispatch]);
 
   const resetCombat = useCallback(() => {
     dispatch({ type: 'RESET_COMBAT' });
-  }, []);
+  }, [dispatch]);
 
   const nextTurn = useCallback(() => {
     dispatch({ type: 'NEXT_TURN' });
-  }, []);
+  }, [dispatch]);
 
   const nextRound = useCallback(() => {
     dispatch({ type: 'NEXT_ROUND' });
-  }, []);
+  }, [dispatch]);
   const setScale = useCallback(
     (scale: ScaleName) => dispatch({ type: 'SET_SCALE', payload: scale }),
-    []
+    [dispatch]
   );
   const loadEncounter = useCallback(
     (encounter: CombatState) => dispatch({ type: 'LOAD_ENCOUNTER', payload: encounter }),
-    []
+    [dispatch]
   );
   const newEncounter = useCallback(
     (name: string) => dispatch({ type: 'NEW_ENCOUNTER', payload: { name } }),
-    []
+    [dispatch]
   );
   const setEncounterName = useCallback(
     (name: string) => dispatch({ type: 'SET_ENCOUNTER_NAME', payload: name }),
-    []
+    [dispatch]
   );
   const setBackgroundImage = useCallback(
     (config: BackgroundImageConfig | null) => dispatch({ type: 'SET_BACKGROUND_IMAGE', payload: config }),
-    []
+    [dispatch]
   );
   const markAsSaved = useCallback(
     () => dispatch({ type: 'MARK_AS_SAVED' }),
-    []
+    [dispatch]
   );
   const swapVehicleWeapon = useCallback(
     (vehicleId: string, weaponIndex: number, newWeapon: VehicleWeapon) =>
       dispatch({ type: 'SWAP_VEHICLE_WEAPON', payload: { vehicleId, weaponIndex, newWeapon } }),
-    []
+    [dispatch]
   );
   const setVehicleArmor = useCallback(
     (vehicleId: string, armorUpgradeId: string) =>
       dispatch({ type: 'SET_VEHICLE_ARMOR', payload: { vehicleId, armorUpgradeId } }),
-    []
+    [dispatch]
   );
   const toggleNavalUpgrade = useCallback(
     (vehicleId: string, upgradeId: string) =>
       dispatch({ type: 'TOGGLE_NAVAL_UPGRADE', payload: { vehicleId, upgradeId } }),
-    []
+    [dispatch]
   );
 
   const damageVehicleComponent = useCallback(
-    (vehicleId: string, componentId: string, amount: number) =>
-      dispatch({ type: 'DAMAGE_VEHICLE_COMPONENT', payload: { vehicleId, componentId, amount } }),
-    []
+    (vehicleId: string, componentId: string, parts: DamagePart[]) =>
+      dispatch({ type: 'DAMAGE_VEHICLE_COMPONENT', payload: { vehicleId, componentId, parts } }),
+    [dispatch]
   );
 
   const setVehicleComponentHp = useCallback(
     (vehicleId: string, componentId: string, hp: number) =>
       dispatch({ type: 'SET_VEHICLE_COMPONENT_HP', payload: { vehicleId, componentId, hp } }),
-    []
+    [dispatch]
   );
 
   const toggleVehicleGadget = useCallback(
     (vehicleId: string, gadgetId: string) =>
       dispatch({ type: 'TOGGLE_VEHICLE_GADGET', payload: { vehicleId, gadgetId } }),
-    []
+    [dispatch]
   );
 
   const toggleWeaponStationUpgrade = useCallback(
     (vehicleId: string) =>
       dispatch({ type: 'TOGGLE_WEAPON_STATION_UPGRADE', payload: { vehicleId } }),
-    []
+    [dispatch]
   );
 
   const loadPartyPreset = useCallback(
     (vehicles: Vehicle[], creatures: Creature[], crewAssignments: CrewAssignment[]) =>
       dispatch({ type: 'LOAD_PARTY_PRESET', payload: { vehicles, creatures, crewAssignments } }),
-    []
+    [dispatch]
   );
 
   const toggleAutoRollComplications = useCallback(
     () => dispatch({ type: 'TOGGLE_AUTO_ROLL_COMPLICATIONS' }),
-    []
+    [dispatch]
   );
 
   const logComplication = useCallback(
@@ -2232,35 +5113,41 @@ export function CombatProvider({ children, initialState }: CombatProviderProps)
         },
       });
     },
-    []
+    [dispatch]
   );
 
   const startComplicationResolution = useCallback(
     (complication: ChaseComplication, roll: number, rollRange: string) =>
       dispatch({ type: 'START_COMPLICATION_RESOLUTION', payload: { complication, roll, rollRange } }),
-    []
+    [dispatch]
   );
 
   const resolveVehicleComplication = useCallback(
     (vehicleId: string, status: ComplicationResolutionStatus, rollResult?: number, modifier?: number, total?: number) =>
       dispatch({ type: 'RESOLVE_VEHICLE_COMPLICATION', payload: { vehicleId, status, rollResult, modifier, total } }),
-    []
+    [dispatch]
+  );
+
+  const resolveHazardCheck = useCallback(
+    (vehicleId: string, checkIndex: number, status: ComplicationResolutionStatus, rollResult?: number, modifier?: number, total?: number) =>
+      dispatch({ type: 'RESOLVE_HAZARD_CHECK', payload: { vehicleId, checkIndex, status, rollResult, modifier, total } }),
+    [dispatch]
   );
 
   const applyComplicationEffects = useCallback(
     () => dispatch({ type: 'APPLY_COMPLICATION_EFFECTS' }),
-    []
+    [dispatch]
   );
 
   const clearComplication = useCallback(
     () => dispatch({ type: 'CLEAR_COMPLICATION' }),
-    []
+    [dispatch]
   );
 
   // Get the driver's DEX save modifier for a vehicle
   const getDriverDexSave = useCallback(
     (vehicle: Vehicle): { modifier: number; driverName: string } | null => {
-      const driver = findVehicleDriver(vehicle, state.crewAssignments, state.creatures);
+      const driver = findVehicleDriver(vehicle, viewState.crewAssignments, viewState.creatures);
       if (!driver) return null;
 
       // Get DEX save modifier - check savingThrows first, then calculate from abilities
@@ -2274,66 +5161,50 @@ export function CombatProvider({ children, initialState }: CombatProviderProps)
 
       return { modifier, driverName: driver.name };
     },
-    [state.crewAssignments, state.creatures]
+    [viewState.crewAssignments, viewState.creatures]
   );
 
   // Get the effective speed of a vehicle after applying all modifiers
   const getEffectiveSpeed = useCallback(
-    (vehicle: Vehicle): number => {
-      let speed = vehicle.template.speed;
-
-      // Apply mishap speed reductions
-      for (const mishap of vehicle.activeMishaps) {
-        if (mishap.mechanicalEffect?.speedReduction) {
-          speed = Math.max(0, speed - mishap.mechanicalEffect.speedReduction);
-        }
-      }
-
-      // Apply speed modifiers (multipliers like 0.5 for half speed)
-      if (vehicle.speedModifiers && vehicle.speedModifiers.length > 0) {
-        for (const mod of vehicle.speedModifiers) {
-          speed = Math.floor(speed * mod.multiplier);
-        }
-      }
-
-      return Math.max(0, speed);
-    },
-    []
+    (vehicle: Vehicle): number =>
+      getEffectiveVehicleSpeed(vehicle, viewState.crewAssignments, viewState.environment.wind),
+    [viewState.crewAssignments, viewState.environment.wind]
   );
 
   // Helper to get vehicle driver
   const getVehicleDriver = useCallback(
-    (vehicle: Vehicle) => findVehicleDriver(vehicle, state.crewAssignments, state.creatures),
-    [state.crewAssignments, state.creatures]
+    (vehicle: Vehicle) => findVehicleDriver(vehicle, viewState.crewAssignments, viewState.creatures),
+    [viewState.crewAssignments, viewState.creatures]
   );
 
   // Computed values
-  const currentTurnId = state.initiativeOrder[state.currentTurnIndex];
+  const currentTurnId = viewState.initiativeOrder[viewState.currentTurnIndex];
 
   // Check if current turn is a vehicle
-  const currentTurnVehicle = state.vehicles.find((v) => v.id === currentTurnId);
+  const currentTurnVehicle = viewState.vehicles.find((v) => v.id === currentTurnId);
 
   // Get driver if it's a vehicle turn
   const currentTurnDriver = currentTurnVehicle
-    ? findVehicleDriver(currentTurnVehicle, state.crewAssignments, state.creatures)
+    ? findVehicleDriver(currentTurnVehicle, viewState.crewAssignments, viewState.creatures)
     : undefined;
 
   // Current turn creature (only if it's NOT a vehicle turn)
   const currentTurnCreature = currentTurnVehicle
     ? undefined
-    : state.creatures.find((c) => c.id === currentTurnId);
+    : viewState.creatures.find((c) => c.id === currentTurnId);
 
-  const isSetupPhase = state.phase === 'setup';
-  const isCombatActive = state.phase === 'combat';
+  const isSetupPhase = viewState.phase === 'setup';
+  const isCombatActive = viewState.phase === 'combat';
 
   const value: CombatContextValue = {
-    state,
+    state: viewState,
     dispatch,
     addVehicle,
     removeVehicle,
     addCreature,
     removeCreature,
     assignCrew,
+    setOfficerRole,
     dealDamage,
     applyMishap,
     updateVehiclePosition,
@@ -2363,10 +5234,23 @@ export function CombatProvider({ children, initialState }: CombatProviderProps)
     logComplication,
     startComplicationResolution,
     resolveVehicleComplication,
+    resolveHazardCheck,
     applyComplicationEffects,
     clearComplication,
     getDriverDexSave,
     getEffectiveSpeed,
+    undo,
+    redo,
+    undoLabels: history.past.map((step) => step.label),
+    redoLabels: history.future.map((step) => step.label),
+    startReplay,
+    setReplayStep,
+    stopReplay,
+    replay: replayView && {
+      step: replayView.step,
+      stepCount: replayView.frames.length - 1,
+      label: replayView.step > 0 ? replayView.events[replayView.step - 1].label : replayView.startLabel,
+    },
     currentTurnCreature,
     currentTurnVehicle,
     currentTurnDriver,
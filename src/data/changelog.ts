@@ -13,6 +13,219 @@ export interface ChangelogEntry {
 }
 
 export const changelog: ChangelogEntry[] = [
+  {
+    version: '2.32.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Combat replay — every change from the start of combat is recorded with its dice rolls, and Replay on Map in the Combat Complete summary steps back through the fight on the battlefield with a scrubber, showing token positions, HP and mishaps at each point. Handy for reviewing a session or catching up absent players.' },
+      { type: 'improvement', description: 'Nothing can be changed while a replay is showing; Exit Replay returns to the live encounter. Past Combats in the menu replays earlier fights; saved on this device, the three most recent keep their replay.' },
+    ],
+  },
+  {
+    version: '2.31.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Undo and redo for every change to the encounter, not just movement: header buttons, Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y also redoes), and a history list naming each change ("Deal 24 damage to Tormentor") to undo back to. The last 50 changes are kept.' },
+      { type: 'improvement', description: 'One click or drag is one undo step, so undoing a move also puts back the movement it used. An undone change is saved straight away and disappears from the player view.' },
+    ],
+  },
+  {
+    version: '2.30.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Recharge abilities — an action such as "Fire Breath (Recharge 5–6)" is marked spent when used from the statblock view, and a d6 is rolled for it at the start of the creature\'s turn, with the result in the log.' },
+      { type: 'feature', description: 'Actions usable a number of times per day or once per rest count their uses, and installed magical gadgets show Ready or Used on the vehicle card. Resetting the encounter restores every use.' },
+      { type: 'fix', description: 'Monsters imported from Open5e now have the recharge or per-day limit in an action\'s name tracked.' },
+    ],
+  },
+  {
+    version: '2.29.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Legendary actions — at the end of each other turn, legendary creatures with actions left are offered their options, with costs such as "Costs 2 Actions" taken from the pool. The pool refills at the start of the creature\'s own turn and shows in the sidebar.' },
+      { type: 'feature', description: 'Lair actions — combat starts with a Lair turn on initiative 20 (losing ties) when a creature has lair actions, offering one lair action a round from its statblock or a custom one. The Lair chip on the initiative tracker adds or removes the turn.' },
+      { type: 'improvement', description: 'Monsters imported from Open5e pick up how many legendary actions they take each round.' },
+    ],
+  },
+  {
+    version: '2.28.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Death saves — a PC who drops to 0 HP is dying, and a death save prompt appears at the start of each of their turns (on their vehicle\'s turn for crew). A natural 20 brings them back with 1 HP, a natural 1 counts as two failures; three successes stabilize them and three failures kill them.' },
+      { type: 'feature', description: 'Damage to a dying PC adds a failure, two from a critical hit, and damage past 0 HP equal to their HP maximum kills outright. Any healing clears the death saves, and the DM can stabilize a PC from the sidebar.' },
+      { type: 'improvement', description: 'Death save successes and failures show as pips in the sidebar and on the player view.' },
+    ],
+  },
+  {
+    version: '2.27.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Concentration — start concentrating on a spell from under a creature in the sidebar. When a concentrating creature takes damage, a Con save prompt appears at DC 10 or half the damage, whichever is higher; failing it ends the spell.' },
+      { type: 'feature', description: 'Conditions can be tied to a concentrating caster\'s spell, and end along with it. Dropping to 0 HP, becoming incapacitated or concentrating on a new spell also ends concentration.' },
+    ],
+  },
+  {
+    version: '2.26.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Conditions can be added and removed from each creature in the sidebar, with a duration in rounds that counts down at the start or end of the creature\'s turn. When it runs out the condition ends and the log says so.' },
+      { type: 'feature', description: 'Save-ends conditions ("DC 13 Con save ends") prompt the save at the end of the creature\'s turn; a success removes the condition.' },
+      { type: 'feature', description: 'Conditions now affect the rolls the app makes: poisoned, prone, restrained and exhaustion give disadvantage on attacks, checks and saves as the rules say, attacks against restrained or prone targets gain advantage where they should, and paralyzed or stunned creatures fail Str and Dex saves.' },
+    ],
+  },
+  {
+    version: '2.25.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Readied actions — a crew member who takes the Ready action records what they\'ll do and the trigger: a vehicle coming within range, a creature boarding their vehicle, an attack declared against them, or anything else.' },
+      { type: 'feature', description: 'When a trigger happens, a reaction prompt appears at the top of the right panel. Using it spends the creature\'s reaction for the round; readied actions lapse at the start of the creature\'s next turn, and can be triggered or cancelled by hand.' },
+      { type: 'feature', description: 'Juke is offered automatically when an attack is declared against a Devil\'s Ride, Buzz Killer or Tormentor that can move and whose driver still has their reaction.' },
+    ],
+  },
+  {
+    version: '2.24.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Action economy — each creature\'s action, bonus action and reaction are tracked for the round. Crew declarations in the Crew Actions panel are kept until the vehicle\'s next turn instead of clearing when the panel redraws, and resolved crew show as spent.' },
+      { type: 'feature', description: 'Vehicle reactions like the Devil\'s Ride\'s Juke can be used from the vehicle card on any turn, spending the driver\'s reaction until the start of the vehicle\'s next turn.' },
+      { type: 'improvement', description: 'The player view shows the initiative order with whose turn it is and who has already acted this round.' },
+      { type: 'improvement', description: 'Breaking free of a tether spends the crew member\'s action; crew who have already acted can\'t be picked.' },
+    ],
+  },
+  {
+    version: '2.23.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Attack resolution — pick a target for a station weapon (a vehicle, one of a ship\'s components, or a creature) and resolving the Fire action rolls to hit with the weapon\'s bonus, ship upgrades and high ground, against AC plus cover. A natural 20 doubles the damage dice.' },
+      { type: 'feature', description: 'Save-based weapons (Buzz Saw, Flamethrower, Infernal Screamer…) roll the target\'s save instead, for half damage on a success. Vehicles automatically fail Int, Wis and Cha saves.' },
+      { type: 'improvement', description: 'The attack, its dice and the damage rolled are logged as one entry, and the damage goes through resistances, damage thresholds and mishap checks as usual.' },
+    ],
+  },
+  {
+    version: '2.22.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Ammunition — resolving a Fire action at a weapon station spends a round from weapons with limited ammunition (the Harpoon Flinger\'s 10 harpoons), shown as Ammo N/10 on the station and vehicle card. An empty weapon can\'t fire.' },
+      { type: 'feature', description: 'Siege weapons follow the load → aim → fire sequence: a ballista takes one action to load and one to aim, a mangonel two of each, spent by the crew at the station over one or more turns. Custom templates can set Load and Aim per weapon.' },
+      { type: 'feature', description: 'Spare ammunition — set the rounds a vehicle carries in its cargo on the vehicle card; crew spend their action to restock a weapon from them.' },
+    ],
+  },
+  {
+    version: '2.21.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Tethers — after a hit, a Harpoon Flinger, Grappling Claw or a ship with Grasping Rounds can hold the target from the Tethers box in the Crew Actions panel. Tethers are drawn as a line on the battlefield map.' },
+      { type: 'feature', description: 'Tethered vehicles can\'t move apart beyond the line: a stronger vehicle (higher Str) drags the other along, a weaker one stops at the end of it.' },
+      { type: 'feature', description: 'Breaking free — a crew member of the held vehicle spends their action on a Str check against the escape DC (harpoon 13, claw 12); Grasping Rounds end with the action alone. The holder can release at any time.' },
+    ],
+  },
+  {
+    version: '2.20.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Boarding — crew can jump to another vehicle from the Crew Actions panel. The gap is measured hull to hull on the map, the jump is an Athletics or Acrobatics check (DC 10 up to the creature\'s Strength in feet, harder beyond), and success seats them in the zone you pick.' },
+      { type: 'feature', description: 'A failed jump drops the creature on the battlefield between the vehicles with falling damage (3d6 among wheels, 1d6 into the water) and puts them in initiative.' },
+      { type: 'feature', description: 'Boarding links — lash vehicles together with a plank (crossed without a check) or a grappling line (DC 10 Athletics). Links stay until they are cut or the vehicles pull beyond their reach.' },
+    ],
+  },
+  {
+    version: '2.19.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Ramming — pick a Ram target at the helm and resolving it rolls 1d6 bludgeoning per 10 ft the vehicle moved this round (max 20d6) against the target and the rammer, through damage thresholds and mishap checks. The target is shoved 10 ft and the rammer stops for the round.' },
+      { type: 'feature', description: 'The rammer has to end its move within 5 ft of the target. A ship with a naval ram takes its share of the crash on the ram rather than the hull. Creatures rammed on foot make a DC 15 Dex save for half damage, or are knocked prone and shoved.' },
+    ],
+  },
+  {
+    version: '2.18.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Flip puts the vehicle on its side: its speed drops to 0, everyone aboard falls prone and rolls the DC 15 Strength save (failures take 3d6 bludgeoning), and the DM can choose to throw those who fail clear of the vehicle.' },
+      { type: 'feature', description: 'Right the Vehicle — any crew member aboard a flipped vehicle can spend their action on a DC 15 Str (Athletics) check in the Crew Actions panel to get it moving again.' },
+      { type: 'improvement', description: 'The combat log shows the dice behind saves and checks it rolls, in the panel and in exported logs.' },
+    ],
+  },
+  {
+    version: '2.17.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Mishaps act at the start of the vehicle\'s turn — Engine Flare rolls its 3d6 fire against the vehicle and everyone aboard (infernal war machines shrug off the fire; their crew doesn\'t).' },
+      { type: 'feature', description: 'Blinding Smoke leaves the helm heavily obscured: targets there are marked Obscured in cover calculations, and attacks into or out of the smoke roll with disadvantage.' },
+      { type: 'improvement', description: 'The Crew Actions panel shows mishap roll effects — Damaged Axle gives disadvantage to officer checks and weapon to-hit rolls, and Locked Steering\'s automatic Dex failures are flagged at the top of the panel. Clickable dice now understand "adv" and "dis".' },
+    ],
+  },
+  {
+    version: '2.16.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Damage thresholds are enforced everywhere damage is dealt — quick damage on the battlefield, vehicle cards, stats panels and hazards. Damage below the threshold (lowered by Shedding Armor) is ignored and logged; ship components check their own thresholds.' },
+      { type: 'feature', description: 'Automatic mishaps — a war machine hit for its mishap threshold or more rolls a mishap on its own, and the DM applies, rerolls or dismisses it from the vehicle card before it takes effect.' },
+    ],
+  },
+  {
+    version: '2.15.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Typed damage — damage fields take "12", "18 fire" or "6d10 bludgeoning + 2d6 fire". Each part is checked against the target\'s immunities, resistances and vulnerabilities (statblocks for creatures; template, armor and ship upgrades for vehicles), and the combat log shows the breakdown.' },
+      { type: 'feature', description: 'Frost-Locked Hull now makes a ship immune to cold and vulnerable to fire, and Dragon Sails give the sails resistance to a damage type you pick on the upgrade. Vehicle cards list vulnerabilities alongside immunities and resistances.' },
+      { type: 'improvement', description: 'Vehicle damage thresholds and mishap checks use the damage after defenses, and weapon damage rolled in the Crew Actions panel keeps its damage types.' },
+    ],
+  },
+  {
+    version: '2.14.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Superior Ship Upgrades now do what they say — Reinforced Hull doubles hull HP, Dragon Sails raise sail AC by 3, Arcane Artillery adds +2 to weapon attack and damage, Explosive Rounds add 2d6 fire to every hit (the Crew Actions weapon box rolls it all together), and Living Vessel regains 10 HP each minute of combat.' },
+      { type: 'feature', description: 'Recharge tracking for activated upgrades (Death Vessel, Screaming Sails, figureheads, Smuggler\'s Banner, Taskmaster\'s Drums) — Use rolls the recharge time, which counts down as rounds pass at the current scale; Recharge resets it by hand.' },
+    ],
+  },
+  {
+    version: '2.13.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Deck crew casualties — the Deck Crew / Rowers station tracks its unnamed crew as a headcount (4 HP each). Hit Crew applies area damage (mangonel stones, a Red Dragon Figurehead cone) to however many crew are caught; casualties cost 1 crew quality and are logged.' },
+      { type: 'feature', description: 'Short-handed ships — sails and oars need a minimum crew, and a ship short of hands moves in proportion to the crew left (components show a "Short N crew" warning). Fire hazards now burn 1d4 of the deck crew, and storm losses and deserters actually leave the ship.' },
+    ],
+  },
+  {
+    version: '2.12.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Crew morale for ships — a crew quality gauge (−10 to +10) with Inspired, Steady, Shaken and Mutinous bands on the vehicle card and stats panel. Quality changes from hazards, crew members falling at their stations, the Captain\'s Rally, or manual adjustment, and every change is written to the combat log with its cause.' },
+      { type: 'feature', description: 'Morale checks — when the crew falls to Shaken or Mutinous the captain makes a Persuasion check (roll in app or enter the result). Failure means desertion or mutiny; a mutiny (also from a Crew Conflict total failure) stays flagged on the ship until the DM ends it.' },
+    ],
+  },
+  {
+    version: '2.11.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: "Ship's officers — appoint a Captain, First Mate, Bosun, Quartermaster, Surgeon and Cook from the crew aboard each ship (Officers section on the vehicle card). Officer posts are saved with encounters and party presets." },
+      { type: 'feature', description: "Naval hazard checks now fill in each officer's modifier from their statblock and show who holds each post." },
+      { type: 'feature', description: 'Crew Actions panel on vehicle turns — declare and resolve every crew member\'s action from the right panel. Officers get their post\'s actions: Bosun Repair (DC 15, every damaged component regains 1d6 + crew quality), Surgeon Heal Crew, and Captain Rally the Crew (DC 15 Persuasion for +1 crew quality).' },
+    ],
+  },
+  {
+    version: '2.10.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Naval hazards from Ghosts of Saltmarsh — with ships on the battlefield, complication rolls draw from the Fire, Fog, Storm, Infestation and Crew Conflict table (type and DC rolled automatically). Each ship resolves a group check: the named officers (Captain, First Mate, Bosun, Quartermaster, Surgeon, Cook) roll their checks and the crew rolls d20 + crew quality. The outcome tier is applied for real: fire and storm damage to the hull and components, crew quality changes, half speed, and ships driven off course.' },
+      { type: 'fix', description: 'Half-speed effects from complications now actually slow vehicles on the battlefield map, and show in the Current Turn panel where they can be cleared.' },
+    ],
+  },
+  {
+    version: '2.9.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Water currents — add current zones from the new Currents menu on the map toolbar, each with a flow direction and drift in ft/round. At the start of every round, ships and creatures in the water inside a current drift with it. Each drift shows up in the log and can be undone with Undo. Currents are shown on both the DM map and the Player View.' },
+    ],
+  },
+  {
+    version: '2.8.0',
+    date: '2026-10-19',
+    changes: [
+      { type: 'feature', description: 'Wind system for sailing ships — set the battlefield wind (direction and Calm/Light/Moderate/Strong/Gale strength) from the new Wind menu on the map toolbar. Ships with sails now move at their with-wind or into-wind speed depending on their facing, and a compass shows the wind on both the DM map and the Player View. Optionally let the wind shift randomly each round. Ever-Full Sails ignore the wind. Ships from earlier saves pick up their sail speeds when loaded.' },
+    ],
+  },
   {
     version: '2.7.2',
     date: '2026-07-28',
@@ -11,6 +11,8 @@
  */
 
 import { ChaseComplication, ScaleName } from '../types';
+import { buildNavalHazardComplication, getNavalHazardDC, getNavalHazardForRoll } from './navalHazards';
+import { rollDie } from '../utils/diceEngine';
 
 // ==========================================
 // DMG Urban Chase Complications (d20)
@@ -379,15 +381,27 @@ export function getComplicationsForScale(scale: ScaleName): ChaseComplication[]
 /**
  * Roll for a complication using official Avernus table
  * d20: 1-2 = Creature Chase, 3 = Fire Tornado, ... 10 = Ground Collapse, 11-20 = No complication
+ * With ships on the battlefield, the Saltmarsh naval hazard table is used instead.
  */
-export function rollComplication(roll: number, scale: ScaleName): ChaseComplication | null {
+export function rollComplication(roll: number, scale: ScaleName, isNaval = false): ChaseComplication | null {
   // 11-20: No complication
   if (roll >= 11) return null;
 
+  if (isNaval) return rollNavalHazard(roll);
+
   // Use Avernus complications for all scales (official table)
   return getAvernusComplication(roll);
 }
 
+/**
+ * Naval hazard for a triggering roll (1-10): a second d20 picks the hazard type
+ * and a third its DC (Ghosts of Saltmarsh, Appendix A)
+ */
+export function rollNavalHazard(roll: number): ChaseComplication {
+  const hazard = getNavalHazardForRoll(rollDie(20));
+  return buildNavalHazardComplication(hazard, getNavalHazardDC(rollDie(20)), roll);
+}
+
 /**
  * Get Avernus complication by d20 roll (1-10)
  */
@@ -419,7 +433,8 @@ export function getAvernusComplication(roll: number): ChaseComplication | null {
 /**
  * Get the roll range description for display
  */
-export function getComplicationRollRange(roll: number): string {
+export function getComplicationRollRange(roll: number, isNaval = false): string {
+  if (isNaval) return roll >= 11 ? '11-20' : '1-10';
   if (roll <= 2) return '1-2';
   if (roll >= 11) return '11-20';
   return String(roll);
@@ -6,7 +6,8 @@
  * - The infernal war machine fails an ability check (or its driver fails an ability check using the vehicle's ability) by more than 5
  */
 
-import { Mishap } from '../types';
+import { AbilityName, Mishap, Vehicle } from '../types';
+import { random } from '../utils/randomTape';
 
 /**
  * Official Mishap Table from Baldur's Gate: Descent into Avernus
@@ -122,7 +123,7 @@ export const MISHAP_TABLE: Mishap[] = [
     stackable: false, // Vehicle already flipped
     mechanicalEffect: {
       vehicleProne: true,
-      crewSaveOnFlip: { dc: 15, damage: '3d6 bludgeoning' },
+      crewSaveOnFlip: { dc: 15, ability: 'str', damage: '3d6 bludgeoning' },
     },
   },
 ];
@@ -150,6 +151,83 @@ export function checkMishapFromDamage(damage: number, mishapThreshold: number):
   return damage >= mishapThreshold;
 }
 
+/**
+ * Damage threshold after active mishaps (e.g., Shedding Armor lowers it by 10)
+ */
+export function getEffectiveDamageThreshold(vehicle: Vehicle): number {
+  const reduction = vehicle.activeMishaps.reduce(
+    (sum, m) => sum + (m.mechanicalEffect?.damageThresholdReduction || 0),
+    0
+  );
+  return Math.max(0, vehicle.template.damageThreshold - reduction);
+}
+
+/**
+ * Zones filled with smoke (Blinding Smoke) — heavily obscured, and the creatures in them are blinded
+ */
+export function getObscuredZoneIds(vehicle: Vehicle): string[] {
+  return vehicle.activeMishaps
+    .map((m) => m.mechanicalEffect?.zoneObscured)
+    .filter((zoneId): zoneId is string => !!zoneId);
+}
+
+export function isZoneObscured(vehicle: Vehicle, zoneId: string): boolean {
+  return getObscuredZoneIds(vehicle).includes(zoneId);
+}
+
+/**
+ * A flipped vehicle lies on its side at a dead stop (speed 0) until the crew rights it
+ */
+export function isVehicleProne(vehicle: Vehicle): boolean {
+  return vehicle.activeMishaps.some((m) => m.mechanicalEffect?.vehicleProne);
+}
+
+// Righting an overturned vehicle: a creature aboard makes a Str (Athletics) check as an action
+export const RIGHT_VEHICLE_DC = 15;
+export const RIGHT_VEHICLE_CHECK: { ability: AbilityName; proficiency: string } = { ability: 'str', proficiency: 'Athletics' };
+
+/**
+ * What a vehicle's active mishaps do to the rolls made aboard it
+ */
+export interface MishapRollEffects {
+  checkDisadvantage: boolean; // Ability checks by creatures aboard (Damaged Axle)
+  attackDisadvantage: boolean; // Attack rolls by creatures aboard (Damaged Axle, blinded by smoke)
+  vehicleDexDisadvantage: boolean; // The vehicle's own Dex checks (Damaged Axle)
+  vehicleAutoFailDex: boolean; // The vehicle's own Dex checks and saves (Locked Steering)
+  notes: string[]; // Effects on the creature's own rolls, e.g. "Damaged Axle: disadvantage on checks and attacks"
+}
+
+/**
+ * Roll effects of a vehicle's active mishaps, for a creature in the given zone
+ * (a creature in an obscured zone is blinded and attacks with disadvantage)
+ */
+export function getMishapRollEffects(vehicle: Vehicle, zoneId?: string): MishapRollEffects {
+  const effects: MishapRollEffects = {
+    checkDisadvantage: false,
+    attackDisadvantage: false,
+    vehicleDexDisadvantage: false,
+    vehicleAutoFailDex: false,
+    notes: [],
+  };
+  for (const mishap of vehicle.activeMishaps) {
+    const effect = mishap.mechanicalEffect;
+    if (effect?.disadvantageOnAllChecks) {
+      effects.checkDisadvantage = true;
+      effects.attackDisadvantage = true;
+      effects.vehicleDexDisadvantage = true;
+      effects.notes.push(`${mishap.name}: disadvantage on checks and attacks`);
+    }
+    if (effect?.autoFailDexChecks) {
+      effects.vehicleAutoFailDex = true;
+    }
+    if (effect?.zoneObscured && effect.zoneObscured === zoneId) {
+      effects.attackDisadvantage = true;
+      effects.notes.push(`${mishap.name}: blinded in the smoke — disadvantage on attacks`);
+    }
+  }
+  return effects;
+}
+
 /**
  * Check if a failed ability check triggers a mishap (failed by more than 5)
  */
@@ -211,6 +289,18 @@ export interface VehicleMishapState {
   activeMishaps: Mishap[];
 }
 
+/**
+ * Mishap state for a vehicle, as rollMishapForVehicle expects it
+ */
+export function getVehicleMishapState(vehicle: Vehicle): VehicleMishapState {
+  return {
+    currentSpeed: vehicle.currentSpeed,
+    damageThreshold: vehicle.template.damageThreshold,
+    weaponCount: vehicle.weapons.length,
+    activeMishaps: vehicle.activeMishaps,
+  };
+}
+
 /**
  * Check if a stackable mishap would still have an effect on the vehicle
  */
@@ -309,7 +399,7 @@ export function rollMishapForVehicle(
   let mishap: Mishap;
 
   do {
-    roll = Math.floor(Math.random() * 20) + 1;
+    roll = Math.floor(random() * 20) + 1;
     mishap = getMishapResult(roll);
 
     // Check if this mishap is available
@@ -321,6 +411,6 @@ export function rollMishapForVehicle(
   } while (rerollCount < maxAttempts);
 
   // Failsafe: If we've rerolled too many times, pick a random available mishap
-  const fallbackMishap = availableMishaps[Math.floor(Math.random() * availableMishaps.length)];
+  const fallbackMishap = availableMishaps[Math.floor(random() * availableMishaps.length)];
   return { roll, mishap: fallbackMishap, rerollCount };
 }
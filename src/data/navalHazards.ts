@@ -0,0 +1,295 @@
+/**
+ * Naval hazards — Ghosts of Saltmarsh, Appendix A. The water-side analog to the
+ * Avernus chase complications (see chaseComplications.ts, which selects this
+ * table automatically when ships are on the battlefield).
+ *
+ * A hazard is resolved with a group check per ship: each named officer makes an
+ * ability check and the crew rolls d20 + its quality score, all against the
+ * hazard DC. Four outcome tiers — Total Success (every roll succeeded), Success,
+ * Failure, Total Failure (every roll failed) — each with mechanical results that
+ * APPLY_COMPLICATION_EFFECTS applies to the ship's components and crew.
+ */
+import type {
+  AbilityName,
+  ChaseComplication,
+  HazardCheckRoll,
+  HazardOutcome,
+  NavalHazardId,
+  OfficerRole,
+} from '../types';
+import { getOfficerRoleName } from './shipCrew';
+
+export interface HazardOfficerCheck {
+  role: OfficerRole;
+  ability: AbilityName;
+  proficiency: string; // Skill or tool, e.g. 'Intimidation', "carpenter's tools"
+}
+
+export interface NavalHazardOutcomeEffect {
+  summary: string;
+  crewQualityChange?: number;
+  componentDamage?: {
+    dice: string; // e.g. '6d6'
+    damageType: string;
+    targets: 'hull_and_random' | 'all'; // hull + 1d3 random components, or every component
+    crewCaught?: string; // Dice for how many of the deck crew are caught in it (each takes the damage)
+  };
+  halfSpeed?: boolean; // Speed halved until cleared (for the day)
+  randomHeading?: boolean; // Blown / drifts off course in a random direction
+  continues?: boolean; // Hazard persists — roll the group check again
+  crewLostPercent?: number; // Share of the crew washed overboard and lost
+  mutiny?: boolean;
+}
+
+export interface NavalHazard {
+  id: NavalHazardId;
+  name: string;
+  rollMin: number; // d20 hazard type roll
+  rollMax: number;
+  description: string;
+  officerChecks: HazardOfficerCheck[];
+  dcDescriptions: Record<number, string>; // Keyed by DC (10/15/20/25)
+  outcomes: Record<HazardOutcome, NavalHazardOutcomeEffect>;
+}
+
+export const HAZARD_OUTCOME_LABELS: Record<HazardOutcome, string> = {
+  total_success: 'Total Success',
+  success: 'Success',
+  failure: 'Failure',
+  total_failure: 'Total Failure',
+};
+
+const ABILITY_SHORT: Record<AbilityName, string> = {
+  str: 'Str',
+  dex: 'Dex',
+  con: 'Con',
+  int: 'Int',
+  wis: 'Wis',
+  cha: 'Cha',
+};
+
+export const NAVAL_HAZARDS: NavalHazard[] = [
+  {
+    id: 'crew_conflict',
+    name: 'Crew Conflict',
+    rollMin: 1,
+    rollMax: 3,
+    description: 'Tempers flare below decks and the crew turns on itself.',
+    officerChecks: [
+      { role: 'captain', ability: 'cha', proficiency: 'Intimidation' },
+      { role: 'first_mate', ability: 'cha', proficiency: 'Intimidation' },
+      { role: 'cook', ability: 'int', proficiency: "brewer's supplies" },
+    ],
+    dcDescriptions: {
+      10: 'A minor scuffle or petty theft.',
+      15: 'A brawl or the theft of something valuable.',
+      20: 'A large brawl with injuries.',
+      25: 'A murder or a serious brawl.',
+    },
+    outcomes: {
+      total_success: { summary: 'Crew quality +1 for 1d4 days; the hazard ends.', crewQualityChange: 1 },
+      success: { summary: 'The hazard ends.' },
+      failure: { summary: 'Crew quality -1.', crewQualityChange: -1 },
+      total_failure: { summary: 'Crew quality -1 and the crew mutinies.', crewQualityChange: -1, mutiny: true },
+    },
+  },
+  {
+    id: 'fire',
+    name: 'Fire',
+    rollMin: 4,
+    rollMax: 6,
+    description: 'Fire breaks out aboard the ship. Fighting it takes 5 minutes of work.',
+    officerChecks: [
+      { role: 'captain', ability: 'int', proficiency: 'water vehicles' },
+      { role: 'first_mate', ability: 'cha', proficiency: 'Intimidation' },
+      { role: 'bosun', ability: 'str', proficiency: "carpenter's tools" },
+      { role: 'surgeon', ability: 'int', proficiency: 'Medicine' },
+    ],
+    dcDescriptions: {
+      10: 'A lantern-sized fire.',
+      15: 'A campfire-sized fire.',
+      20: 'A bonfire-sized fire.',
+      25: 'A blaze in a hold full of flammable cargo.',
+    },
+    outcomes: {
+      total_success: { summary: 'Extinguished with only cosmetic damage.' },
+      success: {
+        summary: 'Extinguished, but the hull and 1d3 random components take 6d6 fire damage, as do 1d4 of the deck crew.',
+        componentDamage: { dice: '6d6', damageType: 'fire', targets: 'hull_and_random', crewCaught: '1d4' },
+      },
+      failure: {
+        summary: 'The hull and 1d3 random components take 6d6 fire damage, as do 1d4 of the deck crew; the fire continues.',
+        componentDamage: { dice: '6d6', damageType: 'fire', targets: 'hull_and_random', crewCaught: '1d4' },
+        continues: true,
+      },
+      total_failure: {
+        summary: 'Crew quality -1; the hull and 1d3 random components take 6d6 fire damage, as do 1d4 of the deck crew; the fire continues.',
+        crewQualityChange: -1,
+        componentDamage: { dice: '6d6', damageType: 'fire', targets: 'hull_and_random', crewCaught: '1d4' },
+        continues: true,
+      },
+    },
+  },
+  {
+    id: 'fog',
+    name: 'Fog',
+    rollMin: 7,
+    rollMax: 9,
+    description: 'A fog bank rolls over the water.',
+    officerChecks: [
+      { role: 'captain', ability: 'int', proficiency: 'water vehicles' },
+      { role: 'quartermaster', ability: 'wis', proficiency: 'Nature' },
+    ],
+    dcDescriptions: {
+      10: 'Light fog.',
+      15: 'Moderate fog.',
+      20: 'Heavy fog.',
+      25: 'Very heavy fog.',
+    },
+    outcomes: {
+      total_success: { summary: 'No effect; crew quality +1 for 1d3 days.', crewQualityChange: 1 },
+      success: { summary: 'No effect.' },
+      failure: { summary: 'Speed halved for the day.', halfSpeed: true },
+      total_failure: { summary: 'Speed halved and the ship wanders in a random direction.', halfSpeed: true, randomHeading: true },
+    },
+  },
+  {
+    id: 'infestation',
+    name: 'Infestation',
+    rollMin: 10,
+    rollMax: 12,
+    description: 'Vermin or sickness spreads through the ship.',
+    officerChecks: [
+      { role: 'captain', ability: 'int', proficiency: 'water vehicles' },
+      { role: 'first_mate', ability: 'cha', proficiency: 'Persuasion' },
+      { role: 'surgeon', ability: 'int', proficiency: 'Medicine' },
+      { role: 'cook', ability: 'con', proficiency: "cook's utensils" },
+    ],
+    dcDescriptions: {
+      10: 'Minor bugs or rats, or a cold.',
+      15: 'A persistent infestation, or the flu.',
+      20: 'A serious infestation, a contagious illness, or spoiled food.',
+      25: 'A lethal plague.',
+    },
+    outcomes: {
+      total_success: { summary: 'Crew quality +1 for 1d4 days; the hazard ends.', crewQualityChange: 1 },
+      success: { summary: 'The hazard ends.' },
+      failure: { summary: 'Crew quality -1.', crewQualityChange: -1 },
+      total_failure: { summary: 'Crew quality -1 and the ship moves at half speed for the day.', crewQualityChange: -1, halfSpeed: true },
+    },
+  },
+  {
+    id: 'storm',
+    name: 'Storm',
+    rollMin: 13,
+    rollMax: 20,
+    description: 'A storm bears down on the ship.',
+    officerChecks: [
+      { role: 'captain', ability: 'int', proficiency: 'water vehicles' },
+      { role: 'first_mate', ability: 'cha', proficiency: 'Intimidation' },
+      { role: 'bosun', ability: 'str', proficiency: "carpenter's tools" },
+      { role: 'quartermaster', ability: 'wis', proficiency: 'Nature' },
+    ],
+    dcDescriptions: {
+      10: 'A heavy gale.',
+      15: 'A strong storm.',
+      20: 'A typical hurricane.',
+      25: 'An overwhelming hurricane.',
+    },
+    outcomes: {
+      total_success: { summary: 'The ship comes through unscathed; crew quality +1 for 1d4 days.', crewQualityChange: 1 },
+      success: { summary: 'The ship comes through unscathed.' },
+      failure: {
+        summary: 'Every component takes 4d10 bludgeoning damage; crew quality -1; half speed for the day.',
+        componentDamage: { dice: '4d10', damageType: 'bludgeoning', targets: 'all' },
+        crewQualityChange: -1,
+        halfSpeed: true,
+      },
+      total_failure: {
+        summary: 'Every component takes 10d10 bludgeoning damage; crew quality -2; 10% of the crew is washed overboard and lost; the ship is blown off course.',
+        componentDamage: { dice: '10d10', damageType: 'bludgeoning', targets: 'all' },
+        crewQualityChange: -2,
+        crewLostPercent: 10,
+        randomHeading: true,
+      },
+    },
+  },
+];
+
+// d20 hazard DC table
+const HAZARD_DC_TABLE: { rollMin: number; rollMax: number; dc: number }[] = [
+  { rollMin: 1, rollMax: 9, dc: 10 },
+  { rollMin: 10, rollMax: 17, dc: 15 },
+  { rollMin: 18, rollMax: 19, dc: 20 },
+  { rollMin: 20, rollMax: 20, dc: 25 },
+];
+
+export function getNavalHazard(id: NavalHazardId): NavalHazard | undefined {
+  return NAVAL_HAZARDS.find((h) => h.id === id);
+}
+
+/**
+ * Get the hazard type for a d20 roll
+ */
+export function getNavalHazardForRoll(roll: number): NavalHazard {
+  return NAVAL_HAZARDS.find((h) => roll >= h.rollMin && roll <= h.rollMax) ?? NAVAL_HAZARDS[NAVAL_HAZARDS.length - 1];
+}
+
+/**
+ * Get the hazard DC for a d20 roll
+ */
+export function getNavalHazardDC(roll: number): number {
+  return HAZARD_DC_TABLE.find((row) => roll >= row.rollMin && roll <= row.rollMax)?.dc ?? 10;
+}
+
+/**
+ * Label for an officer's check, e.g. "Int (water vehicles)"
+ */
+export function formatOfficerCheck(check: HazardOfficerCheck): string {
+  return `${ABILITY_SHORT[check.ability]} (${check.proficiency})`;
+}
+
+/**
+ * Build the complication the resolution flow runs for a hazard of the given DC
+ */
+export function buildNavalHazardComplication(hazard: NavalHazard, dc: number, roll: number): ChaseComplication {
+  const officers = hazard.officerChecks
+    .map((c) => `${getOfficerRoleName(c.role)} ${formatOfficerCheck(c)}`)
+    .join(', ');
+  return {
+    roll,
+    name: hazard.name,
+    description: `${hazard.description} ${hazard.dcDescriptions[dc] ?? ''}`.trim(),
+    effect: `DC ${dc} group check — ${officers}, and the crew (d20 + crew quality).`,
+    navalHazard: { hazardId: hazard.id, dc },
+  };
+}
+
+/**
+ * Empty group check for one ship: one roll per officer plus the crew roll
+ */
+export function createHazardChecks(hazard: NavalHazard): HazardCheckRoll[] {
+  return [
+    ...hazard.officerChecks.map((c) => ({
+      role: c.role,
+      check: formatOfficerCheck(c),
+      status: 'pending' as const,
+    })),
+    { role: 'crew' as const, check: 'd20 + crew quality', status: 'pending' as const },
+  ];
+}
+
+/**
+ * Outcome tier of a finished group check. Skipped rolls don't count either way;
+ * undefined while any roll is still pending or if every roll was skipped.
+ */
+export function getHazardOutcome(checks: HazardCheckRoll[]): HazardOutcome | undefined {
+  if (checks.some((c) => c.status === 'pending')) return undefined;
+  const counted = checks.filter((c) => c.status !== 'skipped');
+  if (counted.length === 0) return undefined;
+  const successes = counted.filter((c) => c.status === 'passed').length;
+  if (successes === counted.length) return 'total_success';
+  if (successes === 0) return 'total_failure';
+  // Mixed results: a majority of successes carries the ship through
+  return successes * 2 >= counted.length ? 'success' : 'failure';
+}
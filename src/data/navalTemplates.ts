@@ -10,6 +10,8 @@
  * Crew stations: like the Avernus vehicles, each ship gets a Helm, one station
  * per weapon (capacity 1, so a gunner can be assigned), and a Deck Crew / Rowers
  * station holding the remaining crew. Station capacities sum to crewCapacity.
+ * The Deck Crew / Rowers station is a crew pool: an unnamed headcount that takes
+ * casualties, and sails/oars need `crewRequired` hands from it to run at full speed.
  * Each weapon sets `zoneId` so it maps to its own station on add.
  */
 import type { VehicleTemplate, VehicleComponent, WeaponTemplate, VehicleZone, CoverType } from '../types';
@@ -29,7 +31,9 @@ function ballistaWeapon(id: string): WeaponTemplate {
     attackBonus: 6,
     range: '120/480 ft',
     crewRequired: 1,
-    properties: ['Requires 1 crew'],
+    loadActions: 1,
+    aimActions: 1,
+    properties: ['Requires 1 crew', 'Load 1 action, aim 1 action'],
     zoneId: `st_${id}`,
   };
 }
@@ -41,7 +45,9 @@ function mangonelWeapon(id: string): WeaponTemplate {
     attackBonus: 5,
     range: '200/800 ft',
     crewRequired: 1,
-    properties: ['Requires 1 crew', "Can't hit within 60 ft"],
+    loadActions: 2,
+    aimActions: 2,
+    properties: ['Requires 1 crew', "Can't hit within 60 ft", 'Load 2 actions, aim 2 actions'],
     specialEffect: "Can't hit targets within 60 feet of it.",
     zoneId: `st_${id}`,
   };
@@ -54,10 +60,10 @@ function hull(ac: number, maxHp: number, damageThreshold?: number): VehicleCompo
 function helm(ac: number, maxHp: number): VehicleComponent {
   return { id: 'helm', name: 'Helm', kind: 'control', ac, maxHp, description: 'If destroyed, the ship can’t turn.' };
 }
-function oars(ac: number, maxHp: number, speed: number, note?: string): VehicleComponent {
-  return { id: 'oars', name: 'Oars', kind: 'movement', ac, maxHp, speed, description: note ?? 'Movement component (oars).' };
+function oars(ac: number, maxHp: number, speed: number, crewRequired: number, note?: string): VehicleComponent {
+  return { id: 'oars', name: 'Oars', kind: 'movement', ac, maxHp, speed, crewRequired, description: note ?? 'Movement component (oars).' };
 }
-function sails(ac: number, maxHp: number, speed: number, withWind: number, intoWind: number): VehicleComponent {
+function sails(ac: number, maxHp: number, speed: number, withWind: number, intoWind: number, crewRequired: number): VehicleComponent {
   return {
     id: 'sails',
     name: 'Sails',
@@ -65,6 +71,9 @@ function sails(ac: number, maxHp: number, speed: number, withWind: number, intoW
     ac,
     maxHp,
     speed,
+    speedWithWind: withWind,
+    speedIntoWind: intoWind,
+    crewRequired,
     description: `Movement component (sails). ${withWind} ft. with the wind, ${intoWind} ft. into the wind.`,
   };
 }
@@ -93,7 +102,7 @@ function weaponStation(weaponId: string, label: string): VehicleZone {
   return { id: `st_${weaponId}`, name: label, cover: 'half', capacity: 1, canAttackOut: true, visibleFromArcs: ALL_ARCS };
 }
 function crewDeck(capacity: number, name = 'Deck Crew', cover: CoverType = 'half', bulk = true): VehicleZone {
-  return { id: 'deck_crew', name, cover, capacity, canAttackOut: true, visibleFromArcs: ALL_ARCS, bulk };
+  return { id: 'deck_crew', name, cover, capacity, canAttackOut: true, visibleFromArcs: ALL_ARCS, bulk, crewPool: bulk };
 }
 // Ride-along passengers (the party) — book passenger capacity, shown as a bulk count.
 function passengers(capacity: number): VehicleZone {
@@ -146,8 +155,8 @@ export const KEELBOAT: VehicleTemplate = {
   components: [
     hull(15, 100, 10),
     helm(12, 50),
-    oars(12, 100, 20),
-    sails(12, 100, 25, 35, 15),
+    oars(12, 100, 20, 1),
+    sails(12, 100, 25, 35, 15, 1),
     ballistaComponent('ballista'),
   ],
 };
@@ -173,8 +182,8 @@ export const LONGSHIP: VehicleTemplate = {
   components: [
     hull(15, 300, 15),
     helm(16, 50),
-    oars(12, 100, 20, 'Movement component (oars). Requires at least 20 crew.'),
-    sails(12, 100, 45, 60, 15),
+    oars(12, 100, 20, 20, 'Movement component (oars). Requires at least 20 crew.'),
+    sails(12, 100, 45, 60, 15, 10),
   ],
 };
 
@@ -205,7 +214,7 @@ export const SAILING_SHIP: VehicleTemplate = {
   components: [
     hull(15, 300, 15),
     helm(18, 50),
-    sails(12, 100, 45, 60, 15),
+    sails(12, 100, 45, 60, 15, 15),
     ballistaComponent('ballista'),
     mangonelComponent('mangonel'),
   ],
@@ -245,8 +254,8 @@ export const WARSHIP: VehicleTemplate = {
   components: [
     hull(15, 500, 20),
     helm(18, 50),
-    oars(12, 100, 20, 'Movement component (oars). Requires at least 20 crew.'),
-    sails(12, 100, 35, 50, 15),
+    oars(12, 100, 20, 20, 'Movement component (oars). Requires at least 20 crew.'),
+    sails(12, 100, 35, 50, 15, 15),
     ballistaComponent('ballista_1'),
     ballistaComponent('ballista_2'),
     mangonelComponent('mangonel_1'),
@@ -293,8 +302,8 @@ export const GALLEY: VehicleTemplate = {
   components: [
     hull(15, 500, 20),
     helm(16, 50),
-    oars(12, 100, 30, 'Movement component (oars). Requires at least 40 crew.'),
-    sails(12, 100, 35, 50, 15),
+    oars(12, 100, 30, 40, 'Movement component (oars). Requires at least 40 crew.'),
+    sails(12, 100, 35, 50, 15, 20),
     ballistaComponent('ballista_1'),
     ballistaComponent('ballista_2'),
     ballistaComponent('ballista_3'),
@@ -8,15 +8,46 @@
  * cap how many a ship can take (one hull, one per movement/weapon component, one
  * figurehead; miscellaneous are unlimited) — VVTT lets the DM toggle freely and
  * surfaces the category so those limits are easy to honor.
+ *
+ * `effect` is the rules text; `mechanics` is what the app applies for you.
+ * Stat changes (hull HP, sail AC) are written into the ship's own template copy
+ * when the upgrade is toggled (or on load, for ships saved before that), so every
+ * HP bar and attack roll sees them.
+ * Activated upgrades with a `recharge` are tracked against the combat clock
+ * (CombatState.elapsedTime) in Vehicle.navalUpgradeRechargeAt. Damage defenses
+ * (Frost-Locked Hull, Dragon Sails) are read by utils/damageCalculator.
  */
+import type { Vehicle, VehicleTemplate, VehicleWeapon } from '../types';
+import { roll as rollDice } from '../utils/diceEngine';
+
 export type NavalUpgradeCategory = 'hull' | 'movement' | 'weapon' | 'figurehead' | 'misc';
 
+export interface NavalUpgradeMechanics {
+  hullMaxHpMultiplier?: number;
+  sailAcBonus?: number;
+  weaponAttackBonus?: number;
+  weaponDamageBonus?: number;
+  weaponExtraDamage?: { dice: string; damageType: string }; // Added to every hit with the ship's weapons
+  magicalWeapons?: boolean; // The ship's weapon attacks count as magical
+  hpRegenPerMinute?: number; // Hull HP regained each minute while above 0 HP
+  // Damage defenses for the whole ship, or only the listed components
+  defenses?: { immunities?: string[]; resistances?: string[]; vulnerabilities?: string[]; componentIds?: string[] };
+  resistanceChoices?: string[]; // Adds resistance to one of these types, picked per ship (Vehicle.navalUpgradeChoices)
+}
+
+export interface NavalUpgradeRecharge {
+  duration: string; // Dice notation or a flat number, e.g. '1d4' or '24'
+  unit: 'minute' | 'hour' | 'day';
+}
+
 export interface NavalUpgrade {
   id: string;
   name: string;
   category: NavalUpgradeCategory;
   activation: string; // e.g. 'Passive', 'Action', 'Action · recharge 1d4 hrs'
   effect: string;
+  mechanics?: NavalUpgradeMechanics;
+  recharge?: NavalUpgradeRecharge;
 }
 
 export const NAVAL_UPGRADE_CATEGORIES: { key: NavalUpgradeCategory; label: string }[] = [
@@ -32,13 +63,17 @@ export const NAVAL_UPGRADES: NavalUpgrade[] = [
   { id: 'churning_hull', name: 'Churning Hull', category: 'hull', activation: 'Passive',
     effect: 'Water within 210 ft. of the ship is difficult terrain for everything except this ship.' },
   { id: 'death_vessel', name: 'Death Vessel', category: 'hull', activation: 'Action · recharge 1d4 hrs',
+    recharge: { duration: '1d4', unit: 'hour' },
     effect: 'Pulse of dread: each hostile creature on board or within 210 ft. makes a DC 14 Wis save or is frightened of the ship for 1 min (immune 24 hrs on a success).' },
   { id: 'frost_locked_hull', name: 'Frost-Locked Hull', category: 'hull', activation: 'Passive',
-    effect: "The ship's components are immune to cold and vulnerable to fire. It can move at full speed over ice of any thickness." },
+    effect: "The ship's components are immune to cold and vulnerable to fire. It can move at full speed over ice of any thickness.",
+    mechanics: { defenses: { immunities: ['cold'], vulnerabilities: ['fire'] } } },
   { id: 'living_vessel', name: 'Living Vessel', category: 'hull', activation: 'Passive',
-    effect: '+2 to all Constitution checks and saves. While it has at least 1 HP, the ship regains 10 HP every minute.' },
+    effect: '+2 to all Constitution checks and saves. While it has at least 1 HP, the ship regains 10 HP every minute.',
+    mechanics: { hpRegenPerMinute: 10 } },
   { id: 'reinforced_hull', name: 'Reinforced Hull', category: 'hull', activation: 'Passive',
-    effect: "Doubles the hull's hit point maximum." },
+    effect: "Doubles the hull's hit point maximum.",
+    mechanics: { hullMaxHpMultiplier: 2 } },
   { id: 'vigilant_watch', name: 'Vigilant Watch', category: 'hull', activation: 'Passive',
     effect: 'Invisible creatures are visible while on the ship or within 120 ft. of it.' },
 
@@ -50,36 +85,49 @@ export const NAVAL_UPGRADES: NavalUpgrade[] = [
   { id: 'defiant_sails', name: 'Defiant Sails', category: 'movement', activation: 'Passive',
     effect: 'While the sails are unfurled, ranged attacks against the ship and anyone aboard have disadvantage (not if the attacker is aboard).' },
   { id: 'dragon_sails', name: 'Dragon Sails', category: 'movement', activation: 'Passive',
-    effect: 'The sails gain +3 AC and resistance to a damage type set by the dragon scales used to craft them.' },
+    effect: 'The sails gain +3 AC and resistance to a damage type set by the dragon scales used to craft them.',
+    mechanics: {
+      sailAcBonus: 3,
+      defenses: { componentIds: ['sails'] },
+      resistanceChoices: ['fire', 'cold', 'lightning', 'acid', 'poison'],
+    } },
   { id: 'screaming_sails', name: 'Screaming Sails', category: 'movement', activation: 'Action · recharge 2d6 hrs',
+    recharge: { duration: '2d6', unit: 'hour' },
     effect: 'Howl: each hostile creature aboard or within 300 ft. makes a DC 14 Wis save or takes 4d6 psychic damage and is frightened for 1 min.' },
   { id: 'scything_oars', name: 'Scything Oars', category: 'movement', activation: 'Passive',
     effect: 'When the ship moves with these oars, any creature or object in the water within 10 ft. of its path makes a DC 10 Dex save, taking 2d6 slashing (half on a success).' },
 
   // ---- Weapon ----
   { id: 'arcane_artillery', name: 'Arcane Artillery', category: 'weapon', activation: 'Passive',
-    effect: 'The weapon gains +2 to attack and damage rolls, and its attacks count as magical.' },
+    effect: 'The weapon gains +2 to attack and damage rolls, and its attacks count as magical.',
+    mechanics: { weaponAttackBonus: 2, weaponDamageBonus: 2, magicalWeapons: true } },
   { id: 'concussive_rounds', name: 'Concussive Rounds', category: 'weapon', activation: 'Passive',
     effect: "On a hit to a vehicle's hull, that vehicle's speed decreases by 2d10 ft. until the start of the attacker's next turn." },
   { id: 'explosive_rounds', name: 'Explosive Rounds', category: 'weapon', activation: 'Passive',
-    effect: 'On a hit, the weapon deals an extra 2d6 fire damage.' },
+    effect: 'On a hit, the weapon deals an extra 2d6 fire damage.',
+    mechanics: { weaponExtraDamage: { dice: '2d6', damageType: 'fire' } } },
   { id: 'grasping_rounds', name: 'Grasping Rounds', category: 'weapon', activation: 'Passive',
     effect: "On a hit to a ship, that vehicle makes a DC 14 Str save or can't move away from the attacker; an action ends the effect." },
 
   // ---- Figurehead ----
   { id: 'guardian_figurehead', name: 'Guardian Figurehead', category: 'figurehead', activation: 'Action · 1/24 hrs',
+    recharge: { duration: '24', unit: 'hour' },
     effect: "Animates as an iron golem that acts on the ship's turn (via one of the ship's actions) for 1 min, then returns to the prow." },
   { id: 'red_dragon_figurehead', name: 'Red Dragon Figurehead', category: 'figurehead', activation: 'Action · recharge 1 min',
+    recharge: { duration: '1', unit: 'minute' },
     effect: '60-ft. cone of flame: DC 12 Dex save, 21 (6d6) fire damage (half on a success).' },
   { id: 'storm_giant_figurehead', name: 'Storm Giant Figurehead', category: 'figurehead', activation: 'Action · recharge 1 min',
+    recharge: { duration: '1', unit: 'minute' },
     effect: '60-ft. cone: DC 12 Con save, 14 (4d6) thunder damage (half on a success); pushed 10 ft. on a failure.' },
 
   // ---- Miscellaneous ----
   { id: 'bones_of_endless_toil', name: 'Bones of Endless Toil', category: 'misc', activation: 'Passive',
     effect: "When a humanoid dies aboard, it makes a DC 12 Wis save or rises as a zombie crew member obedient to the captain (up to the ship's creature capacity)." },
   { id: 'smugglers_banner', name: "Smuggler's Banner", category: 'misc', activation: 'Action · recharge 2d6 days',
+    recharge: { duration: '2d6', unit: 'day' },
     effect: 'Flies a convincing false flag. As an action, teleport the ship and all friendly creatures aboard up to 3 miles to a known destination.' },
   { id: 'taskmasters_drums', name: "Taskmaster's Drums", category: 'misc', activation: 'Action · recharge 2d10 hrs',
+    recharge: { duration: '2d10', unit: 'hour' },
     effect: 'For 1 min, the ship gains one additional action, as long as it has at least one action.' },
 ];
 
@@ -87,3 +135,137 @@ export const NAVAL_UPGRADES: NavalUpgrade[] = [
 export function isNavalVehicle(template: { pack?: string; environment?: string }): boolean {
   return template.pack === 'naval' || template.environment === 'water';
 }
+
+export function getNavalUpgrade(id: string): NavalUpgrade | undefined {
+  return NAVAL_UPGRADES.find((u) => u.id === id);
+}
+
+export function getInstalledNavalUpgrades(vehicle: Vehicle): NavalUpgrade[] {
+  return (vehicle.navalUpgradeIds || [])
+    .map(getNavalUpgrade)
+    .filter((u): u is NavalUpgrade => !!u);
+}
+
+/**
+ * Write an upgrade's stat changes into a ship's template (or take them back out
+ * when it's removed): hull HP maximum and sail AC.
+ */
+export function applyNavalUpgradeStats(template: VehicleTemplate, upgrade: NavalUpgrade, installed: boolean): VehicleTemplate {
+  const { hullMaxHpMultiplier, sailAcBonus } = upgrade.mechanics ?? {};
+  if (!hullMaxHpMultiplier && !sailAcBonus) return template;
+
+  const scaleHp = (hp: number) =>
+    hullMaxHpMultiplier ? Math.round(installed ? hp * hullMaxHpMultiplier : hp / hullMaxHpMultiplier) : hp;
+  const acBonus = sailAcBonus ? (installed ? sailAcBonus : -sailAcBonus) : 0;
+
+  return {
+    ...template,
+    maxHp: scaleHp(template.maxHp),
+    components: template.components?.map((c) => {
+      if (c.kind === 'hull') return { ...c, maxHp: scaleHp(c.maxHp) };
+      if (c.id === 'sails' && acBonus) return { ...c, ac: c.ac + acBonus };
+      return c;
+    }),
+  };
+}
+
+/**
+ * Stat changes for upgrades installed before they were written into the ship's template,
+ * spotted by its hull HP or sail AC still matching the stock template. The ship gets the
+ * extra hull HP as it would on install.
+ */
+export function getMissingNavalUpgradeStats(
+  vehicle: Vehicle,
+  source: VehicleTemplate | undefined
+): Pick<Vehicle, 'template' | 'currentHp'> | undefined {
+  if (!source) return undefined;
+  const sailAc = (template: VehicleTemplate) => template.components?.find((c) => c.id === 'sails')?.ac;
+
+  let template = vehicle.template;
+  for (const upgrade of getInstalledNavalUpgrades(vehicle)) {
+    const { hullMaxHpMultiplier, sailAcBonus } = upgrade.mechanics ?? {};
+    const missing =
+      (hullMaxHpMultiplier && template.maxHp === source.maxHp) ||
+      (sailAcBonus && sailAc(template) !== undefined && sailAc(template) === sailAc(source));
+    if (missing) template = applyNavalUpgradeStats(template, upgrade, true);
+  }
+  if (template === vehicle.template) return undefined;
+
+  const currentHp = vehicle.currentHp > 0 ? vehicle.currentHp + (template.maxHp - vehicle.template.maxHp) : vehicle.currentHp;
+  return { template, currentHp };
+}
+
+export interface NavalWeaponBonuses {
+  attackBonus: number;
+  damageBonus: number;
+  extraDamage: { dice: string; damageType: string; source: string }[];
+  magical: boolean;
+  sources: string[]; // Names of the upgrades that apply
+}
+
+/**
+ * Bonuses the ship's weapon upgrades give every weapon aboard
+ */
+export function getNavalWeaponBonuses(vehicle: Vehicle): NavalWeaponBonuses {
+  const bonuses: NavalWeaponBonuses = { attackBonus: 0, damageBonus: 0, extraDamage: [], magical: false, sources: [] };
+  for (const upgrade of getInstalledNavalUpgrades(vehicle)) {
+    const m = upgrade.mechanics;
+    if (!m || !(m.weaponAttackBonus || m.weaponDamageBonus || m.weaponExtraDamage || m.magicalWeapons)) continue;
+    bonuses.attackBonus += m.weaponAttackBonus ?? 0;
+    bonuses.damageBonus += m.weaponDamageBonus ?? 0;
+    if (m.weaponExtraDamage) bonuses.extraDamage.push({ ...m.weaponExtraDamage, source: upgrade.name });
+    if (m.magicalWeapons) bonuses.magical = true;
+    bonuses.sources.push(upgrade.name);
+  }
+  return bonuses;
+}
+
+/**
+ * A weapon's damage text with the upgrades folded in, e.g. "3d10+2 piercing + 2d6 fire"
+ */
+export function getUpgradedWeaponDamage(weapon: VehicleWeapon, bonuses: NavalWeaponBonuses): string {
+  let damage = weapon.damage;
+  if (bonuses.damageBonus) {
+    damage = damage.replace(/(\d+d\d+)([+-]\d+)?/i, (_, dice: string, mod?: string) => {
+      const total = (mod ? parseInt(mod, 10) : 0) + bonuses.damageBonus;
+      return total === 0 ? dice : `${dice}${total > 0 ? '+' : ''}${total}`;
+    });
+  }
+  return [damage, ...bonuses.extraDamage.map((d) => `${d.dice} ${d.damageType}`)].join(' + ');
+}
+
+/**
+ * The damage type an upgrade with resistanceChoices resists on this ship (the first choice by default)
+ */
+export function getNavalUpgradeDamageType(vehicle: Vehicle, upgrade: NavalUpgrade): string | undefined {
+  const choices = upgrade.mechanics?.resistanceChoices;
+  if (!choices) return undefined;
+  return vehicle.navalUpgradeChoices?.[upgrade.id] ?? choices[0];
+}
+
+const SECONDS_PER_UNIT: Record<NavalUpgradeRecharge['unit'], number> = {
+  minute: 60,
+  hour: 3600,
+  day: 86400,
+};
+
+/**
+ * Roll how long an activated upgrade takes to recharge, in seconds
+ */
+export function rollRechargeSeconds(recharge: NavalUpgradeRecharge): number {
+  const amount = /d/i.test(recharge.duration) ? rollDice(recharge.duration).total : parseInt(recharge.duration, 10);
+  return amount * SECONDS_PER_UNIT[recharge.unit];
+}
+
+/**
+ * "40 min", "3 hr", "2 days" — time left until an upgrade is ready again
+ */
+export function formatRechargeTime(seconds: number): string {
+  if (seconds >= 86400) {
+    const days = Math.ceil(seconds / 86400);
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+  if (seconds >= 3600) return `${Math.ceil(seconds / 3600)} hr`;
+  if (seconds >= 60) return `${Math.ceil(seconds / 60)} min`;
+  return '< 1 min';
+}
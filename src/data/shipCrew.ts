@@ -0,0 +1,181 @@
+/**
+ * Ship crew — officer roles and the crew quality score from Ghosts of Saltmarsh,
+ * Appendix A. Officers roll the ability checks named by each naval hazard; the
+ * crew rolls one d20 + its quality score in every group check.
+ *
+ * An officer is a creature aboard the ship whose CrewAssignment carries an
+ * officerRole. Some posts also grant an action on the ship's turn (see OFFICER_ACTIONS).
+ */
+import { getModifier } from '../types';
+import type { AbilityName, Creature, CrewAssignment, CrewMorale, OfficerRole, Vehicle, VehicleZone } from '../types';
+
+export const OFFICER_ROLES: { id: OfficerRole; name: string }[] = [
+  { id: 'captain', name: 'Captain' },
+  { id: 'first_mate', name: 'First Mate' },
+  { id: 'bosun', name: 'Bosun' },
+  { id: 'quartermaster', name: 'Quartermaster' },
+  { id: 'surgeon', name: 'Surgeon' },
+  { id: 'cook', name: 'Cook' },
+];
+
+export function getOfficerRoleName(role: OfficerRole): string {
+  return OFFICER_ROLES.find((r) => r.id === role)?.name ?? role;
+}
+
+/**
+ * The creature holding an officer post on a ship, if the post is filled
+ */
+export function getShipOfficer(
+  vehicleId: string,
+  role: OfficerRole,
+  crewAssignments: CrewAssignment[],
+  creatures: Creature[]
+): Creature | undefined {
+  const assignment = crewAssignments.find((a) => a.vehicleId === vehicleId && a.officerRole === role);
+  return assignment ? creatures.find((c) => c.id === assignment.creatureId) : undefined;
+}
+
+/**
+ * An officer's bonus for a check: the statblock's skill bonus when the proficiency is a
+ * listed skill, otherwise the plain ability modifier (tool proficiencies aren't tracked)
+ */
+export function getOfficerCheckModifier(creature: Creature, ability: AbilityName, proficiency: string): number {
+  const skill = Object.entries(creature.statblock.skills ?? {}).find(
+    ([name]) => name.toLowerCase() === proficiency.toLowerCase()
+  );
+  return skill ? skill[1] : getModifier(creature.statblock.abilities[ability]);
+}
+
+// Officer actions taken on the ship's turn in place of the officer's normal action
+export type OfficerActionId = 'bosun_repair' | 'surgeon_heal' | 'captain_rally';
+
+export interface OfficerAction {
+  id: OfficerActionId;
+  role: OfficerRole;
+  name: string;
+  description: string;
+  ability: AbilityName;
+  proficiency: string;
+}
+
+export const RALLY_DC = 15;
+// Morale checks are the captain's Cha (Persuasion); with no captain the crew rolls d20 + quality
+export const MORALE_CHECK: { ability: AbilityName; proficiency: string } = { ability: 'cha', proficiency: 'Persuasion' };
+// Repairs: on a DC 15 bosun check, each damaged component regains 1d6 + crew quality (min 1)
+export const REPAIR_DC = 15;
+
+export const OFFICER_ACTIONS: OfficerAction[] = [
+  {
+    id: 'bosun_repair',
+    role: 'bosun',
+    name: 'Repair',
+    description: `Str (carpenter's tools) check, DC ${REPAIR_DC}: on a success each damaged component regains 1d6 + crew quality HP`,
+    ability: 'str',
+    proficiency: "carpenter's tools",
+  },
+  {
+    id: 'surgeon_heal',
+    role: 'surgeon',
+    name: 'Heal Crew',
+    description: "A creature aboard regains 1d8 + the surgeon's Medicine bonus HP",
+    ability: 'wis',
+    proficiency: 'Medicine',
+  },
+  {
+    id: 'captain_rally',
+    role: 'captain',
+    name: 'Rally the Crew',
+    description: `Cha (Persuasion) check, DC ${RALLY_DC}: on a success crew quality rises by 1`,
+    ability: 'cha',
+    proficiency: 'Persuasion',
+  },
+];
+
+export function getOfficerActions(role: OfficerRole | undefined): OfficerAction[] {
+  return role ? OFFICER_ACTIONS.filter((a) => a.role === role) : [];
+}
+
+// Crew quality starts at +4 and ranges -10 to +10
+export const DEFAULT_CREW_QUALITY = 4;
+export const MIN_CREW_QUALITY = -10;
+export const MAX_CREW_QUALITY = 10;
+
+export function getCrewQuality(vehicle: Vehicle): number {
+  return vehicle.crewQuality ?? DEFAULT_CREW_QUALITY;
+}
+
+export function clampCrewQuality(quality: number): number {
+  return Math.max(MIN_CREW_QUALITY, Math.min(MAX_CREW_QUALITY, quality));
+}
+
+export function formatCrewQuality(quality: number): string {
+  return `${quality >= 0 ? '+' : ''}${quality}`;
+}
+
+export interface CrewMoraleBand {
+  id: CrewMorale;
+  label: string;
+  minQuality: number; // Lowest crew quality in the band
+  color: string;
+  checkDC?: number; // Morale check the captain makes when the crew falls into this band
+  failure?: 'desertion' | 'mutiny'; // What a failed morale check means
+  description: string;
+}
+
+// Best band first. Falling into a band with a checkDC prompts a morale check
+export const CREW_MORALE_BANDS: CrewMoraleBand[] = [
+  { id: 'inspired', label: 'Inspired', minQuality: 7, color: '#22c55e', description: 'The crew would follow the captain anywhere.' },
+  { id: 'steady', label: 'Steady', minQuality: 0, color: '#3b82f6', description: 'The crew does its job.' },
+  {
+    id: 'shaken',
+    label: 'Shaken',
+    minQuality: -4,
+    color: '#f59e0b',
+    checkDC: 10,
+    failure: 'desertion',
+    description: 'Grumbling below decks. On a failed morale check, 10% of the crew deserts.',
+  },
+  {
+    id: 'mutinous',
+    label: 'Mutinous',
+    minQuality: MIN_CREW_QUALITY,
+    color: '#dc2626',
+    checkDC: 15,
+    failure: 'mutiny',
+    description: 'The crew is ready to turn on its officers. On a failed morale check, the crew mutinies.',
+  },
+];
+
+// Share of the crew that deserts on a failed morale check while shaken
+export const DESERTION_PERCENT = 10;
+
+export function getCrewMoraleBand(quality: number): CrewMoraleBand {
+  return CREW_MORALE_BANDS.find((b) => quality >= b.minQuality) ?? CREW_MORALE_BANDS[CREW_MORALE_BANDS.length - 1];
+}
+
+export function getCrewMoraleBandById(id: CrewMorale): CrewMoraleBand {
+  return CREW_MORALE_BANDS.find((b) => b.id === id)!;
+}
+
+// Crew pools: the unnamed deck crew / rowers of a crewPool zone, tracked as an HP pool
+// of CREW_MEMBER_HP per sailor (commoner-grade). Area damage thins the pool a body at a time.
+export const CREW_MEMBER_HP = 4;
+
+export function getCrewPoolZones(vehicle: Vehicle): VehicleZone[] {
+  return vehicle.template.zones.filter((z) => z.crewPool);
+}
+
+export function getCrewPoolMaxHp(zone: VehicleZone): number {
+  return zone.capacity * CREW_MEMBER_HP;
+}
+
+export function getCrewPoolHp(vehicle: Vehicle, zone: VehicleZone): number {
+  return vehicle.crewPoolHp?.[zone.id] ?? getCrewPoolMaxHp(zone);
+}
+
+/**
+ * Crew still standing in a pool — a wounded sailor still counts as a pair of hands
+ */
+export function getCrewPoolCount(vehicle: Vehicle, zone: VehicleZone): number {
+  return Math.ceil(getCrewPoolHp(vehicle, zone) / CREW_MEMBER_HP);
+}
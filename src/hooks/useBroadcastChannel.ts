@@ -4,7 +4,7 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Vehicle, Creature, ScaleName, BackgroundImageConfig, CrewAssignment, CombatPhase, ElevationZone } from '../types';
+import { Vehicle, Creature, ScaleName, BackgroundImageConfig, CrewAssignment, CombatPhase, ElevationZone, CurrentZone, Wind } from '../types';
 
 export interface BattlefieldSyncState {
   vehicles: Vehicle[];
@@ -13,10 +13,14 @@ export interface BattlefieldSyncState {
   scale: ScaleName;
   backgroundImage?: BackgroundImageConfig;
   elevationZones: ElevationZone[];
+  currentZones?: CurrentZone[];
+  wind?: Wind; // Battlefield wind, for the compass overlay
   zoom: number;
   panOffset: { x: number; y: number };
   round: number;
   phase: CombatPhase;
+  turnOrder?: { id: string; name: string; acted: boolean }[]; // Initiative order, with who has acted this round
+  currentTurnId?: string;
   dmViewport?: { width: number; height: number };
   showVehicleHealth?: boolean; // Whether to show vehicle HP on player view
   unitSystem?: 'imperial' | 'metric';
@@ -4,6 +4,7 @@
  */
 
 import { useState, useCallback, useEffect, useRef } from 'react';
+import type { CombatArchive } from '../services/localStorageService';
 
 export function useLocalStorage<T>(key: string, initialValue: T): [T, (value: T | ((prev: T) => T)) => void, () => void] {
   // Get initial value from localStorage or use provided initial value
@@ -174,21 +175,7 @@ export function deletePartyPreset(id: string): void {
 
 const COMBAT_ARCHIVES_KEY = 'avernus-combat-archives';
 
-export interface CombatArchive {
-  id: string;
-  encounterName: string;
-  completedAt: string;
-  totalRounds: number;
-  summary: {
-    partyVehicles: string[];
-    enemyVehicles: string[];
-    partyCreatures: string[];
-    enemyCreatures: string[];
-    vehiclesDestroyed: string[];
-    creaturesKilled: string[];
-  };
-  actionLog: unknown[]; // LogEntry[]
-}
+export type { CombatArchive };
 
 export function getCombatArchives(): CombatArchive[] {
   try {
@@ -204,7 +191,13 @@ export function saveCombatArchive(archive: CombatArchive): void {
   archives.unshift(archive); // Add to beginning (newest first)
   // Keep only last 20 archives to prevent storage bloat
   const trimmedArchives = archives.slice(0, 20);
-  window.localStorage.setItem(COMBAT_ARCHIVES_KEY, JSON.stringify(trimmedArchives));
+  try {
+    window.localStorage.setItem(COMBAT_ARCHIVES_KEY, JSON.stringify(trimmedArchives));
+  } catch {
+    // Over quota: drop the replays, which are by far the largest part
+    const withoutReplays = trimmedArchives.map((a) => ({ ...a, replay: undefined }));
+    window.localStorage.setItem(COMBAT_ARCHIVES_KEY, JSON.stringify(withoutReplays));
+  }
 }
 
 export function getCombatArchive(id: string): CombatArchive | null {
@@ -22,6 +22,8 @@ import type { StorageService } from './storageService';
 import type { SavedEncounter, PartyPreset, CombatArchive } from './localStorageService';
 import type { VehicleTemplate } from '../types';
 
+const MAX_ARCHIVE_SIZE = 900 * 1024; // Leaves room under Firestore's 1MB document limit
+
 // ==========================================
 // Helper Functions
 // ==========================================
@@ -259,15 +261,20 @@ export const firestoreService: StorageService = {
   // Combat Archives
   // ==========================================
 
-  async saveCombatArchive(archive: unknown): Promise<void> {
+  async saveCombatArchive(archive: CombatArchive): Promise<void> {
     const userId = getUserId();
     const firestore = getFirestore();
-    const archiveData = archive as CombatArchive;
 
-    const archiveRef = doc(firestore, 'users', userId, 'combatArchives', archiveData.id);
-    const { id: _id, ...cleanArchive } = archiveData;
+    const archiveRef = doc(firestore, 'users', userId, 'combatArchives', archive.id);
+    const { id: _id, ...archiveData } = archive;
+    const cleanArchive = cleanForFirestore(archiveData) as Record<string, unknown>;
+    // A document can't pass 1MB, so a long combat is archived without its replay
+    if (cleanArchive.replay && JSON.stringify(cleanArchive).length > MAX_ARCHIVE_SIZE) {
+      console.warn('Combat archive too large for Firestore, saving without its replay');
+      delete cleanArchive.replay;
+    }
     await setDoc(archiveRef, {
-      ...cleanForFirestore(cleanArchive) as Record<string, unknown>,
+      ...cleanArchive,
       completedAt: serverTimestamp(),
     });
   },
@@ -4,7 +4,7 @@
  */
 
 import type { StorageService } from './storageService';
-import type { VehicleTemplate } from '../types';
+import type { CombatReplay, VehicleTemplate } from '../types';
 
 // ==========================================
 // Types
@@ -42,6 +42,7 @@ export interface CombatArchive {
     creaturesKilled: string[];
   };
   actionLog: unknown[];
+  replay?: CombatReplay; // Recorded actions, to replay the combat on the map
 }
 
 // ==========================================
@@ -54,6 +55,8 @@ const PARTY_PRESETS_KEY = 'avernus-party-presets';
 const COMBAT_ARCHIVES_KEY = 'avernus-combat-archives';
 const VEHICLE_TEMPLATES_KEY = 'avernus-vehicle-templates';
 
+const MAX_ARCHIVE_REPLAYS = 3; // Older archives keep their summary and log only
+
 // ==========================================
 // Local Storage Service Implementation
 // ==========================================
@@ -165,12 +168,21 @@ export const localStorageService: StorageService = {
   // Combat Archives
   // ==========================================
 
-  async saveCombatArchive(archive: unknown): Promise<void> {
+  async saveCombatArchive(archive: CombatArchive): Promise<void> {
     const archives = await this.listCombatArchives();
     archives.unshift(archive);
-    // Keep only last 20 archives
-    const trimmedArchives = archives.slice(0, 20);
-    window.localStorage.setItem(COMBAT_ARCHIVES_KEY, JSON.stringify(trimmedArchives));
+    // Keep only last 20 archives, and replays only on the newest few (they're large)
+    const trimmedArchives = archives
+      .slice(0, 20)
+      .map((a, i) => (i < MAX_ARCHIVE_REPLAYS ? a : { ...a, replay: undefined }));
+    try {
+      window.localStorage.setItem(COMBAT_ARCHIVES_KEY, JSON.stringify(trimmedArchives));
+    } catch (error) {
+      // Over quota: the summaries and logs matter more than the replays
+      console.warn('Combat archives too large, saving without replays:', error);
+      const withoutReplays = trimmedArchives.map((a) => ({ ...a, replay: undefined }));
+      window.localStorage.setItem(COMBAT_ARCHIVES_KEY, JSON.stringify(withoutReplays));
+    }
   },
 
   async listCombatArchives(): Promise<CombatArchive[]> {
@@ -184,12 +196,11 @@ export const localStorageService: StorageService = {
 
   async getCombatArchive(id: string): Promise<CombatArchive | null> {
     const archives = await this.listCombatArchives();
-    const found = archives.find((a) => (a as CombatArchive).id === id);
-    return (found as CombatArchive) || null;
+    return archives.find((a) => a.id === id) || null;
   },
 
   async deleteCombatArchive(id: string): Promise<void> {
-    const archives = (await this.listCombatArchives()).filter((a) => (a as CombatArchive).id !== id);
+    const archives = (await this.listCombatArchives()).filter((a) => a.id !== id);
     window.localStorage.setItem(COMBAT_ARCHIVES_KEY, JSON.stringify(archives));
   },
 
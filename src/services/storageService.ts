@@ -5,6 +5,7 @@
 
 import { isAuthEnabled } from '../firebase';
 import type { VehicleTemplate } from '../types';
+import type { CombatArchive } from './localStorageService';
 import { localStorageService } from './localStorageService';
 import { firestoreService } from './firestoreService';
 
@@ -32,9 +33,9 @@ export interface StorageService {
   deletePartyPreset(id: string): Promise<void>;
 
   // Combat archives
-  saveCombatArchive(archive: unknown): Promise<void>;
-  listCombatArchives(): Promise<unknown[]>;
-  getCombatArchive(id: string): Promise<unknown | null>;
+  saveCombatArchive(archive: CombatArchive): Promise<void>;
+  listCombatArchives(): Promise<CombatArchive[]>;
+  getCombatArchive(id: string): Promise<CombatArchive | null>;
   deleteCombatArchive(id: string): Promise<void>;
 
   // Vehicle templates (personal library)
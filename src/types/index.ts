@@ -48,7 +48,8 @@ export interface StatblockAction {
   range?: string; // e.g., "80/320 ft"
   saveDC?: number;
   saveType?: AbilityName;
-  recharge?: string; // e.g., "5-6" or "short rest"
+  recharge?: string; // e.g., "5-6", "3/day" or "short rest" (see utils/recharge)
+  cost?: number; // Legendary actions: how many it uses. Missing = from the name ("Costs 2 Actions"), else 1
 }
 
 export interface Statblock {
@@ -89,6 +90,7 @@ export interface Statblock {
   reactions?: StatblockAction[];
   legendaryActions?: StatblockAction[];
   legendaryActionsPerRound?: number;
+  lairActions?: StatblockAction[]; // Taken on initiative count 20
 
   // Meta
   tags?: string[]; // For organizing in library
@@ -110,9 +112,25 @@ export interface Creature {
   position?: Position; // World position if not on a vehicle
   legendaryActionsRemaining?: number;
   concentrating?: string; // Spell name if concentrating
+  deathSaves?: DeathSaves; // PCs at 0 HP (see utils/deathSaves)
+  abilityUses?: Record<string, number>; // Limited-use action name -> times used since the last rest (see utils/recharge)
   notes?: string;
 }
 
+export interface DeathSaves {
+  successes: number; // 0-3
+  failures: number; // 0-3
+  stable?: boolean;
+  dead?: boolean;
+}
+
+// A dying PC's turn has started and it must roll a death save
+export interface DeathSavePrompt {
+  id: string;
+  creatureId: string;
+  round: number;
+}
+
 // ==========================================
 // Conditions
 // ==========================================
@@ -133,11 +151,37 @@ export type ConditionName =
   | 'unconscious'
   | 'exhaustion';
 
+// When a condition's duration counts down (see utils/conditionEffects)
+export type ConditionTick = 'start_of_turn' | 'end_of_turn';
+
 export interface Condition {
   name: ConditionName;
   source?: string; // What caused it
   duration?: number; // Rounds remaining, undefined = indefinite
   level?: number; // For exhaustion (1-6)
+  tickAt?: ConditionTick; // Default end of turn
+  saveEnds?: { dc: number; ability: AbilityName }; // Repeat the save at the end of each turn
+  concentrationOf?: string; // Caster's creature id; ends with their concentration
+}
+
+// A save-ends condition waiting for its end-of-turn save
+export interface ConditionSavePrompt {
+  id: string;
+  creatureId: string;
+  condition: ConditionName;
+  dc: number;
+  ability: AbilityName;
+  round: number;
+}
+
+// A concentrating creature took damage and must make a Con save to keep the spell
+export interface ConcentrationSavePrompt {
+  id: string;
+  creatureId: string;
+  spell: string;
+  dc: number; // max(10, half the damage)
+  damage: number;
+  round: number;
 }
 
 // ==========================================
@@ -154,6 +198,7 @@ export interface VehicleZone {
   visibleFromArcs: ('front' | 'rear' | 'left' | 'right')[]; // Which directions can see into this zone
   description?: string;
   bulk?: boolean; // Large undifferentiated crew (deck/rowers) — shown as a compact count, not a slot per creature
+  crewPool?: boolean; // Unnamed crew tracked as a headcount with an HP pool (see Vehicle.crewPoolHp) — takes casualties
 }
 
 export interface WeaponTemplate {
@@ -167,14 +212,17 @@ export interface WeaponTemplate {
   properties?: string[]; // e.g., "requires 2 crew"
   specialEffect?: string;
   crewRequired?: number;
+  loadActions?: number; // Siege weapons: actions to load before each shot (see utils/weaponAmmo)
+  aimActions?: number; // Siege weapons: actions to aim once loaded
   zoneId?: string; // Explicit crew-station zone this weapon lives in (ships set this; Avernus vehicles rely on id-pattern matching)
 }
 
 export interface VehicleWeapon extends WeaponTemplate {
   visibleFromArcs: ('front' | 'rear' | 'left' | 'right')[];
   zoneId: string; // Which zone this weapon is in
-  ammunition?: number;
+  ammunition?: number; // Capacity, from the "Ammunition (N …)" property; undefined = not tracked
   currentAmmunition?: number;
+  siegeActions?: number; // Load and aim actions spent since the last shot
   isSwappableStation?: boolean; // If true, this weapon can be swapped for alternative weapons
 }
 
@@ -192,6 +240,14 @@ export type TemplateSource = 'builtin' | 'personal' | 'community';
 // backward compatibility with Avernus war machines saved before this existed.
 export type VehicleEnvironment = 'land' | 'water' | 'air';
 
+// One typed slice of a hit, e.g. the "2d6 fire" of "6d10 bludgeoning + 2d6 fire".
+// Untyped parts (type omitted) ignore resistances and immunities.
+export interface DamagePart {
+  amount: number;
+  type?: string;
+  magical?: boolean; // Gets past resistance "from nonmagical attacks"
+}
+
 // Kind of destructible component in the faithful component model.
 export type VehicleComponentKind = 'hull' | 'control' | 'movement' | 'weapon' | 'other';
 
@@ -207,6 +263,8 @@ export interface VehicleComponent {
   maxHp: number;
   damageThreshold?: number;
   speed?: number; // For 'movement' components, in feet
+  speedWithWind?: number; // Sails only: speed running with the wind, in feet
+  speedIntoWind?: number; // Sails only: speed sailing into the wind, in feet
   crewRequired?: number;
   description?: string;
 }
@@ -254,13 +312,26 @@ export interface Vehicle {
   // Upgrades
   armorUpgradeId?: string; // ID of armor upgrade (default: 'none')
   gadgetIds?: string[]; // IDs of installed magical gadgets (Avernus pack)
+  gadgetUses?: Record<string, number>; // Gadget ID -> times used since the last rest
   navalUpgradeIds?: string[]; // IDs of installed Superior Ship Upgrades (naval pack)
+  // Activated upgrades that are recharging: upgrade id → combat clock second it's ready again
+  navalUpgradeRechargeAt?: Record<string, number>;
+  navalUpgradeChoices?: Record<string, string>; // Per-ship picks, e.g. the damage type Dragon Sails resist
   hasWeaponStationUpgrade?: boolean; // Whether custom weapon station is installed
   // Component combat: current HP per component id (hull uses currentHp instead).
   // Missing entries default to the component's max HP.
   componentHp?: Record<string, number>;
+  // Crew pool zones: remaining pool HP by zone id. Missing = a full complement (capacity × crew HP).
+  crewPoolHp?: Record<string, number>;
+  // Naval crew: Saltmarsh crew quality score (-10..+10). Missing = the default +4.
+  crewQuality?: number;
+  pendingMoraleCheck?: PendingMoraleCheck; // Set when crew quality falls into a worse morale band
+  isMutinous?: boolean; // The crew has mutinied - cleared by the DM once it's dealt with
+  pendingMishap?: PendingMishap; // Rolled automatically from damage, waiting for the DM to confirm
+  ammunitionStores?: number; // Spare rounds in the cargo for restocking weapons. Missing = none
   // Status
   isInoperative?: boolean; // True when HP reaches 0 - crew ejected, vehicle disabled
+  isJuking?: boolean; // Driver used Juke: advantage on the next Dex save, until the vehicle's next turn
   // Temporary effects from complications
   speedModifiers?: SpeedModifier[];
 }
@@ -272,6 +343,7 @@ export interface CrewAssignment {
   creatureId: string;
   vehicleId: string;
   zoneId: string;
+  officerRole?: OfficerRole; // Ship's officer post (naval vehicles) - one creature per role per ship
 }
 
 // ==========================================
@@ -293,6 +365,15 @@ export interface Mishap {
   stackable?: boolean; // If true, this mishap can occur multiple times (e.g., Furnace Rupture stacks speed reduction)
 }
 
+// A mishap rolled from damage at or above the mishap threshold. The DM applies,
+// rerolls or dismisses it before it goes on the vehicle.
+export interface PendingMishap {
+  roll: number;
+  mishap: Mishap;
+  rerollCount: number; // Rerolls to skip mishaps that are already active or would have no effect
+  reason: string; // e.g. "32 damage >= 20 mishap threshold"
+}
+
 export interface MishapMechanicalEffect {
   speedReduction?: number; // e.g., 30 = reduce speed by 30 ft
   damageThresholdReduction?: number; // e.g., 10 = reduce damage threshold by 10
@@ -302,7 +383,7 @@ export interface MishapMechanicalEffect {
   recurringDamage?: string; // e.g., "3d6 fire" - damage each turn
   zoneObscured?: string; // Zone ID that becomes heavily obscured
   vehicleProne?: boolean; // Vehicle is flipped/prone
-  crewSaveOnFlip?: { dc: number; damage: string }; // Save or take damage on flip
+  crewSaveOnFlip?: { dc: number; ability: AbilityName; damage: string }; // Creatures aboard save or take damage on flip
 }
 
 // ==========================================
@@ -314,6 +395,36 @@ export interface ChaseComplication {
   description: string;
   effect: string;
   mechanicalEffect?: ChaseComplicationEffect;
+  navalHazard?: { hazardId: NavalHazardId; dc: number }; // Set for Saltmarsh naval hazards (officer group check)
+}
+
+// ==========================================
+// Naval Hazards (Ghosts of Saltmarsh Appendix A)
+// ==========================================
+export type OfficerRole = 'captain' | 'first_mate' | 'bosun' | 'quartermaster' | 'surgeon' | 'cook';
+
+export type NavalHazardId = 'crew_conflict' | 'fire' | 'fog' | 'infestation' | 'storm';
+
+// Group check tiers: total success = every roll succeeded, total failure = every roll failed
+export type HazardOutcome = 'total_success' | 'success' | 'failure' | 'total_failure';
+
+// Morale band derived from crew quality (see CREW_MORALE_BANDS in data/shipCrew.ts)
+export type CrewMorale = 'inspired' | 'steady' | 'shaken' | 'mutinous';
+
+export interface PendingMoraleCheck {
+  morale: CrewMorale; // Band the crew just fell into
+  dc: number;
+  reason: string; // What pushed the crew over the threshold
+}
+
+// One roll in a hazard group check — an officer's ability check or the crew's d20 + quality
+export interface HazardCheckRoll {
+  role: OfficerRole | 'crew';
+  check: string; // e.g. "Int (water vehicles)", "d20 + crew quality"
+  status: ComplicationResolutionStatus;
+  rollResult?: number;
+  modifier?: number;
+  total?: number;
 }
 
 export interface ChaseComplicationEffect {
@@ -338,6 +449,7 @@ export interface SpeedModifier {
   duration: SpeedModifierDuration;
   appliedAtRound: number;
   appliedAtTurnIndex?: number; // For 'this_turn' duration
+  concentrationOf?: string; // Caster's creature id, for a spell's effect; ends with their concentration
 }
 
 // Resolution status for each vehicle in a complication
@@ -350,6 +462,8 @@ export interface VehicleComplicationResolution {
   modifier?: number; // The modifier applied
   total?: number; // Roll + modifier
   driverName?: string; // For display
+  hazardChecks?: HazardCheckRoll[]; // Naval hazards: officer + crew group check
+  hazardOutcome?: HazardOutcome; // Naval hazards: set once every check is resolved
 }
 
 // Active battlefield-wide complication being resolved
@@ -417,16 +531,26 @@ export interface TerrainFeature {
   effect?: string;
 }
 
-// Elevation zone - rectangular area with a specific elevation
-export interface ElevationZone {
+// Rectangular map region - shared shape of elevation zones and current zones
+export interface MapRegion {
   id: string;
   name: string;
-  elevation: number; // Feet above/below baseline (0)
   position: Position; // Top-left corner in world coords (feet)
   size: { width: number; height: number }; // In feet
   color?: string; // Optional tint color for visualization
 }
 
+// Elevation zone - rectangular area with a specific elevation
+export interface ElevationZone extends MapRegion {
+  elevation: number; // Feet above/below baseline (0)
+}
+
+// Current zone - rectangular stretch of water that drifts vessels and swimmers each round
+export interface CurrentZone extends MapRegion {
+  direction: number; // Degrees the water flows TOWARD (0 = north, clockwise)
+  strength: number; // Drift in feet per round (tactical scale)
+}
+
 // ==========================================
 // Combat State
 // ==========================================
@@ -436,6 +560,7 @@ export interface CombatState {
   id: string;
   name: string; // Encounter name
   round: number;
+  elapsedTime: number; // Seconds of in-world time since combat began (each round adds its scale's duration)
   phase: CombatPhase;
   hasBeenSaved: boolean; // Whether encounter has been explicitly saved (enables auto-save)
 
@@ -462,6 +587,9 @@ export interface CombatState {
   // Elevation zones
   elevationZones: ElevationZone[];
 
+  // Water currents
+  currentZones: CurrentZone[];
+
   // Environment
   environment: Environment;
 
@@ -483,6 +611,121 @@ export interface CombatState {
 
   // Undo stack for movement actions this round. Reset alongside movementUsed.
   moveHistory: MoveHistoryEntry[];
+
+  // Planks and grappling lines between vehicles, crossed when boarding
+  boardingLinks: BoardingLink[];
+
+  // Vehicles held to another by a harpoon, grappling claw or Grasping Rounds
+  tethers: Tether[];
+
+  // What each creature has declared and spent since its turn began, by creature id.
+  // Movement stays in movementUsed.
+  turnActions: Record<string, TurnActions>;
+
+  // Actions held for a trigger, and reactions waiting on the DM
+  readiedActions: ReadiedAction[];
+  reactionPrompts: ReactionPrompt[];
+
+  // Save-ends conditions to roll for at the end of a creature's turn
+  conditionSavePrompts: ConditionSavePrompt[];
+
+  // Con saves to keep concentration after taking damage
+  concentrationSavePrompts: ConcentrationSavePrompt[];
+
+  // Death saves for dying PCs whose turn has started
+  deathSavePrompts: DeathSavePrompt[];
+
+  // Legendary actions on offer at the end of the last turn (see utils/legendaryActions)
+  legendaryOffer?: LegendaryOffer;
+
+  // Every action since combat started, to replay it on the map. Cleared by a reset.
+  replay?: CombatReplay;
+}
+
+// Random numbers and ids used while reducing one action (see utils/randomTape)
+export interface RandomTape {
+  values: number[];
+  ids: string[];
+}
+
+export interface ReplayEvent {
+  action: { type: string; payload?: unknown }; // A CombatContext action, as dispatched
+  tape: RandomTape;
+  label: string; // e.g. "Deal 24 damage to Tormentor"
+  round: number;
+}
+
+export interface CombatReplay {
+  start: CombatState; // Just before combat started, without the background image
+  events: ReplayEvent[];
+  resumedRound?: number; // Set when recording restarted mid-combat after a reload
+}
+
+export interface LegendaryOffer {
+  afterTurnId: string;
+  turnName: string;
+  creatureIds: string[];
+  round: number;
+}
+
+// Two vehicles lashed together for boarding (see utils/boardingCalculator)
+export type BoardingLinkKind = 'plank' | 'grappling_hook';
+
+export interface BoardingLink {
+  id: string;
+  kind: BoardingLinkKind;
+  vehicleIds: [string, string];
+  createdAtRound: number;
+}
+
+// A vehicle held by another's weapon (see utils/tetherCalculator)
+export type TetherSource = 'harpoon' | 'grappling_claw' | 'grasping_rounds';
+
+export interface Tether {
+  id: string;
+  source: TetherSource;
+  sourceVehicleId: string; // The vehicle whose weapon holds the line
+  targetVehicleId: string;
+  weaponName: string;
+  length: number; // Feet, hull to hull
+  escapeDC: number;
+  createdAtRound: number;
+}
+
+// A creature's action economy for the round (see utils/actionEconomy)
+export interface TurnActions {
+  action?: string; // Declared action, by name
+  bonusAction?: string;
+  target?: string; // Creature or vehicle the action is aimed at
+  boardZoneId?: string; // Zone to land in when boarding
+  attackTarget?: string; // Station weapon target (see encodeAttackTarget)
+  readied?: Pick<ReadiedAction, 'action' | 'trigger' | 'triggerText' | 'range'>; // Held by the Ready action
+  resolved?: boolean; // Action and bonus action carried out
+  reaction?: string; // Can be taken on anyone's turn
+}
+
+// A held action waiting for its trigger (see utils/readiedActions)
+export type ReadyTrigger = 'vehicle_in_range' | 'creature_boards' | 'attack_declared' | 'other';
+
+export interface ReadiedAction {
+  id: string;
+  creatureId: string;
+  action: string; // What the creature will do
+  trigger: ReadyTrigger;
+  triggerText: string;
+  range?: number; // Feet, for vehicle_in_range
+  createdAtRound: number;
+}
+
+// A trigger that has happened: the creature may spend its reaction
+export interface ReactionPrompt {
+  id: string;
+  creatureId: string;
+  reaction: string; // The readied action, or the reaction's name
+  readiedActionId?: string;
+  vehicleId?: string; // A vehicle reaction taken by its driver (Juke)
+  event: string; // What happened
+  round: number;
 }
 
 export interface MoveHistoryEntry {
@@ -490,6 +733,8 @@ export interface MoveHistoryEntry {
   id: string;
   previousPosition: Position;
   feetMoved: number;
+  isDrift?: boolean; // Displaced by a current at round start, not moved by its own speed
+  dragged?: { id: string; previousPosition: Position }; // A vehicle pulled along on a tether, put back with it
 }
 
 export interface Environment {
@@ -497,6 +742,15 @@ export interface Environment {
   hazards: string[];
   visibility: 'clear' | 'lightly_obscured' | 'heavily_obscured';
   specialRules?: string[];
+  wind?: Wind; // Battlefield wind — drives sail speed; unset = sails use their flat speed
+}
+
+export type WindStrength = 'calm' | 'light' | 'moderate' | 'strong' | 'gale';
+
+export interface Wind {
+  direction: number; // Degrees the wind blows FROM (0 = north, clockwise), nautical convention
+  strength: WindStrength;
+  shiftEachRound: boolean; // Randomly veer/back and strengthen/ease at each new round
 }
 
 // ==========================================
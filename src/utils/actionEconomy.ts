@@ -0,0 +1,56 @@
+/**
+ * Action economy — what each creature has declared and spent since its turn began.
+ *
+ * Every creature gets an action, a bonus action and a reaction each round (PHB ch. 9). Crew
+ * act on their vehicle's turn, so theirs come back when the vehicle's turn starts; a creature
+ * on foot gets them back on its own turn. A reaction can be taken on anyone's turn, and a
+ * vehicle's reactions (the Devil's Ride's Juke) are taken with its driver's.
+ *
+ * Movement is tracked in feet in CombatState.movementUsed, which resets each round.
+ */
+import type { CombatState, CrewAssignment, TurnActions } from '../types';
+
+export function hasSpentAction(actions: TurnActions | undefined): boolean {
+  return !!actions?.resolved && !!actions.action;
+}
+
+export function hasSpentReaction(actions: TurnActions | undefined): boolean {
+  return !!actions?.reaction;
+}
+
+/**
+ * Creatures whose actions come back when this turn starts: a vehicle's crew, or the creature itself
+ */
+export function getCreaturesActingOnTurn(turnId: string, crewAssignments: CrewAssignment[]): string[] {
+  const crew = crewAssignments.filter((a) => a.vehicleId === turnId).map((a) => a.creatureId);
+  return crew.length > 0 ? crew : [turnId];
+}
+
+/**
+ * Turn actions with everyone acting on this turn given a fresh action, bonus action and reaction
+ */
+export function resetTurnActions(
+  turnActions: Record<string, TurnActions>,
+  turnId: string | undefined,
+  crewAssignments: CrewAssignment[]
+): Record<string, TurnActions> {
+  if (!turnId) return turnActions;
+  const next = { ...turnActions };
+  getCreaturesActingOnTurn(turnId, crewAssignments).forEach((id) => delete next[id]);
+  return next;
+}
+
+/**
+ * Whether an initiative entry has acted this round: its turn has passed, or it's the current
+ * turn and it has moved or carried out an action
+ */
+export function hasActedThisRound(
+  state: Pick<CombatState, 'initiativeOrder' | 'currentTurnIndex' | 'crewAssignments' | 'movementUsed' | 'turnActions'>,
+  turnId: string
+): boolean {
+  const index = state.initiativeOrder.indexOf(turnId);
+  if (index === -1 || index > state.currentTurnIndex) return false;
+  if (index < state.currentTurnIndex) return true;
+  const moved = (state.movementUsed[turnId] || 0) > 0 || (state.movementUsed[`creature-${turnId}`] || 0) > 0;
+  return moved || getCreaturesActingOnTurn(turnId, state.crewAssignments).some((id) => state.turnActions[id]?.resolved);
+}
@@ -0,0 +1,196 @@
+/**
+ * Attack resolution for vehicle weapons — one shot from a weapon station at a vehicle,
+ * one of its components, or a creature.
+ *
+ * Attack weapons roll d20 + attackBonus (plus ship upgrades) + the elevation modifier
+ * against the target's AC plus cover. Vehicles and components are never in cover; a
+ * creature aboard a vehicle gets its station's cover from this angle, adjusted for
+ * elevation, and can't be hit at all when its station is out of sight. A natural 20 hits
+ * and doubles the damage dice, a natural 1 misses. The gunner's and a creature target's
+ * conditions add advantage or disadvantage (see conditionEffects).
+ *
+ * Save weapons (saveDC/saveType, or "DC 15 Dex" in the damage text of the Save-based
+ * Avernus weapons) make the target save instead: half damage on a success. Vehicles have
+ * only Str, Dex and Con, and automatically fail Int, Wis and Cha saves.
+ */
+import type { AbilityName, CombatState, CoverType, Creature, Vehicle, VehicleWeapon } from '../types';
+import { getModifier } from '../types';
+import { getMishapRollEffects } from '../data/mishapTable';
+import { getNavalWeaponBonuses, getUpgradedWeaponDamage } from '../data/navalUpgrades';
+import { resolveZone } from '../data/vehicleTemplates';
+import { calculateCover, formatCover, getCoverACBonus } from './coverCalculator';
+import { calculateElevationCombatInfo, getPositionElevation, getVehicleElevation } from './elevationCalculator';
+import { getAttackRollMode } from './conditionEffects';
+
+export type AttackTarget =
+  | { kind: 'vehicle'; vehicleId: string }
+  | { kind: 'component'; vehicleId: string; componentId: string }
+  | { kind: 'creature'; creatureId: string };
+
+export interface WeaponAttack {
+  targetName: string;
+  ac: number; // Before cover
+  cover: CoverType;
+  coverBonus: number;
+  elevationModifier: number;
+  attackBonus?: number; // Total to hit; undefined for save weapons
+  save?: { dc: number; ability: AbilityName };
+  damage: string; // With ship upgrades applied
+  magical: boolean; // Counts as magical (Arcane Artillery)
+  advantage: boolean;
+  disadvantage: boolean;
+  conditionNotes: string[]; // Conditions behind the advantage/disadvantage
+  blocked?: string; // Why the target can't be attacked
+}
+
+type AttackState = Pick<CombatState, 'vehicles' | 'creatures' | 'crewAssignments' | 'elevationZones'>;
+
+/**
+ * Attack targets travel as strings (a <select> value, a declared action): "vehicle:id",
+ * "component:vehicleId:componentId" or "creature:id"
+ */
+export function encodeAttackTarget(target: AttackTarget): string {
+  if (target.kind === 'creature') return `creature:${target.creatureId}`;
+  if (target.kind === 'component') return `component:${target.vehicleId}:${target.componentId}`;
+  return `vehicle:${target.vehicleId}`;
+}
+
+export function decodeAttackTarget(value: string | null | undefined): AttackTarget | undefined {
+  const [kind, id, componentId] = (value ?? '').split(':');
+  if (kind === 'creature' && id) return { kind, creatureId: id };
+  if (kind === 'component' && id && componentId) return { kind, vehicleId: id, componentId };
+  if (kind === 'vehicle' && id) return { kind, vehicleId: id };
+  return undefined;
+}
+
+const SAVE_TEXT_RE = /DC\s*(\d+)\s*(Str|Dex|Con|Int|Wis|Cha)/i;
+
+/**
+ * The save a weapon forces, if it's save-based
+ */
+export function getWeaponSave(weapon: VehicleWeapon): { dc: number; ability: AbilityName } | undefined {
+  if (weapon.saveDC !== undefined && weapon.saveType) return { dc: weapon.saveDC, ability: weapon.saveType };
+  const match = weapon.damage.match(SAVE_TEXT_RE);
+  return match ? { dc: parseInt(match[1], 10), ability: match[2].toLowerCase() as AbilityName } : undefined;
+}
+
+/**
+ * Damage text with every dice count doubled, for a critical hit ("2d8+2 piercing" → "4d8+2 piercing")
+ */
+export function getCriticalDamage(damage: string): string {
+  return damage.replace(/(\d+)d(\d+)/gi, (_, count: string, sides: string) => `${parseInt(count, 10) * 2}d${sides}`);
+}
+
+/**
+ * Save modifier for the target, or undefined when it fails automatically (a vehicle's Int/Wis/Cha)
+ */
+export function getTargetSaveModifier(target: Vehicle | Creature, ability: AbilityName): number | undefined {
+  if ('statblock' in target) {
+    return target.statblock.savingThrows?.[ability] ?? getModifier(target.statblock.abilities[ability]);
+  }
+  if (ability !== 'str' && ability !== 'dex' && ability !== 'con') return undefined;
+  return getModifier(target.template.abilityScores?.[ability] ?? 10);
+}
+
+/**
+ * The vehicle or creature an attack target resolves to
+ */
+export function getAttackTargetEntity(state: AttackState, target: AttackTarget): Vehicle | Creature | undefined {
+  return target.kind === 'creature'
+    ? state.creatures.find((c) => c.id === target.creatureId)
+    : state.vehicles.find((v) => v.id === target.vehicleId);
+}
+
+/**
+ * Everything needed to resolve a shot from a vehicle's weapon at a target, or null when the
+ * target no longer exists. `gunner` is the creature at the station, for its conditions.
+ */
+export function getWeaponAttack(
+  attacker: Vehicle,
+  weapon: VehicleWeapon,
+  target: AttackTarget,
+  state: AttackState,
+  gunner?: Creature
+): WeaponAttack | null {
+  const attackerElevation = getVehicleElevation(attacker, state.elevationZones);
+  const bonuses = getNavalWeaponBonuses(attacker);
+  const save = getWeaponSave(weapon);
+  let targetName: string;
+  let ac: number;
+  let targetElevation: number;
+  let baseCover: CoverType = 'none';
+  let heavilyObscured = false;
+  let blocked: string | undefined;
+  let targetCreature: Creature | undefined;
+
+  if (target.kind === 'creature') {
+    const creature = state.creatures.find((c) => c.id === target.creatureId);
+    if (!creature) return null;
+    targetCreature = creature;
+    targetName = creature.name;
+    ac = creature.statblock.ac;
+
+    const assignment = state.crewAssignments.find((a) => a.creatureId === creature.id);
+    const targetVehicle = assignment && state.vehicles.find((v) => v.id === assignment.vehicleId);
+    const zone = targetVehicle && assignment ? resolveZone(targetVehicle, assignment.zoneId) : undefined;
+    if (targetVehicle && zone) {
+      const cover = calculateCover(attacker, targetVehicle, zone);
+      baseCover = cover.effectiveCover;
+      heavilyObscured = !!cover.heavilyObscured;
+      if (!cover.isVisible) blocked = cover.reason;
+      targetElevation = getVehicleElevation(targetVehicle, state.elevationZones);
+    } else {
+      targetElevation = creature.position ? getPositionElevation(creature.position, state.elevationZones) : 0;
+    }
+  } else {
+    const vehicle = state.vehicles.find((v) => v.id === target.vehicleId);
+    if (!vehicle) return null;
+    targetElevation = getVehicleElevation(vehicle, state.elevationZones);
+    if (target.kind === 'component') {
+      const component = vehicle.template.components?.find((c) => c.id === target.componentId);
+      if (!component) return null;
+      targetName = `${vehicle.name}'s ${component.name}`;
+      ac = component.ac;
+    } else {
+      targetName = vehicle.name;
+      ac = vehicle.template.ac;
+    }
+  }
+
+  const elevation = calculateElevationCombatInfo(attackerElevation, targetElevation, weapon.range, baseCover);
+  const cover = blocked ? 'full' : elevation.effectiveCover;
+  const conditions = getAttackRollMode(gunner, targetCreature, !!weapon.range?.toLowerCase().includes('melee'));
+  return {
+    targetName,
+    ac,
+    cover,
+    coverBonus: getCoverACBonus(cover),
+    elevationModifier: elevation.attackModifier,
+    attackBonus: save ? undefined : (weapon.attackBonus ?? 0) + bonuses.attackBonus + elevation.attackModifier,
+    save,
+    damage: getUpgradedWeaponDamage(weapon, bonuses),
+    magical: bonuses.magical,
+    advantage: conditions.advantage,
+    disadvantage: getMishapRollEffects(attacker, weapon.zoneId).attackDisadvantage || heavilyObscured || conditions.disadvantage,
+    conditionNotes: conditions.notes,
+    blocked: blocked ?? (cover === 'full' ? `${targetName} has full cover` : undefined),
+  };
+}
+
+/**
+ * One-line summary of the odds, e.g. "+7 to hit vs AC 17 (half cover (+2 AC), high ground +1)"
+ */
+export function describeWeaponAttack(attack: WeaponAttack): string {
+  if (attack.blocked) return attack.blocked;
+  if (attack.save) return `DC ${attack.save.dc} ${attack.save.ability.toUpperCase()} save, half damage on a success`;
+  const notes = [
+    attack.coverBonus > 0 && formatCover(attack.cover),
+    attack.elevationModifier > 0 && `high ground +${attack.elevationModifier}`,
+    attack.elevationModifier < 0 && `target's high ground ${attack.elevationModifier}`,
+    attack.advantage && !attack.disadvantage && 'advantage',
+    attack.disadvantage && !attack.advantage && 'disadvantage',
+    ...attack.conditionNotes,
+  ].filter(Boolean);
+  const bonus = attack.attackBonus ?? 0;
+  return `${bonus >= 0 ? '+' : ''}${bonus} to hit vs AC ${attack.ac + attack.coverBonus}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`;
+}
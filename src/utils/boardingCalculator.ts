@@ -0,0 +1,191 @@
+/**
+ * Boarding — crossing from one vehicle to another at point-blank range.
+ *
+ * The gap is measured hull to hull: each vehicle is its map footprint (a rectangle for
+ * ships with lengthFt/beamFt, a square by size otherwise) turned to its facing. A creature
+ * jumps the gap with Athletics or Acrobatics, whichever is better: DC 10 up to its Strength
+ * score in feet (a running long jump from an unsteady deck), +5 per 5 feet beyond that, and
+ * nobody clears more than Strength + 10 feet.
+ *
+ * Ships can be lashed together with a boarding link instead: a plank is walked across
+ * without a check, a grappling line is climbed with an Athletics check. A link that the
+ * vehicles have drifted beyond its reach is broken and the creature has to jump.
+ *
+ * A creature that fails lands on the battlefield between the two vehicles and takes
+ * falling damage — trampled too, when it falls among wheels rather than into the water.
+ */
+import type { BoardingLink, BoardingLinkKind, Creature, Position, Vehicle, VehicleTemplate } from '../types';
+import { getOfficerCheckModifier } from '../data/shipCrew';
+
+// Farthest apart two hulls can be for a creature to try boarding
+export const MAX_BOARDING_GAP = 30;
+export const BOARDING_BASE_DC = 10;
+
+export const BOARDING_LINKS: Record<BoardingLinkKind, { name: string; reach: number; dc?: number; description: string }> = {
+  plank: { name: 'Boarding Plank', reach: 10, description: 'Walked across without a check' },
+  grappling_hook: { name: 'Grappling Hook', reach: 30, dc: 10, description: 'Climbed hand over hand: DC 10 Athletics' },
+};
+
+// Falling from a war machine onto the ground among the wheels, or off a ship into the water
+export const BOARDING_FALL_DAMAGE = { land: '3d6 bludgeoning', water: '1d6 bludgeoning' };
+
+/**
+ * Vehicle size in feet, from the template (for the Avernus war machines) or its size category
+ */
+export function getVehicleSizeInFeet(size: string, templateId?: string): number {
+  // Specific vehicle dimensions based on real-world equivalents
+  // Template IDs use underscores (e.g., 'demon_grinder')
+  if (templateId) {
+    const templateSizes: Record<string, number> = {
+      'demon_grinder': 45,  // Tour bus (~40-45 ft) - Gargantuan
+      'scavenger': 35,      // Salvage truck (~35 ft) - Huge
+      'tormentor': 22,      // APC/dune buggy (~20-25 ft) - Huge
+      'buzz_killer': 15,    // Motor trike (~15 ft) - Large
+      'devils_ride': 8,     // Infernal motorcycle (~8 ft) - Large
+    };
+    if (templateSizes[templateId]) {
+      return templateSizes[templateId];
+    }
+  }
+
+  // Fallback to D&D size category (space controlled in feet)
+  const sizes: Record<string, number> = {
+    large: 10,      // 10x10 ft space
+    huge: 15,       // 15x15 ft space
+    gargantuan: 20, // 20x20 ft space
+  };
+  return sizes[size] || 10;
+}
+
+/**
+ * Real footprint in feet: width across (beam) and length bow to stern
+ */
+function getFootprint(template: VehicleTemplate): { width: number; length: number } {
+  if (template.lengthFt && template.beamFt) return { width: template.beamFt, length: template.lengthFt };
+  const size = getVehicleSizeInFeet(template.size, template.id);
+  return { width: size, length: size };
+}
+
+// Corners of a vehicle's footprint in world feet, turned to its facing (clockwise, 0 = north)
+function getCorners(vehicle: Vehicle): Position[] {
+  const { width, length } = getFootprint(vehicle.template);
+  const angle = (vehicle.facing * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [
+    [-width / 2, -length / 2],
+    [width / 2, -length / 2],
+    [width / 2, length / 2],
+    [-width / 2, length / 2],
+  ].map(([x, y]) => ({
+    x: vehicle.position.x + x * cos - y * sin,
+    y: vehicle.position.y + x * sin + y * cos,
+  }));
+}
+
+function distanceToSegment(p: Position, a: Position, b: Position): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function isInsidePolygon(p: Position, corners: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = corners.length - 1; i < corners.length; j = i++) {
+    const a = corners[i];
+    const b = corners[j];
+    if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Gap between two hulls in feet (0 when they touch or overlap)
+ */
+export function getHullGap(a: Vehicle, b: Vehicle): number {
+  const cornersA = getCorners(a);
+  const cornersB = getCorners(b);
+  if (cornersA.some((p) => isInsidePolygon(p, cornersB)) || cornersB.some((p) => isInsidePolygon(p, cornersA))) {
+    return 0;
+  }
+  let gap = Infinity;
+  const edgeDistances = (points: Position[], corners: Position[]) => {
+    for (const p of points) {
+      for (let i = 0; i < corners.length; i++) {
+        gap = Math.min(gap, distanceToSegment(p, corners[i], corners[(i + 1) % corners.length]));
+      }
+    }
+  };
+  edgeDistances(cornersA, cornersB);
+  edgeDistances(cornersB, cornersA);
+  return Math.round(gap);
+}
+
+/**
+ * Distance in feet from a point (a creature on foot) to a vehicle's hull (0 when inside it)
+ */
+export function getDistanceToHull(vehicle: Vehicle, point: Position): number {
+  const corners = getCorners(vehicle);
+  if (isInsidePolygon(point, corners)) return 0;
+  const distances = corners.map((corner, i) => distanceToSegment(point, corner, corners[(i + 1) % corners.length]));
+  return Math.round(Math.min(...distances));
+}
+
+/**
+ * The link lashing two vehicles together, if any
+ */
+export function findBoardingLink(links: BoardingLink[], vehicleIdA: string, vehicleIdB: string): BoardingLink | undefined {
+  return links.find((l) => l.vehicleIds.includes(vehicleIdA) && l.vehicleIds.includes(vehicleIdB));
+}
+
+export interface BoardingCheck {
+  gap: number;
+  link?: BoardingLink; // Crossing by a link still within reach
+  brokenLink?: BoardingLink; // A link the vehicles have pulled beyond its reach
+  dc?: number; // undefined when no check is needed (a plank)
+  ability: 'str' | 'dex';
+  skill: 'Athletics' | 'Acrobatics';
+  modifier: number;
+  tooFar: boolean;
+}
+
+/**
+ * What crossing from one vehicle to another takes for this creature
+ */
+export function getBoardingCheck(creature: Creature, from: Vehicle, to: Vehicle, links: BoardingLink[]): BoardingCheck {
+  const gap = getHullGap(from, to);
+  const athletics = getOfficerCheckModifier(creature, 'str', 'Athletics');
+  const acrobatics = getOfficerCheckModifier(creature, 'dex', 'Acrobatics');
+  const jumpSkill =
+    athletics >= acrobatics
+      ? { ability: 'str' as const, skill: 'Athletics' as const, modifier: athletics }
+      : { ability: 'dex' as const, skill: 'Acrobatics' as const, modifier: acrobatics };
+
+  const existing = findBoardingLink(links, from.id, to.id);
+  if (existing && gap <= BOARDING_LINKS[existing.kind].reach) {
+    return { gap, link: existing, dc: BOARDING_LINKS[existing.kind].dc, ability: 'str', skill: 'Athletics', modifier: athletics, tooFar: false };
+  }
+
+  const strength = creature.statblock.abilities.str;
+  const beyondJump = Math.max(0, gap - strength);
+  return {
+    gap,
+    brokenLink: existing,
+    dc: BOARDING_BASE_DC + Math.ceil(beyondJump / 5) * 5,
+    ...jumpSkill,
+    tooFar: gap > MAX_BOARDING_GAP || beyondJump > 10,
+  };
+}
+
+export function getBoardingFallDamage(from: Vehicle): string {
+  return from.template.environment === 'water' ? BOARDING_FALL_DAMAGE.water : BOARDING_FALL_DAMAGE.land;
+}
+
+/**
+ * Where a creature that misses the crossing lands: halfway across the gap between the hulls
+ */
+export function getFallPosition(from: Vehicle, to: Vehicle): Position {
+  return { x: (from.position.x + to.position.x) / 2, y: (from.position.y + to.position.y) / 2 };
+}
@@ -0,0 +1,22 @@
+/**
+ * Concentration (PHB ch. 10).
+ *
+ * A creature concentrates on one spell at a time; starting another ends the first. Each time
+ * it takes damage it makes a Con save, DC 10 or half the damage taken if that's higher, and
+ * loses concentration on a failure. Being incapacitated or dropping to 0 HP ends it outright.
+ *
+ * Conditions and vehicle speed modifiers a spell puts in place carry the caster's id
+ * (concentrationOf) and end with the concentration.
+ */
+import type { Condition } from '../types';
+import { INCAPACITATING_CONDITIONS } from './conditionEffects';
+
+export const MIN_CONCENTRATION_DC = 10;
+
+export function getConcentrationSaveDc(damage: number): number {
+  return Math.max(MIN_CONCENTRATION_DC, Math.floor(damage / 2));
+}
+
+export function breaksConcentration(condition: Condition): boolean {
+  return INCAPACITATING_CONDITIONS.includes(condition.name);
+}
@@ -0,0 +1,126 @@
+/**
+ * Conditions (PHB appendix A) — how long they last and what they do to rolls.
+ *
+ * A condition with a duration counts down once per turn of the creature it affects, at the
+ * start or the end of that turn (Condition.tickAt, end by default), and ends when it reaches
+ * 0. Crew take their turn on their vehicle's. A save-ends condition ("repeat the save at the
+ * end of each of its turns") prompts that save at the end of the creature's turn.
+ *
+ * Effects on the rolls the app makes:
+ * - Attack rolls: disadvantage when blinded, frightened, poisoned, prone or restrained, or at
+ *   exhaustion 3+; advantage when invisible.
+ * - Attacks against: advantage against a blinded, paralyzed, petrified, restrained, stunned or
+ *   unconscious target, disadvantage against an invisible one. A prone target gives advantage
+ *   to melee attacks and disadvantage to ranged ones.
+ * - Ability checks: disadvantage when frightened or poisoned, or at exhaustion 1+.
+ * - Saves: Str and Dex saves fail automatically when paralyzed, petrified, stunned or
+ *   unconscious; disadvantage on Dex saves when restrained, and on every save at exhaustion 3+.
+ */
+import type { AbilityName, Condition, ConditionName, ConditionTick, Creature } from '../types';
+
+export const CONDITION_NAMES: ConditionName[] = [
+  'blinded',
+  'charmed',
+  'deafened',
+  'exhaustion',
+  'frightened',
+  'grappled',
+  'incapacitated',
+  'invisible',
+  'paralyzed',
+  'petrified',
+  'poisoned',
+  'prone',
+  'restrained',
+  'stunned',
+  'unconscious',
+];
+
+export const MAX_EXHAUSTION = 6;
+
+export interface RollMode {
+  advantage: boolean;
+  disadvantage: boolean;
+  autoFail?: boolean; // Saves only
+  notes: string[]; // Conditions behind it, e.g. "poisoned"
+}
+
+const ATTACKER_DISADVANTAGE: ConditionName[] = ['blinded', 'frightened', 'poisoned', 'prone', 'restrained'];
+const TARGET_ADVANTAGE: ConditionName[] = ['blinded', 'paralyzed', 'petrified', 'restrained', 'stunned', 'unconscious'];
+const CHECK_DISADVANTAGE: ConditionName[] = ['frightened', 'poisoned'];
+const STR_DEX_SAVE_FAIL: ConditionName[] = ['paralyzed', 'petrified', 'stunned', 'unconscious'];
+
+// Conditions that include incapacitated: no actions or reactions
+export const INCAPACITATING_CONDITIONS: ConditionName[] = ['incapacitated', 'paralyzed', 'petrified', 'stunned', 'unconscious'];
+
+export function hasCondition(creature: Creature | undefined, name: ConditionName): boolean {
+  return !!creature?.conditions.some((c) => c.name === name);
+}
+
+export function isIncapacitated(creature: Creature | undefined): boolean {
+  return INCAPACITATING_CONDITIONS.some((name) => hasCondition(creature, name));
+}
+
+export function getExhaustionLevel(creature: Creature | undefined): number {
+  return creature?.conditions.find((c) => c.name === 'exhaustion')?.level ?? 0;
+}
+
+export function getConditionTick(condition: Condition): ConditionTick {
+  return condition.tickAt ?? 'end_of_turn';
+}
+
+export function formatCondition(condition: Condition): string {
+  const name = condition.name === 'exhaustion' ? `exhaustion ${condition.level ?? 1}` : condition.name;
+  const parts = [
+    condition.duration !== undefined &&
+      `${condition.duration} round${condition.duration !== 1 ? 's' : ''}, ticks at the ${getConditionTick(condition) === 'start_of_turn' ? 'start' : 'end'} of turn`,
+    condition.saveEnds && `DC ${condition.saveEnds.dc} ${condition.saveEnds.ability.toUpperCase()} save ends`,
+    condition.source,
+  ].filter(Boolean);
+  return parts.length > 0 ? `${name} (${parts.join('; ')})` : name;
+}
+
+const matching = (creature: Creature | undefined, names: ConditionName[]) =>
+  names.filter((name) => hasCondition(creature, name));
+
+const toMode = (advantage: string[], disadvantage: string[]): RollMode => ({
+  advantage: advantage.length > 0,
+  disadvantage: disadvantage.length > 0,
+  notes: [...advantage.map((n) => `${n} (adv)`), ...disadvantage.map((n) => `${n} (dis)`)],
+});
+
+/**
+ * Advantage and disadvantage on an attack from the attacker's and the target's conditions
+ */
+export function getAttackRollMode(attacker: Creature | undefined, target: Creature | undefined, melee: boolean): RollMode {
+  const advantage: string[] = [];
+  const disadvantage: string[] = matching(attacker, ATTACKER_DISADVANTAGE);
+  if (getExhaustionLevel(attacker) >= 3) disadvantage.push('exhaustion');
+  if (hasCondition(attacker, 'invisible')) advantage.push('invisible');
+
+  advantage.push(...matching(target, TARGET_ADVANTAGE).map((n) => `target ${n}`));
+  if (hasCondition(target, 'invisible')) disadvantage.push('target invisible');
+  if (hasCondition(target, 'prone')) (melee ? advantage : disadvantage).push('target prone');
+  return toMode(advantage, disadvantage);
+}
+
+/**
+ * Advantage and disadvantage on an ability check
+ */
+export function getCheckRollMode(creature: Creature | undefined): RollMode {
+  const disadvantage = matching(creature, CHECK_DISADVANTAGE);
+  if (getExhaustionLevel(creature) >= 1) disadvantage.push('exhaustion');
+  return toMode([], disadvantage);
+}
+
+/**
+ * Advantage, disadvantage or automatic failure on a saving throw
+ */
+export function getSaveRollMode(creature: Creature | undefined, ability: AbilityName): RollMode {
+  const disadvantage: string[] = [];
+  if (ability === 'dex' && hasCondition(creature, 'restrained')) disadvantage.push('restrained');
+  if (getExhaustionLevel(creature) >= 3) disadvantage.push('exhaustion');
+  const mode = toMode([], disadvantage);
+  const failing = ability === 'str' || ability === 'dex' ? matching(creature, STR_DEX_SAVE_FAIL) : [];
+  return failing.length > 0 ? { ...mode, autoFail: true, notes: [...mode.notes, `${failing[0]} (auto-fail)`] } : mode;
+}
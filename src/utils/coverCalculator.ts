@@ -5,6 +5,7 @@
 
 import { Vehicle, VehicleZone, Position, CoverType, ElevationZone } from '../types';
 import { resolveZone } from '../data/vehicleTemplates';
+import { isZoneObscured } from '../data/mishapTable';
 import {
   getVehicleElevation,
   getPositionElevation,
@@ -24,6 +25,7 @@ export interface CoverResult {
   acBonus: number;
   attackArc: AttackArc;
   isVisible: boolean;
+  heavilyObscured?: boolean; // Target's zone is full of smoke (Blinding Smoke) — attacks against it have disadvantage
   reason: string;
 }
 
@@ -156,7 +158,7 @@ export function calculateCover(
 
   // Visible from this arc - use zone's base cover
   // Zone cover already includes station cover (helm = 3/4, weapon stations = half, deck = varies)
-  return {
+  return withObscurement(targetVehicle, targetZone, {
     baseCover,
     effectiveCover: baseCover,
     acBonus: baseACBonus,
@@ -165,6 +167,19 @@ export function calculateCover(
     reason: baseCover === 'none'
       ? `Target in ${targetZone.name} is fully exposed (attacking from ${getArcDisplayName(attackArc)})`
       : `Target in ${targetZone.name} has ${formatCover(baseCover)} from station (attacking from ${getArcDisplayName(attackArc)})`,
+  });
+}
+
+/**
+ * Mark a visible target whose zone is heavily obscured by a mishap. Obscurement isn't
+ * cover — the AC bonus is unchanged — but attackers can't see the target.
+ */
+function withObscurement(targetVehicle: Vehicle, targetZone: VehicleZone, result: CoverResult): CoverResult {
+  if (!isZoneObscured(targetVehicle, targetZone.id)) return result;
+  return {
+    ...result,
+    heavilyObscured: true,
+    reason: `${result.reason}; ${targetZone.name} is heavily obscured (attacks have disadvantage)`,
   };
 }
 
@@ -309,7 +324,7 @@ export function calculateCoverFromPosition(
   }
 
   // Visible from this arc - use zone's base cover
-  return {
+  return withObscurement(targetVehicle, targetZone, {
     baseCover,
     effectiveCover: baseCover,
     acBonus: baseACBonus,
@@ -318,7 +333,7 @@ export function calculateCoverFromPosition(
     reason: baseCover === 'none'
       ? `Target in ${targetZone.name} is fully exposed (attacking from ${getArcDisplayName(attackArc)})`
       : `Target in ${targetZone.name} has ${formatCover(baseCover)} from station (attacking from ${getArcDisplayName(attackArc)})`,
-  };
+  });
 }
 
 /**
@@ -0,0 +1,48 @@
+/**
+ * Current Calculator
+ * Resolves water-current drift for vessels and swimmers at the start of each round
+ */
+
+import { Position, CurrentZone, ScaleName } from '../types';
+import { calculateMovementPerRound } from '../data/scaleConfig';
+import { isPositionInZone } from './elevationCalculator';
+
+/**
+ * Get the current acting on a position.
+ * If the position is in several overlapping zones, the strongest current wins.
+ * Returns undefined if the position is in still water.
+ */
+export function getCurrentAtPosition(position: Position, zones: CurrentZone[]): CurrentZone | undefined {
+  let strongest: CurrentZone | undefined;
+
+  for (const zone of zones) {
+    if (zone.strength > 0 && isPositionInZone(position, zone)) {
+      if (!strongest || zone.strength > strongest.strength) {
+        strongest = zone;
+      }
+    }
+  }
+
+  return strongest;
+}
+
+/**
+ * Drift distance for one round of a current at the given scale (in feet).
+ * Scales like vehicle speed, so a slow river still carries ships far at strategic scale.
+ */
+export function getDriftDistance(zone: CurrentZone, scale: ScaleName): number {
+  return calculateMovementPerRound(zone.strength, scale);
+}
+
+/**
+ * Position after drifting one round with a current.
+ * Direction is the bearing the water flows toward (0 = north = up on the map).
+ */
+export function applyDrift(position: Position, zone: CurrentZone, scale: ScaleName): Position {
+  const distance = getDriftDistance(zone, scale);
+  const radians = (zone.direction * Math.PI) / 180;
+  return {
+    x: position.x + Math.sin(radians) * distance,
+    y: position.y - Math.cos(radians) * distance,
+  };
+}
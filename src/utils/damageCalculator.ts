@@ -0,0 +1,188 @@
+/**
+ * Damage calculator — typed damage and the defenses that modify it.
+ *
+ * A hit is a list of DamageParts ("6d10 bludgeoning + 2d6 fire" → two parts).
+ * Each part is checked against the target's immunities, resistances and
+ * vulnerabilities on its own, so a resistant target still takes full damage
+ * from the parts it doesn't resist. Untyped parts are never modified.
+ *
+ * Defenses come from a creature's statblock, or for vehicles from the template
+ * (Avernus war machines are immune to poison and psychic), the armor upgrade,
+ * and Superior Ship Upgrades (Frost-Locked Hull, Dragon Sails).
+ */
+import type { Creature, DamagePart, Vehicle, VehicleComponent } from '../types';
+import { ARMOR_UPGRADES } from '../data/vehicleTemplates';
+import { getInstalledNavalUpgrades, getNavalUpgradeDamageType } from '../data/navalUpgrades';
+import { roll as rollDice } from './diceEngine';
+
+export const DAMAGE_TYPES = [
+  'acid',
+  'bludgeoning',
+  'cold',
+  'fire',
+  'force',
+  'lightning',
+  'necrotic',
+  'piercing',
+  'poison',
+  'psychic',
+  'radiant',
+  'slashing',
+  'thunder',
+] as const;
+
+export interface DamageDefenses {
+  immunities: string[];
+  resistances: string[];
+  vulnerabilities: string[];
+}
+
+export type DamageModifier = 'immune' | 'resistant' | 'vulnerable';
+
+export interface AppliedDamagePart extends DamagePart {
+  applied: number; // Damage after the target's defenses
+  modifier?: DamageModifier;
+}
+
+export interface AppliedDamage {
+  total: number;
+  parts: AppliedDamagePart[];
+}
+
+// Tooltip for the free-text damage fields that parseDamageInput reads
+export const DAMAGE_INPUT_HINT = 'Damage, optionally typed: 12, 18 fire, 2d6 fire + 8 magical slashing';
+
+const DICE_PART_RE = /^(\d+d\d+(?:[+-]\d+)?|\d+)\s*(magical\s+)?([a-z]+)?$/i;
+const PART_SEPARATOR_RE = /\s+\+\s+|\s*,\s*|\s+and\s+/i;
+
+/**
+ * Parse damage typed by the DM — "12", "18 fire", "6d10 bludgeoning + 2d6 fire",
+ * "8 magical slashing". Dice are rolled. Returns null if any part isn't a number or
+ * dice with an optional known damage type.
+ */
+export function parseDamageInput(text: string): DamagePart[] | null {
+  const chunks = text.trim().split(PART_SEPARATOR_RE).filter(Boolean);
+  if (chunks.length === 0) return null;
+
+  const parts: DamagePart[] = [];
+  for (const chunk of chunks) {
+    const match = chunk.match(DICE_PART_RE);
+    if (!match) return null;
+    const type = match[3]?.toLowerCase();
+    if (type && !isDamageType(type)) return null;
+    if (match[2] && !type) return null;
+    const amount = /d/i.test(match[1]) ? rollDice(match[1]).total : parseInt(match[1], 10);
+    parts.push(type ? { amount, type, ...(match[2] ? { magical: true } : {}) } : { amount });
+  }
+  return parts.some((p) => p.amount > 0) ? parts : null;
+}
+
+/**
+ * Roll every dice expression in a weapon's damage text ("3d10+2 piercing + 2d6 fire"),
+ * keeping each expression's damage type. Non-damage text (save DCs, riders) is skipped.
+ */
+export function rollDamageParts(damage: string): DamagePart[] {
+  const parts: DamagePart[] = [];
+  for (const m of damage.matchAll(/(\d+d\d+(?:\s*[+-]\s*\d+(?!\s*d))?)\s*([a-z]+)?/gi)) {
+    const type = m[2]?.toLowerCase();
+    const amount = rollDice(m[1].replace(/\s+/g, '')).total;
+    parts.push(type && isDamageType(type) ? { amount, type } : { amount });
+  }
+  return parts;
+}
+
+export function isDamageType(type: string): boolean {
+  return (DAMAGE_TYPES as readonly string[]).includes(type.toLowerCase());
+}
+
+export function getDamageTotal(parts: DamagePart[]): number {
+  return parts.reduce((sum, p) => sum + p.amount, 0);
+}
+
+// Statblock entries can be phrases ("bludgeoning, piercing, and slashing from nonmagical attacks");
+// those don't cover magical attacks
+const includesType = (list: string[], part: DamagePart & { type: string }) =>
+  list.some((entry) => {
+    const text = entry.toLowerCase();
+    if (part.magical && text.includes('nonmagical')) return false;
+    return text.split(/[^a-z]+/).includes(part.type);
+  });
+
+/**
+ * Apply defenses part by part: immunity → 0, resistance → half (rounded down),
+ * vulnerability → double. Resistance and vulnerability to the same type cancel out.
+ */
+export function applyDamageDefenses(parts: DamagePart[], defenses: DamageDefenses): AppliedDamage {
+  const applied = parts.map((part): AppliedDamagePart => {
+    const type = part.type?.toLowerCase();
+    if (!type) return { ...part, applied: part.amount };
+    const typed = { ...part, type };
+    if (includesType(defenses.immunities, typed)) return { ...part, applied: 0, modifier: 'immune' };
+    const resistant = includesType(defenses.resistances, typed);
+    const vulnerable = includesType(defenses.vulnerabilities, typed);
+    if (resistant && !vulnerable) return { ...part, applied: Math.floor(part.amount / 2), modifier: 'resistant' };
+    if (vulnerable && !resistant) return { ...part, applied: part.amount * 2, modifier: 'vulnerable' };
+    return { ...part, applied: part.amount };
+  });
+  return { total: applied.reduce((sum, p) => sum + p.applied, 0), parts: applied };
+}
+
+/**
+ * Log-friendly breakdown, e.g. "12 bludgeoning + 8 fire (vulnerable → 16)"
+ */
+export function formatDamageBreakdown(damage: AppliedDamage): string {
+  return damage.parts
+    .map((p) => {
+      const label = p.type ? `${p.amount} ${p.type}` : `${p.amount}`;
+      if (p.modifier === 'immune') return `${label} (immune)`;
+      if (p.modifier) return `${label} (${p.modifier} → ${p.applied})`;
+      return label;
+    })
+    .join(' + ');
+}
+
+/**
+ * Whether the breakdown says anything the total doesn't — more than one part or a typed part
+ */
+export function isTypedDamage(parts: DamagePart[]): boolean {
+  return parts.length > 1 || parts.some((p) => p.type);
+}
+
+export function getCreatureDefenses(creature: Creature): DamageDefenses {
+  return {
+    immunities: creature.statblock.damageImmunities ?? [],
+    resistances: creature.statblock.damageResistances ?? [],
+    vulnerabilities: creature.statblock.damageVulnerabilities ?? [],
+  };
+}
+
+/**
+ * A vehicle's defenses — the whole vehicle, or one component when given
+ * (some ship upgrades only protect a single component, e.g. Dragon Sails)
+ */
+export function getVehicleDefenses(vehicle: Vehicle, component?: VehicleComponent): DamageDefenses {
+  const defenses: DamageDefenses = {
+    immunities: [...(vehicle.template.immunities ?? [])],
+    resistances: [],
+    vulnerabilities: [],
+  };
+
+  const armor = ARMOR_UPGRADES.find((a) => a.id === vehicle.armorUpgradeId);
+  if (armor) {
+    defenses.immunities.push(...(armor.additionalImmunities ?? []));
+    defenses.resistances.push(...(armor.resistances ?? []));
+  }
+
+  for (const upgrade of getInstalledNavalUpgrades(vehicle)) {
+    const upgradeDefenses = upgrade.mechanics?.defenses;
+    if (!upgradeDefenses) continue;
+    if (upgradeDefenses.componentIds && !(component && upgradeDefenses.componentIds.includes(component.id))) continue;
+    defenses.immunities.push(...(upgradeDefenses.immunities ?? []));
+    defenses.resistances.push(...(upgradeDefenses.resistances ?? []));
+    defenses.vulnerabilities.push(...(upgradeDefenses.vulnerabilities ?? []));
+    const chosen = getNavalUpgradeDamageType(vehicle, upgrade);
+    if (chosen) defenses.resistances.push(chosen);
+  }
+
+  return defenses;
+}
@@ -0,0 +1,74 @@
+/**
+ * Death saving throws (PHB ch. 9).
+ *
+ * A PC at 0 HP rolls a d20 at the start of each of its turns (crew on their vehicle's turn):
+ * 10 or higher is a success, lower a failure. Three successes and it's stable; three failures
+ * and it dies. A natural 1 counts as two failures; a natural 20 brings it back with 1 HP.
+ *
+ * Damage at 0 HP is a failure, two for a critical hit, and a stable creature that takes
+ * damage starts dying again. Damage that leaves as much over as the creature's HP maximum
+ * kills it outright. Any healing ends the whole business.
+ *
+ * NPCs at 0 HP simply die and have no death saves.
+ */
+import type { Creature, DeathSaves, DiceRollResult } from '../types';
+
+export const DEATH_SAVE_DC = 10;
+export const DEATH_SAVES_NEEDED = 3; // Successes to stabilize, failures to die
+
+export const NEW_DEATH_SAVES: DeathSaves = { successes: 0, failures: 0 };
+
+export function isPlayerCharacter(creature: Creature): boolean {
+  return creature.statblock.type === 'pc';
+}
+
+/**
+ * A PC at 0 HP that's neither stable nor dead, and rolls death saves on its turn
+ */
+export function isDying(creature: Creature): boolean {
+  return isPlayerCharacter(creature) && creature.currentHp === 0 && !creature.deathSaves?.stable && !creature.deathSaves?.dead;
+}
+
+/**
+ * Whether a creature is dead: an NPC at 0 HP, or a PC that failed its death saves
+ */
+export function isDead(creature: Creature): boolean {
+  return isPlayerCharacter(creature) ? !!creature.deathSaves?.dead : creature.currentHp === 0;
+}
+
+/**
+ * Add failures, dying at three
+ */
+export function addDeathSaveFailures(saves: DeathSaves | undefined, count: number): DeathSaves {
+  const failures = Math.min(DEATH_SAVES_NEEDED, (saves?.failures ?? 0) + count);
+  return { successes: saves?.successes ?? 0, failures, ...(failures >= DEATH_SAVES_NEEDED && { dead: true }) };
+}
+
+export interface DeathSaveOutcome {
+  deathSaves?: DeathSaves; // Undefined when the creature is back on its feet
+  regainsHp: boolean;
+  summary: string; // e.g. "success (2/3)"
+}
+
+/**
+ * Apply one death save roll
+ */
+export function applyDeathSave(saves: DeathSaves | undefined, roll: DiceRollResult): DeathSaveOutcome {
+  const natural = roll.rolls[0];
+  if (natural === 20) return { regainsHp: true, summary: 'natural 20, regains 1 HP' };
+  if (natural === 1) {
+    const deathSaves = addDeathSaveFailures(saves, 2);
+    return { deathSaves, regainsHp: false, summary: deathSaves.dead ? 'natural 1, dies' : `natural 1, two failures (${deathSaves.failures}/${DEATH_SAVES_NEEDED})` };
+  }
+  if (roll.total < DEATH_SAVE_DC) {
+    const deathSaves = addDeathSaveFailures(saves, 1);
+    return { deathSaves, regainsHp: false, summary: deathSaves.dead ? 'failure, dies' : `failure (${deathSaves.failures}/${DEATH_SAVES_NEEDED})` };
+  }
+  const successes = Math.min(DEATH_SAVES_NEEDED, (saves?.successes ?? 0) + 1);
+  const stable = successes >= DEATH_SAVES_NEEDED;
+  return {
+    deathSaves: { successes, failures: saves?.failures ?? 0, ...(stable && { stable }) },
+    regainsHp: false,
+    summary: stable ? 'success, stable' : `success (${successes}/${DEATH_SAVES_NEEDED})`,
+  };
+}
@@ -9,6 +9,7 @@
  */
 
 import { DiceRollResult } from '../types';
+import { random } from './randomTape';
 
 // ==========================================
 // Core Dice Rolling
@@ -18,7 +19,7 @@ import { DiceRollResult } from '../types';
  * Roll a single die
  */
 export function rollDie(sides: number): number {
-  return Math.floor(Math.random() * sides) + 1;
+  return Math.floor(random() * sides) + 1;
 }
 
 /**
@@ -120,10 +121,13 @@ function parseDiceNotation(notation: string): ParsedDice {
 // ==========================================
 
 /**
- * Roll a d20 with optional modifier
+ * Roll a d20 with optional modifier, and advantage/disadvantage (they cancel out)
  */
-export function rollD20(modifier = 0): DiceRollResult {
-  return roll(modifier >= 0 ? `1d20+${modifier}` : `1d20${modifier}`);
+export function rollD20(modifier = 0, advantage = false, disadvantage = false): DiceRollResult {
+  let notation = modifier >= 0 ? `1d20+${modifier}` : `1d20${modifier}`;
+  if (advantage && !disadvantage) notation += ' adv';
+  if (disadvantage && !advantage) notation += ' dis';
+  return roll(notation);
 }
 
 /**
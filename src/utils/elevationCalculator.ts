@@ -3,12 +3,12 @@
  * Handles elevation-based combat modifiers for attack rolls, range, and cover
  */
 
-import { Position, ElevationZone, Vehicle, CoverType } from '../types';
+import { Position, ElevationZone, MapRegion, Vehicle, CoverType } from '../types';
 
 /**
- * Check if a position is within an elevation zone
+ * Check if a position is within a rectangular map region (elevation or current zone)
  */
-function isPositionInZone(position: Position, zone: ElevationZone): boolean {
+export function isPositionInZone(position: Position, zone: MapRegion): boolean {
   return (
     position.x >= zone.position.x &&
     position.x <= zone.position.x + zone.size.width &&
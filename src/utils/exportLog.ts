@@ -1,4 +1,5 @@
 import type { CombatState, LogEntry } from '../types';
+import { formatRollResult } from './diceEngine';
 
 function toDate(ts: Date | string): Date {
   return typeof ts === 'string' ? new Date(ts) : ts;
@@ -17,7 +18,8 @@ function formatTime(ts: Date | string): string {
 function formatEntry(entry: LogEntry): string {
   const time = formatTime(entry.timestamp);
   const detail = entry.details ? ` _(${entry.details})_` : '';
-  return `- \`[${time}]\` **${entry.type}** — ${entry.action}${detail}`;
+  const rolls = entry.rolls?.length ? ` \`${entry.rolls.map(formatRollResult).join('; ')}\`` : '';
+  return `- \`[${time}]\` **${entry.type}** — ${entry.action}${detail}${rolls}`;
 }
 
 export function formatLogAsMarkdown(state: CombatState): string {
@@ -0,0 +1,102 @@
+/**
+ * Legendary and lair actions (MM p. 11).
+ *
+ * A legendary creature has a pool of legendary actions each round (usually 3) and may spend
+ * them at the end of another creature's turn, one option at a time. Some options cost 2 or 3
+ * ("Wing Attack (Costs 2 Actions)"). The pool refills at the start of its own turn, and it
+ * can't act while incapacitated. A boss riding a vehicle takes its turn on the vehicle's, so
+ * legendary actions are offered at the end of every other turn.
+ *
+ * Lair actions happen on initiative count 20, losing ties, as a pseudo-entry in the
+ * initiative order (LAIR_TURN_ID). Combat starts with it when a creature has lair actions on
+ * its statblock (imported from Open5e or typed into the creature's edit form), and the DM can
+ * add or remove it. One lair action is taken per round; the
+ * pseudo-entry's turn actions record it like any creature's action.
+ */
+import type { CombatState, Creature, StatblockAction } from '../types';
+import { getCreaturesActingOnTurn } from './actionEconomy';
+import { isIncapacitated } from './conditionEffects';
+
+export const LAIR_TURN_ID = 'lair';
+export const LAIR_INITIATIVE = 20;
+export const DEFAULT_LEGENDARY_ACTIONS = 3;
+
+const COST_RE = /\(costs?\s+(\d)\s+actions?\)/i;
+const PER_ROUND_RE = /can take (\d+) legendary actions?/i;
+
+export function getLegendaryActionCost(action: StatblockAction): number {
+  if (action.cost !== undefined) return action.cost;
+  const match = action.name.match(COST_RE);
+  return match ? parseInt(match[1], 10) : 1;
+}
+
+/**
+ * Legendary actions per round from a statblock's legendary text ("can take 3 legendary actions")
+ */
+export function parseLegendaryActionsPerRound(description: string | undefined): number | undefined {
+  const match = description?.match(PER_ROUND_RE);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+export function hasLegendaryActions(creature: Creature): boolean {
+  return (creature.statblock.legendaryActions?.length ?? 0) > 0;
+}
+
+export function getLegendaryActionsPerRound(creature: Creature): number {
+  if (!hasLegendaryActions(creature)) return 0;
+  return creature.statblock.legendaryActionsPerRound ?? DEFAULT_LEGENDARY_ACTIONS;
+}
+
+export function getLegendaryActionsRemaining(creature: Creature): number {
+  return creature.legendaryActionsRemaining ?? getLegendaryActionsPerRound(creature);
+}
+
+/**
+ * Lair actions typed one per line, "Name: what happens"
+ */
+export function parseLairActions(text: string): StatblockAction[] | undefined {
+  const actions = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const colon = line.indexOf(':');
+      return colon > 0
+        ? { name: line.slice(0, colon).trim(), description: line.slice(colon + 1).trim() }
+        : { name: line, description: '' };
+    });
+  return actions.length > 0 ? actions : undefined;
+}
+
+export function formatLairActions(actions: StatblockAction[] | undefined): string {
+  return (actions ?? []).map((a) => (a.description ? `${a.name}: ${a.description}` : a.name)).join('\n');
+}
+
+export function hasLairActions(creature: Creature): boolean {
+  return (creature.statblock.lairActions?.length ?? 0) > 0;
+}
+
+export function isLairTurn(turnId: string | undefined): boolean {
+  return turnId === LAIR_TURN_ID;
+}
+
+/**
+ * Legendary creatures that can spend an action at the end of this turn: any with actions left
+ * whose own turn it isn't
+ */
+export function getLegendaryCreaturesAfterTurn(
+  state: Pick<CombatState, 'creatures' | 'crewAssignments'>,
+  turnId: string
+): Creature[] {
+  const acting = isLairTurn(turnId) ? [] : getCreaturesActingOnTurn(turnId, state.crewAssignments);
+  return state.creatures.filter(
+    (c) => hasLegendaryActions(c) && !acting.includes(c.id) && c.currentHp > 0 && !isIncapacitated(c) && getLegendaryActionsRemaining(c) > 0
+  );
+}
+
+/**
+ * Creatures whose lair is in play: lair actions on their statblock and still alive
+ */
+export function getLairCreatures(creatures: Creature[]): Creature[] {
+  return creatures.filter((c) => hasLairActions(c) && c.currentHp > 0);
+}
@@ -0,0 +1,75 @@
+/**
+ * Ramming — the driver's Ram action crashes the vehicle into another vehicle or a creature.
+ *
+ * Damage scales with how far the rammer has moved this round (`movementUsed`): 1d6
+ * bludgeoning per full 10 feet, up to 20d6, rolled separately for the target and for the
+ * rammer (a rammed creature doesn't hurt the vehicle). A ship with an intact naval ram
+ * (Ghosts of Saltmarsh) takes its own share of the crash on the ram, not the hull.
+ *
+ * The rammer has to end its move in contact with the target: within RAM_CONTACT_RANGE feet,
+ * hull to hull (or hull to the creature).
+ *
+ * Both damage rolls go through the usual defenses and damage thresholds (and mishap checks
+ * for war machines). The rammer stops dead for the rest of the round; a target that is still
+ * in the fight is shoved RAM_PUSH_DISTANCE feet away from the rammer. A creature on foot
+ * makes a Dex save: half damage on a success, full damage, prone and shoved on a failure.
+ */
+import type { Creature, Position, Vehicle, VehicleComponent } from '../types';
+import { getComponent, isComponentDestroyed } from './vehicleComponents';
+import { getDistanceToHull, getHullGap } from './boardingCalculator';
+
+export const RAM_SAVE_DC = 15;
+export const RAM_PUSH_DISTANCE = 10; // feet
+export const RAM_MAX_DICE = 20;
+export const RAM_CONTACT_RANGE = 5; // feet
+export const NAVAL_RAM_ID = 'naval_ram';
+
+export interface RamDamageDice {
+  target: string; // e.g. '4d6 bludgeoning'
+  rammer: string;
+  navalRam?: VehicleComponent; // Takes the rammer's share when set
+}
+
+/**
+ * A ship's naval ram, if it has one that isn't destroyed
+ */
+export function getNavalRam(vehicle: Vehicle): VehicleComponent | undefined {
+  const ram = getComponent(vehicle, NAVAL_RAM_ID);
+  return ram && !isComponentDestroyed(vehicle, ram) ? ram : undefined;
+}
+
+/**
+ * Crash damage for a ram after moving `distanceMoved` feet this round, or null when the
+ * vehicle hasn't built up any momentum (less than 10 feet)
+ */
+export function getRamDamageDice(rammer: Vehicle, distanceMoved: number): RamDamageDice | null {
+  const count = Math.min(RAM_MAX_DICE, Math.floor(distanceMoved / 10));
+  if (count === 0) return null;
+  const crash = `${count}d6 bludgeoning`;
+  return { target: crash, rammer: crash, navalRam: getNavalRam(rammer) };
+}
+
+/**
+ * Gap in feet between the rammer and its target, or undefined for a creature that isn't on
+ * the map
+ */
+export function getRamGap(rammer: Vehicle, target: Vehicle | Creature): number | undefined {
+  if ('template' in target) return getHullGap(rammer, target);
+  return target.position ? getDistanceToHull(rammer, target.position) : undefined;
+}
+
+export function isInRamContact(rammer: Vehicle, target: Vehicle | Creature): boolean {
+  const gap = getRamGap(rammer, target);
+  return gap !== undefined && gap <= RAM_CONTACT_RANGE;
+}
+
+/**
+ * Where a rammed token ends up: `distance` feet further along the line from the rammer
+ */
+export function getPushedPosition(from: Position, target: Position, distance: number): Position {
+  const dx = target.x - from.x;
+  const dy = target.y - from.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return target;
+  return { x: target.x + (dx / length) * distance, y: target.y + (dy / length) * distance };
+}
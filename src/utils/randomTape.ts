@@ -0,0 +1,64 @@
+/**
+ * Random Tape
+ *
+ * Dice rolls and new ids made while the reducer handles an action come from here, so a combat
+ * replay can run the same actions and get the same results. Recording collects every random
+ * number and id handed out into a tape; replaying hands them back in order, falling back to
+ * fresh ones if the tape runs short (an action that rolls more on today's rules than when it
+ * was recorded). Outside either, these are just Math.random and uuid.
+ */
+import { v4 as uuid } from 'uuid';
+import type { RandomTape } from '../types';
+
+interface ActiveTape {
+  tape: RandomTape;
+  replaying: boolean;
+  valueIndex: number;
+  idIndex: number;
+}
+
+let active: ActiveTape | null = null;
+
+export function random(): number {
+  if (active?.replaying && active.valueIndex < active.tape.values.length) {
+    return active.tape.values[active.valueIndex++];
+  }
+  const value = Math.random();
+  if (active && !active.replaying) active.tape.values.push(value);
+  return value;
+}
+
+export function newId(): string {
+  if (active?.replaying && active.idIndex < active.tape.ids.length) {
+    return active.tape.ids[active.idIndex++];
+  }
+  const id = uuid();
+  if (active && !active.replaying) active.tape.ids.push(id);
+  return id;
+}
+
+function withTape<T>(tape: RandomTape, replaying: boolean, fn: () => T): T {
+  const previous = active;
+  active = { tape, replaying, valueIndex: 0, idIndex: 0 };
+  try {
+    return fn();
+  } finally {
+    active = previous;
+  }
+}
+
+/**
+ * Run fn, recording the randomness it uses
+ */
+export function recordRandomness<T>(fn: () => T): { result: T; tape: RandomTape } {
+  const tape: RandomTape = { values: [], ids: [] };
+  const result = withTape(tape, false, fn);
+  return { result, tape };
+}
+
+/**
+ * Run fn with the randomness from a recorded tape
+ */
+export function replayRandomness<T>(tape: RandomTape, fn: () => T): T {
+  return withTape(tape, true, fn);
+}
@@ -0,0 +1,121 @@
+/**
+ * Readied actions and reaction triggers.
+ *
+ * A creature that takes the Ready action holds another action for a trigger it names (PHB
+ * ch. 9). When the trigger happens the DM is prompted, and taking the readied action then
+ * uses the creature's reaction. A readied action lasts until the start of the creature's
+ * next turn.
+ *
+ * The tracker watches for three kinds of trigger: a vehicle moving to within range, a
+ * creature boarding the readier's vehicle, and an attack declared against the readier or its
+ * vehicle. Anything else is free text the DM fires by hand.
+ *
+ * A vehicle's Juke is offered the same way: when an attack that calls for a Dex save is
+ * declared against a vehicle that can move, its driver may spend their reaction for advantage
+ * on the vehicle's save.
+ */
+import type { AttackTarget } from './attackResolver';
+import type { CombatState, Creature, ReactionPrompt, ReadiedAction, ReadyTrigger, Vehicle } from '../types';
+import { isVehicleProne } from '../data/mishapTable';
+import { getHullGap, getVehicleSizeInFeet } from './boardingCalculator';
+import { hasSpentReaction } from './actionEconomy';
+
+export const READY_ACTION_NAME = 'Ready';
+export const JUKE_REACTION_NAME = 'Juke';
+
+export const READY_TRIGGERS: Record<ReadyTrigger, { name: string; description: string }> = {
+  vehicle_in_range: { name: 'Vehicle comes within range', description: 'Another vehicle moves to within the range you set' },
+  creature_boards: { name: 'Creature boards', description: "Someone boards the readier's vehicle" },
+  attack_declared: { name: 'Attack is declared', description: 'An attack is declared against the readier or its vehicle' },
+  other: { name: 'Other', description: 'Anything else; trigger it by hand' },
+};
+
+// A trigger that has happened, before it becomes a prompt
+export type ReactionTrigger = Omit<ReactionPrompt, 'id' | 'round'>;
+
+type TriggerState = Pick<CombatState, 'vehicles' | 'creatures' | 'crewAssignments' | 'readiedActions' | 'turnActions'>;
+
+const canReact = (state: TriggerState, creature: Creature | undefined): creature is Creature =>
+  !!creature && creature.currentHp > 0 && !hasSpentReaction(state.turnActions[creature.id]);
+
+const fromReadied = (readied: ReadiedAction, event: string): ReactionTrigger => ({
+  creatureId: readied.creatureId,
+  reaction: readied.action,
+  readiedActionId: readied.id,
+  event,
+});
+
+/**
+ * Readied actions with this trigger whose creature still has its reaction, with where it is
+ */
+function getArmedReadiedActions(state: TriggerState, trigger: ReadyTrigger) {
+  return state.readiedActions.flatMap((readied) => {
+    if (readied.trigger !== trigger) return [];
+    const creature = state.creatures.find((c) => c.id === readied.creatureId);
+    if (!canReact(state, creature)) return [];
+    const assignment = state.crewAssignments.find((a) => a.creatureId === creature.id);
+    const vehicle = assignment ? state.vehicles.find((v) => v.id === assignment.vehicleId) : undefined;
+    return [{ readied, creature, vehicle }];
+  });
+}
+
+/**
+ * Readied actions set off by a vehicle moving to within their range
+ */
+export function findVehicleInRangeTriggers(state: TriggerState, previous: Vehicle, moved: Vehicle): ReactionTrigger[] {
+  return getArmedReadiedActions(state, 'vehicle_in_range').flatMap(({ readied, creature, vehicle }) => {
+    if (readied.range === undefined || vehicle?.id === moved.id) return [];
+    const distanceTo = (v: Vehicle): number | undefined => {
+      if (vehicle) return getHullGap(v, vehicle);
+      if (!creature.position) return undefined;
+      const center = Math.hypot(v.position.x - creature.position.x, v.position.y - creature.position.y);
+      return Math.max(0, Math.round(center - getVehicleSizeInFeet(v.template.size, v.template.id) / 2));
+    };
+    const before = distanceTo(previous);
+    const after = distanceTo(moved);
+    if (before === undefined || after === undefined || before <= readied.range || after > readied.range) return [];
+    return [fromReadied(readied, `${moved.name} moves to within ${after} ft`)];
+  });
+}
+
+/**
+ * Readied actions set off by a creature boarding the readier's vehicle
+ */
+export function findBoardingTriggers(state: TriggerState, boarder: Creature, vehicleId: string): ReactionTrigger[] {
+  return getArmedReadiedActions(state, 'creature_boards').flatMap(({ readied, creature, vehicle }) =>
+    vehicle?.id === vehicleId && creature.id !== boarder.id ? [fromReadied(readied, `${boarder.name} boards ${vehicle.name}`)] : []
+  );
+}
+
+/**
+ * Readied actions and vehicle reactions set off by an attack declared against a target.
+ * `dexSave` is whether the attack calls for a Dex save rather than an attack roll, and
+ * `getDriver` finds the creature at a vehicle's helm.
+ */
+export function findAttackTriggers(
+  state: TriggerState,
+  attacker: Creature,
+  target: AttackTarget,
+  dexSave: boolean,
+  getDriver: (vehicle: Vehicle) => Creature | undefined
+): ReactionTrigger[] {
+  const targetVehicle = target.kind === 'creature' ? undefined : state.vehicles.find((v) => v.id === target.vehicleId);
+  const targetName = targetVehicle?.name ?? state.creatures.find((c) => c.id === (target.kind === 'creature' ? target.creatureId : ''))?.name;
+  const event = `${attacker.name} declares an attack on ${targetName ?? 'a target'}`;
+
+  const triggers = getArmedReadiedActions(state, 'attack_declared').flatMap(({ readied, creature, vehicle }) => {
+    const targeted = target.kind === 'creature' ? target.creatureId === creature.id : vehicle?.id === targetVehicle?.id;
+    return targeted && creature.id !== attacker.id ? [fromReadied(readied, event)] : [];
+  });
+
+  const juke = targetVehicle?.template.reactions?.find((r) => r.name === JUKE_REACTION_NAME);
+  const driver = targetVehicle && getDriver(targetVehicle);
+  if (dexSave && juke && targetVehicle && canMove(targetVehicle) && canReact(state, driver)) {
+    triggers.push({ creatureId: driver.id, reaction: juke.name, vehicleId: targetVehicle.id, event });
+  }
+  return triggers;
+}
+
+function canMove(vehicle: Vehicle): boolean {
+  return !vehicle.isInoperative && !isVehicleProne(vehicle) && vehicle.currentSpeed > 0;
+}
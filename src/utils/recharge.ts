@@ -0,0 +1,113 @@
+/**
+ * Limited-use abilities: recharge rolls and uses per rest (MM p. 11).
+ *
+ * An action marked "Recharge 5–6" is spent when used, and comes back when a d6 rolled at the
+ * start of each of the creature's turns lands in that range ("Recharge 6" needs a 6). Actions
+ * usable a set number of times ("3/Day"), or that recharge after a short or long rest, count
+ * uses instead, as do a vehicle's magical gadgets, which work once before recharging in 24
+ * hours. Use counters reset with the encounter (RESET_COMBAT), which stands in for the rest.
+ */
+import type { Creature, DiceRollResult, StatblockAction, Vehicle } from '../types';
+import { roll } from './diceEngine';
+
+export const GADGET_USES_PER_REST = 1; // Gadgets recharge in 24 hours
+
+const RECHARGE_RE = /^(?:recharge\s+)?([1-6])(?:\s*[-–]\s*6)?$/i;
+const NAME_RECHARGE_RE = /\(recharge\s+([1-6])(?:\s*[-–]\s*6)?\)/i;
+const PER_DAY_RE = /(\d+)\s*\/\s*day/i;
+const PER_REST_RE = /(short|long) rest/i;
+
+/**
+ * The recharge text in an action name ("Fire Breath (Recharge 5–6)" gives "5-6"), or a
+ * rest-based recharge ("Recharges after a Short or Long Rest")
+ */
+export function parseRecharge(name: string): string | undefined {
+  const match = name.match(NAME_RECHARGE_RE);
+  if (match) return match[1] === '6' ? '6' : `${match[1]}-6`;
+  const perDay = name.match(PER_DAY_RE);
+  if (perDay) return `${perDay[1]}/day`;
+  if (/recharges after a (short|long)/i.test(name)) return 'short rest';
+  return undefined;
+}
+
+/**
+ * Lowest d6 roll that recharges the action, or undefined if it doesn't recharge on a roll
+ */
+export function getRechargeThreshold(action: StatblockAction): number | undefined {
+  const match = action.recharge?.trim().match(RECHARGE_RE) ?? action.name.match(NAME_RECHARGE_RE);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Uses between rests: "3/Day" gives 3, a short or long rest recharge 1
+ */
+export function getUsesPerRest(action: StatblockAction): number | undefined {
+  if (getRechargeThreshold(action) !== undefined) return undefined;
+  const text = `${action.recharge ?? ''} ${action.name}`;
+  const perDay = text.match(PER_DAY_RE);
+  if (perDay) return parseInt(perDay[1], 10);
+  return PER_REST_RE.test(text) ? 1 : undefined;
+}
+
+export function isLimitedUse(action: StatblockAction): boolean {
+  return getRechargeThreshold(action) !== undefined || getUsesPerRest(action) !== undefined;
+}
+
+/**
+ * "Recharge 5–6", "Recharge 6" or "2/3 left"
+ */
+export function formatAbilityLimit(action: StatblockAction, used: number): string {
+  const threshold = getRechargeThreshold(action);
+  if (threshold !== undefined) return threshold === 6 ? 'Recharge 6' : `Recharge ${threshold}–6`;
+  const uses = getUsesPerRest(action) ?? 0;
+  return `${Math.max(0, uses - used)}/${uses} left`;
+}
+
+/**
+ * Every action, bonus action and reaction on the creature's statblock with a limit
+ */
+export function getLimitedActions(creature: Creature): StatblockAction[] {
+  const { actions = [], bonusActions = [], reactions = [] } = creature.statblock;
+  return [...actions, ...bonusActions, ...reactions].filter(isLimitedUse);
+}
+
+export function getAbilityUses(creature: Creature, actionName: string): number {
+  return creature.abilityUses?.[actionName] ?? 0;
+}
+
+/**
+ * Whether the creature can use the action now: recharged, or with uses left
+ */
+export function isAbilityAvailable(creature: Creature, action: StatblockAction): boolean {
+  const used = getAbilityUses(creature, action.name);
+  if (getRechargeThreshold(action) !== undefined) return used === 0;
+  const uses = getUsesPerRest(action);
+  return uses === undefined || used < uses;
+}
+
+/**
+ * Spent recharge actions of a creature, to roll for at the start of its turn
+ */
+export function getSpentRechargeActions(creature: Creature): StatblockAction[] {
+  return getLimitedActions(creature).filter(
+    (a) => getRechargeThreshold(a) !== undefined && getAbilityUses(creature, a.name) > 0
+  );
+}
+
+export interface RechargeRoll {
+  roll: DiceRollResult;
+  recharged: boolean;
+}
+
+export function rollRecharge(action: StatblockAction): RechargeRoll {
+  const result = roll('1d6');
+  return { roll: result, recharged: result.total >= (getRechargeThreshold(action) ?? 7) };
+}
+
+export function getGadgetUses(vehicle: Vehicle, gadgetId: string): number {
+  return vehicle.gadgetUses?.[gadgetId] ?? 0;
+}
+
+export function isGadgetAvailable(vehicle: Vehicle, gadgetId: string): boolean {
+  return getGadgetUses(vehicle, gadgetId) < GADGET_USES_PER_REST;
+}
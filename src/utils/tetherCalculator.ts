@@ -0,0 +1,131 @@
+/**
+ * Tethers — a vehicle held to another by a harpoon chain, a grappling claw or Grasping Rounds.
+ *
+ * - Harpoon Flinger: the harpoon stays in the target on its chain, as long as the flinger's
+ *   range. Escape DC 13.
+ * - Grappling Claw (Avernus): the target is grappled (escape DC 12) within the claw's 15-ft
+ *   reach. The claw holds one target at a time; its operator can release it as a bonus action.
+ * - Grasping Rounds (Superior Ship Upgrades): on a hit to a ship, it makes a DC 14 Str save or
+ *   can't move away from the attacker. The tether is as long as the gap when it hit, and an
+ *   action ends it, no check needed.
+ *
+ * Lengths are measured hull to hull (see getHullGap). A vehicle that moves past the length
+ * drags the other one along if it is stronger (higher Str score), otherwise it stops at the
+ * end of the line. Breaking free is a Strength check for the held vehicle, made by one of
+ * its crew with their action.
+ */
+import type { Position, Tether, TetherSource, Vehicle, VehicleWeapon } from '../types';
+import { getModifier } from '../types';
+import { getHullGap } from './boardingCalculator';
+import { getInstalledNavalUpgrades } from '../data/navalUpgrades';
+
+export const GRASPING_ROUNDS_ID = 'grasping_rounds';
+
+export interface TetherSourceSpec {
+  name: string;
+  escapeDC: number;
+  length?: number; // undefined: the gap when it hit
+  saveToResist?: boolean; // The target saves (Str vs escapeDC) before it's held
+  endsWithAction?: boolean; // No check: spending the action frees the vehicle
+  description: string;
+}
+
+export const TETHER_SOURCES: Record<TetherSource, TetherSourceSpec> = {
+  harpoon: {
+    name: 'Harpoon',
+    escapeDC: 13,
+    length: 120,
+    description: 'Chained to the harpoon flinger; escape DC 13 Str',
+  },
+  grappling_claw: {
+    name: 'Grappling Claw',
+    escapeDC: 12,
+    length: 15,
+    description: 'Grappled within 15 ft; escape DC 12 Str, or the operator releases it as a bonus action',
+  },
+  grasping_rounds: {
+    name: 'Grasping Rounds',
+    escapeDC: 14,
+    saveToResist: true,
+    endsWithAction: true,
+    description: "DC 14 Str save or can't move away from the attacker; an action ends it",
+  },
+};
+
+export interface TetheringWeapon {
+  source: TetherSource;
+  weapon: VehicleWeapon;
+}
+
+/**
+ * The weapons on a vehicle that can tether what they hit
+ */
+export function getTetheringWeapons(vehicle: Vehicle): TetheringWeapon[] {
+  const graspingRounds = getInstalledNavalUpgrades(vehicle).some((u) => u.id === GRASPING_ROUNDS_ID);
+  return vehicle.weapons.flatMap((weapon): TetheringWeapon[] => {
+    if (weapon.id.startsWith('harpoon_flinger')) return [{ source: 'harpoon', weapon }];
+    if (weapon.id === 'grappling_claw') return [{ source: 'grappling_claw', weapon }];
+    return graspingRounds && weapon.attackBonus !== undefined ? [{ source: 'grasping_rounds', weapon }] : [];
+  });
+}
+
+/**
+ * How far a tether from this weapon can reach when it hits
+ */
+export function getTetherReach(source: TetherSource, weapon: VehicleWeapon): number {
+  const range = parseInt(weapon.range?.match(/(\d+)\s*ft/)?.[1] ?? '', 10);
+  return TETHER_SOURCES[source].length ?? (isNaN(range) ? 0 : range);
+}
+
+export function getTethersForVehicle(tethers: Tether[], vehicleId: string): Tether[] {
+  return tethers.filter((t) => t.sourceVehicleId === vehicleId || t.targetVehicleId === vehicleId);
+}
+
+export function getVehicleStrength(vehicle: Vehicle): number {
+  return vehicle.template.abilityScores?.str ?? 10;
+}
+
+/**
+ * Modifier for the held vehicle's check to break free (and its save against Grasping Rounds)
+ */
+export function getBreakFreeModifier(vehicle: Vehicle): number {
+  return getModifier(getVehicleStrength(vehicle));
+}
+
+export interface TetherMove {
+  position: Position; // Where the moving vehicle ends up
+  dragged?: { vehicleId: string; position: Position }; // The other vehicle, pulled along
+  stoppedBy?: Tether; // The tether that held the mover back
+}
+
+const moveToward = (from: Position, toward: Position, distance: number): Position => {
+  const dx = toward.x - from.x;
+  const dy = toward.y - from.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return from;
+  return { x: from.x + (dx / length) * distance, y: from.y + (dy / length) * distance };
+};
+
+/**
+ * Hold a vehicle's move to its tethers: past a tether's length it drags the other vehicle
+ * the extra distance when it is stronger, or is pulled back to the end of the line.
+ */
+export function constrainTetheredMove(mover: Vehicle, position: Position, vehicles: Vehicle[], tethers: Tether[]): TetherMove {
+  const move: TetherMove = { position };
+  for (const tether of getTethersForVehicle(tethers, mover.id)) {
+    const otherId = tether.sourceVehicleId === mover.id ? tether.targetVehicleId : tether.sourceVehicleId;
+    const other = vehicles.find((v) => v.id === otherId);
+    if (!other) continue;
+
+    const excess = getHullGap({ ...mover, position: move.position }, other) - tether.length;
+    if (excess <= 0) continue;
+
+    if (!move.dragged && getVehicleStrength(mover) > getVehicleStrength(other)) {
+      move.dragged = { vehicleId: other.id, position: moveToward(other.position, move.position, excess) };
+    } else {
+      move.position = moveToward(move.position, other.position, excess);
+      move.stoppedBy = tether;
+    }
+  }
+  return move;
+}
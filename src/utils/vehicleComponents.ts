@@ -8,8 +8,18 @@
  * Destroyed components have mechanical effects: hull → ship wrecked (handled by
  * the existing currentHp === 0 path), control → can't turn, movement → propulsion
  * cut, weapon → can't fire.
+ *
+ * Ships with a crew pool (deck crew / rowers) also need hands: a component is
+ * worked by the crew at its station — the crew pool for sails and oars (split
+ * between them by the hands each needs), the weapon's own station for a weapon.
+ * A movement component short of its `crewRequired` gives speed in proportion to
+ * the crew working it, and a short-handed weapon can't fire (FIRE_VEHICLE_WEAPON
+ * checks its station).
  */
-import type { Vehicle, VehicleComponent } from '../types';
+import type { CrewAssignment, Vehicle, VehicleComponent, VehicleZone, Wind } from '../types';
+import { getSailSpeed, isSailComponent } from './windCalculator';
+import { getCrewPoolCount, getCrewPoolZones } from '../data/shipCrew';
+import { isVehicleProne } from '../data/mishapTable';
 
 export function hasComponents(vehicle: Vehicle): boolean {
   return !!vehicle.template.components && vehicle.template.components.length > 0;
@@ -19,6 +29,19 @@ export function getComponent(vehicle: Vehicle, componentId: string): VehicleComp
   return vehicle.template.components?.find((c) => c.id === componentId);
 }
 
+/**
+ * Component HP with every entry held to its component's (possibly smaller) maximum
+ */
+export function capComponentHp(vehicle: Vehicle): Vehicle['componentHp'] {
+  if (!vehicle.componentHp) return vehicle.componentHp;
+  return Object.fromEntries(
+    Object.entries(vehicle.componentHp).map(([id, hp]) => {
+      const component = getComponent(vehicle, id);
+      return [id, component ? Math.min(hp, component.maxHp) : hp];
+    })
+  );
+}
+
 /** Current HP of a component. Hull reflects the vehicle's currentHp. */
 export function getComponentHp(vehicle: Vehicle, component: VehicleComponent): number {
   if (component.kind === 'hull') return vehicle.currentHp;
@@ -44,20 +67,107 @@ export function canVehicleTurn(vehicle: Vehicle): boolean {
 }
 
 /**
- * Speed cap from propulsion: the best speed among surviving movement components.
+ * Hands at a station: the headcount of a crew pool plus the creatures assigned to it
+ */
+function getStationCrew(vehicle: Vehicle, zone: VehicleZone, crewAssignments: CrewAssignment[]): number {
+  return (
+    (zone.crewPool ? getCrewPoolCount(vehicle, zone) : 0) +
+    crewAssignments.filter((a) => a.vehicleId === vehicle.id && a.zoneId === zone.id).length
+  );
+}
+
+/**
+ * Hands working a component. Sails and oars share the crew pools, each getting
+ * its part by the hands it needs, so the same sailors aren't counted twice; a
+ * weapon is worked by whoever is at its station.
+ */
+export function getComponentCrew(vehicle: Vehicle, component: VehicleComponent, crewAssignments: CrewAssignment[]): number {
+  if (component.kind === 'movement') {
+    const pool = getCrewPoolZones(vehicle).reduce((sum, zone) => sum + getStationCrew(vehicle, zone, crewAssignments), 0);
+    const required = (vehicle.template.components ?? [])
+      .filter((c) => c.kind === 'movement')
+      .reduce((sum, c) => sum + (c.crewRequired ?? 0), 0);
+    if (!component.crewRequired || required === 0) return pool;
+    return Math.floor((pool * component.crewRequired) / required);
+  }
+  if (component.kind !== 'weapon') return 0;
+  const zoneId = vehicle.weapons.find((w) => w.id === component.id)?.zoneId;
+  const zone = vehicle.template.zones.find((z) => z.id === zoneId);
+  return zone ? getStationCrew(vehicle, zone, crewAssignments) : 0;
+}
+
+/**
+ * How many hands a component is short of its crewRequired. 0 when the component
+ * needs no crew or the ship doesn't track a crew pool.
+ */
+export function getComponentCrewShortfall(vehicle: Vehicle, component: VehicleComponent, crewAssignments: CrewAssignment[]): number {
+  if (getCrewPoolZones(vehicle).length === 0 || !component.crewRequired) return 0;
+  return Math.max(0, component.crewRequired - getComponentCrew(vehicle, component, crewAssignments));
+}
+
+/**
+ * Speed a movement component gives — sails read the wind when one is set, and a
+ * short-handed component gives speed in proportion to its crew (rounded down to 5 ft).
+ */
+function getMovementComponentSpeed(
+  vehicle: Vehicle,
+  component: VehicleComponent,
+  crewAssignments: CrewAssignment[],
+  wind?: Wind
+): number {
+  const speed = wind && isSailComponent(component) ? getSailSpeed(vehicle, component, wind) : (component.speed ?? 0);
+  const shortfall = getComponentCrewShortfall(vehicle, component, crewAssignments);
+  if (shortfall === 0 || !component.crewRequired) return speed;
+  const crewed = (component.crewRequired - shortfall) / component.crewRequired;
+  return Math.floor((speed * crewed) / 5) * 5;
+}
+
+/**
+ * Speed cap from propulsion: the best speed among surviving movement components,
+ * after any crew shortfall.
  * Infinity when the vehicle has no movement components (land vehicles are uncapped);
  * 0 when it has movement components but all are destroyed (dead in the water).
  */
-export function getPropulsionSpeedCap(vehicle: Vehicle): number {
+export function getPropulsionSpeedCap(vehicle: Vehicle, crewAssignments: CrewAssignment[], wind?: Wind): number {
   const movement = vehicle.template.components?.filter((c) => c.kind === 'movement') ?? [];
   if (movement.length === 0) return Infinity;
   let best = 0;
   for (const c of movement) {
-    if (getComponentHp(vehicle, c) > 0) best = Math.max(best, c.speed ?? 0);
+    if (getComponentHp(vehicle, c) > 0) best = Math.max(best, getMovementComponentSpeed(vehicle, c, crewAssignments, wind));
   }
   return best;
 }
 
+/**
+ * Base speed before mishaps. Under a set wind, sail-driven ships move at whatever
+ * their propulsion gives them (running with the wind beats the flat speed);
+ * everything else uses the vehicle's current speed.
+ */
+export function getWindAdjustedSpeed(vehicle: Vehicle, crewAssignments: CrewAssignment[], wind?: Wind): number {
+  const hasSails = vehicle.template.components?.some((c) => c.kind === 'movement' && isSailComponent(c));
+  if (!wind || !hasSails) return vehicle.currentSpeed;
+  return getPropulsionSpeedCap(vehicle, crewAssignments, wind);
+}
+
+/**
+ * Speed a vehicle can move this round: wind and crew, mishaps, the propulsion cap
+ * and speed modifiers (e.g. half speed). A flipped vehicle doesn't move.
+ */
+export function getEffectiveVehicleSpeed(vehicle: Vehicle, crewAssignments: CrewAssignment[], wind?: Wind): number {
+  if (isVehicleProne(vehicle)) return 0;
+  let speed = getWindAdjustedSpeed(vehicle, crewAssignments, wind);
+  for (const mishap of vehicle.activeMishaps) {
+    if (mishap.mechanicalEffect?.speedReduction) {
+      speed -= mishap.mechanicalEffect.speedReduction;
+    }
+  }
+  speed = Math.min(speed, getPropulsionSpeedCap(vehicle, crewAssignments, wind));
+  for (const mod of vehicle.speedModifiers || []) {
+    speed = Math.floor(speed * mod.multiplier);
+  }
+  return Math.max(0, speed);
+}
+
 /** Short status label for a destroyed component, for UI. */
 export function destroyedEffectLabel(component: VehicleComponent): string {
   switch (component.kind) {
@@ -68,3 +178,12 @@ export function destroyedEffectLabel(component: VehicleComponent): string {
     default: return 'Destroyed';
   }
 }
+
+/** Short status label for a component that is short of crew, for UI. */
+export function crewShortfallEffectLabel(component: VehicleComponent): string {
+  switch (component.kind) {
+    case 'movement': return 'Reduced speed';
+    case 'weapon': return "Can't fire until crewed";
+    default: return 'Short-handed';
+  }
+}
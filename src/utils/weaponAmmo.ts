@@ -0,0 +1,86 @@
+/**
+ * Weapon ammunition and siege weapon loading.
+ *
+ * A weapon with an "Ammunition (N …)" property (the Harpoon Flinger's 10 harpoons, the
+ * Infernal Screamer's 3 uses) carries N rounds: `ammunition` is the capacity and
+ * `currentAmmunition` what's left. Each shot spends one, a weapon at 0 can't fire, and a crew
+ * member can spend their action restocking it from the spare rounds in the vehicle's cargo
+ * (Vehicle.ammunitionStores). Weapons without the property aren't tracked.
+ *
+ * Siege weapons (DMG, ch. 8) must be loaded and aimed before each shot: a ballista takes one
+ * action to load and one to aim, a mangonel two of each (WeaponTemplate.loadActions /
+ * aimActions). Any crew at the station can put their action toward the next step, and
+ * firing takes the weapon's full crewRequired at the station.
+ */
+import type { VehicleTemplate, VehicleWeapon, WeaponTemplate } from '../types';
+
+const AMMUNITION_RE = /ammunition\s*\((\d+)/i;
+
+/**
+ * Rounds a weapon holds when fully stocked, or undefined if it doesn't track ammunition
+ */
+export function getAmmunitionCapacity(weapon: WeaponTemplate & { ammunition?: number }): number | undefined {
+  if (weapon.ammunition !== undefined) return weapon.ammunition;
+  for (const property of weapon.properties ?? []) {
+    const match = property.match(AMMUNITION_RE);
+    if (match) return parseInt(match[1], 10);
+  }
+  return undefined;
+}
+
+/**
+ * Ammunition fields for a weapon placed on a vehicle: fully stocked when it tracks ammunition
+ */
+export function getStartingAmmunition(weapon: WeaponTemplate): Pick<VehicleWeapon, 'ammunition' | 'currentAmmunition'> {
+  const capacity = getAmmunitionCapacity(weapon);
+  return { ammunition: capacity, currentAmmunition: capacity };
+}
+
+/**
+ * Load and aim steps for a weapon saved before they were tracked, from its template's weapon
+ */
+export function getMissingSiegeSteps(
+  weapon: VehicleWeapon,
+  template: VehicleTemplate | undefined
+): Pick<VehicleWeapon, 'loadActions' | 'aimActions'> | undefined {
+  if (weapon.loadActions !== undefined || weapon.aimActions !== undefined) return undefined;
+  const source = template?.weapons.find((w) => w.id === weapon.id);
+  if (!source || (source.loadActions === undefined && source.aimActions === undefined)) return undefined;
+  return { loadActions: source.loadActions, aimActions: source.aimActions };
+}
+
+export function isOutOfAmmunition(weapon: VehicleWeapon): boolean {
+  return weapon.currentAmmunition !== undefined && weapon.currentAmmunition <= 0;
+}
+
+/**
+ * Rounds a weapon can take from the stores right now
+ */
+export function getResupplyAmount(weapon: VehicleWeapon, stores: number): number {
+  const capacity = getAmmunitionCapacity(weapon);
+  if (capacity === undefined) return 0;
+  return Math.max(0, Math.min(stores, capacity - (weapon.currentAmmunition ?? capacity)));
+}
+
+export function isSiegeWeapon(weapon: WeaponTemplate): boolean {
+  return (weapon.loadActions ?? 0) > 0 || (weapon.aimActions ?? 0) > 0;
+}
+
+export interface SiegeStage {
+  step: 'load' | 'aim' | 'fire';
+  done: number; // Actions spent on this step so far
+  needed: number;
+}
+
+/**
+ * Where a siege weapon is in its load → aim → fire sequence (undefined for other weapons)
+ */
+export function getSiegeStage(weapon: VehicleWeapon): SiegeStage | undefined {
+  if (!isSiegeWeapon(weapon)) return undefined;
+  const load = weapon.loadActions ?? 0;
+  const aim = weapon.aimActions ?? 0;
+  const spent = weapon.siegeActions ?? 0;
+  if (spent < load) return { step: 'load', done: spent, needed: load };
+  if (spent < load + aim) return { step: 'aim', done: spent - load, needed: aim };
+  return { step: 'fire', done: 0, needed: 1 };
+}
@@ -0,0 +1,140 @@
+/**
+ * Wind Calculator
+ * Resolves sail speed from a ship's facing relative to the battlefield wind,
+ * and rolls the optional per-round wind shift
+ */
+
+import { Vehicle, VehicleComponent, VehicleTemplate, Wind, WindStrength } from '../types';
+import { rollDie } from './diceEngine';
+
+export const WIND_STRENGTHS: WindStrength[] = ['calm', 'light', 'moderate', 'strong', 'gale'];
+
+export const WIND_STRENGTH_INFO: Record<WindStrength, { label: string; description: string }> = {
+  calm: { label: 'Calm', description: 'Becalmed — sails give no speed' },
+  light: { label: 'Light', description: 'Sail speeds halved' },
+  moderate: { label: 'Moderate', description: 'Sail speeds as listed' },
+  strong: { label: 'Strong', description: 'Sail speeds as listed' },
+  gale: { label: 'Gale', description: 'No headway into the wind' },
+};
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+// Ever-Full Sails: the ship moves at 60 ft. regardless of the wind
+const EVER_FULL_SAILS_ID = 'ever_full_sails';
+const EVER_FULL_SAILS_SPEED = 60;
+
+/** A ship's point of sail relative to the wind */
+export type PointOfSail = 'with' | 'across' | 'into';
+
+/**
+ * Normalize an angle to 0-359 degrees
+ */
+function normalizeDegrees(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Smallest angle between two bearings (0-180)
+ */
+function angleBetween(a: number, b: number): number {
+  const diff = Math.abs(normalizeDegrees(a) - normalizeDegrees(b));
+  return diff > 180 ? 360 - diff : diff;
+}
+
+/**
+ * Nearest 8-point compass label for a bearing (e.g. 45 → "NE")
+ */
+export function formatCompassPoint(direction: number): string {
+  return COMPASS_POINTS[Math.round(normalizeDegrees(direction) / 45) % 8];
+}
+
+/**
+ * Whether a movement component is wind-driven (has with/into wind speeds)
+ */
+export function isSailComponent(component: VehicleComponent): boolean {
+  return component.speedWithWind !== undefined || component.speedIntoWind !== undefined;
+}
+
+/**
+ * Sail speeds for a ship saved before they were tracked, from its stock template's sails
+ */
+export function fillMissingSailSpeeds(template: VehicleTemplate, source: VehicleTemplate | undefined): VehicleTemplate {
+  const missing = (c: VehicleComponent) => c.kind === 'movement' && !isSailComponent(c);
+  if (!source || !template.components?.some(missing)) return template;
+
+  return {
+    ...template,
+    components: template.components.map((c) => {
+      const sails = missing(c) ? source.components?.find((s) => s.id === c.id && isSailComponent(s)) : undefined;
+      return sails ? { ...c, speedWithWind: sails.speedWithWind, speedIntoWind: sails.speedIntoWind } : c;
+    }),
+  };
+}
+
+/**
+ * Point of sail for a ship facing `facing` degrees.
+ * Within 45° of downwind is running with the wind, within 45° of the wind's
+ * origin is sailing into it, anything else is across it.
+ */
+export function getPointOfSail(facing: number, wind: Wind): PointOfSail {
+  if (angleBetween(facing, wind.direction + 180) <= 45) return 'with';
+  if (angleBetween(facing, wind.direction) <= 45) return 'into';
+  return 'across';
+}
+
+/**
+ * Speed a sail component gives the vehicle under the current wind.
+ * Across the wind uses the component's flat speed; Ever-Full Sails ignore the wind.
+ */
+export function getSailSpeed(vehicle: Vehicle, component: VehicleComponent, wind: Wind): number {
+  if (vehicle.navalUpgradeIds?.includes(EVER_FULL_SAILS_ID)) return EVER_FULL_SAILS_SPEED;
+
+  const pointOfSail = getPointOfSail(vehicle.facing, wind);
+  const listed =
+    pointOfSail === 'with' ? component.speedWithWind ?? component.speed ?? 0
+    : pointOfSail === 'into' ? component.speedIntoWind ?? component.speed ?? 0
+    : component.speed ?? 0;
+
+  switch (wind.strength) {
+    case 'calm':
+      return 0;
+    case 'light':
+      // Halve, rounded down to a 5 ft. increment
+      return Math.floor(listed / 10) * 5;
+    case 'gale':
+      return pointOfSail === 'into' ? 0 : listed;
+    default:
+      return listed;
+  }
+}
+
+/**
+ * Roll the per-round wind shift: on a d6, 1 backs the wind 45° and 6 veers it 45°;
+ * a second d6 eases (1) or freshens (6) it by one strength step.
+ */
+export function rollWindShift(wind: Wind): Wind {
+  const directionRoll = rollDie(6);
+  const strengthRoll = rollDie(6);
+
+  let direction = wind.direction;
+  if (directionRoll === 1) direction -= 45;
+  if (directionRoll === 6) direction += 45;
+
+  let strengthIndex = WIND_STRENGTHS.indexOf(wind.strength);
+  if (strengthRoll === 1) strengthIndex = Math.max(0, strengthIndex - 1);
+  if (strengthRoll === 6) strengthIndex = Math.min(WIND_STRENGTHS.length - 1, strengthIndex + 1);
+
+  return {
+    ...wind,
+    direction: normalizeDegrees(direction),
+    strength: WIND_STRENGTHS[strengthIndex],
+  };
+}
+
+/**
+ * Short description for logs and overlays (e.g. "Moderate wind from the NE")
+ */
+export function describeWind(wind: Wind): string {
+  if (wind.strength === 'calm') return 'Calm';
+  return `${WIND_STRENGTH_INFO[wind.strength].label} wind from the ${formatCompassPoint(wind.direction)}`;
+}